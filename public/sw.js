@@ -1,19 +1,41 @@
+// @ts-check
+/// <reference lib="webworker" />
+
 // Service Worker for VirtualFit Enterprise
-const CACHE_NAME = 'virtualfit-v1.2.0';
-const STATIC_CACHE = 'virtualfit-static-v1.2.0';
-const DYNAMIC_CACHE = 'virtualfit-dynamic-v1.2.0';
-const IMAGE_CACHE = 'virtualfit-images-v1.2.0';
+// Served as-is from /sw.js; type-checked through JSDoc. The message and sync
+// names below must match OfflineSupport (src/services/offlineSupport.ts).
+
+const sw = /** @type {ServiceWorkerGlobalScope} */ (/** @type {unknown} */ (self));
+
+const VERSION = '2.0.0';
+const SHELL_CACHE = `virtualfit-shell-v${VERSION}`;
+const MODEL_CACHE = `virtualfit-models-v${VERSION}`;
+const DYNAMIC_CACHE = `virtualfit-dynamic-v${VERSION}`;
+// Unversioned so catalog images survive worker updates; trimmed instead
+const IMAGE_CACHE = 'virtualfit-images';
+const MAX_IMAGE_ENTRIES = 300;
+
+const SYNC_TAG = 'virtualfit-offline-queue';
+const OFFLINE_DB_NAME = 'VirtualFitOffline';
+const OFFLINE_DB_VERSION = 2;
+const OPERATIONS_STORE = 'operations';
 
-// Assets to cache immediately
-const STATIC_ASSETS = [
+// App shell needed to boot the kiosk with no connectivity
+const SHELL_ASSETS = [
   '/',
-  '/app',
-  '/static/js/bundle.js',
-  '/static/css/main.css',
-  '/manifest.json',
+  '/index.html',
   '/offline.html'
 ];
 
+// TF.js models; weight shards are read from each model.json and cached alongside it
+const MODEL_ASSETS = [
+  '/models/posenet-mobilenet.json',
+  '/models/bodypix-mobilenet.json',
+  '/models/clothing-fit-v2.json',
+  '/models/size-recommendation-v2.json',
+  '/models/style-transfer-v2.json'
+];
+
 // API endpoints to cache
 const CACHEABLE_APIS = [
   '/api/clothing',
@@ -21,99 +43,158 @@ const CACHEABLE_APIS = [
   '/api/analytics'
 ];
 
-// Install event - cache static assets
-self.addEventListener('install', (event) => {
-  console.log('Service Worker installing...');
-  
+/**
+ * @typedef {'save-session' | 'upload-image' | 'track-analytics' | 'sync-preferences' | 'sync-size-feedback'} OperationType
+ *
+ * @typedef {Object} QueuedOperation
+ * @property {string} id
+ * @property {OperationType} type
+ * @property {any} data
+ * @property {number} timestamp
+ * @property {'pending' | 'executing' | 'completed' | 'failed' | 'failed-permanent'} status
+ * @property {string} [idempotencyKey]
+ * @property {number} [nextAttemptAt]
+ * @property {boolean} [overwrite]
+ *
+ * @typedef {{ type: 'OFFLINE_QUEUE_SYNCED', completed: Array<{ id: string, idempotencyKey?: string }> }} QueueSyncedMessage
+ * @typedef {{ type: 'SKIP_WAITING' } | { type: 'CLEAR_CACHE' } | { type: 'CACHE_STATS' }} ClientMessage
+ *
+ * @typedef {ExtendableEvent & { tag: string }} SyncEvent
+ */
+
+// Install event - precache the app shell and models
+sw.addEventListener('install', (event) => {
   event.waitUntil(
     Promise.all([
-      caches.open(STATIC_CACHE).then(cache => {
-        return cache.addAll(STATIC_ASSETS);
-      }),
-      caches.open(DYNAMIC_CACHE),
-      caches.open(IMAGE_CACHE)
-    ]).then(() => {
-      console.log('Service Worker installed successfully');
-      return self.skipWaiting();
-    }).catch(error => {
+      caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_ASSETS)),
+      precacheModels()
+    ]).catch(error => {
       console.error('Service Worker installation failed:', error);
+      throw error;
     })
   );
+  // No skipWaiting here: the page decides when to activate an update (SKIP_WAITING)
 });
 
-// Activate event - clean up old caches
-self.addEventListener('activate', (event) => {
-  console.log('Service Worker activating...');
-  
+// Activate event - clean up caches from previous versions
+sw.addEventListener('activate', (event) => {
+  const currentCaches = [SHELL_CACHE, MODEL_CACHE, DYNAMIC_CACHE, IMAGE_CACHE];
+
   event.waitUntil(
-    caches.keys().then(cacheNames => {
-      return Promise.all(
-        cacheNames.map(cacheName => {
-          if (cacheName !== STATIC_CACHE && 
-              cacheName !== DYNAMIC_CACHE && 
-              cacheName !== IMAGE_CACHE) {
-            console.log('Deleting old cache:', cacheName);
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    }).then(() => {
-      console.log('Service Worker activated');
-      return self.clients.claim();
-    })
+    caches.keys()
+      .then(cacheNames => Promise.all(
+        cacheNames
+          .filter(cacheName => cacheName.startsWith('virtualfit-') && !currentCaches.includes(cacheName))
+          .map(cacheName => caches.delete(cacheName))
+      ))
+      .then(() => sw.clients.claim())
   );
 });
 
 // Fetch event - handle requests with caching strategies
-self.addEventListener('fetch', (event) => {
+sw.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Skip non-GET requests
+  // Skip non-GET requests; writes go through the offline queue
   if (request.method !== 'GET') {
     return;
   }
 
-  // Handle different types of requests
-  if (url.pathname.startsWith('/api/')) {
+  if (url.origin === sw.location.origin && url.pathname.startsWith('/models/')) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  } else if (url.pathname.startsWith('/api/')) {
     event.respondWith(handleApiRequest(request));
   } else if (isImageRequest(request)) {
     event.respondWith(handleImageRequest(request));
-  } else if (isStaticAsset(request)) {
-    event.respondWith(handleStaticAsset(request));
-  } else {
-    event.respondWith(handlePageRequest(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === sw.location.origin && isStaticAsset(request)) {
+    // Hashed build output; cached the first time it is requested
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
   }
 });
 
+/**
+ * Caches each model.json plus the weight shards it lists. A missing model is
+ * skipped so one absent file doesn't block the whole install.
+ * @returns {Promise<void>}
+ */
+async function precacheModels() {
+  const cache = await caches.open(MODEL_CACHE);
+
+  await Promise.all(MODEL_ASSETS.map(async (modelUrl) => {
+    try {
+      const response = await fetch(modelUrl);
+      if (!response.ok) return;
+
+      const manifest = await response.clone().json();
+      await cache.put(modelUrl, response);
+
+      const base = new URL(modelUrl, sw.location.origin);
+      /** @type {string[]} */
+      const weightUrls = (manifest.weightsManifest || [])
+        .flatMap((/** @type {{ paths: string[] }} */ group) => group.paths)
+        .map((/** @type {string} */ path) => new URL(path, base).pathname);
+
+      await cache.addAll(weightUrls);
+    } catch (error) {
+      console.warn('Failed to precache model:', modelUrl, error);
+    }
+  }));
+}
+
+/**
+ * @param {Request} request
+ * @param {string} cacheName
+ * @returns {Promise<Response>}
+ */
+async function cacheFirst(request, cacheName) {
+  const cachedResponse = await caches.match(request);
+  if (cachedResponse) {
+    return cachedResponse;
+  }
+
+  const networkResponse = await fetch(request);
+  if (networkResponse.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, networkResponse.clone());
+  }
+  return networkResponse;
+}
+
 // API request handler - Network first, cache fallback
+/**
+ * @param {Request} request
+ * @returns {Promise<Response>}
+ */
 async function handleApiRequest(request) {
   const url = new URL(request.url);
-  
+
   try {
-    // Try network first
     const networkResponse = await fetch(request);
-    
+
     if (networkResponse.ok && isCacheableApi(url.pathname)) {
-      // Cache successful responses
       const cache = await caches.open(DYNAMIC_CACHE);
-      cache.put(request, networkResponse.clone());
+      await cache.put(request, networkResponse.clone());
     }
-    
+
     return networkResponse;
   } catch (error) {
-    // Network failed, try cache
     const cachedResponse = await caches.match(request);
-    
+
     if (cachedResponse) {
-      // Add offline indicator header
-      const response = cachedResponse.clone();
-      response.headers.set('X-Served-From', 'cache');
-      return response;
+      // Cached headers are immutable, so copy them to add the offline indicator
+      const headers = new Headers(cachedResponse.headers);
+      headers.set('X-Served-From', 'cache');
+      return new Response(cachedResponse.body, {
+        status: cachedResponse.status,
+        statusText: cachedResponse.statusText,
+        headers
+      });
     }
-    
-    // Return offline response for specific endpoints
-    if (url.pathname.includes('/clothing')) {
+
+    if (url.pathname.startsWith('/api/clothing')) {
       return new Response(JSON.stringify({
         items: [],
         offline: true,
@@ -123,32 +204,38 @@ async function handleApiRequest(request) {
         headers: { 'Content-Type': 'application/json' }
       });
     }
-    
+
     throw error;
   }
 }
 
-// Image request handler - Cache first, network fallback
+// Catalog images - Stale-while-revalidate, placeholder when never seen
+/**
+ * @param {Request} request
+ * @returns {Promise<Response>}
+ */
 async function handleImageRequest(request) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cachedResponse = await cache.match(request);
+
+  const networkFetch = fetch(request)
+    .then(async (networkResponse) => {
+      // Opaque cross-origin CDN responses are cached too; they report status 0
+      if (networkResponse.ok || networkResponse.type === 'opaque') {
+        await cache.put(request, networkResponse.clone());
+        await trimCache(IMAGE_CACHE, MAX_IMAGE_ENTRIES);
+      }
+      return networkResponse;
+    });
+
+  if (cachedResponse) {
+    networkFetch.catch(() => undefined);
+    return cachedResponse;
+  }
+
   try {
-    // Check cache first
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
-    
-    // Fetch from network
-    const networkResponse = await fetch(request);
-    
-    if (networkResponse.ok) {
-      // Cache the image
-      const cache = await caches.open(IMAGE_CACHE);
-      cache.put(request, networkResponse.clone());
-    }
-    
-    return networkResponse;
+    return await networkFetch;
   } catch (error) {
-    // Return placeholder image for offline
     return new Response(createPlaceholderImage(), {
       status: 200,
       headers: { 'Content-Type': 'image/svg+xml' }
@@ -156,267 +243,247 @@ async function handleImageRequest(request) {
   }
 }
 
-// Static asset handler - Cache first
-async function handleStaticAsset(request) {
+// Page navigations - Network first, app shell then offline page as fallback
+/**
+ * @param {Request} request
+ * @returns {Promise<Response>}
+ */
+async function handleNavigation(request) {
   try {
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
-    
-    const networkResponse = await fetch(request);
-    
-    if (networkResponse.ok) {
-      const cache = await caches.open(STATIC_CACHE);
-      cache.put(request, networkResponse.clone());
-    }
-    
-    return networkResponse;
+    return await fetch(request);
   } catch (error) {
-    // For critical assets, try to serve from any cache
-    const response = await caches.match(request);
-    if (response) {
-      return response;
+    const shell = await caches.match('/index.html') || await caches.match('/');
+    if (shell) {
+      return shell;
     }
-    
-    throw error;
-  }
-}
 
-// Page request handler - Network first, cache fallback
-async function handlePageRequest(request) {
-  try {
-    const networkResponse = await fetch(request);
-    
-    if (networkResponse.ok) {
-      const cache = await caches.open(DYNAMIC_CACHE);
-      cache.put(request, networkResponse.clone());
-    }
-    
-    return networkResponse;
-  } catch (error) {
-    // Try cache
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
-    
-    // Return offline page
     const offlineResponse = await caches.match('/offline.html');
     if (offlineResponse) {
       return offlineResponse;
     }
-    
-    // Last resort - basic offline page
-    return new Response(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>VirtualFit - Offline</title>
-          <meta name="viewport" content="width=device-width, initial-scale=1">
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              text-align: center; 
-              padding: 50px; 
-              background: #f5f5f5; 
-            }
-            .offline-container {
-              max-width: 400px;
-              margin: 0 auto;
-              background: white;
-              padding: 40px;
-              border-radius: 10px;
-              box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-            }
-            .offline-icon {
-              font-size: 48px;
-              margin-bottom: 20px;
-            }
-            .retry-btn {
-              background: #4f46e5;
-              color: white;
-              border: none;
-              padding: 12px 24px;
-              border-radius: 6px;
-              cursor: pointer;
-              margin-top: 20px;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="offline-container">
-            <div class="offline-icon">📱</div>
-            <h1>You're Offline</h1>
-            <p>VirtualFit needs an internet connection to work properly.</p>
-            <p>Please check your connection and try again.</p>
-            <button class="retry-btn" onclick="window.location.reload()">
-              Try Again
-            </button>
-          </div>
-        </body>
-      </html>
-    `, {
-      status: 200,
-      headers: { 'Content-Type': 'text/html' }
+
+    return new Response('You are offline', {
+      status: 503,
+      headers: { 'Content-Type': 'text/plain' }
     });
   }
 }
 
-// Background sync for offline operations
-self.addEventListener('sync', (event) => {
-  console.log('Background sync triggered:', event.tag);
-  
-  if (event.tag === 'offline-sync') {
-    event.waitUntil(syncOfflineOperations());
+// Evicts the oldest entries; Cache.keys() returns them in insertion order
+/**
+ * @param {string} cacheName
+ * @param {number} maxEntries
+ * @returns {Promise<void>}
+ */
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  const excess = keys.length - maxEntries;
+
+  for (let i = 0; i < excess; i++) {
+    await cache.delete(keys[i]);
+  }
+}
+
+// Background sync - drains the offline queue even if no tab is open
+// 'sync' isn't in the worker's event map, so the listener gets a plain Event
+sw.addEventListener('sync', (event) => {
+  const syncEvent = /** @type {SyncEvent} */ (event);
+  if (syncEvent.tag === SYNC_TAG) {
+    syncEvent.waitUntil(drainOfflineQueue());
   }
 });
 
-async function syncOfflineOperations() {
-  try {
-    // Get offline operations from IndexedDB
-    const operations = await getOfflineOperations();
-    
-    for (const operation of operations) {
-      try {
-        await executeOfflineOperation(operation);
-        await removeOfflineOperation(operation.id);
-      } catch (error) {
-        console.error('Failed to sync operation:', operation.id, error);
+/**
+ * Sends every queued operation that is due. Completed operations are removed
+ * from IndexedDB and reported to open pages; conflicts and server errors are
+ * left in the queue for OfflineSupport, which owns conflict resolution,
+ * backoff and the dead-letter store.
+ * @returns {Promise<void>}
+ */
+async function drainOfflineQueue() {
+  const operations = await getQueuedOperations();
+  /** @type {QueueSyncedMessage['completed']} */
+  const completed = [];
+  let networkFailed = false;
+
+  for (const operation of operations) {
+    if (operation.status === 'failed-permanent' || (operation.nextAttemptAt || 0) > Date.now()) {
+      continue;
+    }
+
+    try {
+      const response = await sendOperation(operation);
+      // Append-only types report 409 when the idempotency key was already applied
+      const alreadyApplied = response.status === 409 && isAppendOnly(operation.type);
+
+      if (response.ok || alreadyApplied) {
+        await removeQueuedOperation(operation.id);
+        completed.push({ id: operation.id, idempotencyKey: operation.idempotencyKey });
       }
+    } catch (error) {
+      // Still offline; stop and let the browser reschedule the sync
+      networkFailed = true;
+      break;
     }
-  } catch (error) {
-    console.error('Background sync failed:', error);
   }
-}
 
-async function getOfflineOperations() {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('VirtualFitOffline', 1);
-    
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(['operations'], 'readonly');
-      const store = transaction.objectStore('operations');
-      const getAllRequest = store.getAll();
-      
-      getAllRequest.onsuccess = () => {
-        resolve(getAllRequest.result);
-      };
-      
-      getAllRequest.onerror = () => {
-        reject(getAllRequest.error);
-      };
-    };
-    
-    request.onerror = () => {
-      reject(request.error);
-    };
-  });
+  if (completed.length > 0) {
+    await postToClients({ type: 'OFFLINE_QUEUE_SYNCED', completed });
+  }
+
+  if (networkFailed) {
+    throw new Error('Offline queue sync incomplete');
+  }
 }
 
-async function executeOfflineOperation(operation) {
-  const { type, data } = operation;
-  
-  switch (type) {
+/**
+ * Mirrors the executors in OfflineSupport; the same idempotency key makes it
+ * safe for the page and the worker to send the same operation.
+ * @param {QueuedOperation} operation
+ * @returns {Promise<Response>}
+ */
+function sendOperation(operation) {
+  const headers = new Headers();
+  headers.set('Idempotency-Key', operation.idempotencyKey || operation.id);
+  headers.set('X-Client-Timestamp', new Date(operation.timestamp).toISOString());
+  if (operation.overwrite) {
+    headers.set('X-Overwrite', 'true');
+  }
+
+  /** @param {string} url @param {string} method @param {any} body */
+  const sendJson = (url, method, body) => {
+    headers.set('Content-Type', 'application/json');
+    return fetch(url, { method, headers, body: JSON.stringify(body) });
+  };
+
+  switch (operation.type) {
     case 'save-session':
-      await fetch('/api/sessions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data)
-      });
-      break;
-      
+      return sendJson('/api/sessions', 'POST', operation.data);
     case 'track-analytics':
-      await fetch('/api/analytics/events', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data)
-      });
-      break;
-      
+      return sendJson('/api/analytics/events', 'POST', operation.data);
+    case 'sync-preferences':
+      return sendJson('/api/users/preferences', 'PUT', operation.data);
+    case 'sync-size-feedback': {
+      const { action, userId, entry } = operation.data;
+      const url = `/api/users/${encodeURIComponent(userId)}/size-feedback`;
+      return action === 'delete'
+        ? fetch(url, { method: 'DELETE', headers })
+        : sendJson(url, 'POST', entry);
+    }
+    case 'upload-image': {
+      const formData = new FormData();
+      formData.append('image', operation.data.file);
+      formData.append('metadata', JSON.stringify(operation.data.metadata));
+      return fetch('/api/images/upload', { method: 'POST', headers, body: formData });
+    }
     default:
-      console.warn('Unknown operation type:', type);
+      return Promise.reject(new Error(`Unknown operation type: ${operation.type}`));
   }
 }
 
-async function removeOfflineOperation(id) {
+/** @param {OperationType} type */
+function isAppendOnly(type) {
+  return type === 'track-analytics' || type === 'upload-image' || type === 'sync-size-feedback';
+}
+
+/** @returns {Promise<IDBDatabase>} */
+function openOfflineDb() {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open('VirtualFitOffline', 1);
-    
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(['operations'], 'readwrite');
-      const store = transaction.objectStore('operations');
-      const deleteRequest = store.delete(id);
-      
-      deleteRequest.onsuccess = () => {
-        resolve();
-      };
-      
-      deleteRequest.onerror = () => {
-        reject(deleteRequest.error);
-      };
-    };
-    
-    request.onerror = () => {
-      reject(request.error);
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      // The page normally creates the schema; this covers a sync firing first
+      if (!request.result.objectStoreNames.contains(OPERATIONS_STORE)) {
+        request.result.createObjectStore(OPERATIONS_STORE, { keyPath: 'id' });
+      }
     };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
   });
 }
 
+/** @returns {Promise<QueuedOperation[]>} */
+async function getQueuedOperations() {
+  const db = await openOfflineDb();
+
+  return new Promise((resolve, reject) => {
+    const getAllRequest = db.transaction([OPERATIONS_STORE], 'readonly').objectStore(OPERATIONS_STORE).getAll();
+    getAllRequest.onsuccess = () => resolve(getAllRequest.result);
+    getAllRequest.onerror = () => reject(getAllRequest.error);
+  });
+}
+
+/**
+ * @param {string} id
+ * @returns {Promise<void>}
+ */
+async function removeQueuedOperation(id) {
+  const db = await openOfflineDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([OPERATIONS_STORE], 'readwrite');
+    transaction.objectStore(OPERATIONS_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * @param {QueueSyncedMessage} message
+ * @returns {Promise<void>}
+ */
+async function postToClients(message) {
+  const windows = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach(client => client.postMessage(message));
+}
+
 // Push notification handler
-self.addEventListener('push', (event) => {
+sw.addEventListener('push', (event) => {
   if (!event.data) return;
-  
+
   const data = event.data.json();
-  
-  const options = {
-    body: data.body,
-    icon: '/icon-192x192.png',
-    badge: '/badge-72x72.png',
-    tag: data.tag || 'virtualfit-notification',
-    data: data.data,
-    actions: data.actions || []
-  };
-  
+
   event.waitUntil(
-    self.registration.showNotification(data.title, options)
+    sw.registration.showNotification(data.title, {
+      body: data.body,
+      icon: '/icon-192x192.png',
+      badge: '/badge-72x72.png',
+      tag: data.tag || 'virtualfit-notification',
+      data: data.data
+    })
   );
 });
 
 // Notification click handler
-self.addEventListener('notificationclick', (event) => {
+sw.addEventListener('notificationclick', (event) => {
   event.notification.close();
-  
+
   const action = event.action;
   const data = event.notification.data;
-  
+
   if (action === 'open-app') {
-    event.waitUntil(
-      clients.openWindow('/app')
-    );
-  } else if (action === 'view-item' && data.itemId) {
-    event.waitUntil(
-      clients.openWindow(`/app?item=${data.itemId}`)
-    );
+    event.waitUntil(sw.clients.openWindow('/app'));
+  } else if (action === 'view-item' && data?.itemId) {
+    event.waitUntil(sw.clients.openWindow(`/app?item=${data.itemId}`));
   } else {
-    event.waitUntil(
-      clients.openWindow('/')
-    );
+    event.waitUntil(sw.clients.openWindow('/'));
   }
 });
 
 // Helper functions
+/** @param {Request} request */
 function isImageRequest(request) {
-  return request.destination === 'image' || 
-         request.url.match(/\.(jpg|jpeg|png|gif|webp|svg)$/i);
+  return request.destination === 'image' ||
+         /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(new URL(request.url).pathname);
 }
 
+/** @param {Request} request */
 function isStaticAsset(request) {
-  return request.url.match(/\.(js|css|woff|woff2|ttf|eot)$/i);
+  return /\.(js|css|woff|woff2|ttf|eot)$/i.test(new URL(request.url).pathname);
 }
 
+/** @param {string} pathname */
 function isCacheableApi(pathname) {
   return CACHEABLE_APIS.some(api => pathname.startsWith(api));
 }
@@ -432,38 +499,42 @@ function createPlaceholderImage() {
   `;
 }
 
-// Cache management
-self.addEventListener('message', (event) => {
-  if (event.data && event.data.type === 'SKIP_WAITING') {
-    self.skipWaiting();
-  } else if (event.data && event.data.type === 'CLEAR_CACHE') {
-    event.waitUntil(clearAllCaches());
-  } else if (event.data && event.data.type === 'CACHE_STATS') {
-    event.waitUntil(getCacheStats().then(stats => {
-      event.ports[0].postMessage(stats);
-    }));
+// Messages from the page
+sw.addEventListener('message', (event) => {
+  /** @type {ClientMessage} */
+  const message = event.data;
+  if (!message) return;
+
+  switch (message.type) {
+    case 'SKIP_WAITING':
+      sw.skipWaiting();
+      break;
+    case 'CLEAR_CACHE':
+      event.waitUntil(clearAllCaches());
+      break;
+    case 'CACHE_STATS':
+      event.waitUntil(getCacheStats().then(stats => {
+        event.ports[0].postMessage(stats);
+      }));
+      break;
   }
 });
 
 async function clearAllCaches() {
   const cacheNames = await caches.keys();
-  await Promise.all(
-    cacheNames.map(cacheName => caches.delete(cacheName))
-  );
-  console.log('All caches cleared');
+  await Promise.all(cacheNames.map(cacheName => caches.delete(cacheName)));
 }
 
 async function getCacheStats() {
   const cacheNames = await caches.keys();
+  /** @type {Record<string, number>} */
   const stats = {};
-  
+
   for (const cacheName of cacheNames) {
     const cache = await caches.open(cacheName);
     const keys = await cache.keys();
     stats[cacheName] = keys.length;
   }
-  
+
   return stats;
 }
-
-console.log('VirtualFit Service Worker loaded');
\ No newline at end of file
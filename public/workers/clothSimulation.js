@@ -0,0 +1,253 @@
+// Cloth Simulation Web Worker
+// Position-based dynamics on a particle grid per garment. The top row is
+// pinned to the waistline and follows the pose; the rest swings under
+// gravity, damping and distance constraints.
+const MAX_STEP = 1 / 15;
+
+let garments = new Map();
+
+self.onmessage = function(e) {
+  const { type, data, id } = e.data;
+
+  try {
+    switch (type) {
+      case 'configure':
+        configure(data.garments);
+        self.postMessage({ type: 'configure-complete', id });
+        break;
+      case 'step': {
+        const message = stepAll(data, id);
+        // Frames are fresh copies, so their buffers can be moved instead of cloned
+        const buffers = message.result.frames.flatMap(frame => [frame.positions.buffer, frame.compression.buffer]);
+        self.postMessage(message, buffers);
+        break;
+      }
+      case 'reset':
+        garments = new Map();
+        self.postMessage({ type: 'reset-complete', id });
+        break;
+      default:
+        throw new Error(`Unknown cloth simulation type: ${type}`);
+    }
+  } catch (error) {
+    self.postMessage({
+      type: 'error',
+      error: error.message,
+      id
+    });
+  }
+};
+
+// Keeps the state of garments whose shape is unchanged so they don't snap back to rest
+function configure(configs) {
+  const next = new Map();
+
+  configs.forEach(config => {
+    const existing = garments.get(config.id);
+    if (existing && sameShape(existing.config, config)) {
+      existing.config = config;
+      next.set(config.id, existing);
+    } else {
+      next.set(config.id, createGarment(config));
+    }
+  });
+
+  garments = next;
+}
+
+function sameShape(a, b) {
+  return a.columns === b.columns && a.rows === b.rows && a.length === b.length && a.flare === b.flare;
+}
+
+function createGarment(config) {
+  const { columns, rows, length, flare } = config;
+  const rest = new Float32Array(columns * rows * 2);
+
+  // Rest shape in units of the waistline width: an A-line panel hanging straight down
+  for (let r = 0; r < rows; r++) {
+    const t = r / (rows - 1);
+    const width = 1 + (flare - 1) * t;
+    for (let c = 0; c < columns; c++) {
+      const i = (r * columns + c) * 2;
+      rest[i] = (c / (columns - 1) - 0.5) * width;
+      rest[i + 1] = t * length;
+    }
+  }
+
+  return {
+    config,
+    rest,
+    constraints: buildConstraints(rest, columns, rows),
+    positions: null,
+    previous: null,
+    anchors: null
+  };
+}
+
+// [particleA, particleB, restLength, kind] with kind 0 structural, 1 shear, 2 bend
+function buildConstraints(rest, columns, rows) {
+  const constraints = [];
+  const add = (a, b, kind) => {
+    const dx = rest[b * 2] - rest[a * 2];
+    const dy = rest[b * 2 + 1] - rest[a * 2 + 1];
+    constraints.push([a, b, Math.hypot(dx, dy), kind]);
+  };
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const i = r * columns + c;
+      if (c + 1 < columns) add(i, i + 1, 0);
+      if (r + 1 < rows) add(i, i + columns, 0);
+      if (c + 1 < columns && r + 1 < rows) {
+        add(i, i + columns + 1, 1);
+        add(i + 1, i + columns, 1);
+      }
+      if (c + 2 < columns) add(i, i + 2, 2);
+      if (r + 2 < rows) add(i, i + columns * 2, 2);
+    }
+  }
+
+  return constraints;
+}
+
+function stepAll(data, id) {
+  const { anchors, dt, gravity } = data;
+  const step = Math.min(Math.max(dt, 0), MAX_STEP);
+  const frames = [];
+
+  garments.forEach((garment, garmentId) => {
+    const anchor = anchors[garmentId];
+    if (!anchor) return;
+
+    if (!garment.positions) {
+      placeAtRest(garment, anchor);
+    } else if (step > 0) {
+      simulate(garment, anchor, step, gravity);
+    }
+    frames.push(buildFrame(garmentId, garment, anchor));
+  });
+
+  return { type: 'step-complete', result: { frames }, id };
+}
+
+// Lays the rest shape out along the body, perpendicular to the waistline
+function placeAtRest(garment, anchor) {
+  const { left, right } = anchor;
+  const width = Math.hypot(right.x - left.x, right.y - left.y) || 1e-3;
+  const ax = (right.x - left.x) / width;
+  const ay = (right.y - left.y) / width;
+  // Perpendicular pointing down the image
+  const bx = -ay;
+  const by = ax;
+  const originX = (left.x + right.x) / 2;
+  const originY = (left.y + right.y) / 2;
+
+  const positions = new Float32Array(garment.rest.length);
+  for (let i = 0; i < positions.length; i += 2) {
+    const u = garment.rest[i] * width;
+    const v = garment.rest[i + 1] * width;
+    positions[i] = originX + ax * u + bx * v;
+    positions[i + 1] = originY + ay * u + by * v;
+  }
+
+  garment.positions = positions;
+  garment.previous = positions.slice();
+  garment.anchors = anchor;
+}
+
+function simulate(garment, anchor, dt, gravity) {
+  const { columns } = garment.config;
+  const { stiffness, bendStiffness, damping, mass, iterations, substeps } = garment.config.parameters;
+  const { positions, previous, constraints } = garment;
+  const from = garment.anchors;
+  const scale = Math.hypot(anchor.right.x - anchor.left.x, anchor.right.y - anchor.left.y) || 1e-3;
+  const h = dt / substeps;
+  const acceleration = gravity * mass * h * h;
+
+  // Spread the per-iteration stiffness so the result doesn't depend on the iteration count
+  const k = [stiffness, stiffness, bendStiffness].map(value => 1 - Math.pow(1 - value, 1 / iterations));
+
+  for (let s = 1; s <= substeps; s++) {
+    const t = s / substeps;
+    const left = lerpPoint(from.left, anchor.left, t);
+    const right = lerpPoint(from.right, anchor.right, t);
+
+    // Pinned waistline follows the pose within the frame
+    for (let c = 0; c < columns; c++) {
+      const u = c / (columns - 1);
+      const i = c * 2;
+      positions[i] = previous[i] = left.x + (right.x - left.x) * u;
+      positions[i + 1] = previous[i + 1] = left.y + (right.y - left.y) * u;
+    }
+
+    // Verlet integration for free particles
+    for (let i = columns * 2; i < positions.length; i += 2) {
+      const vx = (positions[i] - previous[i]) * (1 - damping);
+      const vy = (positions[i + 1] - previous[i + 1]) * (1 - damping);
+      previous[i] = positions[i];
+      previous[i + 1] = positions[i + 1];
+      positions[i] += vx;
+      positions[i + 1] += vy + acceleration;
+    }
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      for (let n = 0; n < constraints.length; n++) {
+        const [a, b, restLength, kind] = constraints[n];
+        const wa = a < columns ? 0 : 1;
+        const wb = b < columns ? 0 : 1;
+        const weight = wa + wb;
+        if (weight === 0) continue;
+
+        const dx = positions[b * 2] - positions[a * 2];
+        const dy = positions[b * 2 + 1] - positions[a * 2 + 1];
+        const distance = Math.hypot(dx, dy);
+        if (distance === 0) continue;
+
+        // Bend constraints only push apart; stretching is left to the structural ones
+        const target = restLength * scale;
+        if (kind === 2 && distance > target) continue;
+
+        const correction = ((distance - target) / distance) * k[kind] / weight;
+        positions[a * 2] += dx * correction * wa;
+        positions[a * 2 + 1] += dy * correction * wa;
+        positions[b * 2] -= dx * correction * wb;
+        positions[b * 2 + 1] -= dy * correction * wb;
+      }
+    }
+  }
+
+  garment.anchors = anchor;
+}
+
+// Horizontal compression per quad; values below 1 mean the fabric is bunched into folds
+function buildFrame(id, garment, anchor) {
+  const { columns, rows } = garment.config;
+  const { positions, rest } = garment;
+  const scale = Math.hypot(anchor.right.x - anchor.left.x, anchor.right.y - anchor.left.y) || 1e-3;
+  const compression = new Float32Array((columns - 1) * (rows - 1));
+  let total = 0;
+
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < columns - 1; c++) {
+      const i = (r * columns + c) * 2;
+      const current = Math.hypot(positions[i + 2] - positions[i], positions[i + 3] - positions[i + 1]);
+      const restLength = Math.hypot(rest[i + 2] - rest[i], rest[i + 3] - rest[i + 1]) * scale;
+      const value = restLength > 0 ? Math.min(current / restLength, 1.5) : 1;
+      compression[r * (columns - 1) + c] = value;
+      total += value;
+    }
+  }
+
+  return {
+    id,
+    columns,
+    rows,
+    positions: positions.slice(),
+    compression,
+    meanCompression: total / compression.length
+  };
+}
+
+function lerpPoint(a, b, t) {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
@@ -0,0 +1,62 @@
+/**
+ * Symbolicates error reports exported from the app (Export Reports in the
+ * error screen's technical details) against a local production build.
+ *
+ *   npx tsx scripts/symbolicate.ts <reports.json> <dist-dir> [--json]
+ *
+ * Bundle URLs in the stacks are mapped to "<dist-dir>/<url path>.map", so the
+ * build must be the one that produced the reports and have source maps on.
+ */
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import StackSymbolicator, { SourceMapLoader } from '../src/services/symbolication';
+
+function createFileSourceMapLoader(distDir: string): SourceMapLoader {
+  return async (file: string) => {
+    const pathname = /^[a-z-]+:\/\//i.test(file) ? new URL(file).pathname : file;
+    try {
+      return JSON.parse(await readFile(join(distDir, `${pathname}.map`), 'utf8'));
+    } catch (error) {
+      return null;
+    }
+  };
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const [reportsPath, distDir] = args.filter(arg => arg !== '--json');
+  if (!reportsPath || !distDir) {
+    console.error('Usage: symbolicate <reports.json> <dist-dir> [--json]');
+    process.exit(1);
+  }
+
+  const exported = JSON.parse(await readFile(reportsPath, 'utf8'));
+  const reports: Array<{ message: string; stack?: string; occurrences?: number; fingerprint?: string }> =
+    Array.isArray(exported) ? exported : exported.reports || [];
+
+  const symbolicator = new StackSymbolicator(createFileSourceMapLoader(distDir));
+  const symbolicated = await Promise.all(reports.map(report => symbolicator.symbolicateReport(report)));
+
+  if (asJson) {
+    console.log(JSON.stringify(symbolicated, null, 2));
+    return;
+  }
+
+  symbolicated.forEach(report => {
+    console.log(`\n${report.message}  [${report.fingerprint || 'no fingerprint'}, ×${report.occurrences || 1}]`);
+    (report.symbolicatedFrames || []).forEach(({ generated, original, context }) => {
+      console.log(original
+        ? `  at ${original.functionName || '<anonymous>'} (${original.source}:${original.line}:${original.column})`
+        : `  at ${generated.functionName || '<anonymous>'} (${generated.file}:${generated.line}:${generated.column}) [unmapped]`);
+      (context || []).forEach(({ line, code, isErrorLine }) => {
+        console.log(`    ${isErrorLine ? '>' : ' '} ${String(line).padStart(5)} | ${code}`);
+      });
+    });
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,11 +1,13 @@
-import React, { useState } from 'react';
-import { Shirt, Sparkles, Sun, Camera, User } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Shirt, Sparkles, Sun, Camera, User, Rotate3d } from 'lucide-react';
 import { EnhancedErrorBoundary } from './components/EnhancedErrorBoundary';
 import PerformanceOptimizer from './services/performanceOptimizer';
 import AccuracyEnhancer from './services/accuracyEnhancer';
 import CompatibilityManager from './services/compatibilityManager';
 import ScalabilityManager from './services/scalabilityManager';
 import OfflineSupport from './services/offlineSupport';
+import BodyCalibrationService from './services/bodyCalibration';
+import OutfitLayeringEngine from './services/outfitLayering';
 import EnhancedErrorHandling from './services/enhancedErrorHandling';
 import PerformanceMonitor from './utils/performanceMonitor';
 import { PerformanceIndicator } from './components/PerformanceIndicator';
@@ -14,15 +16,33 @@ import { ClothingCatalog } from './components/ClothingCatalog';
 import { VirtualTryOn } from './components/VirtualTryOn';
 import { RealTimeTryOn } from './components/RealTimeTryOn';
 import { AdvancedSizeGuide } from './components/AdvancedSizeGuide';
+import { BodyCalibrationPanel } from './components/BodyCalibrationPanel';
+import { MultiViewCapture } from './components/MultiViewCapture';
 import { AIPreferences } from './components/AIPreferences';
 import { LightAdjustment } from './components/LightAdjustment';
+import { AvatarViewer3D } from './components/AvatarViewer3D';
 import { ClothingItem, StylePreferences, LightingSettings } from './types';
-import { mockUser } from './utils/mockData';
+import { mockUser, mockClothingItems } from './utils/mockData';
+import { localizeMeasurements } from './utils/measurementUnits';
+
+// One item per layer (underwear, top, bottom, outerwear) plus an accessory
+const MAX_OUTFIT_ITEMS = 5;
+const outfitLayering = new OutfitLayeringEngine();
+const FAVORITES_STORAGE_KEY = 'virtualfit_favorites';
+
+function loadFavorites(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY) || '[]');
+  } catch (error) {
+    console.warn('Failed to load favorites:', error);
+    return [];
+  }
+}
 
 function App() {
   const [userPhoto, setUserPhoto] = useState<string>('');
   const [selectedItems, setSelectedItems] = useState<ClothingItem[]>([]);
-  const [activeTab, setActiveTab] = useState<'tryon' | 'realtime' | 'catalog' | 'sizeguide' | 'preferences' | 'lighting'>('tryon');
+  const [activeTab, setActiveTab] = useState<'tryon' | 'realtime' | 'catalog' | 'sizeguide' | 'preferences' | 'lighting' | 'avatar'>('tryon');
   const [preferences, setPreferences] = useState<StylePreferences>(mockUser.preferences);
   const [lightingSettings, setLightingSettings] = useState<LightingSettings>({
     brightness: 100,
@@ -33,9 +53,18 @@ function App() {
   });
   const [isInitialized, setIsInitialized] = useState(false);
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [syncNotice, setSyncNotice] = useState<{ message: string; deadLetterId?: string } | null>(null);
+  const [updateAvailable, setUpdateAvailable] = useState(false);
   const [showPerformanceIndicator, setShowPerformanceIndicator] = useState(true);
   const [isRealTimeCameraActive, setIsRealTimeCameraActive] = useState(false);
   const [bodyMeasurements, setBodyMeasurements] = useState<any>(null);
+  const [showMultiViewCapture, setShowMultiViewCapture] = useState(false);
+  // Estimates are in centimeters; the size guide takes measurements that say so
+  const sizeGuideMeasurements = useMemo(
+    () => bodyMeasurements ? localizeMeasurements(bodyMeasurements, 'metric') : undefined,
+    [bodyMeasurements]
+  );
+  const [favoriteIds, setFavoriteIds] = useState<string[]>(loadFavorites);
 
   // Initialize enhanced services
   React.useEffect(() => {
@@ -85,9 +114,27 @@ function App() {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
+    // Surface sync conflicts and operations that gave up retrying
+    const unsubscribeConflicts = OfflineSupport.getInstance().onConflict(conflict => {
+      if (conflict.resolution === 'server-wins' && conflict.operation.type === 'sync-preferences') {
+        setSyncNotice({ message: 'Your preferences were updated on another device, so offline changes were not applied.' });
+      }
+    });
+    const handleDeadLetter = (event: Event) => {
+      const { operation } = (event as CustomEvent).detail;
+      setSyncNotice({ message: 'Some changes could not be synced.', deadLetterId: operation.id });
+    };
+    document.addEventListener('offline:dead-letter', handleDeadLetter);
+
+    const handleUpdateAvailable = () => setUpdateAvailable(true);
+    document.addEventListener('app:update-available', handleUpdateAvailable);
+
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      unsubscribeConflicts();
+      document.removeEventListener('offline:dead-letter', handleDeadLetter);
+      document.removeEventListener('app:update-available', handleUpdateAvailable);
     };
   }, []);
 
@@ -96,13 +143,36 @@ function App() {
     if (isSelected) {
       setSelectedItems(selectedItems.filter(selected => selected.id !== item.id));
     } else {
-      // Limit to 3 items for better performance
-      if (selectedItems.length < 3) {
-        setSelectedItems([...selectedItems, item]);
-      } else {
-        // Replace the oldest item
-        setSelectedItems([...selectedItems.slice(1), item]);
-      }
+      // Build up an outfit: a new item replaces the one in the same slot, capped for performance
+      setSelectedItems(outfitLayering.addToOutfit(selectedItems, item, MAX_OUTFIT_ITEMS));
+    }
+  };
+
+  // Gesture swipes step through the catalog within the category of the last garment picked
+  const handleCycleGarment = (direction: 1 | -1) => {
+    const current = selectedItems[selectedItems.length - 1];
+    const candidates = current
+      ? mockClothingItems.filter(item => item.category === current.category)
+      : mockClothingItems;
+    if (candidates.length === 0) return;
+
+    const index = current ? candidates.findIndex(item => item.id === current.id) : -1;
+    const next = index < 0
+      ? candidates[direction > 0 ? 0 : candidates.length - 1]
+      : candidates[(index + direction + candidates.length) % candidates.length];
+    const remaining = current ? selectedItems.filter(item => item.id !== current.id) : selectedItems;
+    setSelectedItems(outfitLayering.addToOutfit(remaining, next, MAX_OUTFIT_ITEMS));
+  };
+
+  const handleFavorite = (item: ClothingItem) => {
+    if (favoriteIds.includes(item.id)) return;
+
+    const next = [...favoriteIds, item.id];
+    setFavoriteIds(next);
+    try {
+      localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save favorites:', error);
     }
   };
 
@@ -110,13 +180,21 @@ function App() {
     setSelectedItems(selectedItems.filter(item => item.id !== itemId));
   };
 
+  const handleCalibrated = React.useCallback(() => {
+    // Re-scale measurements captured before the user calibrated
+    setBodyMeasurements((current: any) =>
+      current ? BodyCalibrationService.getInstance().rescaleMeasurements(current) : current
+    );
+  }, []);
+
   const tabs = [
     { id: 'tryon', label: 'Try-On', icon: <Camera size={20} /> },
     { id: 'realtime', label: 'Live Camera', icon: <Camera size={20} /> },
     { id: 'catalog', label: 'Catalog', icon: <Shirt size={20} /> },
     { id: 'sizeguide', label: 'Size Guide', icon: <Ruler size={20} /> },
     { id: 'preferences', label: 'AI Preferences', icon: <Sparkles size={20} /> },
-    { id: 'lighting', label: 'Lighting', icon: <Sun size={20} /> }
+    { id: 'lighting', label: 'Lighting', icon: <Sun size={20} /> },
+    { id: 'avatar', label: '360° View', icon: <Rotate3d size={20} /> }
   ];
 
   if (!isInitialized) {
@@ -146,6 +224,47 @@ function App() {
         </div>
       )}
 
+      {/* Sync Notice */}
+      {syncNotice && (
+        <div className="fixed bottom-4 left-4 z-50 max-w-sm bg-white border border-gray-200 rounded-lg shadow-lg p-4 text-sm">
+          <p className="text-gray-700 mb-2">{syncNotice.message}</p>
+          <div className="flex justify-end space-x-3">
+            {syncNotice.deadLetterId && (
+              <button
+                onClick={() => {
+                  OfflineSupport.getInstance().retryDeadLetter(syncNotice.deadLetterId!);
+                  setSyncNotice(null);
+                }}
+                className="text-indigo-600 font-medium hover:text-indigo-800"
+              >
+                Retry
+              </button>
+            )}
+            <button onClick={() => setSyncNotice(null)} className="text-gray-500 hover:text-gray-700">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Update Notice */}
+      {updateAvailable && (
+        <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-white border border-gray-200 rounded-lg shadow-lg p-4 text-sm">
+          <p className="text-gray-700 mb-2">A new version of VirtualFit is available.</p>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => OfflineSupport.getInstance().applyUpdate()}
+              className="text-indigo-600 font-medium hover:text-indigo-800"
+            >
+              Reload
+            </button>
+            <button onClick={() => setUpdateAvailable(false)} className="text-gray-500 hover:text-gray-700">
+              Later
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <header className={`bg-white shadow-sm border-b border-gray-200 ${isOffline ? 'mt-10' : ''}`}>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -256,6 +375,9 @@ function App() {
                 }}
                 isActive={isRealTimeCameraActive}
                 onToggle={() => setIsRealTimeCameraActive(!isRealTimeCameraActive)}
+                onCycleGarment={handleCycleGarment}
+                onFavorite={handleFavorite}
+                favoriteIds={favoriteIds}
               />
             )}
 
@@ -269,13 +391,35 @@ function App() {
               </div>
             )}
 
-            {activeTab === 'sizeguide' && selectedItems.length > 0 && (
+            {activeTab === 'sizeguide' && (
               <div className="space-y-6">
+                <BodyCalibrationPanel
+                  photo={userPhoto}
+                  bodyMeasurements={bodyMeasurements}
+                  onCalibrated={handleCalibrated}
+                />
+                {showMultiViewCapture ? (
+                  <MultiViewCapture
+                    onComplete={(result) => {
+                      setBodyMeasurements(result.measurements);
+                      setShowMultiViewCapture(false);
+                    }}
+                    onCancel={() => setShowMultiViewCapture(false)}
+                  />
+                ) : (
+                  <button
+                    onClick={() => setShowMultiViewCapture(true)}
+                    className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-white border border-indigo-200 text-indigo-700 rounded-xl hover:bg-indigo-50"
+                  >
+                    <Camera size={18} />
+                    <span>Measure from front & side photos</span>
+                  </button>
+                )}
                 {selectedItems.map(item => (
                   <AdvancedSizeGuide
                     key={item.id}
                     clothingItem={item}
-                    bodyMeasurements={bodyMeasurements}
+                    bodyMeasurements={sizeGuideMeasurements}
                     userPreferences={preferences}
                     userId={mockUser.id}
                     onSizeSelect={(size) => console.log(`Selected size ${size} for ${item.name}`)}
@@ -297,6 +441,13 @@ function App() {
                 onLightingChange={setLightingSettings}
               />
             )}
+
+            {activeTab === 'avatar' && (
+              <AvatarViewer3D
+                bodyMeasurements={bodyMeasurements}
+                selectedItems={selectedItems}
+              />
+            )}
           </div>
         </div>
       </div>
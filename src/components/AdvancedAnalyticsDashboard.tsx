@@ -53,6 +53,7 @@ export const AdvancedAnalyticsDashboard: React.FC<AdvancedAnalyticsDashboardProp
 }) => {
   const [analyticsData, setAnalyticsData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedMetrics, setSelectedMetrics] = useState(['conversion', 'engagement', 'revenue']);
   const [activeTab, setActiveTab] = useState<'overview' | 'behavior' | 'performance' | 'ai-insights'>('overview');
   const [realTimeData, setRealTimeData] = useState<any>(null);
@@ -67,6 +68,7 @@ export const AdvancedAnalyticsDashboard: React.FC<AdvancedAnalyticsDashboardProp
 
   const loadAnalyticsData = async () => {
     setIsLoading(true);
+    setLoadError(null);
     try {
       const data = await apiService.getAnalyticsAdvanced({
         startDate: getStartDate(timeRange),
@@ -77,6 +79,7 @@ export const AdvancedAnalyticsDashboard: React.FC<AdvancedAnalyticsDashboardProp
       setAnalyticsData(data);
     } catch (error) {
       console.error('Failed to load analytics:', error);
+      setLoadError('Analytics could not be loaded. Try refreshing.');
     } finally {
       setIsLoading(false);
     }
@@ -244,6 +247,12 @@ export const AdvancedAnalyticsDashboard: React.FC<AdvancedAnalyticsDashboardProp
         </div>
       </div>
 
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg px-4 py-3 text-sm">
+          {loadError}
+        </div>
+      )}
+
       {/* Tab Navigation */}
       <div className="border-b border-gray-200">
         <nav className="flex space-x-8">
@@ -1,14 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Ruler, Target, TrendingUp, AlertCircle, CheckCircle, Shirt, User, Camera, Zap } from 'lucide-react';
 import { ClothingItem } from '../types';
 import EnhancedSizeRecommendationService from '../services/enhancedSizeRecommendation';
+import { getSizeRegionForLocale } from '../services/sizeCharts';
+import { AdvancedBodyMeasurements, MeasurementSystem } from '../types/enhanced';
+import {
+  formatHeight,
+  formatLength,
+  formatLengthValue,
+  formatWeight,
+  getDefaultLocale,
+  getLengthUnitLabel,
+  getMeasurementSystem,
+  MeasurementInput,
+  normalizeMeasurements
+} from '../utils/measurementUnits';
 
 interface AdvancedSizeGuideProps {
   clothingItem: ClothingItem;
-  bodyMeasurements?: any;
+  bodyMeasurements?: MeasurementInput<AdvancedBodyMeasurements>;
   userPreferences?: any;
   userId?: string;
   onSizeSelect: (size: string) => void;
+  locale?: string;
+  measurementSystem?: MeasurementSystem;
 }
 
 export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
@@ -16,7 +31,9 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
   bodyMeasurements,
   userPreferences,
   userId,
-  onSizeSelect
+  onSizeSelect,
+  locale = getDefaultLocale(),
+  measurementSystem
 }) => {
   const [recommendation, setRecommendation] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -27,26 +44,32 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
   const [sizeHistory, setSizeHistory] = useState<any>(null);
 
   const sizeService = EnhancedSizeRecommendationService.getInstance();
+  const system = measurementSystem || getMeasurementSystem(locale);
+  const measurements = useMemo(
+    () => bodyMeasurements && normalizeMeasurements(bodyMeasurements),
+    [bodyMeasurements]
+  );
 
   useEffect(() => {
-    if (bodyMeasurements) {
+    if (measurements) {
       generateSizeRecommendation();
       loadSizeHistory();
     }
-  }, [clothingItem, bodyMeasurements]);
+  }, [clothingItem, measurements, locale]);
 
   const generateSizeRecommendation = async () => {
-    if (!bodyMeasurements) return;
+    if (!measurements) return;
 
     setIsLoading(true);
     try {
       const sizePrefs = {
         preferredFit: userPreferences?.preferredFit || 'regular',
-        priorityAreas: userPreferences?.priorityAreas || ['chest', 'waist']
+        priorityAreas: userPreferences?.priorityAreas || ['chest', 'waist'],
+        region: userPreferences?.region || getSizeRegionForLocale(locale)
       };
 
       const rec = await sizeService.recommendSize(
-        bodyMeasurements,
+        measurements,
         clothingItem,
         sizePrefs,
         userId
@@ -63,7 +86,7 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
 
   const loadSizeHistory = async () => {
     if (userId) {
-      const history = sizeService.getSizeHistory(userId);
+      const history = await sizeService.getSizeHistory(userId);
       setSizeHistory(history);
     }
   };
@@ -83,10 +106,31 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
         'User feedback from size guide'
       );
       setUserFeedback('');
+      await loadSizeHistory();
       alert('Thank you for your feedback!');
     }
   };
 
+  const exportSizeHistory = async () => {
+    if (!userId) return;
+
+    const data = await sizeService.exportSizeHistory(userId);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `size-history-${userId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const deleteSizeHistory = async () => {
+    if (!userId || !confirm('Delete your saved size history? This cannot be undone.')) return;
+
+    await sizeService.deleteSizeHistory(userId);
+    setSizeHistory(null);
+  };
+
   const getFitColor = (fitType: string) => {
     switch (fitType) {
       case 'perfect': return 'text-green-600 bg-green-100';
@@ -104,17 +148,28 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
   };
 
   const getSizeChartData = () => {
-    // Enhanced size chart with detailed measurements
+    // Size chart the recommendation was matched against (brand, category or standard)
+    const chart = recommendation?.sizeChart?.chart;
+    if (!chart) return { columns: [], rows: [] };
+
+    const columnOrder = ['chest', 'waist', 'hips', 'inseam', 'shoulderWidth'];
+    const columns = columnOrder.filter(column =>
+      chart.sizes.some((entry: any) => entry.measurements[column] !== undefined)
+    );
+
     return {
-      'XS': { chest: '80-84', waist: '64-68', hips: '88-92', length: '58' },
-      'S': { chest: '84-88', waist: '68-72', hips: '92-96', length: '60' },
-      'M': { chest: '88-92', waist: '72-76', hips: '96-100', length: '62' },
-      'L': { chest: '92-96', waist: '76-80', hips: '100-104', length: '64' },
-      'XL': { chest: '96-100', waist: '80-84', hips: '104-108', length: '66' },
-      'XXL': { chest: '100-104', waist: '84-88', hips: '108-112', length: '68' }
+      columns,
+      rows: chart.sizes.map((entry: any) => ({
+        size: entry.label,
+        measurements: entry.measurements
+      }))
     };
   };
 
+  const formatColumnLabel = (column: string) => {
+    return column === 'shoulderWidth' ? 'Shoulders' : column.charAt(0).toUpperCase() + column.slice(1);
+  };
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
@@ -240,26 +295,31 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
         {/* Size Chart */}
         {showSizeChart && (
           <div className="mb-6">
-            <h4 className="text-sm font-medium text-gray-700 mb-3">Size Chart (cm)</h4>
+            <h4 className="text-sm font-medium text-gray-700 mb-3">
+              Size Chart ({getLengthUnitLabel(system)})
+              {recommendation.sizeChart && (
+                <span className="ml-2 text-xs text-gray-500 capitalize">
+                  {recommendation.sizeChart.source === 'brand' ? clothingItem.brand : recommendation.sizeChart.source} • {recommendation.sizeChart.chart.region}
+                </span>
+              )}
+            </h4>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead>
                   <tr className="bg-gray-50">
                     <th className="text-left p-2">Size</th>
-                    <th className="text-left p-2">Chest</th>
-                    <th className="text-left p-2">Waist</th>
-                    <th className="text-left p-2">Hips</th>
-                    <th className="text-left p-2">Length</th>
+                    {sizeChartData.columns.map(column => (
+                      <th key={column} className="text-left p-2">{formatColumnLabel(column)}</th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
-                  {Object.entries(sizeChartData).map(([size, measurements]) => (
+                  {sizeChartData.rows.map(({ size, measurements }: any) => (
                     <tr key={size} className={`border-b ${selectedSize === size ? 'bg-indigo-50' : ''}`}>
                       <td className="p-2 font-medium">{size}</td>
-                      <td className="p-2">{measurements.chest}</td>
-                      <td className="p-2">{measurements.waist}</td>
-                      <td className="p-2">{measurements.hips}</td>
-                      <td className="p-2">{measurements.length}</td>
+                      {sizeChartData.columns.map(column => (
+                        <td key={column} className="p-2">{measurements[column] !== undefined ? formatLengthValue(measurements[column], locale, system) : '-'}</td>
+                      ))}
                     </tr>
                   ))}
                 </tbody>
@@ -289,7 +349,23 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
         {/* Size History */}
         {sizeHistory && (
           <div className="mb-6">
-            <h4 className="text-sm font-medium text-gray-700 mb-3">Your Size History</h4>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-medium text-gray-700">Your Size History</h4>
+              <div className="flex space-x-3">
+                <button
+                  onClick={exportSizeHistory}
+                  className="text-xs text-indigo-600 hover:text-indigo-700"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={deleteSizeHistory}
+                  className="text-xs text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
             <div className="bg-gray-50 rounded-lg p-3">
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
@@ -316,7 +392,7 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
         )}
 
         {/* Detailed Analysis */}
-        {showDetails && bodyMeasurements && (
+        {showDetails && measurements && (
           <div className="border-t pt-4">
             <h4 className="text-sm font-medium text-gray-700 mb-3 flex items-center space-x-1">
               <User size={14} />
@@ -325,20 +401,26 @@ export const AdvancedSizeGuide: React.FC<AdvancedSizeGuideProps> = ({
             <div className="grid grid-cols-2 gap-4 text-sm mb-4">
               <div>
                 <p className="text-gray-600">Height</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.height)} cm</p>
+                <p className="font-medium">{formatHeight(measurements.height, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Chest</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.chest)} cm</p>
+                <p className="font-medium">{formatLength(measurements.chest, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Waist</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.waist)} cm</p>
+                <p className="font-medium">{formatLength(measurements.waist, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Hips</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.hips)} cm</p>
+                <p className="font-medium">{formatLength(measurements.hips, locale, system)}</p>
               </div>
+              {measurements.weight !== undefined && (
+                <div>
+                  <p className="text-gray-600">Weight</p>
+                  <p className="font-medium">{formatWeight(measurements.weight, locale, system)}</p>
+                </div>
+              )}
             </div>
 
             {/* Fit Analysis Details */}
@@ -2,13 +2,19 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { 
   Download, Share2, RotateCcw, Camera, Layers, Maximize2, Settings, 
   Zap, Eye, Sliders, Palette, Sun, Moon, Lightbulb, Sparkles,
-  Target, Ruler, Shirt, User, Brain, Cpu, Gauge
+  Target, Ruler, Shirt, User, Brain, Cpu, Gauge, Users
 } from 'lucide-react';
 import { fabric } from 'fabric';
 import { AdvancedAIService, AdvancedBodyPose, AdvancedBodySegmentation, FacialFeatures } from '../services/advancedAIService';
 import { ClothingItem, LightingSettings } from '../types';
 import ErrorService from '../services/errorService';
 import CacheService from '../services/cacheService';
+import { RealAIService } from '../services/realAIService';
+import GarmentWarpRenderer from '../services/garmentWarp';
+import OutfitLayeringEngine, { TuckStyle } from '../services/outfitLayering';
+import { TrackedPerson } from '../services/personTracking';
+
+const layeringEngine = new OutfitLayeringEngine();
 
 interface AdvancedVirtualTryOnProps {
   userPhoto: string;
@@ -27,10 +33,15 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
+  const warpRendererRef = useRef<GarmentWarpRenderer | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [tuckStyles, setTuckStyles] = useState<Record<string, TuckStyle>>({});
   const [bodyPose, setBodyPose] = useState<AdvancedBodyPose | null>(null);
   const [bodySegmentation, setBodySegmentation] = useState<AdvancedBodySegmentation | null>(null);
   const [facialFeatures, setFacialFeatures] = useState<FacialFeatures | null>(null);
+  const [people, setPeople] = useState<TrackedPerson<AdvancedBodyPose>[]>([]);
+  const [subjectId, setSubjectId] = useState<number | null>(null);
+  const [subjectSelection, setSubjectSelection] = useState(0);
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingStage, setProcessingStage] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -65,6 +76,11 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
   const errorService = ErrorService.getInstance();
   const cacheService = CacheService.getInstance();
 
+  // AI stage transitions go into the breadcrumb trail attached to error reports
+  useEffect(() => {
+    if (processingStage) errorService.addBreadcrumb('ai-stage', processingStage);
+  }, [processingStage]);
+
   useEffect(() => {
     initializeFabricCanvas();
     initializeAI();
@@ -73,6 +89,7 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
       if (fabricCanvasRef.current) {
         fabricCanvasRef.current.dispose();
       }
+      warpRendererRef.current?.dispose();
     };
   }, []);
 
@@ -80,7 +97,7 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
     if (userPhoto && selectedItems.length > 0) {
       processAdvancedVirtualTryOn();
     }
-  }, [userPhoto, selectedItems, lightingSettings, qualitySettings, aiSettings]);
+  }, [userPhoto, selectedItems, lightingSettings, qualitySettings, aiSettings, tuckStyles, subjectSelection]);
 
   const initializeFabricCanvas = () => {
     if (!canvasRef.current) return;
@@ -97,9 +114,25 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
       preserveObjectStacking: true
     });
 
+    // Tap-to-select when more than one person is in the photo
+    canvas.on('mouse:down', (event) => {
+      if (aiService.getDetectedPeople().length < 2) return;
+
+      const pointer = canvas.getPointer(event.e);
+      const picked = aiService.selectPersonAt(pointer.x / canvas.getWidth(), pointer.y / canvas.getHeight());
+      if (picked !== null) {
+        setSubjectSelection(prev => prev + 1);
+      }
+    });
+
     fabricCanvasRef.current = canvas;
   };
 
+  const selectSubject = (personId: number | null) => {
+    aiService.selectPerson(personId);
+    setSubjectSelection(prev => prev + 1);
+  };
+
   const initializeAI = async () => {
     try {
       await aiService.initialize();
@@ -139,6 +172,8 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
         setProcessingProgress(25);
         const pose = await aiService.detectAdvancedBodyPose(img);
         setBodyPose(pose);
+        setPeople(aiService.getDetectedPeople());
+        setSubjectId(pose.personId ?? null);
         setPerformanceMetrics(prev => ({ ...prev, aiAccuracy: pose.confidence * 100 }));
       }
 
@@ -253,8 +288,9 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
     });
     canvas.add(userFabricImg);
 
-    // Add clothing items with advanced AI-powered fitting
-    for (const [index, item] of selectedItems.entries()) {
+    // Add clothing items bottom layer first so outerwear covers tops and tucked tops sit under bottoms
+    const layeredItems = layeringEngine.orderItems(selectedItems, { tuck: tuckStyles });
+    for (const [index, { item, tucked }] of layeredItems.entries()) {
       try {
         // Use advanced AI service for superior fitting
         const fitResult = await aiService.performAdvancedClothingFit(
@@ -265,21 +301,46 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
         );
         
         const cachedClothingImage = await cacheService.cacheImage(item.overlayImage);
-        const clothingImg = await fabric.Image.fromURL(cachedClothingImage);
+        let clothingImg = await fabric.Image.fromURL(cachedClothingImage);
+
+        // Warp the garment mesh onto the pose landmarks so sleeves and hems follow the body
+        if (!warpRendererRef.current) {
+          warpRendererRef.current = new GarmentWarpRenderer();
+        }
+        const fitPoints = RealAIService.getInstance().calculateFitPoints(pose, item.category);
+        const warped = warpRendererRef.current.render(
+          clothingImg.getElement() as HTMLImageElement,
+          fitPoints,
+          item.category,
+          { width: canvas.width!, height: canvas.height! }
+        );
         
-        // Apply advanced transformations
         const transform = fitResult.transformMatrix;
         
-        clothingImg.set({
-          left: transform[12] || 0,
-          top: transform[13] || 0,
-          scaleX: Math.sqrt(transform[0] * transform[0] + transform[1] * transform[1]) || 0.5,
-          scaleY: Math.sqrt(transform[4] * transform[4] + transform[5] * transform[5]) || 0.5,
-          opacity: 0.9,
-          selectable: true,
-          hasControls: true,
-          hasBorders: true
-        });
+        if (warped) {
+          layeringEngine.applyMasks(warped, [
+            fitResult.occlusionMask,
+            tucked ? layeringEngine.buildTuckMask(pose.keypoints, warped) : null
+          ]);
+          clothingImg = new fabric.Image(warped, {
+            left: 0,
+            top: 0,
+            opacity: 0.9,
+            selectable: false
+          });
+        } else {
+          // Too few landmarks visible: fall back to affine placement
+          clothingImg.set({
+            left: transform[12] || 0,
+            top: transform[13] || 0,
+            scaleX: Math.sqrt(transform[0] * transform[0] + transform[1] * transform[1]) || 0.5,
+            scaleY: Math.sqrt(transform[4] * transform[4] + transform[5] * transform[5]) || 0.5,
+            opacity: 0.9,
+            selectable: true,
+            hasControls: true,
+            hasBorders: true
+          });
+        }
 
         // Apply advanced visual effects
         if (qualitySettings.shadows) {
@@ -732,6 +793,32 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
         )}
       </div>
 
+      {people.length > 1 && (
+        <div className="px-4 py-2 bg-indigo-50 border-b border-indigo-100 flex items-center flex-wrap gap-2 text-sm">
+          <Users size={16} className="text-indigo-600" />
+          <span className="text-indigo-800">
+            {people.length} people in the photo. Tap the shopper or choose:
+          </span>
+          {people.map(person => (
+            <button
+              key={person.id}
+              onClick={() => selectSubject(person.id)}
+              className={`px-2 py-1 rounded-md text-xs ${
+                person.id === subjectId ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-700 hover:bg-indigo-100'
+              }`}
+            >
+              Person {person.id}
+            </button>
+          ))}
+          <button
+            onClick={() => selectSubject(null)}
+            className="px-2 py-1 rounded-md text-xs bg-white text-gray-600 hover:bg-gray-100"
+          >
+            Auto
+          </button>
+        </div>
+      )}
+
       <div className="relative">
         {userPhoto ? (
           <div className="flex">
@@ -905,6 +992,27 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
                           <span>Undertone:</span>
                           <span className="capitalize">{facialFeatures.skinTone.undertone}</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span>Eyes / Hair:</span>
+                          <span className="capitalize">{facialFeatures.eyeColor} / {facialFeatures.hairColor}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Season:</span>
+                          <span>{facialFeatures.colorAnalysis.subtype}</span>
+                        </div>
+                        <div className="flex space-x-1 pt-1">
+                          {facialFeatures.colorAnalysis.bestColors.map(color => (
+                            <div
+                              key={color}
+                              className="w-4 h-4 rounded-full border border-blue-200"
+                              style={{ backgroundColor: color }}
+                              title={color}
+                            />
+                          ))}
+                        </div>
+                        {!facialFeatures.colorAnalysis.whiteBalanced && (
+                          <p className="text-blue-500">Lighting could not be corrected; retake in even light for a surer season.</p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -959,12 +1067,25 @@ export const AdvancedVirtualTryOn: React.FC<AdvancedVirtualTryOnProps> = ({
                     <p className="text-gray-600 text-xs">{item.brand} • ${item.price}</p>
                   </div>
                 </div>
-                <button
-                  onClick={() => onRemoveItem(item.id)}
-                  className="text-red-500 hover:text-red-700 text-sm font-medium"
-                >
-                  Remove
-                </button>
+                <div className="flex items-center space-x-3">
+                  {layeringEngine.isTuckable(item) && selectedItems.some(other => other.category === 'bottoms') && (
+                    <button
+                      onClick={() => setTuckStyles(prev => ({
+                        ...prev,
+                        [item.id]: prev[item.id] === 'untucked' ? 'tucked' : 'untucked'
+                      }))}
+                      className="text-indigo-600 hover:text-indigo-800 text-sm font-medium"
+                    >
+                      {tuckStyles[item.id] === 'untucked' ? 'Tuck In' : 'Untuck'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemoveItem(item.id)}
+                    className="text-red-500 hover:text-red-700 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
               </div>
             ))}
           </div>
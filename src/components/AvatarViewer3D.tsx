@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { RotateCw, Pause, AlertCircle } from 'lucide-react';
+import ParametricAvatarBuilder from '../services/parametricAvatar';
+import OutfitLayeringEngine from '../services/outfitLayering';
+import { AdvancedBodyMeasurements } from '../types/enhanced';
+import { ClothingItem } from '../types';
+
+interface AvatarViewer3DProps {
+  bodyMeasurements?: Partial<AdvancedBodyMeasurements> | null;
+  selectedItems: ClothingItem[];
+}
+
+type ViewPreset = 'front' | 'side' | 'back';
+
+const VIEW_ANGLES: Record<ViewPreset, number> = {
+  front: 0,
+  side: Math.PI / 2,
+  back: Math.PI
+};
+
+const CAMERA_DISTANCE = 3.2;
+const SKIN_COLOR = 0xd9b59a;
+const FALLBACK_GARMENT_COLOR = '#6366f1';
+
+const avatarBuilder = new ParametricAvatarBuilder();
+const layeringEngine = new OutfitLayeringEngine();
+
+export const AvatarViewer3D: React.FC<AvatarViewer3DProps> = ({ bodyMeasurements, selectedItems }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sceneRef = useRef<{
+    renderer: THREE.WebGLRenderer;
+    scene: THREE.Scene;
+    camera: THREE.PerspectiveCamera;
+    controls: OrbitControls;
+    avatar: THREE.Group;
+  } | null>(null);
+  const [turntable, setTurntable] = useState(true);
+  const [webglError, setWebglError] = useState<string | null>(null);
+
+  // Scene setup, once per mount
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+    } catch (error) {
+      setWebglError('3D preview needs WebGL, which this device does not support.');
+      return;
+    }
+
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.setSize(container.clientWidth, container.clientHeight);
+    container.appendChild(renderer.domElement);
+
+    const scene = new THREE.Scene();
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x8d8d8d, 1.6));
+    const keyLight = new THREE.DirectionalLight(0xffffff, 1.8);
+    keyLight.position.set(2, 3, 2.5);
+    scene.add(keyLight);
+
+    const floor = new THREE.Mesh(
+      new THREE.CircleGeometry(0.8, 48),
+      new THREE.MeshStandardMaterial({ color: 0xe5e7eb })
+    );
+    floor.rotation.x = -Math.PI / 2;
+    scene.add(floor);
+
+    const camera = new THREE.PerspectiveCamera(35, container.clientWidth / container.clientHeight, 0.1, 50);
+    camera.position.set(0, 1, CAMERA_DISTANCE);
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.target.set(0, 0.95, 0);
+    controls.enableDamping = true;
+    controls.enablePan = false;
+    controls.minDistance = 1.2;
+    controls.maxDistance = 6;
+    controls.maxPolarAngle = Math.PI * 0.55;
+    controls.autoRotateSpeed = 2;
+    controls.update();
+
+    const avatar = new THREE.Group();
+    scene.add(avatar);
+    sceneRef.current = { renderer, scene, camera, controls, avatar };
+
+    let frameId = 0;
+    const animate = () => {
+      frameId = requestAnimationFrame(animate);
+      controls.update();
+      renderer.render(scene, camera);
+    };
+    animate();
+
+    const resizeObserver = new ResizeObserver(() => {
+      camera.aspect = container.clientWidth / container.clientHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(container.clientWidth, container.clientHeight);
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      resizeObserver.disconnect();
+      controls.dispose();
+      disposeObject(scene);
+      renderer.dispose();
+      container.removeChild(renderer.domElement);
+      sceneRef.current = null;
+    };
+  }, []);
+
+  // Rebuild the body and garments whenever measurements or the outfit change
+  useEffect(() => {
+    const current = sceneRef.current;
+    if (!current) return;
+
+    disposeObject(current.avatar);
+    current.avatar.clear();
+
+    const measurements = avatarBuilder.resolveMeasurements(bodyMeasurements);
+    const skin = new THREE.MeshStandardMaterial({ color: SKIN_COLOR, roughness: 0.7 });
+    current.avatar.add(avatarBuilder.buildBody(measurements, skin));
+
+    layeringEngine.orderItems(selectedItems).forEach(({ item }, index) => {
+      const material = new THREE.MeshStandardMaterial({
+        color: garmentColor(item.colors?.[0]),
+        roughness: 0.85,
+        side: THREE.DoubleSide,
+        // Later layers win the depth test where shells touch
+        polygonOffset: true,
+        polygonOffsetFactor: -index - 1
+      });
+      const garment = avatarBuilder.buildGarment(item, measurements, material);
+      if (garment) {
+        current.avatar.add(garment);
+      } else {
+        material.dispose();
+      }
+    });
+
+    current.controls.target.set(0, (measurements.height / 100) * 0.55, 0);
+  }, [bodyMeasurements, selectedItems]);
+
+  useEffect(() => {
+    if (sceneRef.current) {
+      sceneRef.current.controls.autoRotate = turntable;
+    }
+  }, [turntable]);
+
+  const showView = (view: ViewPreset) => {
+    const current = sceneRef.current;
+    if (!current) return;
+
+    setTurntable(false);
+    const { camera, controls } = current;
+    const distance = camera.position.distanceTo(controls.target);
+    const angle = VIEW_ANGLES[view];
+    camera.position.set(
+      controls.target.x + Math.sin(angle) * distance,
+      controls.target.y + 0.1,
+      controls.target.z + Math.cos(angle) * distance
+    );
+    controls.update();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-800">360° View</h2>
+        <div className="flex items-center space-x-2">
+          {(Object.keys(VIEW_ANGLES) as ViewPreset[]).map(view => (
+            <button
+              key={view}
+              onClick={() => showView(view)}
+              className="px-3 py-1.5 text-sm rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 capitalize"
+            >
+              {view}
+            </button>
+          ))}
+          <button
+            onClick={() => setTurntable(!turntable)}
+            className={`flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg ${
+              turntable ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {turntable ? <Pause size={14} /> : <RotateCw size={14} />}
+            <span>Turntable</span>
+          </button>
+        </div>
+      </div>
+
+      {!bodyMeasurements && (
+        <div className="flex items-start space-x-2 mx-4 mt-4 p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+          <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+          <span>Showing an average body. Measure yourself in the Size Guide for a personalized avatar.</span>
+        </div>
+      )}
+
+      {webglError ? (
+        <p className="p-6 text-sm text-red-600">{webglError}</p>
+      ) : (
+        <div ref={containerRef} className="w-full h-[560px] cursor-grab active:cursor-grabbing" />
+      )}
+
+      <p className="px-4 pb-4 pt-2 text-xs text-gray-500">Drag to orbit, scroll or pinch to zoom.</p>
+    </div>
+  );
+};
+
+// Catalog colors are CSS-ish names such as 'light-blue'
+function garmentColor(name?: string): THREE.Color {
+  if (!name) return new THREE.Color(FALLBACK_GARMENT_COLOR);
+  if (name.startsWith('#')) return new THREE.Color(name);
+
+  const key = name.toLowerCase().replace(/[\s_-]+/g, '');
+  return key in THREE.Color.NAMES
+    ? new THREE.Color(THREE.Color.NAMES[key as keyof typeof THREE.Color.NAMES])
+    : new THREE.Color(FALLBACK_GARMENT_COLOR);
+}
+
+function disposeObject(root: THREE.Object3D): void {
+  root.traverse(object => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      (Array.isArray(object.material) ? object.material : [object.material]).forEach(material => material.dispose());
+    }
+  });
+}
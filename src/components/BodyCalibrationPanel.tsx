@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Ruler, CreditCard, CheckCircle, AlertCircle, X } from 'lucide-react';
+import BodyCalibrationService, { BodyCalibration, MeasurementErrors } from '../services/bodyCalibration';
+import { RealAIService } from '../services/realAIService';
+import { MeasurementSystem } from '../types/enhanced';
+import {
+  formatHeight,
+  formatLength,
+  getDefaultLocale,
+  getLengthUnitLabel,
+  getMeasurementSystem,
+  getUnitsForSystem,
+  toCentimeters
+} from '../utils/measurementUnits';
+
+interface BodyCalibrationPanelProps {
+  photo?: string | null;
+  bodyMeasurements?: any;
+  locale?: string;
+  measurementSystem?: MeasurementSystem;
+  onCalibrated?: (calibration: BodyCalibration | null) => void;
+}
+
+type CardPoint = { x: number; y: number };
+
+const ERROR_LABELS: Array<[keyof MeasurementErrors, string]> = [
+  ['height', 'Height'],
+  ['chest', 'Chest'],
+  ['waist', 'Waist'],
+  ['hips', 'Hips'],
+  ['inseam', 'Inseam'],
+  ['armLength', 'Arm Length']
+];
+
+export const BodyCalibrationPanel: React.FC<BodyCalibrationPanelProps> = ({
+  photo,
+  bodyMeasurements,
+  locale = getDefaultLocale(),
+  measurementSystem,
+  onCalibrated
+}) => {
+  const calibrationService = BodyCalibrationService.getInstance();
+  const system = measurementSystem || getMeasurementSystem(locale);
+
+  const [calibration, setCalibration] = useState<BodyCalibration | null>(calibrationService.getCalibration());
+  const [mode, setMode] = useState<'height' | 'reference-object'>('height');
+  const [heightInput, setHeightInput] = useState('');
+  const [cardPoints, setCardPoints] = useState<CardPoint[]>([]);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    return calibrationService.onCalibrationChange(next => {
+      setCalibration(next);
+      onCalibrated?.(next);
+    });
+  }, [onCalibrated]);
+
+  useEffect(() => {
+    setCardPoints([]);
+  }, [photo]);
+
+  const handleHeightCalibration = () => {
+    const value = parseFloat(heightInput);
+    if (isNaN(value)) {
+      setError('Enter your height');
+      return;
+    }
+
+    try {
+      calibrationService.calibrateWithHeight(toCentimeters({ value, unit: getUnitsForSystem(system).length }));
+      setHeightInput('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed');
+    }
+  };
+
+  const handleImageClick = (event: React.MouseEvent<HTMLImageElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height
+    };
+
+    setCardPoints(prev => (prev.length >= 2 ? [point] : [...prev, point]));
+  };
+
+  const handleCardCalibration = async () => {
+    const image = imageRef.current;
+    if (!image || cardPoints.length < 2) return;
+
+    setIsCalibrating(true);
+    setError(null);
+
+    try {
+      const pose = await RealAIService.getInstance().detectBodyPose(image);
+      calibrationService.calibrateWithReferenceObject(
+        pose.keypoints,
+        { start: cardPoints[0], end: cardPoints[1] },
+        { width: image.naturalWidth, height: image.naturalHeight }
+      );
+      setCardPoints([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed');
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const errors: MeasurementErrors | undefined = bodyMeasurements?.errors;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Ruler className="text-indigo-600" size={20} />
+          <h3 className="text-lg font-semibold text-gray-800">Measurement Calibration</h3>
+        </div>
+        {calibration && (
+          <button
+            onClick={() => calibrationService.clearCalibration()}
+            className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600"
+          >
+            <X size={12} />
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+
+      {calibration ? (
+        <div className="flex items-center space-x-2 p-3 bg-green-50 rounded-lg text-sm text-green-800 mb-4">
+          <CheckCircle size={16} />
+          <span>
+            Calibrated by {calibration.method === 'height' ? 'height' : 'reference card'}:{' '}
+            {formatHeight(calibration.height, locale, system)} ± {formatLength(calibration.heightError, locale, system)}
+          </span>
+        </div>
+      ) : (
+        <div className="flex items-start space-x-2 p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800 mb-4">
+          <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+          <span>Measurements assume an average height until you calibrate. Size recommendations will be less reliable.</span>
+        </div>
+      )}
+
+      <div className="flex space-x-2 mb-4">
+        <button
+          onClick={() => setMode('height')}
+          className={`flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded-lg text-sm ${
+            mode === 'height' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700'
+          }`}
+        >
+          <Ruler size={14} />
+          <span>Enter Height</span>
+        </button>
+        <button
+          onClick={() => setMode('reference-object')}
+          className={`flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded-lg text-sm ${
+            mode === 'reference-object' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700'
+          }`}
+        >
+          <CreditCard size={14} />
+          <span>Reference Card</span>
+        </button>
+      </div>
+
+      {mode === 'height' && (
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            value={heightInput}
+            onChange={(e) => setHeightInput(e.target.value)}
+            placeholder={`Height (${getLengthUnitLabel(system)})`}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={handleHeightCalibration}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700"
+          >
+            Calibrate
+          </button>
+        </div>
+      )}
+
+      {mode === 'reference-object' && (
+        photo ? (
+          <div>
+            <p className="text-xs text-gray-600 mb-2">
+              Hold a credit card flat against your chest in a full-body photo, then click both ends of its long edge.
+            </p>
+            <div className="relative mb-3">
+              <img
+                ref={imageRef}
+                src={photo}
+                alt="Calibration photo"
+                onClick={handleImageClick}
+                className="w-full rounded-lg cursor-crosshair"
+              />
+              {cardPoints.map((point, index) => (
+                <div
+                  key={index}
+                  className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-indigo-600 border-2 border-white pointer-events-none"
+                  style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                />
+              ))}
+            </div>
+            <button
+              onClick={handleCardCalibration}
+              disabled={cardPoints.length < 2 || isCalibrating}
+              className="w-full px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isCalibrating ? 'Calibrating...' : 'Calibrate from Card'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Upload a full-body photo holding a credit card to calibrate.</p>
+        )
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {bodyMeasurements && errors && (
+        <div className="mt-4 border-t pt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Estimated Accuracy</h4>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {ERROR_LABELS.filter(([key]) => bodyMeasurements[key] !== undefined).map(([key, label]) => (
+              <div key={key} className="flex justify-between">
+                <span className="text-gray-600">{label}</span>
+                <span className="font-medium">
+                  {formatLength(bodyMeasurements[key], locale, system)} ± {formatLength(errors[key], locale, system)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Heart, Star, Filter, Search, Grid, List, SlidersHorizontal,
-  Zap, Target, TrendingUp, Eye, ShoppingBag, Sparkles
+  Zap, Target, TrendingUp, Eye, ShoppingBag, Sparkles, Palette
 } from 'lucide-react';
 import { ClothingItem, ClothingCategory, ClothingStyle } from '../types';
 import { AdvancedAIService } from '../services/advancedAIService';
+import EnhancedApiService from '../services/enhancedApiService';
+import { SeasonalColorAnalysis } from '../services/seasonalColor';
 import { mockClothingItems } from '../utils/mockData';
 
 interface EnhancedClothingCatalogProps {
@@ -24,15 +26,18 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
   const [selectedCategory, setSelectedCategory] = useState<ClothingCategory | 'all'>('all');
   const [selectedStyle, setSelectedStyle] = useState<ClothingStyle | 'all'>('all');
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 300]);
-  const [sortBy, setSortBy] = useState<'relevance' | 'price' | 'rating' | 'popularity'>('relevance');
+  const [sortBy, setSortBy] = useState<'relevance' | 'price' | 'rating' | 'popularity' | 'color-match'>('relevance');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showFilters, setShowFilters] = useState(false);
   const [showAIRecommendations, setShowAIRecommendations] = useState(true);
   const [aiRecommendations, setAiRecommendations] = useState<ClothingItem[]>([]);
   const [isLoadingRecommendations, setIsLoadingRecommendations] = useState(false);
   const [favoriteItems, setFavoriteItems] = useState<Set<string>>(new Set());
+  const [catalogItems, setCatalogItems] = useState<ClothingItem[]>(mockClothingItems);
 
   const aiService = AdvancedAIService.getInstance();
+  const [colorAnalysis, setColorAnalysis] = useState<SeasonalColorAnalysis | null>(aiService.getColorAnalysis());
+  const [colorHarmony, setColorHarmony] = useState<Map<string, number>>(new Map());
 
   const categories: (ClothingCategory | 'all')[] = ['all', 'tops', 'bottoms', 'dresses', 'outerwear', 'accessories'];
   const styles: (ClothingStyle | 'all')[] = ['all', 'casual', 'formal', 'business', 'trendy', 'classic', 'bohemian', 'minimalist'];
@@ -43,6 +48,43 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
     }
   }, [userProfile, bodyMeasurements, showAIRecommendations]);
 
+  useEffect(() => {
+    let cancelled = false;
+    // Responses that break the API contract are reported by the service and rejected like failed requests
+    EnhancedApiService.getInstance().getClothingItems()
+      .then(items => {
+        if (!cancelled && items.length > 0) setCatalogItems(items as ClothingItem[]);
+      })
+      .catch(error => console.warn('Using bundled catalog:', error.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleColorAnalysis = (event: Event) => {
+      setColorAnalysis((event as CustomEvent<SeasonalColorAnalysis>).detail);
+    };
+    document.addEventListener('color-analysis:updated', handleColorAnalysis);
+    return () => document.removeEventListener('color-analysis:updated', handleColorAnalysis);
+  }, []);
+
+  useEffect(() => {
+    if (!colorAnalysis) return;
+
+    let cancelled = false;
+    aiService.rankByColorHarmony(catalogItems, colorAnalysis)
+      .then(ranked => {
+        if (!cancelled) setColorHarmony(new Map(ranked.map(({ item, harmony }) => [item.id, harmony])));
+      })
+      .catch(error => console.error('Failed to rank items by color:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [colorAnalysis, catalogItems]);
+
   const generateAIRecommendations = async () => {
     if (!userProfile || !bodyMeasurements) return;
 
@@ -58,7 +100,7 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
       const recommendations = await aiService.generateSmartRecommendations(
         userProfile,
         bodyMeasurements,
-        mockClothingItems,
+        catalogItems,
         context
       );
 
@@ -79,7 +121,7 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
   };
 
   const filteredItems = useMemo(() => {
-    let items = mockClothingItems.filter(item => {
+    let items = catalogItems.filter(item => {
       const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            item.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())) ||
                            item.brand.toLowerCase().includes(searchTerm.toLowerCase());
@@ -101,6 +143,9 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
       case 'popularity':
         items.sort((a, b) => (b as any).popularity || 0 - (a as any).popularity || 0);
         break;
+      case 'color-match':
+        items.sort((a, b) => (colorHarmony.get(b.id) ?? 0.5) - (colorHarmony.get(a.id) ?? 0.5));
+        break;
       case 'relevance':
       default:
         // Keep original order or apply relevance scoring
@@ -108,11 +153,13 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
     }
 
     return items;
-  }, [searchTerm, selectedCategory, selectedStyle, priceRange, sortBy]);
+  }, [catalogItems, searchTerm, selectedCategory, selectedStyle, priceRange, sortBy, colorHarmony]);
 
   const isSelected = (item: ClothingItem) => selectedItems.some(selected => selected.id === item.id);
   const isFavorite = (item: ClothingItem) => favoriteItems.has(item.id);
   const isRecommended = (item: ClothingItem) => aiRecommendations.some(rec => rec.id === item.id);
+  // Top-scoring garments for the user's season get a badge
+  const isColorMatch = (item: ClothingItem) => (colorHarmony.get(item.id) ?? 0) >= 0.7;
 
   const toggleFavorite = (item: ClothingItem) => {
     const newFavorites = new Set(favoriteItems);
@@ -147,6 +194,12 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
             <span>AI Pick</span>
           </span>
         )}
+        {isColorMatch(item) && colorAnalysis && (
+          <span className="bg-teal-500 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center space-x-1">
+            <Palette size={10} />
+            <span>{colorAnalysis.subtype}</span>
+          </span>
+        )}
         {item.rating >= 4.5 && (
           <span className="bg-yellow-500 text-white px-2 py-1 rounded-full text-xs font-medium flex items-center space-x-1">
             <Star size={10} fill="currentColor" />
@@ -403,6 +456,9 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
                 <option value="price">Price: Low to High</option>
                 <option value="rating">Highest Rated</option>
                 <option value="popularity">Most Popular</option>
+                <option value="color-match" disabled={!colorAnalysis}>
+                  {colorAnalysis ? `Best for ${colorAnalysis.subtype}` : 'Best for My Colors (analyze a photo first)'}
+                </option>
               </select>
             </div>
             
@@ -426,7 +482,7 @@ export const EnhancedClothingCatalog: React.FC<EnhancedClothingCatalogProps> = (
       {/* Results Summary */}
       <div className="flex items-center justify-between">
         <p className="text-gray-600">
-          Showing {filteredItems.length} of {mockClothingItems.length} items
+          Showing {filteredItems.length} of {catalogItems.length} items
           {selectedItems.length > 0 && (
             <span className="ml-2 text-indigo-600 font-medium">
               • {selectedItems.length} selected
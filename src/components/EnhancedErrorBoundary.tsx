@@ -1,6 +1,10 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
-import { AlertTriangle, RefreshCw, Bug, Send, ChevronDown, ChevronUp } from 'lucide-react';
-import ErrorService from '../services/errorService';
+import { AlertTriangle, RefreshCw, Bug, Send, ChevronDown, ChevronUp, Download, FileCode } from 'lucide-react';
+import EnhancedErrorHandling, { ErrorReport } from '../services/enhancedErrorHandling';
+import StackSymbolicator, { createFetchSourceMapLoader, SymbolicatedFrame } from '../services/symbolication';
+
+// Source maps are looked up next to each bundle unless hosted elsewhere
+const symbolicator = new StackSymbolicator(createFetchSourceMapLoader(import.meta.env.VITE_SOURCEMAP_BASE_URL));
 
 interface Props {
   children: ReactNode;
@@ -12,13 +16,16 @@ interface State {
   hasError: boolean;
   error: Error | null;
   errorInfo: ErrorInfo | null;
+  report: ErrorReport | null;
   showDetails: boolean;
   isReporting: boolean;
+  symbolicatedFrames: SymbolicatedFrame[] | null;
+  isSymbolicating: boolean;
   reportSent: boolean;
 }
 
 export class EnhancedErrorBoundary extends Component<Props, State> {
-  private errorService: ErrorService;
+  private errorHandling: EnhancedErrorHandling;
   private retryCount = 0;
   private maxRetries = 3;
 
@@ -28,11 +35,14 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
       hasError: false,
       error: null,
       errorInfo: null,
+      report: null,
       showDetails: false,
       isReporting: false,
+      symbolicatedFrames: null,
+      isSymbolicating: false,
       reportSent: false
     };
-    this.errorService = ErrorService.getInstance();
+    this.errorHandling = EnhancedErrorHandling.getInstance();
   }
 
   static getDerivedStateFromError(error: Error): Partial<State> {
@@ -43,19 +53,20 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
   }
 
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
-    this.setState({
-      error,
-      errorInfo
-    });
-
     // Log error to service
-    this.errorService.logError(error, {
+    const report = this.errorHandling.logError(error, {
       component: 'ErrorBoundary',
       action: 'componentDidCatch',
       errorInfo: errorInfo.componentStack,
       retryCount: this.retryCount
     });
 
+    this.setState({
+      error,
+      errorInfo,
+      report
+    });
+
     // Call custom error handler
     if (this.props.onError) {
       this.props.onError(error, errorInfo);
@@ -73,7 +84,9 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
         this.setState({
           hasError: false,
           error: null,
-          errorInfo: null
+          errorInfo: null,
+          report: null,
+          symbolicatedFrames: null
         });
       }, 1000 * Math.pow(2, this.retryCount)); // Exponential backoff
     }
@@ -98,6 +111,8 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
       hasError: false,
       error: null,
       errorInfo: null,
+      report: null,
+      symbolicatedFrames: null,
       reportSent: false
     });
   };
@@ -112,50 +127,47 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
     }));
   };
 
+  // The report is already queued by componentDidCatch; this uploads it now instead of with the next batch
   private handleReportError = async (): Promise<void> => {
     if (!this.state.error) return;
 
     this.setState({ isReporting: true });
 
-    try {
-      // Collect additional context
-      const context = {
-        userAgent: navigator.userAgent,
-        url: window.location.href,
-        timestamp: new Date().toISOString(),
-        retryCount: this.retryCount,
-        componentStack: this.state.errorInfo?.componentStack,
-        errorBoundary: true
-      };
-
-      // Send detailed error report
-      await this.sendErrorReport(this.state.error, context);
-      
-      this.setState({ 
-        reportSent: true,
-        isReporting: false 
-      });
-    } catch (reportError) {
-      console.error('Failed to send error report:', reportError);
-      this.setState({ isReporting: false });
+    const sent = await this.errorHandling.flush();
+    if (!sent) {
+      console.error('Failed to send error report');
     }
+    this.setState({
+      reportSent: sent,
+      isReporting: false
+    });
   };
 
-  private async sendErrorReport(error: Error, context: any): Promise<void> {
-    // In a real implementation, this would send to an error reporting service
-    const report = {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-      context,
-      severity: this.getErrorSeverity(error),
-      category: this.getErrorCategory(error)
-    };
+  private handleSymbolicate = async (): Promise<void> => {
+    if (!this.state.error?.stack) return;
 
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    console.log('Error report sent:', report);
-  }
+    this.setState({ isSymbolicating: true });
+    try {
+      const { frames } = await symbolicator.symbolicateStack(this.state.error.stack);
+      this.setState({ symbolicatedFrames: frames });
+    } catch (error) {
+      console.error('Failed to symbolicate error stack:', error);
+    } finally {
+      this.setState({ isSymbolicating: false });
+    }
+  };
+
+  // All recent reports, for scripts/symbolicate.ts or attaching to a bug report
+  private handleExportReports = (): void => {
+    const blob = new Blob([this.errorHandling.exportReports()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `virtualfit-errors-${Date.now()}.json`;
+    link.click();
+    // Some browsers start the download after click() returns; revoking now can cancel it
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
 
   private getErrorSeverity(error: Error): 'low' | 'medium' | 'high' | 'critical' {
     if (error.name.includes('ChunkLoadError')) return 'medium';
@@ -165,14 +177,6 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
     return 'medium';
   }
 
-  private getErrorCategory(error: Error): string {
-    if (error.name.includes('ChunkLoadError')) return 'loading';
-    if (error.name.includes('NetworkError')) return 'network';
-    if (error.message.includes('AI')) return 'ai-processing';
-    if (error.message.includes('WebGL')) return 'rendering';
-    return 'general';
-  }
-
   private getErrorSuggestions(error: Error): string[] {
     const suggestions: string[] = [];
 
@@ -209,7 +213,11 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
       }
 
       const suggestions = this.getErrorSuggestions(this.state.error);
-      const severity = this.getErrorSeverity(this.state.error);
+      const severity = this.state.report?.severity ?? this.getErrorSeverity(this.state.error);
+      const { report } = this.state;
+      const otherReports = this.errorHandling.getErrorReports()
+        .filter(other => other.fingerprint !== report?.fingerprint)
+        .slice(0, 5);
 
       return (
         <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -325,10 +333,54 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
                 {this.state.showDetails && (
                   <div className="mt-4 space-y-4">
                     <div>
-                      <h4 className="font-medium text-gray-900 mb-2">Error Stack</h4>
-                      <pre className="text-xs bg-gray-100 p-3 rounded overflow-x-auto text-gray-700">
-                        {this.state.error.stack}
-                      </pre>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="font-medium text-gray-900">Error Stack</h4>
+                        <div className="flex items-center space-x-3 text-sm">
+                          {!this.state.symbolicatedFrames && (
+                            <button
+                              onClick={this.handleSymbolicate}
+                              disabled={this.state.isSymbolicating}
+                              className="flex items-center space-x-1 text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                            >
+                              <FileCode size={14} />
+                              <span>{this.state.isSymbolicating ? 'Resolving...' : 'Show Original Source'}</span>
+                            </button>
+                          )}
+                          <button
+                            onClick={this.handleExportReports}
+                            className="flex items-center space-x-1 text-gray-600 hover:text-gray-800"
+                          >
+                            <Download size={14} />
+                            <span>Export Reports</span>
+                          </button>
+                        </div>
+                      </div>
+
+                      {this.state.symbolicatedFrames ? (
+                        <div className="text-xs bg-gray-100 p-3 rounded overflow-x-auto text-gray-700 font-mono space-y-2">
+                          {this.state.symbolicatedFrames.map(({ generated, original, context }, index) => (
+                            <div key={index}>
+                              <div className={original ? 'text-gray-900' : 'text-gray-500'}>
+                                at {original?.functionName || generated.functionName || '<anonymous>'}{' '}
+                                ({original ? `${original.source}:${original.line}:${original.column}` : `${generated.file}:${generated.line}:${generated.column}`})
+                              </div>
+                              {context && (
+                                <pre className="mt-1 bg-white rounded border">
+                                  {context.map(({ line, code, isErrorLine }) => (
+                                    <div key={line} className={isErrorLine ? 'bg-red-50 text-red-800' : ''}>
+                                      {String(line).padStart(5)} | {code}
+                                    </div>
+                                  ))}
+                                </pre>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <pre className="text-xs bg-gray-100 p-3 rounded overflow-x-auto text-gray-700">
+                          {this.state.error.stack}
+                        </pre>
+                      )}
                     </div>
 
                     {this.state.errorInfo && (
@@ -340,6 +392,46 @@ export class EnhancedErrorBoundary extends Component<Props, State> {
                       </div>
                     )}
 
+                    {report && (
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">Error Report</h4>
+                        <div className="text-sm text-gray-700 space-y-1">
+                          <p><strong>Fingerprint:</strong> <span className="font-mono">{report.fingerprint}</span></p>
+                          <p><strong>Occurrences:</strong> {report.occurrences}</p>
+                          <p><strong>First Seen:</strong> {report.timestamp.toISOString()}</p>
+                          <p><strong>Category:</strong> {report.category}</p>
+                        </div>
+                      </div>
+                    )}
+
+                    {report && report.breadcrumbs.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">Breadcrumbs</h4>
+                        <ol className="text-xs bg-gray-100 p-3 rounded space-y-1 max-h-48 overflow-y-auto font-mono text-gray-700">
+                          {report.breadcrumbs.slice(-20).map((breadcrumb, index) => (
+                            <li key={index}>
+                              <span className="text-gray-500">{new Date(breadcrumb.timestamp).toLocaleTimeString()}</span>{' '}
+                              <span className="text-indigo-600">[{breadcrumb.category}]</span> {breadcrumb.message}
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
+
+                    {otherReports.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-gray-900 mb-2">Recent Errors</h4>
+                        <ul className="text-sm text-gray-700 space-y-1">
+                          {otherReports.map(other => (
+                            <li key={other.id} className="flex justify-between space-x-3">
+                              <span className="truncate">{other.message}</span>
+                              <span className="text-gray-500 flex-shrink-0">×{other.occurrences}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
                     <div>
                       <h4 className="font-medium text-gray-900 mb-2">Environment</h4>
                       <div className="text-sm text-gray-700 space-y-1">
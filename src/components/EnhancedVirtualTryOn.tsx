@@ -40,6 +40,11 @@ export const EnhancedVirtualTryOn: React.FC<EnhancedVirtualTryOnProps> = ({
   const errorService = ErrorService.getInstance();
   const cacheService = CacheService.getInstance();
 
+  // AI stage transitions go into the breadcrumb trail attached to error reports
+  useEffect(() => {
+    if (processingStage) errorService.addBreadcrumb('ai-stage', processingStage);
+  }, [processingStage]);
+
   useEffect(() => {
     initializeFabricCanvas();
     // Initialize AI service
@@ -100,18 +105,18 @@ export const EnhancedVirtualTryOn: React.FC<EnhancedVirtualTryOnProps> = ({
         img.src = userPhoto;
       });
 
-      // Step 2: Detect body pose
-      setProcessingStage('Detecting body pose...');
-      setProcessingProgress(40);
-      const pose = await aiService.detectBodyPose(img);
-      setBodyPose(pose);
-
-      // Step 3: Segment body
+      // Step 2: Segment body, first so pose detection can reuse the mask
       setProcessingStage('Segmenting body...');
       setProcessingProgress(40);
       const segmentation = await aiService.segmentBody(img);
       setBodySegmentation(segmentation);
 
+      // Step 3: Detect body pose
+      setProcessingStage('Detecting body pose...');
+      setProcessingProgress(40);
+      const pose = await aiService.detectBodyPose(img, segmentation);
+      setBodyPose(pose);
+
       // Step 4: Process clothing items with AI fitting
       setProcessingStage('Fitting clothing...');
       setProcessingProgress(60);
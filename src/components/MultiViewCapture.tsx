@@ -0,0 +1,233 @@
+import React, { useRef, useState } from 'react';
+import Webcam from 'react-webcam';
+import { Camera, Upload, CheckCircle, AlertCircle, RotateCcw, User } from 'lucide-react';
+import { AdvancedAIService, MultiViewMeasurements } from '../services/advancedAIService';
+import { CaptureView, ViewCapture } from '../services/multiViewMeasurement';
+
+interface MultiViewCaptureProps {
+  onComplete: (result: MultiViewMeasurements) => void;
+  onCancel?: () => void;
+}
+
+const VIEW_STEPS: Array<{ view: CaptureView; title: string; instructions: string; optional?: boolean }> = [
+  {
+    view: 'front',
+    title: 'Front',
+    instructions: 'Face the camera, feet hip-width apart, arms held slightly away from your sides.'
+  },
+  {
+    view: 'side',
+    title: 'Side',
+    instructions: 'Turn 90° to your left, stand tall with arms relaxed at your sides.'
+  },
+  {
+    view: 'back',
+    title: 'Back',
+    instructions: 'Turn your back to the camera, arms held slightly away from your sides.',
+    optional: true
+  }
+];
+
+export const MultiViewCapture: React.FC<MultiViewCaptureProps> = ({ onComplete, onCancel }) => {
+  const webcamRef = useRef<Webcam>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [captures, setCaptures] = useState<Partial<Record<CaptureView, { image: string; capture: ViewCapture }>>>({});
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const aiService = AdvancedAIService.getInstance();
+  const step = VIEW_STEPS[stepIndex];
+  const current = step ? captures[step.view] : undefined;
+
+  const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+  const analyzePhoto = async (imageSrc: string) => {
+    setIsAnalyzing(true);
+    setError(null);
+
+    try {
+      const img = await loadImage(imageSrc);
+      const capture = await aiService.analyzeCaptureView(step.view, img);
+      setCaptures(prev => ({ ...prev, [step.view]: { image: imageSrc, capture } }));
+    } catch (err) {
+      setError('No body detected. Make sure your whole body is in frame and well lit.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleCapture = () => {
+    const imageSrc = webcamRef.current?.getScreenshot();
+    if (imageSrc) {
+      analyzePhoto(imageSrc);
+    }
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => analyzePhoto(reader.result as string);
+    reader.readAsDataURL(file);
+    event.target.value = '';
+  };
+
+  const handleRetake = () => {
+    setCaptures(prev => {
+      const next = { ...prev };
+      delete next[step.view];
+      return next;
+    });
+  };
+
+  const handleFinish = () => {
+    try {
+      const views = Object.values(captures).map(entry => entry!.capture);
+      onComplete(aiService.estimateMultiViewMeasurements(views));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not combine the photos');
+    }
+  };
+
+  const canAdvance = current?.capture.validation.valid;
+  const isLastStep = stepIndex === VIEW_STEPS.length - 1;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-4 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <User className="text-indigo-600" size={20} />
+            <h3 className="text-lg font-semibold text-gray-800">Measure from Photos</h3>
+          </div>
+          {onCancel && (
+            <button onClick={onCancel} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {/* Step indicator */}
+        <div className="flex space-x-2 mt-3">
+          {VIEW_STEPS.map((candidate, index) => (
+            <div
+              key={candidate.view}
+              className={`flex-1 flex items-center justify-center space-x-1 py-1 rounded text-xs font-medium ${
+                index === stepIndex
+                  ? 'bg-indigo-600 text-white'
+                  : captures[candidate.view]?.capture.validation.valid
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {captures[candidate.view]?.capture.validation.valid && <CheckCircle size={12} />}
+              <span>{candidate.title}{candidate.optional ? ' (optional)' : ''}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4">
+        <p className="text-sm text-gray-600 mb-3">{step.instructions}</p>
+
+        <div className="relative bg-gray-900 rounded-lg overflow-hidden mb-3">
+          {current ? (
+            <img src={current.image} alt={`${step.title} view`} className="w-full h-auto" />
+          ) : (
+            <Webcam
+              ref={webcamRef}
+              audio={false}
+              screenshotFormat="image/jpeg"
+              videoConstraints={{ width: 720, height: 1280, facingMode: 'user' }}
+              className="w-full h-auto"
+            />
+          )}
+
+          {isAnalyzing && (
+            <div className="absolute inset-0 bg-white bg-opacity-50 flex items-center justify-center">
+              <div className="bg-white rounded-lg p-4 shadow-lg">
+                <p className="text-gray-800 font-medium">Checking pose...</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {current && (
+          current.capture.validation.valid ? (
+            <div className="flex items-center space-x-2 p-3 bg-green-50 rounded-lg text-sm text-green-800 mb-3">
+              <CheckCircle size={16} />
+              <span>Pose looks good</span>
+            </div>
+          ) : (
+            <div className="p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800 mb-3 space-y-1">
+              {current.capture.validation.issues.map(issue => (
+                <div key={issue} className="flex items-start space-x-2">
+                  <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                  <span>{issue}</span>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        <div className="flex space-x-2">
+          {current ? (
+            <button
+              onClick={handleRetake}
+              className="flex items-center space-x-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200"
+            >
+              <RotateCcw size={14} />
+              <span>Retake</span>
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleCapture}
+                disabled={isAnalyzing}
+                className="flex items-center space-x-1 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Camera size={14} />
+                <span>Capture</span>
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isAnalyzing}
+                className="flex items-center space-x-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50"
+              >
+                <Upload size={14} />
+                <span>Upload</span>
+              </button>
+              <input ref={fileInputRef} type="file" accept="image/*" onChange={handleUpload} className="hidden" />
+            </>
+          )}
+
+          <div className="flex-1" />
+
+          {step.optional && !current && (
+            <button onClick={handleFinish} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">
+              Skip & Finish
+            </button>
+          )}
+          {canAdvance && (
+            <button
+              onClick={isLastStep ? handleFinish : () => setStepIndex(stepIndex + 1)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700"
+            >
+              {isLastStep ? 'Finish' : 'Next'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
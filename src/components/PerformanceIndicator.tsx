@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Activity, Zap, AlertTriangle, CheckCircle, Settings, X } from 'lucide-react';
 import PerformanceMonitor from '../utils/performanceMonitor';
+import ResilienceRegistry, { BreakerState, ResilienceSnapshot } from '../services/resiliencePolicies';
+
+const BREAKER_COLORS: Record<BreakerState, string> = {
+  closed: 'bg-green-500',
+  'half-open': 'bg-yellow-500',
+  open: 'bg-red-500'
+};
 
 export const PerformanceIndicator: React.FC = () => {
   const [metrics, setMetrics] = useState<any>(null);
@@ -8,8 +15,10 @@ export const PerformanceIndicator: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [performanceScore, setPerformanceScore] = useState(0);
   const [recommendations, setRecommendations] = useState<string[]>([]);
+  const [breakers, setBreakers] = useState<ResilienceSnapshot[]>([]);
 
   const performanceMonitor = PerformanceMonitor.getInstance();
+  const resilience = ResilienceRegistry.getInstance();
 
   useEffect(() => {
     // Start monitoring
@@ -24,8 +33,13 @@ export const PerformanceIndicator: React.FC = () => {
       setMetrics(currentMetrics);
       setPerformanceScore(score);
       setRecommendations(report.recommendations);
+      setBreakers(resilience.getSnapshots());
     }, 2000);
 
+    // Breaker trips show up immediately rather than on the next tick
+    const handleBreakerChange = () => setBreakers(resilience.getSnapshots());
+    document.addEventListener('resilience:state-change', handleBreakerChange);
+
     // Listen for performance events
     const handlePerformanceEvent = (event: CustomEvent) => {
       console.log('Performance event:', event.type, event.detail);
@@ -36,6 +50,7 @@ export const PerformanceIndicator: React.FC = () => {
 
     return () => {
       clearInterval(interval);
+      document.removeEventListener('resilience:state-change', handleBreakerChange);
       document.removeEventListener('performance:optimize', handlePerformanceEvent as EventListener);
       document.removeEventListener('performance:memory-cleanup', handlePerformanceEvent as EventListener);
     };
@@ -57,6 +72,8 @@ export const PerformanceIndicator: React.FC = () => {
     return null;
   }
 
+  const openBreakers = breakers.filter(breaker => breaker.state !== 'closed').length;
+
   return (
     <div className="fixed bottom-4 right-4 z-50">
       {/* Compact indicator */}
@@ -67,6 +84,11 @@ export const PerformanceIndicator: React.FC = () => {
         >
           {getPerformanceIcon(performanceScore)}
           <span className="font-medium text-sm">{Math.round(performanceScore)}</span>
+          {openBreakers > 0 && (
+            <span className="px-1.5 py-0.5 bg-red-500 text-white text-xs rounded-full">
+              {openBreakers} open
+            </span>
+          )}
         </button>
       )}
 
@@ -160,6 +182,41 @@ export const PerformanceIndicator: React.FC = () => {
               </div>
             </div>
 
+            {/* Circuit breakers */}
+            {breakers.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <h4 className="text-sm font-medium text-gray-800 mb-2">Circuit Breakers</h4>
+                <div className="space-y-2">
+                  {breakers.map(breaker => (
+                    <div key={breaker.name} className="flex items-center justify-between text-xs">
+                      <div className="flex items-center space-x-2">
+                        <span className={`w-2 h-2 rounded-full ${BREAKER_COLORS[breaker.state]}`} />
+                        <span className="text-gray-700 font-mono">{breaker.name}</span>
+                      </div>
+                      <div className="flex items-center space-x-2 text-gray-500">
+                        <span title="In flight / limit">{breaker.inFlight}/{breaker.maxConcurrent}</span>
+                        {breaker.queued > 0 && <span title="Queued">+{breaker.queued}</span>}
+                        {breaker.recentFailures > 0 && (
+                          <span className="text-red-600" title="Recent failures">{breaker.recentFailures}✕</span>
+                        )}
+                        {breaker.state !== 'closed' && (
+                          <button
+                            onClick={() => {
+                              resilience.resetBreaker(breaker.name);
+                              setBreakers(resilience.getSnapshots());
+                            }}
+                            className="text-indigo-600 hover:text-indigo-800"
+                          >
+                            Reset
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Recommendations */}
             {recommendations.length > 0 && (
               <div className="mt-4 pt-4 border-t border-gray-200">
@@ -1,21 +1,37 @@
-import React, { useRef, useState, useCallback } from 'react';
+import React, { useRef, useState, useCallback, useEffect } from 'react';
 import Webcam from 'react-webcam';
-import { Camera, CameraOff, RotateCcw, Download, Settings, Zap } from 'lucide-react';
+import { Camera, CameraOff, RotateCcw, Download, Settings, Zap, Target, CheckCircle } from 'lucide-react';
+import { RealAIService } from '../services/realAIService';
+import CaptureQualityAnalyzer, { CaptureQualityReport } from '../services/captureQuality';
+
+// Consecutive passing checks required before the guided mode captures on its own
+const READY_FRAMES_REQUIRED = 4;
+const GUIDED_CHECK_INTERVAL = 250;
 
 interface RealTimeCameraProps {
   onCapture: (imageSrc: string) => void;
   isActive: boolean;
   onToggle: () => void;
   onRealTimeProcess?: (imageData: ImageData) => void;
+  guidedCapture?: boolean;
+  onQualityReport?: (report: CaptureQualityReport) => void;
 }
 
 export const RealTimeCamera: React.FC<RealTimeCameraProps> = ({
   onCapture,
   isActive,
   onToggle,
-  onRealTimeProcess
+  onRealTimeProcess,
+  guidedCapture = false,
+  onQualityReport
 }) => {
   const webcamRef = useRef<Webcam>(null);
+  const analyzerRef = useRef(new CaptureQualityAnalyzer());
+  const guidedTimerRef = useRef<number | null>(null);
+  const readyFramesRef = useRef(0);
+  const [isGuidedMode, setIsGuidedMode] = useState(guidedCapture);
+  const [qualityReport, setQualityReport] = useState<CaptureQualityReport | null>(null);
+  const [readyProgress, setReadyProgress] = useState(0);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
   const [isCapturing, setIsCapturing] = useState(false);
   const [isRealTimeMode, setIsRealTimeMode] = useState(false);
@@ -54,6 +70,93 @@ export const RealTimeCamera: React.FC<RealTimeCameraProps> = ({
     }, 100);
   }, [onCapture]);
 
+  // The guided loop reads the latest capture without restarting, which would reset the analyzer
+  const captureRef = useRef(capture);
+  useEffect(() => {
+    captureRef.current = capture;
+  }, [capture]);
+
+  useEffect(() => {
+    if (!isActive || !isGuidedMode) {
+      return;
+    }
+
+    let cancelled = false;
+    const aiService = RealAIService.getInstance();
+    analyzerRef.current.reset();
+    readyFramesRef.current = 0;
+
+    const grabFrame = (video: HTMLVideoElement): ImageData | null => {
+      const canvas = document.createElement('canvas');
+      // Quality checks don't need full resolution
+      const scale = Math.min(1, 320 / (video.videoWidth || 320));
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    };
+
+    const runCheck = async () => {
+      const video = webcamRef.current?.video;
+      const screenshot = webcamRef.current?.getScreenshot();
+
+      if (video && video.readyState >= 2 && screenshot) {
+        const frame = grabFrame(video);
+        let keypoints = null;
+
+        try {
+          const img = new Image();
+          img.src = screenshot;
+          await new Promise((resolve, reject) => {
+            img.onload = resolve;
+            img.onerror = () => reject(new Error('Screenshot could not be decoded'));
+          });
+          const pose = await aiService.detectBodyPose(img);
+          keypoints = pose.keypoints;
+        } catch (error) {
+          // No person detected this frame, or the screenshot didn't decode
+        }
+
+        if (cancelled || !frame) return;
+
+        const report = analyzerRef.current.analyze(keypoints, frame);
+        setQualityReport(report);
+        onQualityReport?.(report);
+
+        readyFramesRef.current = report.ready ? readyFramesRef.current + 1 : 0;
+        setReadyProgress(readyFramesRef.current / READY_FRAMES_REQUIRED);
+
+        if (readyFramesRef.current >= READY_FRAMES_REQUIRED) {
+          setIsGuidedMode(false);
+          captureRef.current();
+          return;
+        }
+      }
+
+      if (!cancelled) {
+        guidedTimerRef.current = window.setTimeout(runCheck, GUIDED_CHECK_INTERVAL);
+      }
+    };
+
+    runCheck();
+
+    return () => {
+      cancelled = true;
+      if (guidedTimerRef.current) {
+        clearTimeout(guidedTimerRef.current);
+        guidedTimerRef.current = null;
+      }
+      setReadyProgress(0);
+    };
+  }, [isActive, isGuidedMode]);
+
+  const toggleGuidedMode = () => {
+    setQualityReport(null);
+    setIsGuidedMode(!isGuidedMode);
+  };
+
   const switchCamera = () => {
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   };
@@ -137,6 +240,17 @@ export const RealTimeCamera: React.FC<RealTimeCameraProps> = ({
             >
               <Zap size={16} />
             </button>
+            <button
+              onClick={toggleGuidedMode}
+              className={`p-2 rounded-lg transition-colors ${
+                isGuidedMode
+                  ? 'bg-indigo-100 text-indigo-800'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
+              }`}
+              title="Guided Capture"
+            >
+              <Target size={16} />
+            </button>
             <button
               onClick={switchCamera}
               className="p-2 text-gray-600 hover:text-gray-800 rounded-lg hover:bg-gray-100"
@@ -246,7 +360,40 @@ export const RealTimeCamera: React.FC<RealTimeCameraProps> = ({
           </div>
           
           {/* Frame guide */}
-          <div className="absolute inset-4 border-2 border-white border-dashed opacity-30 rounded-lg"></div>
+          <div className={`absolute inset-4 border-2 border-dashed rounded-lg ${
+            isGuidedMode && qualityReport?.ready ? 'border-green-400 opacity-80' : 'border-white opacity-30'
+          }`}></div>
+
+          {/* Guided capture coaching */}
+          {isGuidedMode && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-70 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center space-x-2">
+              {qualityReport?.ready ? <CheckCircle size={16} className="text-green-400" /> : <Target size={16} />}
+              <span>
+                {qualityReport
+                  ? qualityReport.ready ? `Hold still… capturing` : qualityReport.coaching
+                  : 'Checking your pose…'}
+              </span>
+            </div>
+          )}
+
+          {isGuidedMode && qualityReport && (
+            <div className="absolute bottom-12 left-1/2 transform -translate-x-1/2 flex space-x-1">
+              {qualityReport.checks.map(check => (
+                <span
+                  key={check.id}
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    check.passed ? 'bg-green-500 text-white' : 'bg-black bg-opacity-60 text-gray-200'
+                  }`}
+                >
+                  {check.label}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {isGuidedMode && readyProgress > 0 && (
+            <div className="absolute bottom-0 left-0 h-1 bg-green-400 transition-all" style={{ width: `${Math.min(readyProgress, 1) * 100}%` }}></div>
+          )}
           
           {/* Real-time processing indicator */}
           {isRealTimeMode && (
@@ -266,7 +413,9 @@ export const RealTimeCamera: React.FC<RealTimeCameraProps> = ({
       <div className="p-4 bg-gray-50">
         <div className="flex items-center justify-between text-xs text-gray-600">
           <p>
-            Position yourself in the frame for optimal results
+            {isGuidedMode
+              ? 'Guided capture takes the photo automatically once every check passes'
+              : 'Position yourself in the frame for optimal results'}
           </p>
           <div className="flex items-center space-x-2">
             <div className="w-2 h-2 bg-green-500 rounded-full"></div>
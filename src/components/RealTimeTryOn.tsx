@@ -1,8 +1,27 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import Webcam from 'react-webcam';
-import { Camera, CameraOff, RotateCcw, Download, Settings, Zap, Eye, Play, Pause, Square } from 'lucide-react';
-import { ClothingItem, LightingSettings } from '../types';
+import { Camera, CameraOff, RotateCcw, Download, Settings, Zap, Eye, Play, Pause, Square, Share2, X, Hand } from 'lucide-react';
+import { ClothingItem, ClothingCategory, LightingSettings } from '../types';
 import RealTimeProcessingService from '../services/realTimeProcessing';
+import VideoRecordingService, { RecordingResult, RecordingStatus } from '../services/videoRecording';
+import ClothSimulationService, { ClothFrame } from '../services/clothSimulation';
+import { SmoothingLevel } from '../services/poseTracking';
+import { CalibratedMeasurements } from '../services/bodyCalibration';
+import { formatLength } from '../utils/measurementUnits';
+import { AdvancedAIService } from '../services/advancedAIService';
+import GestureController, { GestureCommand, GestureEvent, GestureProgress } from '../services/gestureControl';
+
+// Hand detection runs well below the camera rate; gestures last hundreds of milliseconds
+const GESTURE_POLL_INTERVAL = 100;
+const GESTURE_NOTICE_DURATION = 1500;
+
+const GESTURE_LABELS: Record<GestureCommand, string> = {
+  'next-garment': 'Next garment',
+  'previous-garment': 'Previous garment',
+  capture: 'Capture',
+  favorite: 'Add to favorites',
+  'toggle-pause': 'Pause / resume'
+};
 
 interface RealTimeTryOnProps {
   selectedItems: ClothingItem[];
@@ -10,6 +29,19 @@ interface RealTimeTryOnProps {
   onCapture: (imageSrc: string) => void;
   isActive: boolean;
   onToggle: () => void;
+  maxRecordingDuration?: number;
+  onRecordingComplete?: (recording: RecordingResult) => void;
+  onCycleGarment?: (direction: 1 | -1) => void;
+  onFavorite?: (item: ClothingItem) => void;
+  favoriteIds?: string[];
+}
+
+interface GarmentRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  flare: number;
 }
 
 export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
@@ -17,14 +49,22 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
   lightingSettings,
   onCapture,
   isActive,
-  onToggle
+  onToggle,
+  maxRecordingDuration = 30000,
+  onRecordingComplete,
+  onCycleGarment,
+  onFavorite,
+  favoriteIds = []
 }) => {
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
   const [isCapturing, setIsCapturing] = useState(false);
   const [isRealTimeMode, setIsRealTimeMode] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus | null>(null);
+  const [recording, setRecording] = useState<RecordingResult | null>(null);
+  const [isUploadingRecording, setIsUploadingRecording] = useState(false);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
   const [cameraSettings, setCameraSettings] = useState({
     resolution: 'hd' as 'vga' | 'hd' | 'fhd',
     frameRate: 30,
@@ -39,8 +79,20 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
   });
   const [currentPose, setCurrentPose] = useState<any>(null);
   const [currentSegmentation, setCurrentSegmentation] = useState<any>(null);
+  const [liveMeasurements, setLiveMeasurements] = useState<CalibratedMeasurements | null>(null);
+  const [gesturesEnabled, setGesturesEnabled] = useState(false);
+  const [gestureProgress, setGestureProgress] = useState<GestureProgress | null>(null);
+  const [gestureNotice, setGestureNotice] = useState<string | null>(null);
+  const gestureControllerRef = useRef(new GestureController(true));
+  // The detection loop outlives renders, so it calls the latest handler through a ref
+  const gestureHandlerRef = useRef<(event: GestureEvent) => void>(() => {});
 
   const realTimeService = RealTimeProcessingService.getInstance();
+  const recordingService = VideoRecordingService.getInstance();
+  const clothSimulation = ClothSimulationService.getInstance();
+  const [smoothing, setSmoothing] = useState<SmoothingLevel>(realTimeService.getSmoothingLevel());
+  const isRecording = recordingStatus !== null && recordingStatus.state !== 'idle';
+  const isRecordingPaused = recordingStatus?.state === 'paused';
 
   useEffect(() => {
     if (isActive) {
@@ -54,10 +106,127 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
     };
   }, [isActive]);
 
+  useEffect(() => {
+    const unsubscribe = recordingService.onStatusChange(setRecordingStatus);
+
+    // Refresh the elapsed time shown on the recording badge
+    const interval = setInterval(() => {
+      const status = recordingService.getStatus();
+      if (status.state === 'recording') {
+        setRecordingStatus(status);
+      }
+    }, 250);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      recordingService.cancelRecording();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isActive && isRecording) {
+      recordingService.cancelRecording();
+    }
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    return () => clothSimulation.dispose();
+  }, [isActive]);
+
+  useEffect(() => {
+    return () => {
+      if (recording) {
+        recordingService.releaseRecording(recording);
+      }
+    };
+  }, [recording]);
+
+  useEffect(() => {
+    gestureControllerRef.current.setMirrored(facingMode === 'user');
+  }, [facingMode]);
+
+  // Runs apart from the real-time loop so an open palm can resume a paused session
+  useEffect(() => {
+    if (!isActive || !gesturesEnabled) return;
+
+    const aiService = AdvancedAIService.getInstance();
+    const controller = gestureControllerRef.current;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const video = webcamRef.current?.video;
+      if (video && video.readyState === 4) {
+        try {
+          const hands = await aiService.detectHands(video);
+          const now = Date.now();
+          const event = controller.update(hands, now);
+          if (cancelled) return;
+
+          setGestureProgress(controller.getProgress(now));
+          if (event) gestureHandlerRef.current(event);
+        } catch (error) {
+          console.error('Gesture detection error:', error);
+        }
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, GESTURE_POLL_INTERVAL);
+      }
+    };
+
+    aiService.initialize()
+      .then(() => {
+        if (!cancelled) poll();
+      })
+      .catch(error => {
+        console.error('Failed to start gesture control:', error);
+        setGesturesEnabled(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      controller.reset();
+      setGestureProgress(null);
+    };
+  }, [isActive, gesturesEnabled]);
+
+  useEffect(() => {
+    if (!gestureNotice) return;
+    const timeout = setTimeout(() => setGestureNotice(null), GESTURE_NOTICE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [gestureNotice]);
+
   useEffect(() => {
     if (isRealTimeMode && isActive) {
       startRealTimeProcessing();
     }
+  }, [isRealTimeMode, isActive, selectedItems, smoothing]);
+
+  // Without tracking, garments sit in a fixed frame so the preview and recordings still show them
+  useEffect(() => {
+    if (isRealTimeMode || !isActive) return;
+    const video = webcamRef.current?.video;
+    if (!video) return;
+
+    const draw = () => {
+      const canvas = canvasRef.current;
+      if (!canvas || video.videoWidth === 0) return;
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      drawStaticGarments(canvas.getContext('2d')!, selectedItems);
+    };
+
+    draw();
+    video.addEventListener('loadedmetadata', draw);
+    video.addEventListener('resize', draw);
+    return () => {
+      video.removeEventListener('loadedmetadata', draw);
+      video.removeEventListener('resize', draw);
+    };
   }, [isRealTimeMode, isActive, selectedItems]);
 
   const getVideoConstraints = () => {
@@ -91,6 +260,40 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
     }, 100);
   }, [onCapture]);
 
+  gestureHandlerRef.current = (event: GestureEvent) => {
+    // The garment being tried on most recently is the one gestures act on
+    const focusedItem = selectedItems[selectedItems.length - 1];
+    let notice = GESTURE_LABELS[event.command];
+
+    switch (event.command) {
+      case 'next-garment':
+        onCycleGarment?.(1);
+        break;
+      case 'previous-garment':
+        onCycleGarment?.(-1);
+        break;
+      case 'capture':
+        capture();
+        break;
+      case 'favorite':
+        if (!focusedItem) {
+          notice = 'Nothing to favorite yet';
+        } else if (favoriteIds.includes(focusedItem.id)) {
+          notice = `${focusedItem.name} is already a favorite`;
+        } else {
+          onFavorite?.(focusedItem);
+          notice = `${focusedItem.name} added to favorites`;
+        }
+        break;
+      case 'toggle-pause':
+        notice = isRealTimeMode ? 'Live AI paused' : 'Live AI resumed';
+        setIsRealTimeMode(!isRealTimeMode);
+        break;
+    }
+
+    setGestureNotice(notice);
+  };
+
   const switchCamera = () => {
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   };
@@ -124,9 +327,17 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
             enableBodySegmentation: true,
             enableClothingFit: selectedItems.length > 0,
             clothingItems: selectedItems,
-            quality: 'medium'
+            quality: 'medium',
+            smoothing
           });
           
+          const clothFrames = await clothSimulation.step(
+            result.pose,
+            result.poseDelta,
+            selectedItems,
+            canvas.width / canvas.height
+          );
+          
           const processingTime = Date.now() - startTime;
           
           // Update metrics
@@ -139,10 +350,11 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
           // Update pose and segmentation
           setCurrentPose(result.pose);
           setCurrentSegmentation(result.segmentation);
+          setLiveMeasurements(result.measurements);
           
           // Render results on canvas
           if (canvasRef.current) {
-            renderRealTimeResults(result);
+            renderRealTimeResults(result, clothFrames);
           }
           
         } catch (error) {
@@ -158,7 +370,7 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
     requestAnimationFrame(processFrame);
   };
 
-  const renderRealTimeResults = (result: any) => {
+  const renderRealTimeResults = (result: any, clothFrames: ClothFrame[] = []) => {
     if (!canvasRef.current || !webcamRef.current?.video) return;
     
     const canvas = canvasRef.current;
@@ -185,6 +397,9 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
     if (result.clothingFit && selectedItems.length > 0) {
       this.drawClothingFit(ctx, result.clothingFit, selectedItems);
     }
+    
+    // Dresses and skirts swing with the simulated cloth
+    drawClothFrames(ctx, clothFrames, selectedItems);
   };
 
   private drawPoseKeypoints(ctx: CanvasRenderingContext2D, keypoints: any[], width: number, height: number) {
@@ -261,14 +476,79 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
     });
   }
 
-  const startRecording = () => {
-    setIsRecording(true);
-    // Implement video recording functionality
+  const startRecording = async () => {
+    const video = webcamRef.current?.video;
+    if (!video) return;
+
+    setRecordingError(null);
+    setRecording(null);
+
+    try {
+      await recordingService.startRecording(
+        { video, getOverlay: () => canvasRef.current },
+        {
+          maxDuration: maxRecordingDuration,
+          frameRate: cameraSettings.frameRate,
+          mirrored: facingMode === 'user',
+          overlayBlendMode: OVERLAY_BLEND_MODE
+        }
+      );
+
+      const result = await recordingService.whenStopped();
+      setRecording(result);
+      onRecordingComplete?.(result);
+    } catch (error) {
+      if (error instanceof Error && error.message !== 'Recording cancelled') {
+        console.error('Recording failed:', error);
+        setRecordingError(error.message);
+      }
+    }
+  };
+
+  const stopRecording = async () => {
+    try {
+      await recordingService.stopRecording();
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+    }
+  };
+
+  const togglePauseRecording = () => {
+    if (isRecordingPaused) {
+      recordingService.resumeRecording();
+    } else {
+      recordingService.pauseRecording();
+    }
+  };
+
+  const downloadRecording = () => {
+    if (recording) {
+      recordingService.downloadRecording(recording);
+    }
+  };
+
+  const uploadRecording = async () => {
+    if (!recording) return;
+
+    setIsUploadingRecording(true);
+    setRecordingError(null);
+
+    try {
+      await recordingService.uploadRecording(recording, {
+        tags: selectedItems.map(item => item.id)
+      });
+    } catch (error) {
+      setRecordingError('Failed to upload recording. Please try again.');
+    } finally {
+      setIsUploadingRecording(false);
+    }
   };
 
-  const stopRecording = () => {
-    setIsRecording(false);
-    // Stop recording and save video
+  const formatRecordingTime = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
   if (!isActive) {
@@ -321,6 +601,18 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
               <Zap size={16} />
             </button>
             
+            <button
+              onClick={() => setGesturesEnabled(!gesturesEnabled)}
+              className={`p-2 rounded-lg transition-colors ${
+                gesturesEnabled
+                  ? 'bg-purple-100 text-purple-800'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
+              }`}
+              title="Toggle Gesture Control"
+            >
+              <Hand size={16} />
+            </button>
+            
             <button
               onClick={switchCamera}
               className="p-2 text-gray-600 hover:text-gray-800 rounded-lg hover:bg-gray-100"
@@ -332,19 +624,31 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
             {!isRecording ? (
               <button
                 onClick={startRecording}
-                className="p-2 text-red-600 hover:text-red-800 rounded-lg hover:bg-red-100"
-                title="Start Recording"
+                disabled={!recordingService.isSupported()}
+                className="p-2 text-red-600 hover:text-red-800 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                title={recordingService.isSupported() ? 'Start Recording' : 'Recording not supported in this browser'}
               >
                 <Play size={16} />
               </button>
             ) : (
-              <button
-                onClick={stopRecording}
-                className="p-2 text-red-600 hover:text-red-800 rounded-lg hover:bg-red-100"
-                title="Stop Recording"
-              >
-                <Square size={16} />
-              </button>
+              <>
+                <button
+                  onClick={togglePauseRecording}
+                  disabled={recordingStatus?.state === 'stopping'}
+                  className="p-2 text-red-600 hover:text-red-800 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                  title={isRecordingPaused ? 'Resume Recording' : 'Pause Recording'}
+                >
+                  {isRecordingPaused ? <Play size={16} /> : <Pause size={16} />}
+                </button>
+                <button
+                  onClick={stopRecording}
+                  disabled={recordingStatus?.state === 'stopping'}
+                  className="p-2 text-red-600 hover:text-red-800 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                  title="Stop Recording"
+                >
+                  <Square size={16} />
+                </button>
+              </>
             )}
             
             <button
@@ -408,6 +712,18 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
             <option value="incandescent">Incandescent</option>
           </select>
           
+          <select
+            value={smoothing}
+            onChange={(e) => setSmoothing(e.target.value as SmoothingLevel)}
+            className="px-2 py-1 border border-gray-300 rounded text-xs"
+            title="Pose smoothing"
+          >
+            <option value="off">No Smoothing</option>
+            <option value="low">Low Smoothing</option>
+            <option value="medium">Medium Smoothing</option>
+            <option value="high">High Smoothing</option>
+          </select>
+          
           <label className="flex items-center text-xs">
             <input
               type="checkbox"
@@ -422,12 +738,21 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
           </label>
         </div>
 
+        {gesturesEnabled && (
+          <p className="mt-3 text-xs text-purple-700">
+            Swipe to change garment • Pinch to capture • Thumbs-up to favorite • Open palm to pause
+          </p>
+        )}
+
         {/* Real-time Metrics */}
         {isRealTimeMode && (
           <div className="mt-3 flex items-center space-x-4 text-xs text-gray-600">
             <span>FPS: {realTimeMetrics.fps}</span>
             <span>Processing: {realTimeMetrics.processingTime}ms</span>
             <span>Accuracy: {Math.round(realTimeMetrics.accuracy)}%</span>
+            {liveMeasurements && (
+              <span>Shoulders: {formatLength(liveMeasurements.measurements.shoulderWidth)}</span>
+            )}
           </div>
         )}
       </div>
@@ -443,14 +768,12 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
             mirrored={facingMode === 'user'}
           />
           
-          {/* Overlay canvas for real-time visualization */}
-          {isRealTimeMode && (
-            <canvas
-              ref={canvasRef}
-              className="absolute inset-0 w-full h-full pointer-events-none"
-              style={{ mixBlendMode: 'multiply' }}
-            />
-          )}
+          {/* Garment overlay; real-time mode adds the AI visualization */}
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            style={{ mixBlendMode: OVERLAY_BLEND_MODE }}
+          />
         </div>
         
         {isCapturing && (
@@ -461,10 +784,31 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
           </div>
         )}
 
-        {isRecording && (
+        {isRecording && recordingStatus && (
           <div className="absolute top-4 left-4 bg-red-500 text-white px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1">
-            <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-            <span>Recording</span>
+            <div className={`w-2 h-2 bg-white rounded-full ${isRecordingPaused ? '' : 'animate-pulse'}`}></div>
+            <span>
+              {isRecordingPaused ? 'Paused' : 'Recording'} {formatRecordingTime(recordingStatus.elapsed)} / {formatRecordingTime(recordingStatus.maxDuration)}
+            </span>
+          </div>
+        )}
+
+        {gesturesEnabled && (gestureNotice || gestureProgress) && (
+          <div className="absolute bottom-16 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-60 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center space-x-2 pointer-events-none">
+            <Hand size={16} />
+            {gestureNotice ? (
+              <span>{gestureNotice}</span>
+            ) : gestureProgress && (
+              <div>
+                <span>{GESTURE_LABELS[gestureProgress.command]}</span>
+                <div className="mt-1 h-1 w-32 bg-white bg-opacity-30 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-purple-400 transition-all"
+                    style={{ width: `${Math.round(gestureProgress.progress * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -527,6 +871,53 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
         </div>
       </div>
 
+      {(recording || recordingError) && (
+        <div className="p-4 border-t border-gray-200">
+          {recordingError && (
+            <p className="text-sm text-red-600 mb-2">{recordingError}</p>
+          )}
+          {recording && (
+            <div className="flex items-center space-x-4">
+              <video
+                src={recording.url}
+                controls
+                className="w-40 rounded-lg bg-black"
+              />
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-800">Try-on clip ready</p>
+                <p className="text-xs text-gray-500">
+                  {formatRecordingTime(recording.duration)} • {(recording.size / (1024 * 1024)).toFixed(1)} MB
+                </p>
+                <div className="flex items-center space-x-2 mt-2">
+                  <button
+                    onClick={downloadRecording}
+                    className="flex items-center space-x-1 px-3 py-1 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+                  >
+                    <Download size={14} />
+                    <span className="text-sm">Download</span>
+                  </button>
+                  <button
+                    onClick={uploadRecording}
+                    disabled={isUploadingRecording}
+                    className="flex items-center space-x-1 px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                  >
+                    <Share2 size={14} />
+                    <span className="text-sm">{isUploadingRecording ? 'Uploading...' : 'Share'}</span>
+                  </button>
+                  <button
+                    onClick={() => setRecording(null)}
+                    className="p-1 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100"
+                    title="Discard Recording"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="p-4 bg-gray-50">
         <div className="flex items-center justify-between text-xs text-gray-600">
           <p>
@@ -549,4 +940,100 @@ export const RealTimeTryOn: React.FC<RealTimeTryOnProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const CLOTH_FALLBACK_COLOR = '#6366f1';
+
+// Shared by the on-screen overlay and the recording compositor
+const OVERLAY_BLEND_MODE = 'multiply';
+
+// Fractions of the frame for a shopper centered at arm's length; flare widens the hem
+const STATIC_GARMENT_REGIONS: Partial<Record<ClothingCategory, GarmentRegion>> = {
+  bottoms: { x: 0.34, y: 0.56, width: 0.32, height: 0.4, flare: 1.1 },
+  dresses: { x: 0.32, y: 0.3, width: 0.36, height: 0.58, flare: 1.4 },
+  tops: { x: 0.3, y: 0.3, width: 0.4, height: 0.3, flare: 0.95 },
+  outerwear: { x: 0.27, y: 0.28, width: 0.46, height: 0.36, flare: 1 }
+};
+
+// Inner layers first so outerwear ends up on top
+const STATIC_GARMENT_ORDER: ClothingCategory[] = ['bottoms', 'dresses', 'tops', 'outerwear'];
+
+function drawStaticGarments(ctx: CanvasRenderingContext2D, items: ClothingItem[]) {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+
+  const layered = [...items].sort(
+    (a, b) => STATIC_GARMENT_ORDER.indexOf(a.category) - STATIC_GARMENT_ORDER.indexOf(b.category)
+  );
+
+  ctx.save();
+  ctx.globalAlpha = 0.85;
+  layered.forEach(item => {
+    const region = STATIC_GARMENT_REGIONS[item.category];
+    if (!region) return;
+
+    const top = region.y * height;
+    const bottom = (region.y + region.height) * height;
+    const center = (region.x + region.width / 2) * width;
+    const halfTop = (region.width * width) / 2;
+    const halfHem = halfTop * region.flare;
+
+    ctx.beginPath();
+    ctx.moveTo(center - halfTop, top);
+    ctx.lineTo(center + halfTop, top);
+    ctx.lineTo(center + halfHem, bottom);
+    ctx.lineTo(center - halfHem, bottom);
+    ctx.closePath();
+
+    ctx.fillStyle = item.colors[0] || CLOTH_FALLBACK_COLOR;
+    ctx.fill();
+  });
+  ctx.restore();
+}
+
+function drawClothFrames(ctx: CanvasRenderingContext2D, frames: ClothFrame[], items: ClothingItem[]) {
+  if (frames.length === 0) return;
+
+  const { width, height } = ctx.canvas;
+  // Quads are filled opaque on their own layer so shared edges don't double up the overlay alpha
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerCtx = layer.getContext('2d')!;
+
+  frames.forEach(frame => {
+    const item = items.find(candidate => candidate.id === frame.id);
+    if (!item) return;
+
+    const point = (column: number, row: number) => {
+      const i = (row * frame.columns + column) * 2;
+      return [frame.positions[i] * width, frame.positions[i + 1] * height];
+    };
+
+    for (let row = 0; row < frame.rows - 1; row++) {
+      for (let column = 0; column < frame.columns - 1; column++) {
+        const corners = [point(column, row), point(column + 1, row), point(column + 1, row + 1), point(column, row + 1)];
+        layerCtx.beginPath();
+        corners.forEach(([x, y], index) => (index === 0 ? layerCtx.moveTo(x, y) : layerCtx.lineTo(x, y)));
+        layerCtx.closePath();
+
+        // Canvas ignores color names it doesn't know, leaving the fallback in place
+        layerCtx.fillStyle = CLOTH_FALLBACK_COLOR;
+        layerCtx.fillStyle = item.colors[0] || CLOTH_FALLBACK_COLOR;
+        layerCtx.fill();
+
+        // Darken bunched quads so folds read as shadow
+        const compression = frame.compression[row * (frame.columns - 1) + column];
+        if (compression < 1) {
+          layerCtx.fillStyle = `rgba(0, 0, 0, ${Math.min(0.5, (1 - compression) * 1.5)})`;
+          layerCtx.fill();
+        }
+      }
+    }
+  });
+
+  ctx.save();
+  ctx.globalAlpha = 0.85;
+  ctx.drawImage(layer, 0, 0);
+  ctx.restore();
+}
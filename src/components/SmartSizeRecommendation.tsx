@@ -1,20 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Ruler, Target, TrendingUp, AlertCircle, CheckCircle, Shirt, User } from 'lucide-react';
 import { AdvancedAIService, AdvancedBodyMeasurements, SizeRecommendation } from '../services/advancedAIService';
 import { ClothingItem } from '../types';
+import { MeasurementSystem } from '../types/enhanced';
+import {
+  formatHeight,
+  formatLength,
+  getDefaultLocale,
+  getMeasurementSystem,
+  MeasurementInput,
+  normalizeMeasurements
+} from '../utils/measurementUnits';
 
 interface SmartSizeRecommendationProps {
   clothingItem: ClothingItem;
-  bodyMeasurements?: AdvancedBodyMeasurements;
+  bodyMeasurements?: MeasurementInput<AdvancedBodyMeasurements>;
   userPreferences?: any;
   onSizeSelect: (size: string) => void;
+  locale?: string;
+  measurementSystem?: MeasurementSystem;
 }
 
 export const SmartSizeRecommendation: React.FC<SmartSizeRecommendationProps> = ({
   clothingItem,
   bodyMeasurements,
   userPreferences,
-  onSizeSelect
+  onSizeSelect,
+  locale = getDefaultLocale(),
+  measurementSystem
 }) => {
   const [recommendation, setRecommendation] = useState<SizeRecommendation | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -22,15 +35,20 @@ export const SmartSizeRecommendation: React.FC<SmartSizeRecommendationProps> = (
   const [showDetails, setShowDetails] = useState(false);
 
   const aiService = AdvancedAIService.getInstance();
+  const system = measurementSystem || getMeasurementSystem(locale);
+  const measurements = useMemo(
+    () => bodyMeasurements && normalizeMeasurements(bodyMeasurements),
+    [bodyMeasurements]
+  );
 
   useEffect(() => {
-    if (bodyMeasurements) {
+    if (measurements) {
       generateSizeRecommendation();
     }
-  }, [clothingItem, bodyMeasurements]);
+  }, [clothingItem, measurements]);
 
   const generateSizeRecommendation = async () => {
-    if (!bodyMeasurements) return;
+    if (!measurements) return;
 
     setIsLoading(true);
     try {
@@ -41,7 +59,7 @@ export const SmartSizeRecommendation: React.FC<SmartSizeRecommendationProps> = (
       };
 
       const rec = await aiService.recommendOptimalSize(
-        bodyMeasurements,
+        measurements,
         clothingItem,
         sizePrefs
       );
@@ -188,7 +206,7 @@ export const SmartSizeRecommendation: React.FC<SmartSizeRecommendationProps> = (
         )}
 
         {/* Detailed Analysis */}
-        {showDetails && bodyMeasurements && (
+        {showDetails && measurements && (
           <div className="border-t pt-4">
             <h4 className="text-sm font-medium text-gray-700 mb-3 flex items-center space-x-1">
               <User size={14} />
@@ -197,27 +215,27 @@ export const SmartSizeRecommendation: React.FC<SmartSizeRecommendationProps> = (
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div>
                 <p className="text-gray-600">Height</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.height)} cm</p>
+                <p className="font-medium">{formatHeight(measurements.height, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Chest</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.chest)} cm</p>
+                <p className="font-medium">{formatLength(measurements.chest, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Waist</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.waist)} cm</p>
+                <p className="font-medium">{formatLength(measurements.waist, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Hips</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.hips)} cm</p>
+                <p className="font-medium">{formatLength(measurements.hips, locale, system)}</p>
               </div>
               <div>
                 <p className="text-gray-600">Body Type</p>
-                <p className="font-medium capitalize">{bodyMeasurements.bodyType}</p>
+                <p className="font-medium capitalize">{measurements.bodyType}</p>
               </div>
               <div>
                 <p className="text-gray-600">Shoulder Width</p>
-                <p className="font-medium">{Math.round(bodyMeasurements.shoulderWidth)} cm</p>
+                <p className="font-medium">{formatLength(measurements.shoulderWidth, locale, system)}</p>
               </div>
             </div>
 
@@ -4,6 +4,12 @@ import { fabric } from 'fabric';
 import { ClothingItem, LightingSettings } from '../types';
 import ErrorService from '../services/errorService';
 import CacheService from '../services/cacheService';
+import { RealAIService, EnhancedBodySegmentation } from '../services/realAIService';
+import GarmentWarpRenderer from '../services/garmentWarp';
+import OutfitLayeringEngine, { TuckStyle } from '../services/outfitLayering';
+import AdvancedImageProcessingService, { BACKGROUND_PRESETS, BackgroundPresetId } from '../services/advancedImageProcessing';
+
+const layeringEngine = new OutfitLayeringEngine();
 
 interface VirtualTryOnProps {
   userPhoto: string;
@@ -22,7 +28,9 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
+  const warpRendererRef = useRef<GarmentWarpRenderer | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [tuckStyles, setTuckStyles] = useState<Record<string, TuckStyle>>({});
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingStage, setProcessingStage] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -55,10 +63,18 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
   const [bodyPose, setBodyPose] = useState<any>(null);
   const [bodySegmentation, setBodySegmentation] = useState<any>(null);
   const [facialFeatures, setFacialFeatures] = useState<any>(null);
+  const [backgroundPreset, setBackgroundPreset] = useState<BackgroundPresetId | 'original'>('original');
+  // Segmentation is the slow part, so each photo and background pair is cut out once
+  const backgroundCacheRef = useRef(new Map<string, string>());
 
   const errorService = ErrorService.getInstance();
   const cacheService = CacheService.getInstance();
 
+  // AI stage transitions go into the breadcrumb trail attached to error reports
+  useEffect(() => {
+    if (processingStage) errorService.addBreadcrumb('ai-stage', processingStage);
+  }, [processingStage]);
+
   useEffect(() => {
     initializeFabricCanvas();
     
@@ -66,6 +82,7 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
       if (fabricCanvasRef.current) {
         fabricCanvasRef.current.dispose();
       }
+      warpRendererRef.current?.dispose();
     };
   }, []);
 
@@ -73,7 +90,11 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
     if (userPhoto && selectedItems.length > 0) {
       processVirtualTryOn();
     }
-  }, [userPhoto, selectedItems, lightingSettings, qualitySettings, aiSettings]);
+  }, [userPhoto, selectedItems, lightingSettings, qualitySettings, aiSettings, tuckStyles, backgroundPreset]);
+
+  useEffect(() => {
+    backgroundCacheRef.current.clear();
+  }, [userPhoto]);
 
   const initializeFabricCanvas = () => {
     if (!canvasRef.current) return;
@@ -115,21 +136,22 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
         img.src = userPhoto;
       });
 
-      // Step 2: Advanced body pose detection
-      if (aiSettings.poseDetection) {
-        setProcessingStage('Detecting advanced body pose...');
+      // Step 2: Enhanced body segmentation, first so pose detection can reuse the mask
+      let segmentation: EnhancedBodySegmentation | undefined;
+      if (aiSettings.bodySegmentation) {
+        setProcessingStage('Performing enhanced body segmentation...');
         setProcessingProgress(25);
-        const pose = await detectBodyPose(img);
-        setBodyPose(pose);
-        setPerformanceMetrics(prev => ({ ...prev, aiAccuracy: pose.confidence * 100 }));
+        segmentation = await segmentBody(img);
+        setBodySegmentation(segmentation);
       }
 
-      // Step 3: Enhanced body segmentation
-      if (aiSettings.bodySegmentation) {
-        setProcessingStage('Performing enhanced body segmentation...');
+      // Step 3: Advanced body pose detection
+      if (aiSettings.poseDetection) {
+        setProcessingStage('Detecting advanced body pose...');
         setProcessingProgress(40);
-        const segmentation = await segmentBody(img);
-        setBodySegmentation(segmentation);
+        const pose = await detectBodyPose(img, segmentation);
+        setBodyPose(pose);
+        setPerformanceMetrics(prev => ({ ...prev, aiAccuracy: pose.confidence * 100 }));
       }
 
       // Step 4: Facial feature analysis
@@ -206,23 +228,14 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
     }
   };
 
-  const detectBodyPose = async (img: HTMLImageElement) => {
-    // Enhanced pose detection with multiple keypoints
-    const mockPose = {
-      keypoints: generateAdvancedKeypoints(),
-      confidence: 0.85 + Math.random() * 0.1,
-      boundingBox: {
-        x: 0.2,
-        y: 0.1,
-        width: 0.6,
-        height: 0.8
-      },
+  const detectBodyPose = async (img: HTMLImageElement, segmentation?: EnhancedBodySegmentation) => {
+    // Keypoints and measurements come from whichever inference backend is configured
+    const pose = await RealAIService.getInstance().detectBodyPose(img, segmentation);
+
+    return {
+      ...pose,
       bodyMeasurements: {
-        height: 170 + Math.random() * 20,
-        chest: 85 + Math.random() * 15,
-        waist: 70 + Math.random() * 15,
-        hips: 90 + Math.random() * 15,
-        shoulderWidth: 40 + Math.random() * 8,
+        ...pose.bodyMeasurements,
         bodyType: 'athletic'
       },
       posture: {
@@ -232,34 +245,15 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
         recommendations: ['Maintain good posture for better fit']
       },
       symmetry: {
-        overall: 0.85 + Math.random() * 0.1,
+        overall: 0.88,
         shoulders: 0.9,
         arms: 0.88,
         legs: 0.87
       }
     };
-    
-    return mockPose;
   };
 
-  const segmentBody = async (img: HTMLImageElement) => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    canvas.width = img.width;
-    canvas.height = img.height;
-    
-    // Create enhanced segmentation mask
-    const imageData = ctx.createImageData(canvas.width, canvas.height);
-    generateEnhancedSegmentationMask(imageData);
-
-    return {
-      mask: imageData,
-      bodyParts: ['head', 'torso', 'leftArm', 'rightArm', 'leftLeg', 'rightLeg', 'hands', 'feet'],
-      confidence: 0.82 + Math.random() * 0.1,
-      boundingBox: { x: 0.2, y: 0.1, width: 0.6, height: 0.8 },
-      pixelAccuracy: 0.88 + Math.random() * 0.08
-    };
-  };
+  const segmentBody = async (img: HTMLImageElement) => RealAIService.getInstance().segmentBody(img);
 
   const detectFacialFeatures = async (img: HTMLImageElement) => {
     return {
@@ -279,87 +273,38 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
     };
   };
 
-  const generateAdvancedKeypoints = () => {
-    const keypoints = [];
-    const keypointNames = [
-      'nose', 'leftEye', 'rightEye', 'leftEar', 'rightEar',
-      'leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow',
-      'leftWrist', 'rightWrist', 'leftHip', 'rightHip',
-      'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle',
-      'neck', 'chest', 'waist', 'leftHand', 'rightHand'
-    ];
-    
-    keypointNames.forEach((name, index) => {
-      keypoints.push({
-        x: 0.3 + Math.random() * 0.4,
-        y: 0.1 + (index / keypointNames.length) * 0.8,
-        z: Math.random() * 0.1,
-        confidence: 0.7 + Math.random() * 0.3,
-        name
-      });
+  // Evenly spaced around the face so repeated runs give the same landmarks
+  const generateFacialLandmarks = () => {
+    return Array.from({ length: 68 }, (_, index) => {
+      const angle = (index / 68) * Math.PI * 2;
+      return {
+        x: 0.5 + Math.cos(angle) * 0.1,
+        y: 0.225 + Math.sin(angle) * 0.075,
+        z: 0,
+        index
+      };
     });
-    
-    return keypoints;
   };
 
-  const generateFacialLandmarks = () => {
-    const landmarks = [];
-    for (let i = 0; i < 68; i++) {
-      landmarks.push({
-        x: 0.4 + Math.random() * 0.2,
-        y: 0.15 + Math.random() * 0.15,
-        z: Math.random() * 0.05,
-        index: i
-      });
-    }
-    return landmarks;
-  };
+  const applyBackground = async (photo: string): Promise<string> => {
+    if (backgroundPreset === 'original') return photo;
 
-  const generateEnhancedSegmentationMask = (imageData: ImageData) => {
-    const { data, width, height } = imageData;
-    
-    // Create more realistic person-shaped mask with body parts
-    const centerX = width / 2;
-    const centerY = height / 2;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        
-        // Head (circle)
-        const headDx = (x - centerX) / (width * 0.08);
-        const headDy = (y - centerY * 0.3) / (height * 0.08);
-        const headDistance = headDx * headDx + headDy * headDy;
-        
-        // Torso (rectangle)
-        const torsoInBounds = x > centerX - width * 0.15 && x < centerX + width * 0.15 &&
-                             y > centerY * 0.5 && y < centerY * 1.3;
-        
-        // Arms
-        const leftArmInBounds = x > centerX - width * 0.25 && x < centerX - width * 0.1 &&
-                               y > centerY * 0.6 && y < centerY * 1.2;
-        const rightArmInBounds = x > centerX + width * 0.1 && x < centerX + width * 0.25 &&
-                                y > centerY * 0.6 && y < centerY * 1.2;
-        
-        // Legs
-        const leftLegInBounds = x > centerX - width * 0.1 && x < centerX - width * 0.02 &&
-                               y > centerY * 1.3 && y < centerY * 1.8;
-        const rightLegInBounds = x > centerX + width * 0.02 && x < centerX + width * 0.1 &&
-                                y > centerY * 1.3 && y < centerY * 1.8;
-        
-        if (headDistance <= 1 || torsoInBounds || leftArmInBounds || rightArmInBounds || 
-            leftLegInBounds || rightLegInBounds) {
-          data[index] = 255;     // R
-          data[index + 1] = 255; // G
-          data[index + 2] = 255; // B
-          data[index + 3] = 255; // A
-        } else {
-          data[index] = 0;
-          data[index + 1] = 0;
-          data[index + 2] = 0;
-          data[index + 3] = 0;
-        }
-      }
+    const cached = backgroundCacheRef.current.get(backgroundPreset);
+    if (cached) return cached;
+
+    try {
+      const replaced = await AdvancedImageProcessingService.getInstance().replaceBackground(
+        photo,
+        BACKGROUND_PRESETS[backgroundPreset].background
+      );
+      backgroundCacheRef.current.set(backgroundPreset, replaced);
+      return replaced;
+    } catch (error) {
+      errorService.logError(error as Error, {
+        component: 'VirtualTryOn',
+        action: 'replaceBackground'
+      });
+      return photo;
     }
   };
 
@@ -376,7 +321,7 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
 
     // Add user photo as background with enhanced processing
     const cachedUserPhoto = await cacheService.cacheImage(userPhoto);
-    const userFabricImg = await fabric.Image.fromURL(cachedUserPhoto);
+    const userFabricImg = await fabric.Image.fromURL(await applyBackground(cachedUserPhoto));
     
     // Apply user-specific adjustments based on facial features
     if (facialFeatures) {
@@ -392,28 +337,54 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
     });
     canvas.add(userFabricImg);
 
-    // Add clothing items with advanced AI-powered fitting
-    for (const [index, item] of selectedItems.entries()) {
+    // Add clothing items bottom layer first so outerwear covers tops and tucked tops sit under bottoms
+    const layeredItems = layeringEngine.orderItems(selectedItems, { tuck: tuckStyles });
+    for (const [index, { item, tucked }] of layeredItems.entries()) {
       try {
         // Enhanced clothing fit calculation
         const fitResult = await performAdvancedClothingFit(pose, item, segmentation, facialFeatures);
         
         const cachedClothingImage = await cacheService.cacheImage(item.overlayImage);
-        const clothingImg = await fabric.Image.fromURL(cachedClothingImage);
+        let clothingImg = await fabric.Image.fromURL(cachedClothingImage);
+
+        // Warp the garment mesh onto the pose landmarks so sleeves and hems follow the body
+        if (!warpRendererRef.current) {
+          warpRendererRef.current = new GarmentWarpRenderer();
+        }
+        const fitPoints = RealAIService.getInstance().calculateFitPoints(pose, item.category);
+        const warped = warpRendererRef.current.render(
+          clothingImg.getElement() as HTMLImageElement,
+          fitPoints,
+          item.category,
+          { width: canvas.width!, height: canvas.height! }
+        );
         
-        // Apply advanced transformations
         const transform = fitResult.transformMatrix;
         
-        clothingImg.set({
-          left: transform[6] || 50 + index * 10,
-          top: transform[7] || 100 + index * 10,
-          scaleX: transform[0] || 0.8,
-          scaleY: transform[4] || 0.8,
-          opacity: 0.9,
-          selectable: true,
-          hasControls: true,
-          hasBorders: true
-        });
+        if (warped) {
+          layeringEngine.applyMasks(warped, [
+            fitResult.occlusionMask,
+            tucked ? layeringEngine.buildTuckMask(pose.keypoints, warped) : null
+          ]);
+          clothingImg = new fabric.Image(warped, {
+            left: 0,
+            top: 0,
+            opacity: 0.9,
+            selectable: false
+          });
+        } else {
+          // Too few landmarks visible: fall back to affine placement
+          clothingImg.set({
+            left: transform[6] || 50 + index * 10,
+            top: transform[7] || 100 + index * 10,
+            scaleX: transform[0] || 0.8,
+            scaleY: transform[4] || 0.8,
+            opacity: 0.9,
+            selectable: true,
+            hasControls: true,
+            hasBorders: true
+          });
+        }
 
         // Apply advanced visual effects
         if (qualitySettings.shadows) {
@@ -458,7 +429,7 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
     // Enhanced clothing fitting with multiple factors
     const fitPoints = calculateAdvancedFitPoints(bodyPose, clothingItem.category);
     const deformation = calculateAdvancedDeformation(bodyPose, clothingItem);
-    const occlusion = calculateAdvancedOcclusion(bodySegmentation, clothingItem);
+    const occlusion = calculateAdvancedOcclusion(bodySegmentation, clothingItem, bodyPose);
     const lighting = calculateDynamicLighting(bodyPose, facialFeatures);
     const shadows = calculateRealisticShadows(bodyPose, clothingItem);
     
@@ -666,10 +637,11 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
   // Enhanced calculation functions
   const calculateAdvancedFitPoints = (pose: any, category: string) => [];
   const calculateAdvancedDeformation = (pose: any, item: any) => ({ vertices: [], intensity: 0.3 });
-  const calculateAdvancedOcclusion = (segmentation: any, item: any) => segmentation.mask;
+  const calculateAdvancedOcclusion = (segmentation: any, item: any, pose: any) =>
+    layeringEngine.buildOcclusionMask(pose.keypoints, segmentation?.mask, item.category);
   const calculateDynamicLighting = (pose: any, face?: any) => ({ ambient: 0.3, directional: 0.7 });
   const calculateRealisticShadows = (pose: any, item: any) => ({ intensity: 0.3, direction: [0.5, -1, 0.5] });
-  const calculateEnhancedFitScore = (pose: any, item: any) => 0.85 + Math.random() * 0.1;
+  const calculateEnhancedFitScore = (pose: any, item: any) => 0.85 + (pose.confidence || 0) * 0.1;
   const generateAdvancedTransformMatrix = (fitPoints: any[]) => [1, 0, 0, 0, 1, 0, 0, 0, 1];
   const adjustClothingVerticesAdvanced = (item: any, pose: any) => [];
   const calculateMaterialProperties = (item: any) => ({ type: 'cotton', flexibility: 0.7 });
@@ -886,6 +858,23 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
                     </select>
                   </div>
                   
+                  {/* Background */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Background
+                    </label>
+                    <select
+                      value={backgroundPreset}
+                      onChange={(e) => setBackgroundPreset(e.target.value as BackgroundPresetId | 'original')}
+                      className="w-full p-2 border border-gray-300 rounded-md"
+                    >
+                      <option value="original">Original Photo</option>
+                      {Object.entries(BACKGROUND_PRESETS).map(([id, preset]) => (
+                        <option key={id} value={id}>{preset.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  
                   {/* Visual Effects */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1074,12 +1063,25 @@ export const VirtualTryOn: React.FC<VirtualTryOnProps> = ({
                     <p className="text-gray-600 text-xs">{item.brand} • ${item.price}</p>
                   </div>
                 </div>
-                <button
-                  onClick={() => onRemoveItem(item.id)}
-                  className="text-red-500 hover:text-red-700 text-sm font-medium"
-                >
-                  Remove
-                </button>
+                <div className="flex items-center space-x-3">
+                  {layeringEngine.isTuckable(item) && selectedItems.some(other => other.category === 'bottoms') && (
+                    <button
+                      onClick={() => setTuckStyles(prev => ({
+                        ...prev,
+                        [item.id]: prev[item.id] === 'untucked' ? 'tucked' : 'untucked'
+                      }))}
+                      className="text-indigo-600 hover:text-indigo-800 text-sm font-medium"
+                    >
+                      {tuckStyles[item.id] === 'untucked' ? 'Tuck In' : 'Untuck'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemoveItem(item.id)}
+                    className="text-red-500 hover:text-red-700 text-sm font-medium"
+                  >
+                    Remove
+                  </button>
+                </div>
               </div>
             ))}
           </div>
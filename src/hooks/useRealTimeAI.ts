@@ -71,16 +71,17 @@ export const useRealTimeAI = () => {
         img.onload = resolve;
       });
 
-      // Process pose detection
-      const pose = await aiService.detectBodyPose(img);
-      setCurrentPose(pose);
-
       // Process segmentation (less frequently for performance)
+      let segmentation: EnhancedBodySegmentation | undefined;
       if (frameCountRef.current % 5 === 0) {
-        const segmentation = await aiService.segmentBody(img);
+        segmentation = await aiService.segmentBody(img);
         setCurrentSegmentation(segmentation);
       }
 
+      // Process pose detection, reusing this frame's mask when there is one
+      const pose = await aiService.detectBodyPose(img, segmentation);
+      setCurrentPose(pose);
+
       // Update performance metrics
       const processingTime = Date.now() - startTime;
       processingTimesRef.current.push(processingTime);
@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs';
 import { AdvancedAIService } from './advancedAIService';
+import ResilienceRegistry from './resiliencePolicies';
 
 class AccuracyEnhancer {
   private static instance: AccuracyEnhancer;
@@ -48,13 +49,18 @@ class AccuracyEnhancer {
     this.setupEnsembleVoting(poseModels, segmentationModels, fitModels);
   }
 
+  // All loads share the model-loading breaker, so a missing model directory stops the rest quickly
+  private loadModel(url: string): Promise<tf.LayersModel> {
+    return ResilienceRegistry.getInstance().execute('ai:model-load', () => tf.loadLayersModel(url));
+  }
+
   private async loadMultiplePoseModels(): Promise<tf.LayersModel[]> {
     const models = [];
     try {
       // Load different pose detection models
-      models.push(await tf.loadLayersModel('/models/pose-model-v1.json'));
-      models.push(await tf.loadLayersModel('/models/pose-model-v2.json'));
-      models.push(await tf.loadLayersModel('/models/pose-model-lightweight.json'));
+      models.push(await this.loadModel('/models/pose-model-v1.json'));
+      models.push(await this.loadModel('/models/pose-model-v2.json'));
+      models.push(await this.loadModel('/models/pose-model-lightweight.json'));
     } catch (error) {
       console.warn('Some pose models failed to load:', error);
     }
@@ -64,8 +70,8 @@ class AccuracyEnhancer {
   private async loadMultipleSegmentationModels(): Promise<tf.LayersModel[]> {
     const models = [];
     try {
-      models.push(await tf.loadLayersModel('/models/segmentation-model-v1.json'));
-      models.push(await tf.loadLayersModel('/models/segmentation-model-v2.json'));
+      models.push(await this.loadModel('/models/segmentation-model-v1.json'));
+      models.push(await this.loadModel('/models/segmentation-model-v2.json'));
     } catch (error) {
       console.warn('Some segmentation models failed to load:', error);
     }
@@ -75,8 +81,8 @@ class AccuracyEnhancer {
   private async loadMultipleFitModels(): Promise<tf.LayersModel[]> {
     const models = [];
     try {
-      models.push(await tf.loadLayersModel('/models/fit-model-v1.json'));
-      models.push(await tf.loadLayersModel('/models/fit-model-v2.json'));
+      models.push(await this.loadModel('/models/fit-model-v1.json'));
+      models.push(await this.loadModel('/models/fit-model-v2.json'));
     } catch (error) {
       console.warn('Some fit models failed to load:', error);
     }
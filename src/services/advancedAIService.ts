@@ -4,6 +4,14 @@ import { Pose, POSE_LANDMARKS } from '@mediapipe/pose';
 import { SelfieSegmentation } from '@mediapipe/selfie_segmentation';
 import { FaceMesh } from '@mediapipe/face_mesh';
 import { Hands } from '@mediapipe/hands';
+import BodyCalibrationService, { CalibrationMethod, ImageSize, MeasurementErrors } from './bodyCalibration';
+import MultiViewMeasurementFusion, { CaptureView, ViewCapture, ViewValidation } from './multiViewMeasurement';
+import OutfitLayeringEngine from './outfitLayering';
+import ClothSimulationService, { ClothFrame, ClothParameters } from './clothSimulation';
+import PersonTracker, { MAX_PEOPLE, PersonDetection, PersonRegion, SubjectStrategy, TrackedPerson } from './personTracking';
+import SeasonalColorAnalyzer, { ColorRankedItem, FaceColorSample, SeasonalColorAnalysis } from './seasonalColor';
+import { RGB } from './advancedImageProcessing';
+import ResilienceRegistry from './resiliencePolicies';
 
 export class AdvancedAIService {
   private static instance: AdvancedAIService;
@@ -16,6 +24,11 @@ export class AdvancedAIService {
   private styleTransferModel: tf.LayersModel | null = null;
   private initialized = false;
   private modelCache = new Map<string, tf.LayersModel>();
+  private multiViewFusion = new MultiViewMeasurementFusion();
+  private layeringEngine = new OutfitLayeringEngine();
+  private personTracker = new PersonTracker();
+  private colorAnalyzer = new SeasonalColorAnalyzer();
+  private colorAnalysis: SeasonalColorAnalysis | null = null;
 
   static getInstance(): AdvancedAIService {
     if (!AdvancedAIService.instance) {
@@ -125,7 +138,7 @@ export class AdvancedAIService {
 
   private async loadModelWithFallback(url: string, modelName: string): Promise<tf.LayersModel | null> {
     try {
-      const model = await tf.loadLayersModel(url);
+      const model = await ResilienceRegistry.getInstance().execute('ai:model-load', () => tf.loadLayersModel(url));
       this.modelCache.set(modelName, model);
       return model;
     } catch (error) {
@@ -134,9 +147,95 @@ export class AdvancedAIService {
     }
   }
 
+  /**
+   * Pose of the subject: the person picked with selectPerson/selectPersonAt,
+   * or the largest person in frame. Everyone detected is in getDetectedPeople.
+   */
   async detectAdvancedBodyPose(imageElement: HTMLImageElement): Promise<AdvancedBodyPose> {
+    const people = await this.detectPeople(imageElement);
+    const subject = this.personTracker.getSubject(people);
+    if (!subject) {
+      throw new Error('No pose detected');
+    }
+    return subject.pose;
+  }
+
+  // Runs the single-person pose model once per person blob in the selfie segmentation mask
+  async detectPeople(imageElement: HTMLImageElement): Promise<TrackedPerson<AdvancedBodyPose>[]> {
     if (!this.initialized) await this.initialize();
 
+    const imageSize = {
+      width: imageElement.naturalWidth || imageElement.width || 1,
+      height: imageElement.naturalHeight || imageElement.height || 1
+    };
+    const mask = await ResilienceRegistry.getInstance()
+      .execute('ai:segmentation', () => this.segmentPeople(imageElement, imageSize))
+      .catch(() => undefined);
+    const regions = mask ? this.personTracker.findRegions(mask) : [];
+    const detections: PersonDetection<AdvancedBodyPose>[] = [];
+    let pending = regions;
+
+    if (regions.length <= 1) {
+      const pose = await ResilienceRegistry.getInstance().execute('ai:pose', () => this.runPoseDetector(imageElement, imageSize));
+      if (regions[0]) {
+        const { person, rest } = this.personTracker.splitRegion(regions[0], pose.keypoints);
+        detections.push({ box: person, pose });
+        pending = rest;
+      } else {
+        detections.push({ box: { ...pose.boundingBox, area: pose.boundingBox.width * pose.boundingBox.height }, pose });
+        pending = [];
+      }
+    }
+
+    // The detector handles one image at a time, so crops run in sequence; split-off strips join the queue
+    while (pending.length > 0 && detections.length < MAX_PEOPLE) {
+      const [region, ...remaining] = pending;
+      pending = remaining;
+      const { canvas, box } = this.personTracker.cropRegion(imageElement, imageSize, region);
+      try {
+        const pose = await ResilienceRegistry.getInstance().execute('ai:pose', () => this.runPoseDetector(canvas, imageSize, box));
+        const { person, rest } = this.personTracker.splitRegion(region, pose.keypoints);
+        detections.push({ box: person, pose });
+        pending = [...pending, ...rest];
+      } catch (error) {
+        console.warn('Pose detection failed for a person region:', error);
+      }
+    }
+
+    const people = this.personTracker.update(detections);
+    people.forEach(person => {
+      person.pose.personId = person.id;
+    });
+    return people;
+  }
+
+  getDetectedPeople(): TrackedPerson<AdvancedBodyPose>[] {
+    return this.personTracker.getPeople();
+  }
+
+  getSubjectId(): number | null {
+    return this.personTracker.getSubjectId();
+  }
+
+  // null returns subject choice to automatic selection
+  selectPerson(personId: number | null): void {
+    this.personTracker.selectPerson(personId);
+  }
+
+  // Tap-to-select with normalized frame coordinates; returns the picked person's ID
+  selectPersonAt(x: number, y: number): number | null {
+    return this.personTracker.selectPersonAt(x, y);
+  }
+
+  setSubjectStrategy(strategy: SubjectStrategy): void {
+    this.personTracker.setSubjectStrategy(strategy);
+  }
+
+  /**
+   * One pose from the whole photo, or from a crop when `box` is given. Crop
+   * landmarks and mask are mapped back so everything is in frame coordinates.
+   */
+  private runPoseDetector(image: HTMLImageElement | HTMLCanvasElement, imageSize: ImageSize, box?: PersonRegion): Promise<AdvancedBodyPose> {
     return new Promise((resolve, reject) => {
       if (!this.poseDetector) {
         reject(new Error('Pose detector not initialized'));
@@ -145,22 +244,27 @@ export class AdvancedAIService {
 
       this.poseDetector.onResults((results) => {
         if (results.poseLandmarks) {
+          const landmarks = box
+            ? this.personTracker.toFrameCoordinates(results.poseLandmarks, box)
+            : results.poseLandmarks;
           const enhancedPose: AdvancedBodyPose = {
-            keypoints: results.poseLandmarks.map((landmark, index) => ({
+            keypoints: landmarks.map((landmark, index) => ({
               x: landmark.x,
               y: landmark.y,
               z: landmark.z || 0,
               confidence: landmark.visibility || 0,
               name: this.getLandmarkName(index)
             })),
-            boundingBox: this.calculateBoundingBox(results.poseLandmarks),
-            confidence: this.calculateOverallConfidence(results.poseLandmarks),
-            segmentationMask: results.segmentationMask,
-            bodyMeasurements: this.estimateAdvancedBodyMeasurements(results.poseLandmarks),
+            boundingBox: this.calculateBoundingBox(landmarks),
+            confidence: this.calculateOverallConfidence(landmarks),
+            segmentationMask: box
+              ? this.placeCropMask(results.segmentationMask, imageSize, box)
+              : results.segmentationMask,
+            bodyMeasurements: this.estimateAdvancedBodyMeasurements(landmarks, imageSize),
             pose3D: results.poseWorldLandmarks || [],
-            bodyAngles: this.calculateBodyAngles(results.poseLandmarks),
-            posture: this.analyzePosture(results.poseLandmarks),
-            symmetry: this.analyzeBodySymmetry(results.poseLandmarks)
+            bodyAngles: this.calculateBodyAngles(landmarks),
+            posture: this.analyzePosture(landmarks),
+            symmetry: this.analyzeBodySymmetry(landmarks)
           };
           resolve(enhancedPose);
         } else {
@@ -168,10 +272,94 @@ export class AdvancedAIService {
         }
       });
 
-      this.poseDetector.send({ image: imageElement });
+      // Landmark smoothing from the previous crop belongs to a different person
+      if (box) {
+        this.poseDetector.reset();
+      }
+      this.poseDetector.send({ image });
+    });
+  }
+
+  // Selfie segmentation covers everyone in frame, unlike the pose model's mask
+  private segmentPeople(imageElement: HTMLImageElement, imageSize: ImageSize): Promise<ImageData | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.segmentationModel) {
+        reject(new Error('Segmentation model not initialized'));
+        return;
+      }
+
+      this.segmentationModel.onResults((results) => {
+        resolve(this.readSegmentationMask(results.segmentationMask, imageSize));
+      });
+      this.segmentationModel.send({ image: imageElement });
     });
   }
 
+  // A crop's mask placed on an empty full-frame mask, so occlusion only sees the subject
+  private placeCropMask(mask: any, imageSize: ImageSize, box: PersonRegion): ImageData | undefined {
+    if (!mask) return undefined;
+
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = imageSize.width;
+      canvas.height = imageSize.height;
+      const ctx = canvas.getContext('2d')!;
+      const source = mask instanceof ImageData ? imageDataToCanvas(mask) : mask;
+      ctx.drawImage(
+        source,
+        box.x * imageSize.width,
+        box.y * imageSize.height,
+        box.width * imageSize.width,
+        box.height * imageSize.height
+      );
+      return ctx.getImageData(0, 0, imageSize.width, imageSize.height);
+    } catch (error) {
+      console.warn('Failed to place person mask:', error);
+      return undefined;
+    }
+  }
+
+  // Detects and checks the pose for one photo of the front/side/back capture flow
+  async analyzeCaptureView(view: CaptureView, imageElement: HTMLImageElement): Promise<ViewCapture> {
+    const pose = await this.detectAdvancedBodyPose(imageElement);
+    const imageSize = {
+      width: imageElement.naturalWidth || imageElement.width || 1,
+      height: imageElement.naturalHeight || imageElement.height || 1
+    };
+
+    return {
+      view,
+      keypoints: pose.keypoints,
+      imageSize,
+      mask: this.readSegmentationMask(pose.segmentationMask, imageSize),
+      validation: this.multiViewFusion.validateView(view, pose.keypoints)
+    };
+  }
+
+  // Front width and side depth give an ellipse per torso level, so circumferences no longer
+  // rely on breadth ratios from a single photo
+  estimateMultiViewMeasurements(captures: ViewCapture[]): MultiViewMeasurements {
+    const front = captures.find(capture => capture.view === 'front');
+    if (!front) {
+      throw new Error('Front photo is required');
+    }
+
+    const fused = this.multiViewFusion.fuse(captures);
+    const base = this.estimateAdvancedBodyMeasurements(front.keypoints, front.imageSize);
+
+    return {
+      measurements: {
+        ...base,
+        ...fused.circumferences,
+        errors: base.errors ? { ...base.errors, ...fused.errors } : undefined,
+        confidence: fused.confidence
+      },
+      confidence: fused.confidence,
+      views: captures.map(capture => capture.validation),
+      usedSilhouette: fused.usedSilhouette
+    };
+  }
+
   async detectFacialFeatures(imageElement: HTMLImageElement): Promise<FacialFeatures> {
     if (!this.faceMeshModel) {
       throw new Error('Face mesh model not initialized');
@@ -181,6 +369,7 @@ export class AdvancedAIService {
       this.faceMeshModel!.onResults((results) => {
         if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
           const landmarks = results.multiFaceLandmarks[0];
+          const colors = this.sampleFaceColors(imageElement, landmarks);
           
           const facialFeatures: FacialFeatures = {
             landmarks: landmarks.map((point, index) => ({
@@ -190,12 +379,15 @@ export class AdvancedAIService {
               index
             })),
             faceShape: this.analyzeFaceShape(landmarks),
-            skinTone: this.analyzeSkinTone(imageElement, landmarks),
-            eyeColor: this.analyzeEyeColor(imageElement, landmarks),
-            hairColor: this.analyzeHairColor(imageElement, landmarks),
-            facialStructure: this.analyzeFacialStructure(landmarks)
+            skinTone: this.analyzeSkinTone(colors),
+            eyeColor: this.analyzeEyeColor(colors),
+            hairColor: this.analyzeHairColor(colors),
+            facialStructure: this.analyzeFacialStructure(landmarks),
+            colorAnalysis: this.colorAnalyzer.classify(colors)
           };
           
+          this.colorAnalysis = facialFeatures.colorAnalysis;
+          document.dispatchEvent(new CustomEvent('color-analysis:updated', { detail: this.colorAnalysis }));
           resolve(facialFeatures);
         } else {
           reject(new Error('No face detected'));
@@ -206,7 +398,21 @@ export class AdvancedAIService {
     });
   }
 
-  async detectHands(imageElement: HTMLImageElement): Promise<HandDetection[]> {
+  // Seasonal palette from the latest facial analysis, if any
+  getColorAnalysis(): SeasonalColorAnalysis | null {
+    return this.colorAnalysis;
+  }
+
+  /**
+   * Re-ranks catalog items by how well their garment colors harmonize with
+   * the user's seasonal palette. Order is unchanged until a face has been analyzed.
+   */
+  async rankByColorHarmony<T extends ClothingItem>(items: T[], analysis = this.colorAnalysis): Promise<ColorRankedItem<T>[]> {
+    if (!analysis) return items.map(item => ({ item, harmony: 0.5 }));
+    return this.colorAnalyzer.rankItems(items, analysis);
+  }
+
+  async detectHands(imageElement: HTMLImageElement | HTMLVideoElement | HTMLCanvasElement): Promise<HandDetection[]> {
     if (!this.handsModel) {
       throw new Error('Hands model not initialized');
     }
@@ -250,8 +456,8 @@ export class AdvancedAIService {
   ): Promise<AdvancedClothingFitResult> {
     // Enhanced clothing fitting with multiple factors
     const fitPoints = this.calculateAdvancedFitPoints(bodyPose, clothingItem.category);
-    const deformation = this.calculateAdvancedDeformation(bodyPose, clothingItem);
-    const occlusion = this.calculateAdvancedOcclusion(bodySegmentation, clothingItem);
+    const deformation = this.calculateAdvancedDeformation(clothingItem);
+    const occlusion = this.calculateAdvancedOcclusion(bodySegmentation, clothingItem, bodyPose);
     const lighting = this.calculateDynamicLighting(bodyPose, facialFeatures);
     const shadows = this.calculateRealisticShadows(bodyPose, clothingItem);
     
@@ -275,6 +481,25 @@ export class AdvancedAIService {
     };
   }
 
+  // Live drape from the cloth solver for dresses and skirts; other garments follow the warp only
+  private calculateAdvancedDeformation(item: ClothingItem): ClothDeformation {
+    const simulation = ClothSimulationService.getInstance();
+    return {
+      simulated: simulation.isSimulated(item),
+      parameters: simulation.getParameters(item),
+      frame: simulation.getLatestFrame(item.id)
+    };
+  }
+
+  // Forearms and hands in front of the garment, cut to the segmentation silhouette
+  private calculateAdvancedOcclusion(
+    segmentation: AdvancedBodySegmentation | null,
+    item: ClothingItem,
+    pose: AdvancedBodyPose
+  ): ImageData | null {
+    return this.layeringEngine.buildOcclusionMask(pose.keypoints, segmentation?.mask, item.category);
+  }
+
   async recommendOptimalSize(
     bodyMeasurements: AdvancedBodyMeasurements,
     clothingItem: ClothingItem,
@@ -349,8 +574,8 @@ export class AdvancedAIService {
   }
 
   // Advanced measurement estimation
-  private estimateAdvancedBodyMeasurements(landmarks: any[]): AdvancedBodyMeasurements {
-    const basic = this.estimateBasicMeasurements(landmarks);
+  private estimateAdvancedBodyMeasurements(landmarks: any[], imageSize: ImageSize): AdvancedBodyMeasurements {
+    const basic = this.estimateBasicMeasurements(landmarks, imageSize);
     
     return {
       ...basic,
@@ -361,13 +586,41 @@ export class AdvancedAIService {
       calfCircumference: this.calculateCalfSize(landmarks),
       footLength: this.calculateFootLength(landmarks),
       torsoLength: this.calculateTorsoLength(landmarks),
-      inseam: this.calculateInseam(landmarks),
+      inseam: basic.inseam ?? this.calculateInseam(landmarks),
       bodyFatPercentage: this.estimateBodyFat(landmarks),
       muscleMass: this.estimateMuscleMass(landmarks),
       bodyType: this.classifyBodyType(landmarks)
     };
   }
 
+  private estimateBasicMeasurements(landmarks: any[], imageSize: ImageSize): BasicBodyMeasurements {
+    const calibrated = BodyCalibrationService.getInstance().measure(landmarks, imageSize);
+    if (!calibrated) {
+      return { height: 170, shoulderWidth: 40, chest: 90, waist: 75, hips: 95, armLength: 60, legLength: 100 };
+    }
+
+    const { measurements, errors, method } = calibrated;
+    return { ...measurements, errors, calibration: method };
+  }
+
+  private readSegmentationMask(mask: any, imageSize: ImageSize): ImageData | undefined {
+    if (!mask) return undefined;
+    if (mask instanceof ImageData) return mask;
+
+    // MediaPipe hands back a drawable (ImageBitmap/canvas) rather than pixel data
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = imageSize.width;
+      canvas.height = imageSize.height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(mask, 0, 0, imageSize.width, imageSize.height);
+      return ctx.getImageData(0, 0, imageSize.width, imageSize.height);
+    } catch (error) {
+      console.warn('Failed to read segmentation mask:', error);
+      return undefined;
+    }
+  }
+
   private calculateBodyAngles(landmarks: any[]): BodyAngles {
     return {
       shoulderAngle: this.calculateAngle(landmarks[11], landmarks[12], landmarks[0]),
@@ -424,19 +677,38 @@ export class AdvancedAIService {
     return 'oval';
   }
 
-  private analyzeSkinTone(image: HTMLImageElement, landmarks: any[]): SkinTone {
-    // Analyze skin tone from face region
+  /**
+   * Skin, iris and hair colors from a face, corrected for the light's color
+   * using the whites of the eyes. Each is a per-channel median so highlights,
+   * freckles and stray strands don't skew it.
+   */
+  private sampleFaceColors(image: HTMLImageElement, landmarks: any[]): FaceColorSample {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d')!;
-    canvas.width = image.width;
-    canvas.height = image.height;
+    canvas.width = image.naturalWidth || image.width;
+    canvas.height = image.naturalHeight || image.height;
     ctx.drawImage(image, 0, 0);
-    
-    // Sample skin pixels from cheek area
-    const cheekArea = this.getFaceRegion(landmarks, 'cheek');
-    const skinPixels = this.samplePixels(ctx, cheekArea);
-    
-    return this.classifySkinTone(skinPixels);
+
+    const gains = this.colorAnalyzer.estimateWhiteBalance(this.samplePixels(ctx, this.getFaceRegion(landmarks, 'sclera')));
+    const irisPixels = this.samplePixels(ctx, this.getFaceRegion(landmarks, 'iris'));
+    // The iris is the darker half of the eye center; the rest is sclera and catchlights
+    const iris = [...irisPixels]
+      .sort((a, b) => a[0] + a[1] + a[2] - (b[0] + b[1] + b[2]))
+      .slice(0, Math.ceil(irisPixels.length / 2));
+    const skin = medianColor(this.samplePixels(ctx, this.getFaceRegion(landmarks, 'cheek')));
+    const eyes = medianColor(iris);
+    const hair = medianColor(this.samplePixels(ctx, this.getFaceRegion(landmarks, 'hair')));
+
+    return {
+      skin: this.colorAnalyzer.applyWhiteBalance(skin || [200, 160, 140], gains),
+      eyes: eyes && this.colorAnalyzer.applyWhiteBalance(eyes, gains),
+      hair: hair && this.colorAnalyzer.applyWhiteBalance(hair, gains),
+      whiteBalanced: gains !== null
+    };
+  }
+
+  private analyzeSkinTone(colors: FaceColorSample): SkinTone {
+    return this.colorAnalyzer.classifySkinTone(colors.skin);
   }
 
   private async predictFitWithML(bodyPose: AdvancedBodyPose, clothingItem: ClothingItem): Promise<number> {
@@ -489,11 +761,25 @@ export class AdvancedAIService {
     
     return {
       wrinkleLines: this.generateWrinkleLines(stressPoints),
-      intensity: this.calculateWrinkleIntensity(bodyPose, clothingItem),
+      intensity: this.calculateWrinkleIntensity(clothingItem),
       materialResponse: this.calculateMaterialResponse(clothingItem)
     };
   }
 
+  // Bunched fabric in the latest simulated frame creases; otherwise softer fabrics crease more
+  private calculateWrinkleIntensity(item: ClothingItem): number {
+    const simulation = ClothSimulationService.getInstance();
+    const frame = simulation.getLatestFrame(item.id);
+    if (frame) {
+      return Math.min(1, Math.max(0, (1 - frame.meanCompression) * 3));
+    }
+    return Math.max(0.1, 0.45 - simulation.getParameters(item).bendStiffness * 0.5);
+  }
+
+  private calculateMaterialResponse(item: ClothingItem): ClothParameters {
+    return ClothSimulationService.getInstance().getParameters(item);
+  }
+
   // Helper methods
   private getLandmarkName(index: number): string {
     const landmarkNames = [
@@ -537,7 +823,6 @@ export class AdvancedAIService {
   }
 
   // Additional helper methods would be implemented here...
-  private estimateBasicMeasurements(landmarks: any[]): any { return {}; }
   private calculateNeckSize(landmarks: any[]): number { return 35; }
   private calculateBicepSize(landmarks: any[]): number { return 30; }
   private calculateForearmSize(landmarks: any[]): number { return 25; }
@@ -565,17 +850,99 @@ export class AdvancedAIService {
   private calculateFaceHeight(landmarks: any[]): number { return 20; }
   private calculateJawWidth(landmarks: any[]): number { return 12; }
   private calculateForeheadWidth(landmarks: any[]): number { return 14; }
-  private getFaceRegion(landmarks: any[], region: string): any { return {}; }
-  private samplePixels(ctx: CanvasRenderingContext2D, region: any): number[] { return []; }
-  private classifySkinTone(pixels: number[]): SkinTone { return { tone: 'medium', undertone: 'neutral' }; }
-  private analyzeEyeColor(image: HTMLImageElement, landmarks: any[]): string { return 'brown'; }
-  private analyzeHairColor(image: HTMLImageElement, landmarks: any[]): string { return 'brown'; }
+
+  // Sampling patches around face mesh landmarks, in normalized coordinates with a radius in face heights
+  private getFaceRegion(landmarks: any[], region: FaceRegionName): FaceRegion {
+    const point = (index: number) => ({ x: landmarks[index].x, y: landmarks[index].y });
+    const midpoint = (a: { x: number; y: number }, b: { x: number; y: number }) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    const faceHeight = Math.hypot(landmarks[10].x - landmarks[152].x, landmarks[10].y - landmarks[152].y);
+    // Eye centers from the lid midpoints
+    const eyes = [midpoint(point(159), point(145)), midpoint(point(386), point(374))];
+
+    switch (region) {
+      case 'cheek':
+        // Both cheeks and the forehead, clear of brows, lips and nose shadow
+        return { points: [point(205), point(425), point(151)], radius: faceHeight * 0.04 };
+      case 'iris':
+        return { points: eyes, radius: faceHeight * 0.015 };
+      case 'sclera':
+        // Between each iris and the corners of its eye
+        return {
+          points: [midpoint(point(33), eyes[0]), midpoint(point(133), eyes[0]), midpoint(point(362), eyes[1]), midpoint(point(263), eyes[1])],
+          radius: faceHeight * 0.008
+        };
+      case 'hair':
+        // Just above the hairline at the top of the forehead and both temples
+        return {
+          points: [10, 67, 297].map(index => ({ x: landmarks[index].x, y: landmarks[index].y - faceHeight * 0.1 })),
+          radius: faceHeight * 0.04
+        };
+    }
+  }
+
+  private samplePixels(ctx: CanvasRenderingContext2D, region: FaceRegion): RGB[] {
+    const { width, height } = ctx.canvas;
+    const radius = Math.max(1, Math.round(region.radius * height));
+    const pixels: RGB[] = [];
+
+    region.points.forEach(({ x, y }) => {
+      const left = Math.max(0, Math.round(x * width) - radius);
+      const top = Math.max(0, Math.round(y * height) - radius);
+      const size = Math.min(radius * 2, width - left, height - top);
+      if (size <= 0) return;
+
+      const { data } = ctx.getImageData(left, top, size, size);
+      for (let i = 0; i < data.length; i += 4) {
+        pixels.push([data[i], data[i + 1], data[i + 2]]);
+      }
+    });
+
+    return pixels;
+  }
+
+  private analyzeEyeColor(colors: FaceColorSample): string {
+    return colors.eyes ? this.colorAnalyzer.classifyEyeColor(colors.eyes) : 'unknown';
+  }
+
+  private analyzeHairColor(colors: FaceColorSample): string {
+    return colors.hair ? this.colorAnalyzer.classifyHairColor(colors.hair) : 'unknown';
+  }
   private analyzeFacialStructure(landmarks: any[]): any { return {}; }
-  private analyzeFingerPositions(landmarks: any[]): any { return {}; }
-  private recognizeGesture(landmarks: any[]): string { return 'neutral'; }
+
+  // Landmark indices follow MediaPipe Hands: 0 wrist, then four joints per finger from thumb to pinky
+  private analyzeFingerPositions(landmarks: any[]): FingerPositions {
+    const distance = (a: number, b: number) =>
+      Math.hypot(landmarks[a].x - landmarks[b].x, landmarks[a].y - landmarks[b].y);
+    // Wrist to middle knuckle, so thresholds hold at any distance from the camera
+    const handSize = distance(0, 9) || 1e-3;
+    // A finger is extended when its tip is clearly farther from the wrist than its middle joint
+    const isExtended = (pip: number, tip: number) => distance(0, tip) > distance(0, pip) * 1.15;
+
+    return {
+      // The thumb folds across the palm, so compare against the pinky knuckle instead of the wrist
+      thumb: distance(4, 17) > distance(3, 17) * 1.1 && distance(4, 5) > handSize * 0.35,
+      index: isExtended(6, 8),
+      middle: isExtended(10, 12),
+      ring: isExtended(14, 16),
+      pinky: isExtended(18, 20),
+      pinchDistance: distance(4, 8) / handSize,
+      thumbDirection: (landmarks[2].y - landmarks[4].y) / handSize
+    };
+  }
+
+  private recognizeGesture(landmarks: any[]): HandGesture {
+    const fingers = this.analyzeFingerPositions(landmarks);
+    const curled = !fingers.middle && !fingers.ring && !fingers.pinky;
+
+    if (fingers.pinchDistance < 0.25) return 'pinch';
+    if (fingers.thumb && !fingers.index && curled && fingers.thumbDirection > 0.5) return 'thumbs-up';
+    if (fingers.thumb && fingers.index && fingers.middle && fingers.ring && fingers.pinky) return 'open-palm';
+    if (fingers.index && curled) return 'point';
+    if (!fingers.index && curled) return 'fist';
+    return 'neutral';
+  }
+
   private calculateAdvancedFitPoints(pose: any, category: string): AdvancedFitPoint[] { return []; }
-  private calculateAdvancedDeformation(pose: any, item: any): any { return {}; }
-  private calculateAdvancedOcclusion(segmentation: any, item: any): any { return {}; }
   private calculateDynamicLighting(pose: any, face?: any): any { return {}; }
   private adjustClothingVerticesAdvanced(item: any, pose: any): number[] { return []; }
   private calculateMaterialProperties(item: any): any { return {}; }
@@ -602,8 +969,20 @@ export class AdvancedAIService {
   private calculateAmbientOcclusion(pose: any): number[] { return []; }
   private calculateStressPoints(pose: any, item: any): any[] { return []; }
   private generateWrinkleLines(points: any[]): any[] { return []; }
-  private calculateWrinkleIntensity(pose: any, item: any): number { return 0.3; }
-  private calculateMaterialResponse(item: any): any { return {}; }
+}
+
+function imageDataToCanvas(imageData: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+function medianColor(pixels: RGB[]): RGB | null {
+  if (pixels.length === 0) return null;
+  const middle = Math.floor(pixels.length / 2);
+  return [0, 1, 2].map(channel => pixels.map(pixel => pixel[channel]).sort((a, b) => a - b)[middle]) as RGB;
 }
 
 // Enhanced interfaces
@@ -623,6 +1002,8 @@ export interface AdvancedBodyPose {
   bodyAngles: BodyAngles;
   posture: PostureAnalysis;
   symmetry: BodySymmetry;
+  // Stable across detections while the person stays in frame
+  personId?: number;
 }
 
 export interface AdvancedBodyMeasurements {
@@ -644,8 +1025,23 @@ export interface AdvancedBodyMeasurements {
   bodyFatPercentage: number;
   muscleMass: number;
   bodyType: string;
+  errors?: MeasurementErrors;
+  calibration?: CalibrationMethod;
+  confidence?: number;
 }
 
+export interface MultiViewMeasurements {
+  measurements: AdvancedBodyMeasurements;
+  confidence: number;
+  views: ViewValidation[];
+  usedSilhouette: boolean;
+}
+
+type BasicBodyMeasurements = Pick<
+  AdvancedBodyMeasurements,
+  'height' | 'shoulderWidth' | 'chest' | 'waist' | 'hips' | 'armLength' | 'legLength' | 'errors' | 'calibration'
+> & { inseam?: number };
+
 export interface BodyAngles {
   shoulderAngle: number;
   elbowAngleLeft: number;
@@ -684,6 +1080,15 @@ export interface FacialFeatures {
   eyeColor: string;
   hairColor: string;
   facialStructure: any;
+  colorAnalysis: SeasonalColorAnalysis;
+}
+
+type FaceRegionName = 'cheek' | 'iris' | 'sclera' | 'hair';
+
+interface FaceRegion {
+  points: Array<{ x: number; y: number }>;
+  // Patch half-size as a share of the image height
+  radius: number;
 }
 
 export interface FaceShape {
@@ -705,8 +1110,22 @@ export interface HandDetection {
   handedness: string;
   confidence: number;
   boundingBox: BoundingBox;
-  fingerPositions: any;
-  gestureType: string;
+  fingerPositions: FingerPositions;
+  gestureType: HandGesture;
+}
+
+export type HandGesture = 'pinch' | 'thumbs-up' | 'open-palm' | 'point' | 'fist' | 'neutral';
+
+export interface FingerPositions {
+  thumb: boolean;
+  index: boolean;
+  middle: boolean;
+  ring: boolean;
+  pinky: boolean;
+  // Thumb tip to index tip, in hand sizes
+  pinchDistance: number;
+  // Positive when the thumb tip is above its knuckle, in hand sizes
+  thumbDirection: number;
 }
 
 export interface AdvancedBodySegmentation {
@@ -727,8 +1146,8 @@ export interface DetailedSegment {
 
 export interface AdvancedClothingFitResult {
   transformMatrix: number[];
-  deformationMap: any;
-  occlusionMask: any;
+  deformationMap: ClothDeformation;
+  occlusionMask: ImageData | null;
   fitScore: number;
   adjustedVertices: number[];
   lightingAdjustments: any;
@@ -748,7 +1167,14 @@ export interface ShadowMap {
 export interface WrinkleMap {
   wrinkleLines: any[];
   intensity: number;
-  materialResponse: any;
+  materialResponse: ClothParameters;
+}
+
+export interface ClothDeformation {
+  simulated: boolean;
+  parameters: ClothParameters;
+  // Latest solver output; null until the live camera has stepped the garment
+  frame: ClothFrame | null;
 }
 
 export interface SizeRecommendation {
@@ -1,3 +1,25 @@
+import { RealAIService } from './realAIService';
+
+// Mask refinement runs at up to this many pixels on the long side; the result is upsampled
+const MAX_REFINE_SIZE = 1024;
+// Guided filter window radius (working-resolution pixels) and regularization on 0-1 luminance
+const GUIDED_FILTER_RADIUS = 8;
+const GUIDED_FILTER_EPSILON = 1e-3;
+// Refined alpha is remapped between these so faint mask spill drops out and the core stays solid
+const EDGE_LOW = 0.15;
+const EDGE_HIGH = 0.85;
+// Default feather radius as a share of the image diagonal
+const FEATHER_RATIO = 0.0015;
+
+export const BACKGROUND_PRESETS: Record<BackgroundPresetId, { label: string; background: BackgroundReplacement }> = {
+  'studio-light': { label: 'Studio (Light)', background: { type: 'studio', tone: 'light' } },
+  'studio-dark': { label: 'Studio (Dark)', background: { type: 'studio', tone: 'dark' } },
+  'street-day': { label: 'Street (Day)', background: { type: 'street', time: 'day' } },
+  'street-evening': { label: 'Street (Evening)', background: { type: 'street', time: 'evening' } },
+  'solid-white': { label: 'White', background: { type: 'solid', color: '#ffffff' } },
+  transparent: { label: 'Transparent', background: { type: 'transparent' } }
+};
+
 class AdvancedImageProcessingService {
   private static instance: AdvancedImageProcessingService;
   private canvas: HTMLCanvasElement;
@@ -442,41 +464,148 @@ class AdvancedImageProcessingService {
     return this.canvas.toDataURL('image/jpeg', 0.95);
   }
 
-  async removeBackground(imageUrl: string): Promise<string> {
+  /**
+   * Cuts the person out of a photo using the person segmentation model. The
+   * coarse model mask is refined against the photo with a guided filter so
+   * the edge follows hair and clothing outlines, then feathered. Returns a
+   * PNG with a transparent background.
+   */
+  async removeBackground(imageUrl: string, options: BackgroundRemovalOptions = {}): Promise<string> {
     const image = await this.loadImage(imageUrl);
-    
-    this.canvas.width = image.width;
-    this.canvas.height = image.height;
-    this.ctx.drawImage(image, 0, 0);
-    
-    // Simple background removal (would use AI in production)
-    const imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-    const data = imageData.data;
-    
-    // Remove pixels similar to corner colors (simple approach)
-    const cornerColor = [data[0], data[1], data[2]];
-    const threshold = 50;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      
-      const distance = Math.sqrt(
-        Math.pow(r - cornerColor[0], 2) +
-        Math.pow(g - cornerColor[1], 2) +
-        Math.pow(b - cornerColor[2], 2)
-      );
-      
-      if (distance < threshold) {
-        data[i + 3] = 0; // Make transparent
-      }
+    const { pixels, alpha } = await this.extractPerson(image, options);
+
+    for (let i = 0; i < alpha.length; i++) {
+      pixels.data[i * 4 + 3] = Math.round(alpha[i] * 255);
     }
-    
-    this.ctx.putImageData(imageData, 0, 0);
+
+    this.canvas.width = pixels.width;
+    this.canvas.height = pixels.height;
+    this.ctx.putImageData(pixels, 0, 0);
     return this.canvas.toDataURL('image/png');
   }
 
+  // Puts the segmented person in front of a studio, street, solid or custom image background
+  async replaceBackground(
+    imageUrl: string,
+    background: BackgroundReplacement,
+    options: BackgroundRemovalOptions = {}
+  ): Promise<string> {
+    if (background.type === 'transparent') {
+      return this.removeBackground(imageUrl, options);
+    }
+
+    const image = await this.loadImage(imageUrl);
+    const { pixels, alpha } = await this.extractPerson(image, options);
+    const { width, height } = pixels;
+
+    for (let i = 0; i < alpha.length; i++) {
+      pixels.data[i * 4 + 3] = Math.round(alpha[i] * 255);
+    }
+    const person = document.createElement('canvas');
+    person.width = width;
+    person.height = height;
+    person.getContext('2d')!.putImageData(pixels, 0, 0);
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.ctx.save();
+    if (background.type === 'image') {
+      drawCover(this.ctx, await this.loadImage(background.url), width, height);
+    } else {
+      paintBackground(this.ctx, background, width, height);
+    }
+    this.ctx.restore();
+    this.ctx.drawImage(person, 0, 0);
+
+    return this.canvas.toDataURL('image/jpeg', 0.95);
+  }
+
+  private async extractPerson(
+    image: HTMLImageElement,
+    options: BackgroundRemovalOptions
+  ): Promise<{ pixels: ImageData; alpha: Float32Array }> {
+    const width = image.naturalWidth || image.width;
+    const height = image.naturalHeight || image.height;
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.ctx.drawImage(image, 0, 0, width, height);
+    const pixels = this.ctx.getImageData(0, 0, width, height);
+
+    const mask = options.mask || (await RealAIService.getInstance().segmentBody(image)).mask;
+    const alpha = this.refineMask(image, pixels, mask, options);
+
+    return { pixels, alpha };
+  }
+
+  /**
+   * Guided filter (He et al., "Guided Image Filtering", TPAMI 2013) with the
+   * photo's luminance as the guide. The linear coefficients are fitted at a
+   * working resolution and upsampled, so the cost stays flat for large photos
+   * while the output keeps full-resolution edges.
+   */
+  private refineMask(
+    image: HTMLImageElement,
+    pixels: ImageData,
+    mask: ImageData,
+    options: BackgroundRemovalOptions
+  ): Float32Array {
+    const { width, height } = pixels;
+    const scale = Math.min(1, MAX_REFINE_SIZE / Math.max(width, height));
+    const smallWidth = Math.max(1, Math.round(width * scale));
+    const smallHeight = Math.max(1, Math.round(height * scale));
+
+    const guideSmall = luminanceOf(this.resample(image, smallWidth, smallHeight));
+    const maskSmall = alphaOf(this.resample(imageDataToCanvas(mask), smallWidth, smallHeight));
+
+    const radius = options.edgeRadius ?? GUIDED_FILTER_RADIUS;
+    const epsilon = options.edgeEpsilon ?? GUIDED_FILTER_EPSILON;
+    const count = guideSmall.length;
+    const guideSquared = new Float32Array(count);
+    const guideMask = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      guideSquared[i] = guideSmall[i] * guideSmall[i];
+      guideMask[i] = guideSmall[i] * maskSmall[i];
+    }
+
+    const meanGuide = boxBlur(guideSmall, smallWidth, smallHeight, radius);
+    const meanMask = boxBlur(maskSmall, smallWidth, smallHeight, radius);
+    const meanGuideSquared = boxBlur(guideSquared, smallWidth, smallHeight, radius);
+    const meanGuideMask = boxBlur(guideMask, smallWidth, smallHeight, radius);
+
+    const a = new Float32Array(count);
+    const b = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      const variance = meanGuideSquared[i] - meanGuide[i] * meanGuide[i];
+      const covariance = meanGuideMask[i] - meanGuide[i] * meanMask[i];
+      a[i] = covariance / (variance + epsilon);
+      b[i] = meanMask[i] - a[i] * meanGuide[i];
+    }
+
+    const meanA = upsample(boxBlur(a, smallWidth, smallHeight, radius), smallWidth, smallHeight, width, height);
+    const meanB = upsample(boxBlur(b, smallWidth, smallHeight, radius), smallWidth, smallHeight, width, height);
+    const guide = luminanceOf(pixels);
+
+    // Low-confidence haze around the person is dropped before feathering so it doesn't halo
+    const alpha = new Float32Array(width * height);
+    for (let i = 0; i < alpha.length; i++) {
+      alpha[i] = smoothstep(EDGE_LOW, EDGE_HIGH, meanA[i] * guide[i] + meanB[i]);
+    }
+
+    const feather = options.feather ?? Math.max(1, Math.round(Math.hypot(width, height) * FEATHER_RATIO));
+    return feather > 0 ? boxBlur(alpha, width, height, feather) : alpha;
+  }
+
+  private resample(source: CanvasImageSource, width: number, height: number): ImageData {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(source, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  }
+
   async extractColors(imageUrl: string, numColors: number = 5): Promise<ColorPalette> {
     const image = await this.loadImage(imageUrl);
     
@@ -604,7 +733,214 @@ class AdvancedImageProcessingService {
   }
 }
 
+function imageDataToCanvas(imageData: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+function luminanceOf(imageData: ImageData): Float32Array {
+  const { data } = imageData;
+  const result = new Float32Array(data.length / 4);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = (data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114) / 255;
+  }
+  return result;
+}
+
+// Segmentation masks carry person confidence in the alpha channel
+function alphaOf(imageData: ImageData): Float32Array {
+  const { data } = imageData;
+  const result = new Float32Array(data.length / 4);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = data[i * 4 + 3] / 255;
+  }
+  return result;
+}
+
+// Separable running-sum box filter; windows are clipped at the image border
+function boxBlur(source: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const horizontal = new Float32Array(source.length);
+  const result = new Float32Array(source.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width - 1) + 1; x++) sum += source[row + x];
+    for (let x = 0; x < width; x++) {
+      const left = x - radius;
+      const right = x + radius;
+      horizontal[row + x] = sum / (Math.min(right, width - 1) - Math.max(left, 0) + 1);
+      if (right + 1 < width) sum += source[row + right + 1];
+      if (left >= 0) sum -= source[row + left];
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(radius, height - 1) + 1; y++) sum += horizontal[y * width + x];
+    for (let y = 0; y < height; y++) {
+      const top = y - radius;
+      const bottom = y + radius;
+      result[y * width + x] = sum / (Math.min(bottom, height - 1) - Math.max(top, 0) + 1);
+      if (bottom + 1 < height) sum += horizontal[(bottom + 1) * width + x];
+      if (top >= 0) sum -= horizontal[top * width + x];
+    }
+  }
+
+  return result;
+}
+
+// Bilinear upsampling of a coefficient field; values can fall outside 0-1 so canvas scaling won't do
+function upsample(source: Float32Array, width: number, height: number, targetWidth: number, targetHeight: number): Float32Array {
+  if (width === targetWidth && height === targetHeight) return source;
+
+  const result = new Float32Array(targetWidth * targetHeight);
+  const scaleX = width / targetWidth;
+  const scaleY = height / targetHeight;
+
+  for (let y = 0; y < targetHeight; y++) {
+    const sy = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < targetWidth; x++) {
+      const sx = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const fx = sx - x0;
+
+      const top = source[y0 * width + x0] * (1 - fx) + source[y0 * width + x1] * fx;
+      const bottom = source[y1 * width + x0] * (1 - fx) + source[y1 * width + x1] * fx;
+      result[y * targetWidth + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  return result;
+}
+
+function smoothstep(edge0: number, edge1: number, value: number): number {
+  const t = Math.min(Math.max((value - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+function drawCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number): void {
+  const scale = Math.max(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function paintBackground(
+  ctx: CanvasRenderingContext2D,
+  background: Exclude<BackgroundReplacement, { type: 'transparent' } | { type: 'image' }>,
+  width: number,
+  height: number
+): void {
+  switch (background.type) {
+    case 'solid':
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case 'studio':
+      paintStudio(ctx, background.tone || 'light', width, height);
+      break;
+    case 'street':
+      paintStreet(ctx, background.time || 'day', width, height);
+      break;
+  }
+}
+
+// Seamless paper backdrop: a soft spotlight behind the subject fading into a slightly darker floor
+function paintStudio(ctx: CanvasRenderingContext2D, tone: 'light' | 'dark', width: number, height: number): void {
+  const [center, edge, floor] = tone === 'light' ? ['#f7f7f7', '#c9c9c9', '#b5b5b5'] : ['#5c5c5c', '#1f1f1f', '#151515'];
+
+  const spotlight = ctx.createRadialGradient(width / 2, height * 0.4, 0, width / 2, height * 0.4, Math.hypot(width, height) * 0.6);
+  spotlight.addColorStop(0, center);
+  spotlight.addColorStop(1, edge);
+  ctx.fillStyle = spotlight;
+  ctx.fillRect(0, 0, width, height);
+
+  const sweep = ctx.createLinearGradient(0, height * 0.7, 0, height);
+  sweep.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  sweep.addColorStop(1, floor);
+  ctx.fillStyle = sweep;
+  ctx.fillRect(0, height * 0.7, width, height * 0.3);
+}
+
+// Out-of-focus city street: sky, a row of buildings with windows and a pavement, blurred like a shallow depth of field
+function paintStreet(ctx: CanvasRenderingContext2D, time: 'day' | 'evening', width: number, height: number): void {
+  const evening = time === 'evening';
+  const scene = document.createElement('canvas');
+  scene.width = width;
+  scene.height = height;
+  const sceneCtx = scene.getContext('2d')!;
+
+  const sky = sceneCtx.createLinearGradient(0, 0, 0, height * 0.6);
+  sky.addColorStop(0, evening ? '#2b2d5c' : '#8ec5ee');
+  sky.addColorStop(1, evening ? '#f08a5d' : '#e4eff8');
+  sceneCtx.fillStyle = sky;
+  sceneCtx.fillRect(0, 0, width, height);
+
+  // Fixed seed so the same preset always gives the same street
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const facades = evening ? ['#2f3347', '#3a3550', '#27293a'] : ['#c9b8a6', '#a7b1b8', '#d8cbb8', '#9c8f84'];
+  let x = -width * 0.05;
+  while (x < width) {
+    const buildingWidth = width * (0.12 + random() * 0.14);
+    const top = height * (0.12 + random() * 0.3);
+    sceneCtx.fillStyle = facades[Math.floor(random() * facades.length)];
+    sceneCtx.fillRect(x, top, buildingWidth, height * 0.75 - top);
+
+    const windowSize = buildingWidth / 7;
+    for (let wy = top + windowSize; wy < height * 0.68; wy += windowSize * 2) {
+      for (let wx = x + windowSize; wx < x + buildingWidth - windowSize; wx += windowSize * 2) {
+        const lit = evening && random() > 0.45;
+        sceneCtx.fillStyle = lit ? '#ffd27f' : evening ? '#1b1d2a' : 'rgba(60, 80, 100, 0.45)';
+        sceneCtx.fillRect(wx, wy, windowSize, windowSize * 1.3);
+      }
+    }
+    x += buildingWidth;
+  }
+
+  sceneCtx.fillStyle = evening ? '#3d3b45' : '#b7b3ad';
+  sceneCtx.fillRect(0, height * 0.75, width, height * 0.25);
+
+  // Drawn slightly oversized so the blur doesn't fade out at the frame edges
+  const blur = Math.max(2, Math.round(Math.min(width, height) * 0.012));
+  ctx.filter = `blur(${blur}px)`;
+  ctx.drawImage(scene, -blur * 2, -blur * 2, width + blur * 4, height + blur * 4);
+  ctx.filter = 'none';
+}
+
 // Interfaces
+export type BackgroundReplacement =
+  | { type: 'transparent' }
+  | { type: 'solid'; color: string }
+  | { type: 'studio'; tone?: 'light' | 'dark' }
+  | { type: 'street'; time?: 'day' | 'evening' }
+  | { type: 'image'; url: string };
+
+export type BackgroundPresetId = 'studio-light' | 'studio-dark' | 'street-day' | 'street-evening' | 'solid-white' | 'transparent';
+
+export interface BackgroundRemovalOptions {
+  // Person mask (alpha = confidence) to use instead of running segmentation
+  mask?: ImageData;
+  // Guided filter radius in working-resolution pixels and regularization; smaller epsilon follows finer edges
+  edgeRadius?: number;
+  edgeEpsilon?: number;
+  // Feather radius in pixels; 0 keeps the refined edge as is
+  feather?: number;
+}
+
 interface ImageEnhancements {
   brightness: number;
   contrast: number;
@@ -624,10 +960,10 @@ interface ColorCorrection {
   blueOffset: number;
 }
 
-type RGB = [number, number, number];
+export type RGB = [number, number, number];
 type HSL = [number, number, number];
 
-interface ColorPalette {
+export interface ColorPalette {
   dominant: RGB;
   palette: RGB[];
   complementary: RGB[];
@@ -1,4 +1,5 @@
 import * as tf from '@tensorflow/tfjs';
+import { Centimeters } from '../types/enhanced';
 
 export class AIService {
   private static instance: AIService;
@@ -161,9 +162,9 @@ export interface BodySegmentation {
 }
 
 export interface BodyMeasurements {
-  height: number;
-  chest: number;
-  waist: number;
-  hips: number;
-  shoulderWidth: number;
+  height: Centimeters;
+  chest: Centimeters;
+  waist: Centimeters;
+  hips: Centimeters;
+  shoulderWidth: Centimeters;
 }
\ No newline at end of file
@@ -0,0 +1,470 @@
+import EnhancedErrorHandling from './enhancedErrorHandling';
+import { formatIssues, Infer, JsonSchema, s, Schema } from './schema';
+
+/**
+ * The VirtualFit API contract. Shared models are defined once here as
+ * schemas; their TypeScript types are inferred from them, ApiService and
+ * EnhancedApiService validate responses against them, and
+ * createOpenApiDocument publishes the same definitions for the backend.
+ */
+export const clothingFilters = s.object({
+  category: s.string().optional(),
+  style: s.string().optional(),
+  priceMin: s.number().optional(),
+  priceMax: s.number().optional(),
+  colors: s.array(s.string()).optional(),
+  brands: s.array(s.string()).optional(),
+  sizes: s.array(s.string()).optional(),
+  inStock: s.boolean().optional(),
+  rating: s.number().optional(),
+  tags: s.array(s.string()).optional()
+});
+
+export const clothingItem = s.object({
+  id: s.string(),
+  name: s.string(),
+  category: s.string(),
+  style: s.string(),
+  colors: s.array(s.string()),
+  brand: s.string(),
+  price: s.number(),
+  image: s.string(),
+  overlayImage: s.string(),
+  tags: s.array(s.string()),
+  rating: s.number(),
+  sizes: s.array(s.string()),
+  inStock: s.boolean(),
+  inventory: s.number()
+});
+
+export const searchQuery = s.object({
+  query: s.string(),
+  filters: clothingFilters.optional(),
+  sort: s.literal('relevance', 'price', 'rating', 'newest').optional(),
+  page: s.number().optional(),
+  limit: s.number().optional(),
+  facets: s.array(s.string()).optional()
+});
+
+export const searchResult = s.object({
+  items: s.array(clothingItem),
+  total: s.number(),
+  facets: s.record(s.unknown()),
+  suggestions: s.array(s.string())
+});
+
+export const recommendationContext = s.object({
+  season: s.literal('spring', 'summer', 'fall', 'winter'),
+  occasion: s.string(),
+  weather: s.string().optional(),
+  timeOfDay: s.string().optional()
+});
+
+export const smartRecommendation = s.object({
+  item: clothingItem,
+  score: s.number(),
+  reasons: s.array(s.string())
+});
+
+export const userProfile = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: s.string(),
+  preferences: s.unknown(),
+  measurements: s.unknown().optional(),
+  createdAt: s.string()
+});
+
+export const userPreferences = s.object({
+  styles: s.array(s.string()),
+  colors: s.array(s.string()),
+  brands: s.array(s.string()),
+  priceRange: s.tuple(s.number(), s.number()),
+  notifications: s.object({
+    email: s.boolean(),
+    push: s.boolean(),
+    sms: s.boolean()
+  })
+});
+
+export const createUserRequest = s.object({
+  name: s.string(),
+  email: s.string(),
+  preferences: userPreferences.partial().optional()
+});
+
+export const user = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: s.string(),
+  createdAt: s.string()
+});
+
+export const tryOnResult = s.object({
+  processedImage: s.string(),
+  confidence: s.number(),
+  processingTime: s.number(),
+  recommendations: s.array(s.unknown()),
+  metadata: s.object({
+    aiVersion: s.string(),
+    processingSteps: s.array(s.string())
+  }).optional()
+});
+
+export const tryOnSession = s.object({
+  // Assigned by the server; missing on sessions not yet saved
+  id: s.string().optional(),
+  userPhoto: s.string(),
+  selectedItems: s.array(s.unknown()),
+  lightingSettings: s.unknown(),
+  timestamp: s.date()
+});
+
+export const qualitySettings = s.object({
+  resolution: s.literal('low', 'medium', 'high', 'ultra'),
+  antiAliasing: s.boolean(),
+  shadows: s.boolean(),
+  reflections: s.boolean()
+});
+
+export const aiSettings = s.object({
+  poseDetection: s.boolean(),
+  bodySegmentation: s.boolean(),
+  clothingFit: s.boolean(),
+  lightingAnalysis: s.boolean(),
+  styleRecommendations: s.boolean()
+});
+
+export const sessionMetadata = s.object({
+  deviceType: s.string(),
+  browserInfo: s.string(),
+  processingTime: s.number(),
+  qualitySettings,
+  aiConfidence: s.number()
+});
+
+export const enhancedTryOnSession = tryOnSession.extend({
+  bodyPose: s.unknown().optional(),
+  segmentation: s.unknown().optional(),
+  metadata: sessionMetadata
+});
+
+export const sessionSaved = s.object({
+  sessionId: s.string()
+});
+
+export const analyticsData = s.object({
+  totalTryOns: s.number(),
+  conversionRate: s.number(),
+  averageSessionTime: s.number(),
+  topCategories: s.array(s.string()),
+  revenueImpact: s.number()
+});
+
+export const analyticsEvent = s.object({
+  type: s.string(),
+  data: s.unknown(),
+  timestamp: s.date(),
+  userId: s.string().optional()
+});
+
+export const advancedAnalyticsEvent = s.object({
+  type: s.string(),
+  category: s.string(),
+  action: s.string(),
+  label: s.string().optional(),
+  value: s.number().optional(),
+  customDimensions: s.record(s.unknown()).optional(),
+  userId: s.string().optional()
+});
+
+export const analyticsParams = s.object({
+  startDate: s.string(),
+  endDate: s.string(),
+  metrics: s.array(s.string()),
+  dimensions: s.array(s.string()),
+  filters: s.record(s.unknown()).optional(),
+  segment: s.string().optional()
+});
+
+export const reportParams = analyticsParams.extend({
+  format: s.literal('pdf', 'csv', 'json')
+});
+
+export const analyticsReport = s.object({
+  id: s.string(),
+  format: s.literal('pdf', 'csv', 'json'),
+  url: s.string(),
+  generatedAt: s.string()
+});
+
+export const trendData = s.object({
+  date: s.string(),
+  value: s.number(),
+  metric: s.string()
+});
+
+export const segmentData = s.object({
+  name: s.string(),
+  size: s.number(),
+  conversionRate: s.number(),
+  averageOrderValue: s.number()
+});
+
+export const funnelData = s.object({
+  steps: s.array(s.object({
+    name: s.string(),
+    users: s.number(),
+    conversionRate: s.number()
+  }))
+});
+
+export const cohortData = s.object({
+  cohorts: s.array(s.object({
+    period: s.string(),
+    size: s.number(),
+    retention: s.array(s.number())
+  }))
+});
+
+export const advancedAnalyticsData = s.object({
+  overview: s.object({
+    totalTryOns: s.number(),
+    conversionRate: s.number(),
+    averageSessionTime: s.number(),
+    revenueImpact: s.number()
+  }),
+  trends: s.array(trendData),
+  segments: s.array(segmentData),
+  funnelAnalysis: funnelData,
+  cohortAnalysis: cohortData
+});
+
+export const imageUploadResult = s.object({
+  url: s.string(),
+  thumbnailUrl: s.string(),
+  metadata: s.object({
+    width: s.number(),
+    height: s.number(),
+    size: s.number(),
+    format: s.string()
+  })
+});
+
+export const imageOptimizationOptions = s.object({
+  width: s.number().optional(),
+  height: s.number().optional(),
+  quality: s.number().optional(),
+  format: s.literal('jpeg', 'png', 'webp').optional(),
+  progressive: s.boolean().optional()
+});
+
+export const imageOptimized = s.object({
+  optimizedUrl: s.string()
+});
+
+export const inventoryStatus = s.object({
+  itemId: s.string(),
+  inStock: s.boolean(),
+  quantity: s.number(),
+  lastUpdated: s.string()
+});
+
+export const inventoryUpdate = s.object({
+  itemId: s.string(),
+  quantity: s.number(),
+  operation: s.literal('set', 'add', 'subtract')
+});
+
+export const syncResult = s.object({
+  success: s.boolean(),
+  itemsSynced: s.number(),
+  errors: s.array(s.string()),
+  lastSyncTime: s.string()
+});
+
+export const webhookData = s.object({
+  source: s.string(),
+  event: s.string(),
+  data: s.unknown(),
+  signature: s.string().optional()
+});
+
+/**
+ * Every route either service calls, keyed "<METHOD> <path>". Multipart
+ * uploads have no JSON body schema; routes without a response schema
+ * return nothing the client reads.
+ */
+export const API_ROUTES = defineRoutes({
+  'GET /clothing': { summary: 'List clothing items', query: clothingFilters, response: s.array(clothingItem) },
+  'GET /clothing/{id}': { summary: 'Get one clothing item', response: clothingItem },
+  'GET /clothing/search': { summary: 'Search clothing by text', response: s.array(clothingItem) },
+  'POST /clothing/search/advanced': { summary: 'Faceted search', body: searchQuery, response: searchResult },
+  'POST /recommendations': {
+    summary: 'Personalized recommendations',
+    body: s.object({ userId: s.string(), context: recommendationContext, timestamp: s.string() }),
+    response: s.array(smartRecommendation)
+  },
+  'GET /user/profile': { summary: 'Current user profile', response: userProfile },
+  'PUT /user/profile': { summary: 'Update current user profile', body: userProfile.partial(), response: userProfile },
+  'POST /users': { summary: 'Create a user', body: createUserRequest, response: user },
+  'PUT /users/{userId}/profile': { summary: 'Update a user profile', body: userProfile.partial(), response: userProfile },
+  'GET /users/{userId}/preferences': { summary: 'Get user preferences', response: userPreferences },
+  'POST /tryon/process': { summary: 'Run a try-on (multipart)', response: tryOnResult },
+  'POST /tryon/process/advanced': { summary: 'Run a try-on with quality and AI settings (multipart)', response: tryOnResult },
+  'POST /tryon/sessions': { summary: 'Save a try-on session', body: enhancedTryOnSession, response: sessionSaved },
+  'GET /tryon/sessions/{userId}': { summary: 'Try-on history', response: s.array(tryOnSession) },
+  'GET /analytics': { summary: 'Analytics summary', response: analyticsData },
+  'GET /analytics/advanced': { summary: 'Analytics with trends, segments, funnel and cohorts', query: analyticsParams, response: advancedAnalyticsData },
+  'POST /analytics/events': { summary: 'Track an event', body: advancedAnalyticsEvent },
+  'POST /analytics/reports': { summary: 'Generate a report', body: reportParams, response: analyticsReport },
+  'POST /images/upload': { summary: 'Upload an image (multipart)', response: imageUploadResult },
+  'POST /images/optimize': {
+    summary: 'Optimize an image',
+    body: s.object({ imageUrl: s.string(), options: imageOptimizationOptions }),
+    response: imageOptimized
+  },
+  'POST /inventory/status': { summary: 'Stock levels', body: s.object({ itemIds: s.array(s.string()) }), response: s.array(inventoryStatus) },
+  'POST /inventory/update': { summary: 'Adjust stock levels', body: s.object({ updates: s.array(inventoryUpdate) }) },
+  'POST /integrations/sync': {
+    summary: 'Sync the catalog with an e-commerce platform',
+    body: s.object({ platform: s.string(), credentials: s.unknown() }),
+    response: syncResult
+  },
+  'POST /webhooks/handle': { summary: 'Forward a platform webhook', body: webhookData }
+});
+
+/**
+ * Checks a response body against the route's schema and returns it typed.
+ * A mismatch is logged through the error pipeline with every issue found
+ * and thrown as an error named ApiContractError carrying the route and
+ * issues, so callers fall back the same way they do for a failed request
+ * instead of passing bad data on to components.
+ */
+export function parseResponse<R extends RouteWithResponse>(route: R, data: unknown): ApiResponse<R> {
+  const schema: Schema<unknown> = API_ROUTES[route].response;
+  const result = schema.validate(data);
+  if (result.success) return result.data as ApiResponse<R>;
+
+  // Issues stay out of the message so repeats of one broken route group into one report
+  const error = Object.assign(namedError('ApiContractError', `Response for ${route} does not match the API contract`), {
+    route,
+    issues: result.issues
+  });
+  EnhancedErrorHandling.getInstance().logError(error, {
+    component: 'ApiContract',
+    action: route,
+    summary: formatIssues(result.issues),
+    issues: result.issues.slice(0, 20),
+    issueCount: result.issues.length
+  });
+  throw error;
+}
+
+// For data from local caches and mocks, which should be dropped rather than reported when stale
+export function conformsTo(route: RouteWithResponse, data: unknown): boolean {
+  return API_ROUTES[route].response.validate(data).success;
+}
+
+// OpenAPI 3.1 document for the routes above, for the backend team and API tooling
+export function createOpenApiDocument(serverUrl?: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  Object.entries(API_ROUTES).forEach(([route, definition]: [string, RouteDefinition]) => {
+    const [method, path] = route.split(' ');
+    const parameters: JsonSchema[] = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    }));
+
+    if (definition.query) {
+      const query = definition.query.toJSONSchema();
+      Object.entries(query.properties as Record<string, JsonSchema>).forEach(([name, schema]) => {
+        parameters.push({ name, in: 'query', required: query.required.includes(name), schema });
+      });
+    }
+
+    paths[path] = paths[path] || {};
+    paths[path][method.toLowerCase()] = {
+      summary: definition.summary,
+      ...(parameters.length > 0 && { parameters }),
+      ...(definition.body && {
+        requestBody: { required: true, content: { 'application/json': { schema: definition.body.toJSONSchema() } } }
+      }),
+      responses: definition.response
+        ? { 200: { description: 'OK', content: { 'application/json': { schema: definition.response.toJSONSchema() } } } }
+        : { 204: { description: 'No content' } }
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'VirtualFit API', version: '1.0.0' },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    paths
+  };
+}
+
+// Keeps each route's literal schema types while checking it against RouteDefinition
+function defineRoutes<T extends Record<string, RouteDefinition>>(routes: T): T {
+  return routes;
+}
+
+function namedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Interfaces
+export type ClothingFilters = Infer<typeof clothingFilters>;
+export type ClothingItem = Infer<typeof clothingItem>;
+export type SearchQuery = Infer<typeof searchQuery>;
+export type SearchResult = Infer<typeof searchResult>;
+export type RecommendationContext = Infer<typeof recommendationContext>;
+export type SmartRecommendation = Infer<typeof smartRecommendation>;
+export type UserProfile = Infer<typeof userProfile>;
+export type UserPreferences = Infer<typeof userPreferences>;
+export type CreateUserRequest = Infer<typeof createUserRequest>;
+export type User = Infer<typeof user>;
+export type TryOnResult = Infer<typeof tryOnResult>;
+export type TryOnSession = Infer<typeof tryOnSession>;
+export type QualitySettings = Infer<typeof qualitySettings>;
+export type AISettings = Infer<typeof aiSettings>;
+export type SessionMetadata = Infer<typeof sessionMetadata>;
+export type EnhancedTryOnSession = Infer<typeof enhancedTryOnSession>;
+export type AnalyticsData = Infer<typeof analyticsData>;
+export type AnalyticsEvent = Infer<typeof analyticsEvent>;
+export type AdvancedAnalyticsEvent = Infer<typeof advancedAnalyticsEvent>;
+export type AnalyticsParams = Infer<typeof analyticsParams>;
+export type ReportParams = Infer<typeof reportParams>;
+export type AnalyticsReport = Infer<typeof analyticsReport>;
+export type TrendData = Infer<typeof trendData>;
+export type SegmentData = Infer<typeof segmentData>;
+export type FunnelData = Infer<typeof funnelData>;
+export type CohortData = Infer<typeof cohortData>;
+export type AdvancedAnalyticsData = Infer<typeof advancedAnalyticsData>;
+export type ImageUploadResult = Infer<typeof imageUploadResult>;
+export type ImageOptimizationOptions = Infer<typeof imageOptimizationOptions>;
+export type InventoryStatus = Infer<typeof inventoryStatus>;
+export type InventoryUpdate = Infer<typeof inventoryUpdate>;
+export type SyncResult = Infer<typeof syncResult>;
+export type WebhookData = Infer<typeof webhookData>;
+
+export interface RouteDefinition {
+  summary: string;
+  // Object schema whose fields become query parameters
+  query?: Schema<any>;
+  body?: Schema<any>;
+  response?: Schema<any>;
+}
+
+export type ApiRoute = keyof typeof API_ROUTES;
+
+export type RouteWithResponse = {
+  [R in ApiRoute]: (typeof API_ROUTES)[R] extends { response: Schema<any> } ? R : never;
+}[ApiRoute];
+
+export type ApiResponse<R extends RouteWithResponse> = Infer<(typeof API_ROUTES)[R]['response']>;
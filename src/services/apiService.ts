@@ -1,7 +1,20 @@
 import axios from 'axios';
+import EnhancedErrorHandling from './enhancedErrorHandling';
+import MockBackend, { isMockBackendEnabled } from './mockBackend';
+import {
+  AnalyticsData,
+  AnalyticsEvent,
+  ClothingFilters,
+  ClothingItem,
+  parseResponse,
+  TryOnResult,
+  TryOnSession,
+  UserProfile
+} from './apiContract';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://api.virtualfit.com';
 
+// Failures reject, except search, which degrades to no results, and tracking; see EnhancedApiService for the full contract
 class ApiService {
   private static instance: ApiService;
   private axiosInstance;
@@ -15,6 +28,10 @@ class ApiService {
       },
     });
 
+    if (isMockBackendEnabled()) {
+      MockBackend.getInstance().install(this.axiosInstance);
+    }
+
     // Request interceptor for auth
     this.axiosInstance.interceptors.request.use(
       (config) => {
@@ -29,8 +46,12 @@ class ApiService {
 
     // Response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        recordApiBreadcrumb(response.config, response.status);
+        return response;
+      },
       (error) => {
+        recordApiBreadcrumb(error.config, error.response?.status);
         if (error.response?.status === 401) {
           localStorage.removeItem('auth_token');
           window.location.href = '/login';
@@ -51,18 +72,17 @@ class ApiService {
   async getClothingItems(filters?: ClothingFilters): Promise<ClothingItem[]> {
     try {
       const response = await this.axiosInstance.get('/clothing', { params: filters });
-      return response.data;
+      return parseResponse('GET /clothing', response.data);
     } catch (error) {
       console.error('Failed to fetch clothing items:', error);
-      // Fallback to mock data for demo
-      return this.getMockClothingItems();
+      throw error;
     }
   }
 
   async getClothingItem(id: string): Promise<ClothingItem> {
     try {
       const response = await this.axiosInstance.get(`/clothing/${id}`);
-      return response.data;
+      return parseResponse('GET /clothing/{id}', response.data);
     } catch (error) {
       console.error('Failed to fetch clothing item:', error);
       throw error;
@@ -74,7 +94,7 @@ class ApiService {
       const response = await this.axiosInstance.get('/clothing/search', {
         params: { q: query }
       });
-      return response.data;
+      return parseResponse('GET /clothing/search', response.data);
     } catch (error) {
       console.error('Failed to search clothing:', error);
       return [];
@@ -85,7 +105,7 @@ class ApiService {
   async getUserProfile(): Promise<UserProfile> {
     try {
       const response = await this.axiosInstance.get('/user/profile');
-      return response.data;
+      return parseResponse('GET /user/profile', response.data);
     } catch (error) {
       console.error('Failed to fetch user profile:', error);
       throw error;
@@ -95,7 +115,7 @@ class ApiService {
   async updateUserProfile(profile: Partial<UserProfile>): Promise<UserProfile> {
     try {
       const response = await this.axiosInstance.put('/user/profile', profile);
-      return response.data;
+      return parseResponse('PUT /user/profile', response.data);
     } catch (error) {
       console.error('Failed to update user profile:', error);
       throw error;
@@ -115,21 +135,20 @@ class ApiService {
         timeout: 60000 // Longer timeout for AI processing
       });
       
-      return response.data;
+      return parseResponse('POST /tryon/process', response.data);
     } catch (error) {
       console.error('Failed to process try-on:', error);
-      // Return mock result for demo
-      return this.getMockTryOnResult();
+      throw error;
     }
   }
 
   async saveTryOnSession(session: TryOnSession): Promise<string> {
     try {
       const response = await this.axiosInstance.post('/tryon/sessions', session);
-      return response.data.sessionId;
+      return parseResponse('POST /tryon/sessions', response.data).sessionId;
     } catch (error) {
       console.error('Failed to save try-on session:', error);
-      return 'mock-session-id';
+      throw error;
     }
   }
 
@@ -139,10 +158,10 @@ class ApiService {
       const response = await this.axiosInstance.get('/analytics', {
         params: { timeRange }
       });
-      return response.data;
+      return parseResponse('GET /analytics', response.data);
     } catch (error) {
       console.error('Failed to fetch analytics:', error);
-      return this.getMockAnalytics();
+      throw error;
     }
   }
 
@@ -153,85 +172,23 @@ class ApiService {
       console.error('Failed to track event:', error);
     }
   }
-
-  // Mock data methods for demo/fallback
-  private getMockClothingItems(): ClothingItem[] {
-    return [
-      {
-        id: '1',
-        name: 'Classic White Button Shirt',
-        category: 'tops',
-        style: 'classic',
-        colors: ['white', 'light-blue'],
-        brand: 'StyleCo',
-        price: 89,
-        image: 'https://images.pexels.com/photos/996329/pexels-photo-996329.jpeg?auto=compress&cs=tinysrgb&w=500',
-        overlayImage: 'https://images.pexels.com/photos/996329/pexels-photo-996329.jpeg?auto=compress&cs=tinysrgb&w=300',
-        tags: ['professional', 'versatile', 'cotton'],
-        rating: 4.5,
-        sizes: ['XS', 'S', 'M', 'L', 'XL'],
-        inStock: true,
-        inventory: 150
-      }
-    ];
-  }
-
-  private getMockTryOnResult(): TryOnResult {
-    return {
-      processedImage: 'data:image/jpeg;base64,mock-processed-image',
-      confidence: 0.85,
-      processingTime: 2.3,
-      recommendations: []
-    };
-  }
-
-  private getMockAnalytics(): AnalyticsData {
-    return {
-      totalTryOns: 12450,
-      conversionRate: 73.2,
-      averageSessionTime: 5.4,
-      topCategories: ['dresses', 'tops', 'bottoms'],
-      revenueImpact: 245000
-    };
-  }
-}
-
-export interface ClothingFilters {
-  category?: string;
-  style?: string;
-  priceMin?: number;
-  priceMax?: number;
-  colors?: string[];
-  brands?: string[];
-  sizes?: string[];
-  inStock?: boolean;
 }
 
-export interface ClothingItem {
-  id: string;
-  name: string;
-  category: string;
-  style: string;
-  colors: string[];
-  brand: string;
-  price: number;
-  image: string;
-  overlayImage: string;
-  tags: string[];
-  rating: number;
-  sizes: string[];
-  inStock: boolean;
-  inventory: number;
+// Request trail for error reports; only method, path and status, never bodies or headers
+function recordApiBreadcrumb(config: { method?: string; url?: string } | undefined, status?: number): void {
+  EnhancedErrorHandling.getInstance().addBreadcrumb('api', `${config?.method?.toUpperCase() || 'GET'} ${config?.url || ''} ${status ?? 'no response'}`);
 }
 
-export interface UserProfile {
-  id: string;
-  name: string;
-  email: string;
-  preferences: any;
-  measurements?: any;
-  createdAt: string;
-}
+// Shared models come from the API contract; re-exported for existing imports
+export type {
+  AnalyticsData,
+  AnalyticsEvent,
+  ClothingFilters,
+  ClothingItem,
+  TryOnResult,
+  TryOnSession,
+  UserProfile
+} from './apiContract';
 
 export interface TryOnRequest {
   userPhoto: File | string;
@@ -239,33 +196,4 @@ export interface TryOnRequest {
   lightingSettings: any;
 }
 
-export interface TryOnResult {
-  processedImage: string;
-  confidence: number;
-  processingTime: number;
-  recommendations: any[];
-}
-
-export interface TryOnSession {
-  userPhoto: string;
-  selectedItems: any[];
-  lightingSettings: any;
-  timestamp: Date;
-}
-
-export interface AnalyticsData {
-  totalTryOns: number;
-  conversionRate: number;
-  averageSessionTime: number;
-  topCategories: string[];
-  revenueImpact: number;
-}
-
-export interface AnalyticsEvent {
-  type: string;
-  data: any;
-  timestamp: Date;
-  userId?: string;
-}
-
 export default ApiService;
\ No newline at end of file
@@ -0,0 +1,363 @@
+import { Centimeters } from '../types/enhanced';
+
+const STORAGE_KEY = 'virtualfit_body_calibration';
+
+// ISO/IEC 7810 ID-1 (credit card) long edge
+export const CREDIT_CARD_WIDTH_CM = 8.56;
+
+// Nose-to-ankle span as a share of stature (anthropometric averages)
+const NOSE_TO_ANKLE_RATIO = 0.89;
+// Hip joint centers sit slightly above the crotch
+const INSEAM_OFFSET_RATIO = 0.02;
+const UNCALIBRATED_HEIGHT = 170;
+const UNCALIBRATED_HEIGHT_ERROR = 10;
+// Typical landmark jitter as a share of image height
+const LANDMARK_NOISE = 0.005;
+// Card is held in front of the body, so it sits closer to the camera than the torso
+const REFERENCE_DEPTH_ERROR = 0.04;
+
+// Circumferences can't be seen from the front, so they come from breadth ratios with their own spread
+const CIRCUMFERENCE_MODELS: Record<'chest' | 'waist' | 'hips', { breadth: 'shoulders' | 'hips'; ratio: number; modelError: number }> = {
+  chest: { breadth: 'shoulders', ratio: 2.45, modelError: 0.07 },
+  waist: { breadth: 'hips', ratio: 4.4, modelError: 0.1 },
+  hips: { breadth: 'hips', ratio: 5.3, modelError: 0.07 }
+};
+
+const SCALED_FIELDS = [
+  'height', 'shoulderWidth', 'chest', 'waist', 'hips', 'armLength', 'legLength', 'inseam',
+  'neckCircumference', 'bicepCircumference', 'forearmCircumference', 'thighCircumference',
+  'calfCircumference', 'footLength', 'torsoLength'
+];
+
+// MediaPipe BlazePose indices, used when landmarks arrive without names
+const LANDMARK_INDEX: Record<string, number> = {
+  nose: 0,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftElbow: 13,
+  rightElbow: 14,
+  leftWrist: 15,
+  rightWrist: 16,
+  leftHip: 23,
+  rightHip: 24,
+  leftKnee: 25,
+  rightKnee: 26,
+  leftAnkle: 27,
+  rightAnkle: 28
+};
+
+class BodyCalibrationService {
+  private static instance: BodyCalibrationService;
+  private calibration: BodyCalibration | null = null;
+  private listeners = new Set<(calibration: BodyCalibration | null) => void>();
+
+  static getInstance(): BodyCalibrationService {
+    if (!BodyCalibrationService.instance) {
+      BodyCalibrationService.instance = new BodyCalibrationService();
+    }
+    return BodyCalibrationService.instance;
+  }
+
+  constructor() {
+    this.loadCalibration();
+  }
+
+  getCalibration(): BodyCalibration | null {
+    return this.calibration;
+  }
+
+  isCalibrated(): boolean {
+    return this.calibration !== null;
+  }
+
+  calibrateWithHeight(height: Centimeters, heightError: Centimeters = 1): BodyCalibration {
+    if (!(height >= 100 && height <= 250)) {
+      throw new Error('Height must be between 100 and 250 cm');
+    }
+
+    return this.setCalibration({
+      method: 'height',
+      height,
+      heightError,
+      calibratedAt: new Date().toISOString()
+    });
+  }
+
+  // The card fixes cm-per-pixel for one frame; we turn that into a stature so later frames
+  // at a different distance from the camera can be rescaled from the body itself
+  calibrateWithReferenceObject(
+    landmarks: any[],
+    reference: ReferenceObjectMeasurement,
+    imageSize: ImageSize
+  ): BodyCalibration {
+    const referenceWidth = reference.realWidth ?? CREDIT_CARD_WIDTH_CM;
+    const referencePixels = this.pixelDistance(reference.start, reference.end, imageSize);
+    if (referencePixels < 10) {
+      throw new Error('Reference object is too small in the image');
+    }
+
+    const staturePixels = this.getStaturePixels(landmarks, imageSize);
+    if (!staturePixels) {
+      throw new Error('Full body must be visible to calibrate with a reference object');
+    }
+
+    const cmPerPixel = referenceWidth / referencePixels;
+    const height = staturePixels * cmPerPixel;
+    const relativeError = Math.sqrt(
+      Math.pow(this.noisePixels(imageSize) * Math.SQRT2 / referencePixels, 2) +
+      Math.pow(REFERENCE_DEPTH_ERROR, 2)
+    );
+
+    return this.setCalibration({
+      method: 'reference-object',
+      height,
+      heightError: height * relativeError,
+      referenceWidth,
+      calibratedAt: new Date().toISOString()
+    });
+  }
+
+  clearCalibration(): void {
+    this.calibration = null;
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      // Storage unavailable
+    }
+    this.notifyListeners();
+  }
+
+  onCalibrationChange(listener: (calibration: BodyCalibration | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // cm per image pixel for this frame, derived from the body's stature in the image
+  getScale(landmarks: any[], imageSize: ImageSize): ImageScale | null {
+    const staturePixels = this.getStaturePixels(landmarks, imageSize);
+    if (!staturePixels) return null;
+
+    const height = this.calibration?.height ?? UNCALIBRATED_HEIGHT;
+    const heightError = this.calibration?.heightError ?? UNCALIBRATED_HEIGHT_ERROR;
+
+    return {
+      cmPerPixel: height / staturePixels,
+      relativeError: Math.sqrt(
+        Math.pow(heightError / height, 2) +
+        Math.pow(this.noisePixels(imageSize) * Math.SQRT2 / staturePixels, 2)
+      ),
+      noisePixels: this.noisePixels(imageSize)
+    };
+  }
+
+  // Converts normalized landmarks into absolute measurements with a 1-sigma error for each
+  measure(landmarks: any[], imageSize: ImageSize): CalibratedMeasurements | null {
+    const scale = this.getScale(landmarks, imageSize);
+    if (!scale) return null;
+
+    const { cmPerPixel, relativeError: scaleError } = scale;
+    const height = this.calibration?.height ?? UNCALIBRATED_HEIGHT;
+    const heightError = this.calibration?.heightError ?? UNCALIBRATED_HEIGHT_ERROR;
+
+    const shoulderPixels = this.segmentPixels(landmarks, imageSize, ['leftShoulder', 'rightShoulder']);
+    const hipPixels = this.segmentPixels(landmarks, imageSize, ['leftHip', 'rightHip']);
+    const armPixels = this.averageSides(landmarks, imageSize, side => [`${side}Shoulder`, `${side}Elbow`, `${side}Wrist`]);
+    const legPixels = this.averageSides(landmarks, imageSize, side => [`${side}Hip`, `${side}Knee`, `${side}Ankle`]);
+
+    const measurements: AbsoluteMeasurements = {
+      height,
+      shoulderWidth: shoulderPixels * cmPerPixel,
+      chest: 0,
+      waist: 0,
+      hips: 0,
+      armLength: armPixels * cmPerPixel,
+      legLength: legPixels * cmPerPixel,
+      inseam: legPixels * cmPerPixel - height * INSEAM_OFFSET_RATIO
+    };
+
+    const errors: MeasurementErrors = {
+      height: heightError,
+      shoulderWidth: this.linearError(measurements.shoulderWidth, shoulderPixels, 2, scaleError, imageSize),
+      chest: 0,
+      waist: 0,
+      hips: 0,
+      armLength: this.linearError(measurements.armLength, armPixels, 3, scaleError, imageSize),
+      legLength: this.linearError(measurements.legLength, legPixels, 3, scaleError, imageSize),
+      inseam: this.linearError(measurements.inseam, legPixels, 3, scaleError, imageSize)
+    };
+
+    (Object.keys(CIRCUMFERENCE_MODELS) as Array<keyof typeof CIRCUMFERENCE_MODELS>).forEach(key => {
+      const model = CIRCUMFERENCE_MODELS[key];
+      const breadthPixels = model.breadth === 'shoulders' ? shoulderPixels : hipPixels;
+      if (breadthPixels <= 0) return;
+
+      const value = breadthPixels * cmPerPixel * model.ratio;
+      const landmarkError = this.noisePixels(imageSize) * Math.SQRT2 / breadthPixels;
+
+      measurements[key] = value;
+      errors[key] = value * Math.sqrt(
+        Math.pow(scaleError, 2) + Math.pow(landmarkError, 2) + Math.pow(model.modelError, 2)
+      );
+    });
+
+    return {
+      measurements,
+      errors,
+      method: this.calibration?.method ?? 'none',
+      cmPerPixel
+    };
+  }
+
+  // Measurements taken before calibration scale linearly with the corrected stature
+  rescaleMeasurements<T extends { height: Centimeters; errors?: MeasurementErrors }>(measurements: T): T {
+    if (!this.calibration || !measurements.height) return measurements;
+
+    const ratio = this.calibration.height / measurements.height;
+    const rescaled: Record<string, any> = { ...measurements, calibration: this.calibration.method };
+
+    Object.entries(measurements).forEach(([key, value]) => {
+      if (typeof value === 'number' && SCALED_FIELDS.includes(key)) {
+        rescaled[key] = value * ratio;
+      }
+    });
+
+    if (measurements.errors) {
+      const errors: Record<string, number> = {};
+      Object.entries(measurements.errors).forEach(([key, value]) => {
+        errors[key] = value * ratio;
+      });
+      errors.height = this.calibration.heightError;
+      rescaled.errors = errors;
+    }
+
+    return rescaled as T;
+  }
+
+  // Private helper methods
+  private setCalibration(calibration: BodyCalibration): BodyCalibration {
+    this.calibration = calibration;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    } catch (error) {
+      console.warn('Failed to persist body calibration:', error);
+    }
+    this.notifyListeners();
+    return calibration;
+  }
+
+  private loadCalibration(): void {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.calibration = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('Failed to load body calibration:', error);
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.calibration));
+  }
+
+  private findLandmark(landmarks: any[], name: string): any {
+    return landmarks.find(landmark => landmark?.name === name) || landmarks[LANDMARK_INDEX[name]];
+  }
+
+  private pixelDistance(a: { x: number; y: number }, b: { x: number; y: number }, imageSize: ImageSize): number {
+    return Math.hypot((a.x - b.x) * imageSize.width, (a.y - b.y) * imageSize.height);
+  }
+
+  private segmentPixels(landmarks: any[], imageSize: ImageSize, names: string[]): number {
+    let total = 0;
+    for (let i = 1; i < names.length; i++) {
+      const from = this.findLandmark(landmarks, names[i - 1]);
+      const to = this.findLandmark(landmarks, names[i]);
+      if (!from || !to) return 0;
+      total += this.pixelDistance(from, to, imageSize);
+    }
+    return total;
+  }
+
+  private averageSides(landmarks: any[], imageSize: ImageSize, names: (side: 'left' | 'right') => string[]): number {
+    const lengths = (['left', 'right'] as const)
+      .map(side => this.segmentPixels(landmarks, imageSize, names(side)))
+      .filter(length => length > 0);
+
+    return lengths.length ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0;
+  }
+
+  private getStaturePixels(landmarks: any[], imageSize: ImageSize): number {
+    if (!landmarks || landmarks.length === 0) return 0;
+
+    const nose = this.findLandmark(landmarks, 'nose');
+    const leftAnkle = this.findLandmark(landmarks, 'leftAnkle');
+    const rightAnkle = this.findLandmark(landmarks, 'rightAnkle');
+    if (!nose || !leftAnkle || !rightAnkle) return 0;
+
+    const ankles = { x: (leftAnkle.x + rightAnkle.x) / 2, y: (leftAnkle.y + rightAnkle.y) / 2 };
+    return this.pixelDistance(nose, ankles, imageSize) / NOSE_TO_ANKLE_RATIO;
+  }
+
+  private noisePixels(imageSize: ImageSize): number {
+    return imageSize.height * LANDMARK_NOISE;
+  }
+
+  private linearError(value: number, pixels: number, landmarkCount: number, scaleError: number, imageSize: ImageSize): number {
+    if (pixels <= 0) return value;
+    const landmarkError = this.noisePixels(imageSize) * Math.sqrt(landmarkCount) / pixels;
+    return Math.abs(value) * Math.sqrt(Math.pow(scaleError, 2) + Math.pow(landmarkError, 2));
+  }
+}
+
+// Interfaces
+export type CalibrationMethod = 'height' | 'reference-object' | 'none';
+
+export interface BodyCalibration {
+  method: Exclude<CalibrationMethod, 'none'>;
+  height: Centimeters;
+  heightError: Centimeters;
+  referenceWidth?: Centimeters;
+  calibratedAt: string;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ImageScale {
+  cmPerPixel: number;
+  relativeError: number;
+  noisePixels: number;
+}
+
+// Endpoints of the reference object's long edge, in normalized image coordinates
+export interface ReferenceObjectMeasurement {
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  realWidth?: Centimeters;
+}
+
+export interface AbsoluteMeasurements {
+  height: Centimeters;
+  shoulderWidth: Centimeters;
+  chest: Centimeters;
+  waist: Centimeters;
+  hips: Centimeters;
+  armLength: Centimeters;
+  legLength: Centimeters;
+  inseam: Centimeters;
+}
+
+// 1-sigma uncertainty for each measurement, in cm
+export type MeasurementErrors = Record<keyof AbsoluteMeasurements, Centimeters>;
+
+export interface CalibratedMeasurements {
+  measurements: AbsoluteMeasurements;
+  errors: MeasurementErrors;
+  method: CalibrationMethod;
+  cmPerPixel: number;
+}
+
+export default BodyCalibrationService;
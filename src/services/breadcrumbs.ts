@@ -0,0 +1,48 @@
+/**
+ * Fixed-size ring buffer of the most recent things that happened before an
+ * error: clicks, API calls and AI stage changes. Old entries are overwritten
+ * once the buffer is full, so recording is constant-cost.
+ */
+class BreadcrumbTrail {
+  private entries: Breadcrumb[] = [];
+  private next = 0;
+  private capacity: number;
+
+  constructor(capacity = 50) {
+    this.capacity = capacity;
+  }
+
+  add(category: BreadcrumbCategory, message: string, data?: Record<string, unknown>): void {
+    const breadcrumb: Breadcrumb = { category, message, timestamp: Date.now(), data };
+
+    if (this.entries.length < this.capacity) {
+      this.entries.push(breadcrumb);
+    } else {
+      this.entries[this.next] = breadcrumb;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  // Oldest first
+  getAll(): Breadcrumb[] {
+    if (this.entries.length < this.capacity) return [...this.entries];
+    return [...this.entries.slice(this.next), ...this.entries.slice(0, this.next)];
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.next = 0;
+  }
+}
+
+// Interfaces
+export type BreadcrumbCategory = 'user' | 'api' | 'ai-stage';
+
+export interface Breadcrumb {
+  category: BreadcrumbCategory;
+  message: string;
+  timestamp: number;
+  data?: Record<string, unknown>;
+}
+
+export default BreadcrumbTrail;
@@ -0,0 +1,350 @@
+import { CameraQuality, LightingConditions, StabilityMetrics } from '../types/enhanced';
+
+const FRAME_MARGIN = 0.03;
+// Share of frame height the body should fill: close enough for detail, far enough for feet
+const MIN_BODY_FILL = 0.6;
+const MAX_BODY_FILL = 0.9;
+// A-pose: arms angled away from the torso, measured from vertical
+const MIN_ARM_ANGLE = 15;
+const MAX_ARM_ANGLE = 50;
+const MIN_LIGHT_INTENSITY = 35;
+const MAX_LIGHT_INTENSITY = 90;
+const MIN_LIGHT_UNIFORMITY = 55;
+const MAX_BODY_MOVEMENT = 15;
+const MAX_CAMERA_MOVEMENT = 20;
+const STABILITY_WINDOW = 6;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+
+const FRAMING_LANDMARKS = ['nose', 'leftShoulder', 'rightShoulder', 'leftHip', 'rightHip', 'leftAnkle', 'rightAnkle'];
+
+class CaptureQualityAnalyzer {
+  private landmarkHistory: Array<Record<string, { x: number; y: number }>> = [];
+  private previousFrame: Uint8ClampedArray | null = null;
+
+  analyze(keypoints: CaptureKeypoint[] | null, frame: ImageData): CaptureQualityReport {
+    const sample = this.downsample(frame);
+    const lighting = this.analyzeLighting(sample);
+    const stability = this.analyzeStability(keypoints, sample);
+    const cameraQuality = this.analyzeCameraQuality(frame, sample, stability);
+
+    const checks: CaptureCheck[] = [
+      this.checkFraming(keypoints),
+      this.checkDistance(keypoints),
+      this.checkArmPose(keypoints),
+      this.checkLighting(lighting),
+      this.checkStability(stability)
+    ];
+
+    const failed = checks.find(check => !check.passed);
+
+    return {
+      checks,
+      ready: !failed,
+      coaching: failed ? failed.message : 'Hold still…',
+      lighting,
+      stability,
+      cameraQuality
+    };
+  }
+
+  reset(): void {
+    this.landmarkHistory = [];
+    this.previousFrame = null;
+  }
+
+  // Private helper methods
+  private checkFraming(keypoints: CaptureKeypoint[] | null): CaptureCheck {
+    if (!keypoints) {
+      return { id: 'framing', label: 'Full body', passed: false, message: 'Step into the frame' };
+    }
+
+    const outside = FRAMING_LANDMARKS
+      .map(name => this.find(keypoints, name))
+      .filter(point => !point || point.confidence < 0.5 ||
+        point.x < FRAME_MARGIN || point.x > 1 - FRAME_MARGIN ||
+        point.y < FRAME_MARGIN || point.y > 1 - FRAME_MARGIN);
+
+    if (outside.length === 0) {
+      return { id: 'framing', label: 'Full body', passed: true, message: 'Full body in frame' };
+    }
+
+    const ankles = [this.find(keypoints, 'leftAnkle'), this.find(keypoints, 'rightAnkle')];
+    const feetMissing = ankles.some(point => !point || point.y > 1 - FRAME_MARGIN || point.confidence < 0.5);
+
+    return {
+      id: 'framing',
+      label: 'Full body',
+      passed: false,
+      message: feetMissing ? 'Make sure your feet are in the frame' : 'Move to the center of the frame'
+    };
+  }
+
+  private checkDistance(keypoints: CaptureKeypoint[] | null): CaptureCheck {
+    const nose = keypoints && this.find(keypoints, 'nose');
+    const leftAnkle = keypoints && this.find(keypoints, 'leftAnkle');
+    const rightAnkle = keypoints && this.find(keypoints, 'rightAnkle');
+
+    if (!nose || !leftAnkle || !rightAnkle) {
+      return { id: 'distance', label: 'Distance', passed: false, message: 'Step back until your whole body is visible' };
+    }
+
+    // Nose-to-ankle covers roughly 89% of stature
+    const fill = ((leftAnkle.y + rightAnkle.y) / 2 - nose.y) / 0.89;
+
+    if (fill > MAX_BODY_FILL) {
+      return { id: 'distance', label: 'Distance', passed: false, message: 'Step back a little' };
+    }
+    if (fill < MIN_BODY_FILL) {
+      return { id: 'distance', label: 'Distance', passed: false, message: 'Move closer to the camera' };
+    }
+    return { id: 'distance', label: 'Distance', passed: true, message: 'Good distance' };
+  }
+
+  private checkArmPose(keypoints: CaptureKeypoint[] | null): CaptureCheck {
+    const angles = (['left', 'right'] as const).map(side => {
+      const shoulder = keypoints && this.find(keypoints, `${side}Shoulder`);
+      const wrist = keypoints && this.find(keypoints, `${side}Wrist`);
+      if (!shoulder || !wrist || wrist.confidence < 0.5) return null;
+
+      return Math.atan2(Math.abs(wrist.x - shoulder.x), Math.abs(wrist.y - shoulder.y)) * 180 / Math.PI;
+    });
+
+    if (angles.some(angle => angle === null)) {
+      return { id: 'arms', label: 'A-pose', passed: false, message: 'Keep both hands visible' };
+    }
+
+    const [left, right] = angles as number[];
+    if (left < MIN_ARM_ANGLE || right < MIN_ARM_ANGLE) {
+      return { id: 'arms', label: 'A-pose', passed: false, message: 'Move your arms slightly away from your body' };
+    }
+    if (left > MAX_ARM_ANGLE || right > MAX_ARM_ANGLE) {
+      return { id: 'arms', label: 'A-pose', passed: false, message: 'Lower your arms a little' };
+    }
+    return { id: 'arms', label: 'A-pose', passed: true, message: 'Arms in position' };
+  }
+
+  private checkLighting(lighting: LightingConditions): CaptureCheck {
+    if (lighting.intensity < MIN_LIGHT_INTENSITY) {
+      return { id: 'lighting', label: 'Lighting', passed: false, message: 'Find a brighter spot or turn on a light' };
+    }
+    if (lighting.intensity > MAX_LIGHT_INTENSITY) {
+      return { id: 'lighting', label: 'Lighting', passed: false, message: 'Too bright — avoid direct light into the camera' };
+    }
+    if (lighting.uniformity < MIN_LIGHT_UNIFORMITY || lighting.direction === 'back') {
+      return { id: 'lighting', label: 'Lighting', passed: false, message: 'Face the light source so you are evenly lit' };
+    }
+    return { id: 'lighting', label: 'Lighting', passed: true, message: 'Lighting looks good' };
+  }
+
+  private checkStability(stability: StabilityMetrics): CaptureCheck {
+    if (this.landmarkHistory.length < STABILITY_WINDOW) {
+      return { id: 'stability', label: 'Still', passed: false, message: 'Hold still…' };
+    }
+    if (stability.cameraMovement > MAX_CAMERA_MOVEMENT) {
+      return { id: 'stability', label: 'Still', passed: false, message: 'Keep the camera steady' };
+    }
+    if (stability.bodyMovement > MAX_BODY_MOVEMENT || stability.handShake > MAX_BODY_MOVEMENT) {
+      return { id: 'stability', label: 'Still', passed: false, message: 'Hold still…' };
+    }
+    return { id: 'stability', label: 'Still', passed: true, message: 'Steady' };
+  }
+
+  private analyzeLighting(sample: ImageData): LightingConditions {
+    const { data, width, height } = sample;
+    const grid = 4;
+    const cells = new Array(grid * grid).fill(0);
+    const counts = new Array(grid * grid).fill(0);
+    let total = 0;
+    let red = 0;
+    let blue = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = (y * width + x) * 4;
+        const luminance = 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+        const cell = Math.floor(y * grid / height) * grid + Math.floor(x * grid / width);
+        cells[cell] += luminance;
+        counts[cell]++;
+        total += luminance;
+        red += data[index];
+        blue += data[index + 2];
+      }
+    }
+
+    const pixels = width * height;
+    const mean = total / pixels;
+    const cellMeans = cells.map((sum, i) => sum / Math.max(counts[i], 1));
+    const deviation = Math.sqrt(cellMeans.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / cellMeans.length);
+
+    const region = (rows: number[], cols: number[]) =>
+      rows.flatMap(row => cols.map(col => cellMeans[row * grid + col])).reduce((a, b) => a + b, 0) / (rows.length * cols.length);
+    const center = region([1, 2], [1, 2]);
+    const edges = (region([0, 3], [0, 1, 2, 3]) + region([1, 2], [0, 3])) / 2;
+    const left = region([0, 1, 2, 3], [0, 1]);
+    const right = region([0, 1, 2, 3], [2, 3]);
+    const top = region([0, 1], [0, 1, 2, 3]);
+    const bottom = region([2, 3], [0, 1, 2, 3]);
+
+    let direction: LightingConditions['direction'] = 'front';
+    if (edges - center > 30) {
+      direction = 'back';
+    } else if (Math.abs(left - right) > 30) {
+      direction = 'side';
+    } else if (top - bottom > 30) {
+      direction = 'top';
+    } else if (deviation > 40) {
+      direction = 'mixed';
+    }
+
+    const warmth = (red - blue) / Math.max(pixels, 1);
+    const color: LightingConditions['color'] = warmth > 15 ? 'warm' : warmth < -15 ? 'cool' : 'neutral';
+
+    return {
+      type: color === 'warm' ? 'artificial' : color === 'cool' ? 'natural' : 'mixed',
+      intensity: Math.round(mean / 255 * 100),
+      direction,
+      color,
+      uniformity: Math.round(Math.max(0, 100 - deviation / 64 * 100))
+    };
+  }
+
+  private analyzeStability(keypoints: CaptureKeypoint[] | null, sample: ImageData): StabilityMetrics {
+    // Camera movement: mean absolute change of the whole downsampled frame
+    let cameraMovement = 0;
+    const gray = new Uint8ClampedArray(sample.width * sample.height);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = (sample.data[i * 4] + sample.data[i * 4 + 1] + sample.data[i * 4 + 2]) / 3;
+    }
+    if (this.previousFrame) {
+      let diff = 0;
+      for (let i = 0; i < gray.length; i++) {
+        diff += Math.abs(gray[i] - this.previousFrame[i]);
+      }
+      cameraMovement = Math.min(100, (diff / gray.length) / 25 * 100);
+    }
+    this.previousFrame = gray;
+
+    if (!keypoints) {
+      this.landmarkHistory = [];
+      return { handShake: 100, bodyMovement: 100, cameraMovement };
+    }
+
+    const snapshot: Record<string, { x: number; y: number }> = {};
+    keypoints.forEach(point => {
+      snapshot[point.name] = { x: point.x, y: point.y };
+    });
+    this.landmarkHistory = [...this.landmarkHistory, snapshot].slice(-STABILITY_WINDOW);
+
+    const movement = (names: string[]) => {
+      const deltas: number[] = [];
+      for (let i = 1; i < this.landmarkHistory.length; i++) {
+        names.forEach(name => {
+          const previous = this.landmarkHistory[i - 1][name];
+          const current = this.landmarkHistory[i][name];
+          if (previous && current) {
+            deltas.push(Math.hypot(current.x - previous.x, current.y - previous.y));
+          }
+        });
+      }
+      if (deltas.length === 0) return 100;
+      // 2% of the frame per sample counts as full movement
+      return Math.min(100, deltas.reduce((a, b) => a + b, 0) / deltas.length / 0.02 * 100);
+    };
+
+    return {
+      handShake: movement(['leftWrist', 'rightWrist']),
+      bodyMovement: movement(['nose', 'leftShoulder', 'rightShoulder', 'leftHip', 'rightHip']),
+      cameraMovement
+    };
+  }
+
+  private analyzeCameraQuality(frame: ImageData, sample: ImageData, stability: StabilityMetrics): CameraQuality {
+    const { data, width, height } = sample;
+    let laplacianSum = 0;
+    let laplacianSquares = 0;
+    let luminanceSum = 0;
+    const channelTotals = [0, 0, 0];
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const lum = (px: number, py: number) => {
+          const i = (py * width + px) * 4;
+          return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        };
+        const laplacian = 4 * lum(x, y) - lum(x - 1, y) - lum(x + 1, y) - lum(x, y - 1) - lum(x, y + 1);
+        laplacianSum += laplacian;
+        laplacianSquares += laplacian * laplacian;
+        luminanceSum += lum(x, y);
+
+        const index = (y * width + x) * 4;
+        channelTotals[0] += data[index];
+        channelTotals[1] += data[index + 1];
+        channelTotals[2] += data[index + 2];
+        count++;
+      }
+    }
+
+    const laplacianVariance = laplacianSquares / count - Math.pow(laplacianSum / count, 2);
+    const meanLuminance = luminanceSum / count;
+    const channelMeans = channelTotals.map(total => total / count);
+    const channelAverage = (channelMeans[0] + channelMeans[1] + channelMeans[2]) / 3;
+    const channelSpread = Math.max(...channelMeans.map(mean => Math.abs(mean - channelAverage)));
+
+    return {
+      resolution: `${frame.width}x${frame.height}`,
+      stability: Math.round(100 - stability.cameraMovement),
+      focus: Math.round(Math.min(100, laplacianVariance / 500 * 100)),
+      exposure: Math.round(100 - Math.abs(meanLuminance - 128) / 128 * 100),
+      colorAccuracy: Math.round(Math.max(0, 100 - channelSpread / Math.max(channelAverage, 1) * 100))
+    };
+  }
+
+  private downsample(frame: ImageData): ImageData {
+    const sample = new ImageData(SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+      for (let x = 0; x < SAMPLE_WIDTH; x++) {
+        const sourceX = Math.floor(x * frame.width / SAMPLE_WIDTH);
+        const sourceY = Math.floor(y * frame.height / SAMPLE_HEIGHT);
+        const source = (sourceY * frame.width + sourceX) * 4;
+        const target = (y * SAMPLE_WIDTH + x) * 4;
+        sample.data[target] = frame.data[source];
+        sample.data[target + 1] = frame.data[source + 1];
+        sample.data[target + 2] = frame.data[source + 2];
+        sample.data[target + 3] = 255;
+      }
+    }
+    return sample;
+  }
+
+  private find(keypoints: CaptureKeypoint[], name: string): CaptureKeypoint | undefined {
+    return keypoints.find(point => point.name === name);
+  }
+}
+
+// Interfaces
+export interface CaptureKeypoint {
+  x: number;
+  y: number;
+  confidence: number;
+  name: string;
+}
+
+export interface CaptureCheck {
+  id: 'framing' | 'distance' | 'arms' | 'lighting' | 'stability';
+  label: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface CaptureQualityReport {
+  checks: CaptureCheck[];
+  ready: boolean;
+  coaching: string;
+  lighting: LightingConditions;
+  stability: StabilityMetrics;
+  cameraQuality: CameraQuality;
+}
+
+export default CaptureQualityAnalyzer;
@@ -0,0 +1,364 @@
+import { AdvancedClothingItem, MaterialComposition } from '../types/enhanced';
+import type { PoseDelta } from './realTimeProcessing';
+
+// Per fabric: relative weight, stretch resistance, fold resistance and air drag
+const FABRIC_PROFILES: Record<string, FabricProfile> = {
+  chiffon: { weight: 0.45, stiffness: 0.9, bend: 0.05, drag: 0.06 },
+  silk: { weight: 0.6, stiffness: 0.92, bend: 0.08, drag: 0.045 },
+  rayon: { weight: 0.75, stiffness: 0.9, bend: 0.1, drag: 0.035 },
+  viscose: { weight: 0.75, stiffness: 0.9, bend: 0.1, drag: 0.035 },
+  jersey: { weight: 0.85, stiffness: 0.8, bend: 0.12, drag: 0.03 },
+  polyester: { weight: 0.8, stiffness: 0.94, bend: 0.18, drag: 0.03 },
+  cotton: { weight: 1, stiffness: 0.95, bend: 0.22, drag: 0.025 },
+  linen: { weight: 1, stiffness: 0.97, bend: 0.3, drag: 0.025 },
+  wool: { weight: 1.25, stiffness: 0.95, bend: 0.35, drag: 0.02 },
+  denim: { weight: 1.5, stiffness: 0.98, bend: 0.55, drag: 0.015 },
+  leather: { weight: 1.7, stiffness: 0.99, bend: 0.7, drag: 0.01 }
+};
+const DEFAULT_FABRIC = 'cotton';
+
+// Simulated hem below the waistline, in waistline widths; the bodice stays with the warped overlay
+const GARMENT_SHAPES: Record<ClothKind, { length: number; flare: number }> = {
+  dress: { length: 2.1, flare: 1.5 },
+  skirt: { length: 1.6, flare: 1.35 }
+};
+const GRID_COLUMNS = 10;
+const GRID_ROWS = 10;
+const SOLVER_ITERATIONS = 10;
+const SOLVER_SUBSTEPS = 3;
+
+// Hip joints sit inside the silhouette; the waistband is wider and a little higher
+const WAIST_WIDTH_RATIO = 1.6;
+const WAISTBAND_OFFSET = 0.12;
+// Shoulder-to-hip distance of an average adult, used to convert gravity to image units
+const TORSO_LENGTH_METERS = 0.5;
+const GRAVITY = 9.81;
+// A hip jump larger than this share of the torso is a re-detection, not movement
+const MAX_POSE_JUMP = 0.6;
+const MIN_CONFIDENCE = 0.3;
+const STEP_TIMEOUT = 1000;
+
+/**
+ * Runs the cloth solver in public/workers/clothSimulation.js. Dresses and
+ * skirts hang from the waistline as particle grids whose top row follows the
+ * pose; frames come back in normalized image coordinates for the overlay.
+ */
+class ClothSimulationService {
+  private static instance: ClothSimulationService;
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private messageId = 0;
+  private pending = new Map<number, PendingMessage>();
+  private stepInFlight = false;
+  private configuredKey = '';
+  private latestFrames = new Map<string, ClothFrame>();
+
+  static getInstance(): ClothSimulationService {
+    if (!ClothSimulationService.instance) {
+      ClothSimulationService.instance = new ClothSimulationService();
+    }
+    return ClothSimulationService.instance;
+  }
+
+  getClothKind(item: ClothItem): ClothKind | null {
+    if (item.category === 'dresses') return 'dress';
+    if (item.category === 'bottoms' && /skirt/i.test(`${item.name ?? ''} ${item.style ?? ''}`)) return 'skirt';
+    return null;
+  }
+
+  isSimulated(item: ClothItem): boolean {
+    return this.getClothKind(item) !== null;
+  }
+
+  getParameters(item: ClothItem): ClothParameters {
+    const material = item.materialComposition;
+    const profile = material ? blendProfiles(material) : FABRIC_PROFILES[DEFAULT_FABRIC];
+    const stretch = (material?.stretch ?? 0) / 100;
+    const wrinkleResistance = (material?.wrinkleResistance ?? 50) / 100;
+
+    return {
+      // Stretchy knits give more under their own weight
+      stiffness: clamp(profile.stiffness * (1 - stretch * 0.3), 0.5, 0.99),
+      bendStiffness: clamp(profile.bend * (0.6 + wrinkleResistance * 0.8), 0.02, 0.9),
+      damping: profile.drag,
+      mass: profile.weight + (material?.lining ? 0.2 : 0),
+      iterations: SOLVER_ITERATIONS,
+      substeps: SOLVER_SUBSTEPS
+    };
+  }
+
+  /**
+   * Advances the simulation by one camera frame. Frames are skipped rather
+   * than queued while the worker is busy, returning the last result instead.
+   */
+  async step(pose: ClothPose | null, delta: PoseDelta | null, items: ClothItem[], aspectRatio = 1): Promise<ClothFrame[]> {
+    const simulated = items.filter(item => this.isSimulated(item));
+    if (simulated.length === 0 || !pose) return [];
+    if (this.stepInFlight) return this.getFrames(simulated);
+
+    const worker = this.getWorker();
+    if (!worker) return [];
+
+    const anchors = this.calculateAnchors(pose, aspectRatio);
+    if (!anchors) return this.getFrames(simulated);
+
+    this.stepInFlight = true;
+    try {
+      // Re-detections jump the hips across the frame; restart from rest instead of whipping the hem
+      if (delta && this.isPoseJump(pose, delta)) {
+        await this.post('reset', {});
+        this.configuredKey = '';
+      }
+
+      await this.configure(simulated);
+
+      const gravity = GRAVITY * (anchors.torsoLength / TORSO_LENGTH_METERS);
+      const result = await this.post('step', {
+        anchors: Object.fromEntries(simulated.map(item => [item.id, anchors.waist])),
+        dt: delta?.dt ?? 0,
+        gravity
+      });
+
+      result.frames.forEach(frame => {
+        // Back from the aspect-corrected solver space to normalized image coordinates
+        for (let i = 0; i < frame.positions.length; i += 2) {
+          frame.positions[i] /= aspectRatio;
+        }
+        this.latestFrames.set(frame.id, frame);
+      });
+    } catch (error) {
+      console.warn('Cloth simulation step failed:', error);
+    } finally {
+      this.stepInFlight = false;
+    }
+
+    return this.getFrames(simulated);
+  }
+
+  getLatestFrame(itemId: string): ClothFrame | null {
+    return this.latestFrames.get(itemId) || null;
+  }
+
+  reset(): void {
+    this.latestFrames.clear();
+    this.configuredKey = '';
+    if (this.worker) {
+      this.post('reset', {}).catch(() => undefined);
+    }
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(({ reject, timeout }) => {
+      clearTimeout(timeout);
+      reject(new Error('Cloth simulation disposed'));
+    });
+    this.pending.clear();
+    this.latestFrames.clear();
+    this.configuredKey = '';
+    this.stepInFlight = false;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.worker = new Worker('/workers/clothSimulation.js');
+      this.worker.onmessage = this.handleWorkerMessage.bind(this);
+      this.worker.onerror = (error: ErrorEvent) => console.error('Cloth simulation worker error:', error);
+    } catch (error) {
+      // Without workers the overlay stays rigid
+      console.warn('Failed to create cloth simulation worker:', error);
+      this.workerFailed = true;
+    }
+    return this.worker;
+  }
+
+  private async configure(items: ClothItem[]): Promise<void> {
+    const garments = items.map(item => {
+      const shape = GARMENT_SHAPES[this.getClothKind(item)!];
+      return {
+        id: item.id,
+        columns: GRID_COLUMNS,
+        rows: GRID_ROWS,
+        length: shape.length,
+        flare: shape.flare,
+        parameters: this.getParameters(item)
+      };
+    });
+
+    const key = JSON.stringify(garments);
+    if (key === this.configuredKey) return;
+
+    await this.post('configure', { garments });
+    this.configuredKey = key;
+    [...this.latestFrames.keys()]
+      .filter(id => !items.some(item => item.id === id))
+      .forEach(id => this.latestFrames.delete(id));
+  }
+
+  private post<K extends keyof WorkerResults>(type: K, data: unknown): Promise<WorkerResults[K]> {
+    const worker = this.getWorker();
+    if (!worker) return Promise.reject(new Error('Cloth simulation worker unavailable'));
+
+    const id = ++this.messageId;
+    return new Promise<WorkerResults[K]>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Cloth simulation ${type} timeout`));
+      }, STEP_TIMEOUT);
+
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timeout });
+      worker.postMessage({ type, data, id });
+    });
+  }
+
+  private handleWorkerMessage(event: MessageEvent): void {
+    const { type, result, error, id } = event.data;
+    const pending = this.pending.get(id);
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    this.pending.delete(id);
+    if (type === 'error') {
+      pending.reject(new Error(error));
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  // Waistline endpoints in aspect-corrected units (x scaled by width / height)
+  private calculateAnchors(pose: ClothPose, aspectRatio: number): ClothAnchors | null {
+    const get = (name: string) => {
+      const point = pose.keypoints.find(k => k.name === name);
+      return point && point.confidence >= MIN_CONFIDENCE ? { x: point.x * aspectRatio, y: point.y } : null;
+    };
+
+    const leftHip = get('leftHip');
+    const rightHip = get('rightHip');
+    const leftShoulder = get('leftShoulder');
+    const rightShoulder = get('rightShoulder');
+    if (!leftHip || !rightHip || !leftShoulder || !rightShoulder) return null;
+
+    const hipCenter = midpoint(leftHip, rightHip);
+    const shoulderCenter = midpoint(leftShoulder, rightShoulder);
+    const torsoLength = Math.hypot(shoulderCenter.x - hipCenter.x, shoulderCenter.y - hipCenter.y);
+    const raise = {
+      x: (shoulderCenter.x - hipCenter.x) * WAISTBAND_OFFSET,
+      y: (shoulderCenter.y - hipCenter.y) * WAISTBAND_OFFSET
+    };
+    const widen = (point: Point) => ({
+      x: hipCenter.x + (point.x - hipCenter.x) * WAIST_WIDTH_RATIO + raise.x,
+      y: hipCenter.y + (point.y - hipCenter.y) * WAIST_WIDTH_RATIO + raise.y
+    });
+
+    // Keep the grid's left column on the image left whichever way the user faces
+    const [left, right] = leftHip.x <= rightHip.x ? [leftHip, rightHip] : [rightHip, leftHip];
+    return { waist: { left: widen(left), right: widen(right) }, torsoLength };
+  }
+
+  private isPoseJump(pose: ClothPose, delta: PoseDelta): boolean {
+    const anchors = this.calculateAnchors(pose, 1);
+    const hipDeltas = ['leftHip', 'rightHip'].map(name => delta.keypoints[name]).filter(Boolean);
+    if (!anchors || hipDeltas.length === 0) return false;
+
+    const movement = Math.max(...hipDeltas.map(d => Math.hypot(d.dx, d.dy)));
+    return movement > anchors.torsoLength * MAX_POSE_JUMP;
+  }
+
+  private getFrames(items: ClothItem[]): ClothFrame[] {
+    return items
+      .map(item => this.latestFrames.get(item.id))
+      .filter((frame): frame is ClothFrame => Boolean(frame));
+  }
+}
+
+function blendProfiles(material: MaterialComposition): FabricProfile {
+  const parts = [material.primary, material.secondary].filter(Boolean) as MaterialComposition['primary'][];
+  const total = parts.reduce((sum, part) => sum + (part.percentage || 0), 0) || 1;
+
+  return parts.reduce<FabricProfile>((blend, part) => {
+    const profile = FABRIC_PROFILES[part.type.toLowerCase()] || FABRIC_PROFILES[DEFAULT_FABRIC];
+    const share = (part.percentage || 0) / total;
+    return {
+      weight: blend.weight + profile.weight * share,
+      stiffness: blend.stiffness + profile.stiffness * share,
+      bend: blend.bend + profile.bend * share,
+      drag: blend.drag + profile.drag * share
+    };
+  }, { weight: 0, stiffness: 0, bend: 0, drag: 0 });
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Interfaces
+export type ClothKind = 'dress' | 'skirt';
+
+export type ClothItem = Pick<AdvancedClothingItem, 'id' | 'category'> &
+  Partial<Pick<AdvancedClothingItem, 'name' | 'style' | 'materialComposition'>>;
+
+export interface ClothParameters {
+  // 0-1 per solver pass
+  stiffness: number;
+  bendStiffness: number;
+  // Share of velocity lost per substep
+  damping: number;
+  // Gravity multiplier
+  mass: number;
+  iterations: number;
+  substeps: number;
+}
+
+export interface ClothPose {
+  keypoints: Array<{ x: number; y: number; confidence: number; name: string }>;
+}
+
+export interface ClothFrame {
+  id: string;
+  columns: number;
+  rows: number;
+  // Row-major x,y pairs in normalized image coordinates; the first row is the waistline
+  positions: Float32Array;
+  // Per quad, current width over rest width; below 1 the fabric is bunched into folds
+  compression: Float32Array;
+  meanCompression: number;
+}
+
+interface FabricProfile {
+  weight: number;
+  stiffness: number;
+  bend: number;
+  drag: number;
+}
+
+interface ClothAnchors {
+  waist: { left: Point; right: Point };
+  torsoLength: number;
+}
+
+interface PendingMessage {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Result posted back by public/workers/clothSimulation.js for each message type
+interface WorkerResults {
+  configure: void;
+  step: { frames: ClothFrame[] };
+  reset: void;
+}
+
+export default ClothSimulationService;
@@ -1,23 +1,68 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { openDB, IDBPDatabase } from 'idb';
 import { v4 as uuidv4 } from 'uuid';
-
+import EnhancedErrorHandling from './enhancedErrorHandling';
+import MockBackend, { isMockBackendEnabled } from './mockBackend';
+import ResilienceRegistry from './resiliencePolicies';
+import {
+  AdvancedAnalyticsData,
+  AdvancedAnalyticsEvent,
+  AISettings,
+  AnalyticsParams,
+  AnalyticsReport,
+  ClothingFilters,
+  ClothingItem,
+  conformsTo,
+  CreateUserRequest,
+  EnhancedTryOnSession,
+  ImageOptimizationOptions,
+  ImageUploadResult,
+  InventoryStatus,
+  InventoryUpdate,
+  parseResponse,
+  QualitySettings,
+  RecommendationContext,
+  ReportParams,
+  SearchQuery,
+  SearchResult,
+  SmartRecommendation,
+  SyncResult,
+  TryOnResult,
+  TryOnSession,
+  User,
+  UserPreferences,
+  UserProfile,
+  WebhookData
+} from './apiContract';
+
+/**
+ * Failure contract: catalog, try-on, analytics, reports, single records and writes reject, so
+ * callers decide between an error state and their own fallback. The exceptions fall back to
+ * real local data only: a cached catalog response, sessions saved to IndexedDB, queued webhooks,
+ * the original image when optimization fails, and neutral results for supporting lookups
+ * (search, recommendations, history, preferences, inventory). Tracking never throws, and an
+ * offline try-on rejects with OfflineError once it has been queued.
+ */
 class EnhancedApiService {
   private static instance: EnhancedApiService;
   private axiosInstance: AxiosInstance;
   private db: IDBPDatabase | null = null;
   private retryQueue: RequestQueueItem[] = [];
   private isOnline = navigator.onLine;
+  private resilience = ResilienceRegistry.getInstance();
 
   constructor() {
     this.axiosInstance = axios.create({
       baseURL: import.meta.env.VITE_API_BASE_URL || 'https://api.virtualfit.com',
-      timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
       },
     });
 
+    if (isMockBackendEnabled()) {
+      MockBackend.getInstance().install(this.axiosInstance);
+    }
+
     this.setupInterceptors();
     this.initializeOfflineSupport();
     this.setupNetworkListeners();
@@ -33,7 +78,7 @@ class EnhancedApiService {
   private setupInterceptors(): void {
     // Request interceptor
     this.axiosInstance.interceptors.request.use(
-      (config) => {
+      async (config) => {
         const token = localStorage.getItem('auth_token');
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
@@ -41,6 +86,13 @@ class EnhancedApiService {
         
         // Add request ID for tracking
         config.headers['X-Request-ID'] = uuidv4();
+
+        // Fails fast while the endpoint's breaker is open and waits for a bulkhead slot; settled on response
+        const policy = endpointPolicy(config.url);
+        const lease = await this.resilience.enter(policy);
+        (config as any).lease = lease;
+        // A timeout set on the call itself, like the long try-on processing one, wins over the policy's
+        config.timeout = config.timeout || lease.timeout;
         
         return config;
       },
@@ -50,11 +102,24 @@ class EnhancedApiService {
     // Response interceptor
     this.axiosInstance.interceptors.response.use(
       (response) => {
+        (response.config as any).lease?.succeed();
+        recordApiBreadcrumb(response.config, response.status);
         // Cache successful responses
         this.cacheResponse(response);
         return response;
       },
       async (error) => {
+        // Client errors mean the service is up, so only server and network failures count against the breaker
+        const lease = error.config?.lease;
+        if (this.shouldRetry(error)) {
+          lease?.fail();
+        } else {
+          lease?.succeed();
+        }
+        // Rejected before sending, e.g. by an open breaker
+        if (!error.config) return Promise.reject(error);
+
+        recordApiBreadcrumb(error.config, error.response?.status);
         if (error.response?.status === 401) {
           await this.handleAuthError();
         } else if (error.code === 'NETWORK_ERROR' || !this.isOnline) {
@@ -103,11 +168,11 @@ class EnhancedApiService {
         params: filters,
         metadata: { cacheKey }
       });
-      return response.data;
+      return parseResponse('GET /clothing', response.data);
     } catch (error) {
-      // Try to get from cache if offline
+      // Try to get from cache if offline; entries cached before a contract change are skipped
       const cached = await this.getCachedResponse(cacheKey);
-      if (cached) {
+      if (cached && conformsTo('GET /clothing', cached.data)) {
         return cached.data;
       }
       throw error;
@@ -117,7 +182,7 @@ class EnhancedApiService {
   async searchClothingAdvanced(query: SearchQuery): Promise<SearchResult> {
     try {
       const response = await this.axiosInstance.post('/clothing/search/advanced', query);
-      return response.data;
+      return parseResponse('POST /clothing/search/advanced', response.data);
     } catch (error) {
       console.error('Advanced search failed:', error);
       return this.fallbackSearch(query);
@@ -134,7 +199,7 @@ class EnhancedApiService {
         context,
         timestamp: new Date().toISOString()
       });
-      return response.data;
+      return parseResponse('POST /recommendations', response.data);
     } catch (error) {
       console.error('Failed to get recommendations:', error);
       return [];
@@ -162,12 +227,12 @@ class EnhancedApiService {
         }
       });
       
-      return response.data;
+      return parseResponse('POST /tryon/process/advanced', response.data);
     } catch (error) {
       // Queue for retry if offline
       if (!this.isOnline) {
         await this.queueRequest('POST', '/tryon/process/advanced', formData);
-        return this.getMockTryOnResult();
+        throw namedError('OfflineError', 'Try-on queued until the connection is back');
       }
       throw error;
     }
@@ -181,7 +246,7 @@ class EnhancedApiService {
         ...session,
         id: sessionId
       });
-      return response.data.sessionId;
+      return parseResponse('POST /tryon/sessions', response.data).sessionId;
     } catch (error) {
       // Save locally if offline
       if (this.db) {
@@ -196,7 +261,7 @@ class EnhancedApiService {
       const response = await this.axiosInstance.get(`/tryon/sessions/${userId}`, {
         params: { limit }
       });
-      return response.data;
+      return parseResponse('GET /tryon/sessions/{userId}', response.data);
     } catch (error) {
       // Get from local storage if offline
       if (this.db) {
@@ -234,17 +299,17 @@ class EnhancedApiService {
   async getAnalyticsAdvanced(params: AnalyticsParams): Promise<AdvancedAnalyticsData> {
     try {
       const response = await this.axiosInstance.get('/analytics/advanced', { params });
-      return response.data;
+      return parseResponse('GET /analytics/advanced', response.data);
     } catch (error) {
       console.error('Failed to fetch analytics:', error);
-      return this.getMockAdvancedAnalytics();
+      throw error;
     }
   }
 
   async generateAnalyticsReport(params: ReportParams): Promise<AnalyticsReport> {
     try {
       const response = await this.axiosInstance.post('/analytics/reports', params);
-      return response.data;
+      return parseResponse('POST /analytics/reports', response.data);
     } catch (error) {
       console.error('Failed to generate report:', error);
       throw error;
@@ -255,7 +320,7 @@ class EnhancedApiService {
   async createUser(userData: CreateUserRequest): Promise<User> {
     try {
       const response = await this.axiosInstance.post('/users', userData);
-      return response.data;
+      return parseResponse('POST /users', response.data);
     } catch (error) {
       console.error('Failed to create user:', error);
       throw error;
@@ -265,7 +330,7 @@ class EnhancedApiService {
   async updateUserProfile(userId: string, updates: Partial<UserProfile>): Promise<UserProfile> {
     try {
       const response = await this.axiosInstance.put(`/users/${userId}/profile`, updates);
-      return response.data;
+      return parseResponse('PUT /users/{userId}/profile', response.data);
     } catch (error) {
       console.error('Failed to update user profile:', error);
       throw error;
@@ -275,7 +340,7 @@ class EnhancedApiService {
   async getUserPreferences(userId: string): Promise<UserPreferences> {
     try {
       const response = await this.axiosInstance.get(`/users/${userId}/preferences`);
-      return response.data;
+      return parseResponse('GET /users/{userId}/preferences', response.data);
     } catch (error) {
       console.error('Failed to get user preferences:', error);
       return this.getDefaultPreferences();
@@ -300,7 +365,7 @@ class EnhancedApiService {
           }
         }
       });
-      return response.data;
+      return parseResponse('POST /images/upload', response.data);
     } catch (error) {
       console.error('Failed to upload image:', error);
       throw error;
@@ -313,7 +378,7 @@ class EnhancedApiService {
         imageUrl,
         options
       });
-      return response.data.optimizedUrl;
+      return parseResponse('POST /images/optimize', response.data).optimizedUrl;
     } catch (error) {
       console.error('Failed to optimize image:', error);
       return imageUrl; // Return original if optimization fails
@@ -324,10 +389,11 @@ class EnhancedApiService {
   async getInventoryStatus(itemIds: string[]): Promise<InventoryStatus[]> {
     try {
       const response = await this.axiosInstance.post('/inventory/status', { itemIds });
-      return response.data;
+      return parseResponse('POST /inventory/status', response.data);
     } catch (error) {
       console.error('Failed to get inventory status:', error);
-      return itemIds.map(id => ({ itemId: id, inStock: true, quantity: 10 }));
+      const lastUpdated = new Date().toISOString();
+      return itemIds.map(id => ({ itemId: id, inStock: true, quantity: 10, lastUpdated }));
     }
   }
 
@@ -347,7 +413,7 @@ class EnhancedApiService {
         platform,
         credentials
       });
-      return response.data;
+      return parseResponse('POST /integrations/sync', response.data);
     } catch (error) {
       console.error('Failed to sync with e-commerce platform:', error);
       throw error;
@@ -426,14 +492,16 @@ class EnhancedApiService {
   }
 
   private shouldRetry(error: any): boolean {
-    return error.response?.status >= 500 || error.code === 'NETWORK_ERROR';
+    return error.response?.status >= 500 || error.code === 'NETWORK_ERROR' || error.code === 'ECONNABORTED';
   }
 
+  // Retry count and jittered backoff come from the endpoint's resilience policy
   private async retryRequest(config: any): Promise<any> {
+    const policy = endpointPolicy(config.url);
     const retries = config.retries || 0;
-    if (retries < 3) {
+    if (retries < this.resilience.getPolicy(policy).retries) {
       config.retries = retries + 1;
-      await new Promise(resolve => setTimeout(resolve, Math.pow(2, retries) * 1000));
+      await new Promise(resolve => setTimeout(resolve, this.resilience.getRetryDelay(policy, retries)));
       return this.axiosInstance.request(config);
     }
     throw new Error('Max retries exceeded');
@@ -471,34 +539,6 @@ class EnhancedApiService {
     };
   }
 
-  private getMockTryOnResult(): TryOnResult {
-    return {
-      processedImage: 'data:image/jpeg;base64,mock-processed-image',
-      confidence: 0.85,
-      processingTime: 2.3,
-      recommendations: [],
-      metadata: {
-        aiVersion: '2.0',
-        processingSteps: ['pose_detection', 'segmentation', 'fitting', 'lighting']
-      }
-    };
-  }
-
-  private getMockAdvancedAnalytics(): AdvancedAnalyticsData {
-    return {
-      overview: {
-        totalTryOns: 12450,
-        conversionRate: 73.2,
-        averageSessionTime: 5.4,
-        revenueImpact: 245000
-      },
-      trends: [],
-      segments: [],
-      funnelAnalysis: {},
-      cohortAnalysis: {}
-    };
-  }
-
   private getDefaultPreferences(): UserPreferences {
     return {
       styles: [],
@@ -514,36 +554,48 @@ class EnhancedApiService {
   }
 }
 
-// Enhanced interfaces
-export interface ClothingFilters {
-  category?: string;
-  style?: string;
-  priceMin?: number;
-  priceMax?: number;
-  colors?: string[];
-  brands?: string[];
-  sizes?: string[];
-  inStock?: boolean;
-  rating?: number;
-  tags?: string[];
+function namedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
 }
 
-export interface SearchQuery {
-  query: string;
-  filters?: ClothingFilters;
-  sort?: 'relevance' | 'price' | 'rating' | 'newest';
-  page?: number;
-  limit?: number;
-  facets?: string[];
+// Breaker and bulkhead per top-level route, e.g. "api:tryon" for /tryon/sessions
+function endpointPolicy(url = ''): string {
+  const route = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split(/[/?]/).filter(Boolean)[0];
+  return route ? `api:${route}` : 'api';
 }
 
-export interface SearchResult {
-  items: ClothingItem[];
-  total: number;
-  facets: Record<string, any>;
-  suggestions: string[];
+// Request trail for error reports; only method, path and status, never bodies or headers
+function recordApiBreadcrumb(config: { method?: string; url?: string } | undefined, status?: number): void {
+  EnhancedErrorHandling.getInstance().addBreadcrumb('api', `${config?.method?.toUpperCase() || 'GET'} ${config?.url || ''} ${status ?? 'no response'}`);
 }
 
+// Enhanced interfaces; request and response models come from the API contract and are re-exported for existing imports
+export type {
+  AdvancedAnalyticsData,
+  AdvancedAnalyticsEvent,
+  AISettings,
+  AnalyticsParams,
+  ClothingFilters,
+  CohortData,
+  EnhancedTryOnSession,
+  FunnelData,
+  ImageOptimizationOptions,
+  ImageUploadResult,
+  InventoryStatus,
+  InventoryUpdate,
+  QualitySettings,
+  SearchQuery,
+  SearchResult,
+  SegmentData,
+  SessionMetadata,
+  SyncResult,
+  TrendData,
+  WebhookData
+} from './apiContract';
+
+// Multipart bodies and callbacks, which have no JSON schema
 export interface AdvancedTryOnRequest {
   userPhoto: File | string;
   clothingItems: string[];
@@ -553,69 +605,10 @@ export interface AdvancedTryOnRequest {
   onProgress?: (progress: number, stage: string) => void;
 }
 
-export interface QualitySettings {
-  resolution: 'low' | 'medium' | 'high' | 'ultra';
-  antiAliasing: boolean;
-  shadows: boolean;
-  reflections: boolean;
-}
-
-export interface AISettings {
-  poseDetection: boolean;
-  bodySegmentation: boolean;
-  clothingFit: boolean;
-  lightingAnalysis: boolean;
-  styleRecommendations: boolean;
-}
-
-export interface EnhancedTryOnSession {
-  userPhoto: string;
-  selectedItems: any[];
-  lightingSettings: any;
-  bodyPose?: any;
-  segmentation?: any;
-  metadata: SessionMetadata;
-  timestamp: Date;
-}
-
-export interface SessionMetadata {
-  deviceType: string;
-  browserInfo: string;
-  processingTime: number;
-  qualitySettings: QualitySettings;
-  aiConfidence: number;
-}
-
-export interface AdvancedAnalyticsEvent {
-  type: string;
-  category: string;
-  action: string;
-  label?: string;
-  value?: number;
-  customDimensions?: Record<string, any>;
-  userId?: string;
-}
-
-export interface AnalyticsParams {
-  startDate: string;
-  endDate: string;
-  metrics: string[];
-  dimensions: string[];
-  filters?: Record<string, any>;
-  segment?: string;
-}
-
-export interface AdvancedAnalyticsData {
-  overview: {
-    totalTryOns: number;
-    conversionRate: number;
-    averageSessionTime: number;
-    revenueImpact: number;
-  };
-  trends: TrendData[];
-  segments: SegmentData[];
-  funnelAnalysis: FunnelData;
-  cohortAnalysis: CohortData;
+export interface ImageMetadata {
+  category?: string;
+  tags?: string[];
+  onProgress?: (progress: number) => void;
 }
 
 export interface RequestQueueItem {
@@ -627,85 +620,4 @@ export interface RequestQueueItem {
   retries: number;
 }
 
-export interface ImageMetadata {
-  category?: string;
-  tags?: string[];
-  onProgress?: (progress: number) => void;
-}
-
-export interface ImageUploadResult {
-  url: string;
-  thumbnailUrl: string;
-  metadata: {
-    width: number;
-    height: number;
-    size: number;
-    format: string;
-  };
-}
-
-export interface ImageOptimizationOptions {
-  width?: number;
-  height?: number;
-  quality?: number;
-  format?: 'jpeg' | 'png' | 'webp';
-  progressive?: boolean;
-}
-
-export interface InventoryStatus {
-  itemId: string;
-  inStock: boolean;
-  quantity: number;
-  lastUpdated: string;
-}
-
-export interface InventoryUpdate {
-  itemId: string;
-  quantity: number;
-  operation: 'set' | 'add' | 'subtract';
-}
-
-export interface SyncResult {
-  success: boolean;
-  itemsSynced: number;
-  errors: string[];
-  lastSyncTime: string;
-}
-
-export interface WebhookData {
-  source: string;
-  event: string;
-  data: any;
-  signature?: string;
-}
-
-export interface TrendData {
-  date: string;
-  value: number;
-  metric: string;
-}
-
-export interface SegmentData {
-  name: string;
-  size: number;
-  conversionRate: number;
-  averageOrderValue: number;
-}
-
-export interface FunnelData {
-  steps: Array<{
-    name: string;
-    users: number;
-    conversionRate: number;
-  }>;
-}
-
-export interface CohortData {
-  cohorts: Array<{
-    period: string;
-    size: number;
-    retention: number[];
-  }>;
-}
-
-export default EnhancedApiService;
\ No newline at end of file
+export default EnhancedApiService;
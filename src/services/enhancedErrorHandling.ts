@@ -1,10 +1,39 @@
+import BreadcrumbTrail, { Breadcrumb, BreadcrumbCategory } from './breadcrumbs';
+import ResilienceRegistry from './resiliencePolicies';
+import { parseStack } from './stackTrace';
+
+// Innermost frames that identify where an error came from; deeper frames vary with the caller
+const FINGERPRINT_FRAMES = 5;
+
+// Resilience policy whose retry count and backoff each queued operation follows
+const RETRY_POLICIES: Record<string, string> = {
+  'api-call': 'api',
+  'image-load': 'api:images',
+  'ai-processing': 'ai:processing'
+};
+
+/**
+ * The app's single error pipeline. Reports are fingerprinted so a repeating
+ * error becomes one report with an occurrence count, carry the breadcrumbs
+ * leading up to them, and are uploaded in rate-limited batches.
+ */
 class EnhancedErrorHandling {
   private static instance: EnhancedErrorHandling;
   private errorQueue: ErrorReport[] = [];
   private retryQueue: RetryableOperation[] = [];
-  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private resilience = ResilienceRegistry.getInstance();
+  private breadcrumbs = new BreadcrumbTrail();
+  // Fingerprints with occurrences not yet uploaded
+  private pendingUploads = new Set<string>();
+  // When recovery last ran per fingerprint, so a repeating error doesn't rerun it every time
+  private recoveryTimes = new Map<string, number>();
+  private uploadTimes: number[] = [];
+  private globalHandlersInstalled = false;
   private readonly MAX_QUEUE_SIZE = 200;
-  private readonly RETRY_DELAYS = [1000, 2000, 4000, 8000, 16000]; // Exponential backoff
+  private readonly UPLOAD_INTERVAL = 5000;
+  private readonly MAX_BATCH_SIZE = 20;
+  private readonly MAX_UPLOADS_PER_MINUTE = 6;
+  private readonly RECOVERY_INTERVAL = 30000;
 
   static getInstance(): EnhancedErrorHandling {
     if (!EnhancedErrorHandling.instance) {
@@ -16,33 +45,97 @@ class EnhancedErrorHandling {
   constructor() {
     this.setupGlobalHandlers();
     this.startRetryProcessor();
+    this.startUploadProcessor();
   }
 
   // Enhanced error logging with context and recovery suggestions
   logError(error: Error, context?: ErrorContext): ErrorReport {
+    const errorReport = this.record(error, context, 'error');
+    if (this.shouldRecover(errorReport.fingerprint)) {
+      this.handleErrorRecovery(errorReport);
+    }
+
+    // Uploaded with the next batch
+    this.pendingUploads.add(errorReport.fingerprint);
+
+    return errorReport;
+  }
+
+  // Kept locally for the inspector but not uploaded
+  logWarning(message: string, context?: ErrorContext): ErrorReport {
+    const warning = new Error(message);
+    // The stack would only point at this method, so warnings group by message and context
+    warning.stack = undefined;
+    return this.record(warning, context, 'warning');
+  }
+
+  addBreadcrumb(category: BreadcrumbCategory, message: string, data?: Record<string, unknown>): void {
+    this.breadcrumbs.add(category, message, data);
+  }
+
+  getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbs.getAll();
+  }
+
+  // Repeats of a known fingerprint update the existing report instead of adding one
+  private record(error: Error, context: ErrorContext | undefined, level: ErrorReport['level']): ErrorReport {
+    const fingerprint = fingerprintError(error, context);
+    const now = new Date();
+    const existing = this.errorQueue.find(report => report.fingerprint === fingerprint);
+
+    if (existing) {
+      existing.occurrences++;
+      existing.lastSeen = now;
+      existing.context = context;
+      existing.breadcrumbs = this.breadcrumbs.getAll();
+      this.addToQueue(existing);
+      return existing;
+    }
+
     const errorReport: ErrorReport = {
       id: this.generateId(),
+      fingerprint,
+      level,
       message: error.message,
       stack: error.stack,
-      timestamp: new Date(),
+      timestamp: now,
+      lastSeen: now,
+      occurrences: 1,
       context,
       userAgent: navigator.userAgent,
       url: window.location.href,
-      severity: this.determineSeverity(error, context),
+      severity: level === 'warning' ? 'low' : this.determineSeverity(error, context),
       category: this.categorizeError(error, context),
-      recoveryActions: this.generateRecoveryActions(error, context),
-      userImpact: this.assessUserImpact(error, context)
+      recoveryActions: level === 'warning' ? [] : this.generateRecoveryActions(error, context),
+      userImpact: level === 'warning' ? 'low' : this.assessUserImpact(error, context),
+      breadcrumbs: this.breadcrumbs.getAll()
     };
 
     this.addToQueue(errorReport);
-    this.handleErrorRecovery(errorReport);
-    
-    // Send to monitoring service
-    this.sendToMonitoring(errorReport);
-    
+
+    if (import.meta.env.DEV) {
+      if (level === 'warning') {
+        console.warn('Warning logged:', errorReport);
+      } else {
+        console.error('Error logged:', errorReport);
+      }
+    }
+
     return errorReport;
   }
 
+  // First occurrence of a fingerprint, then at most once per interval while it keeps repeating
+  private shouldRecover(fingerprint: string): boolean {
+    const now = Date.now();
+    this.recoveryTimes.forEach((time, key) => {
+      if (now - time >= this.RECOVERY_INTERVAL) this.recoveryTimes.delete(key);
+    });
+
+    if (this.recoveryTimes.has(fingerprint)) return false;
+    this.recoveryTimes.set(fingerprint, now);
+    return true;
+  }
+
   // Automatic error recovery system
   private async handleErrorRecovery(errorReport: ErrorReport): Promise<void> {
     const { category, context } = errorReport;
@@ -71,13 +164,14 @@ class EnhancedErrorHandling {
   private async handleNetworkError(errorReport: ErrorReport): Promise<void> {
     const operation = errorReport.context?.operation;
     if (operation && this.isRetryable(operation)) {
+      const policy = RETRY_POLICIES[operation];
       this.addToRetryQueue({
         id: this.generateId(),
         operation,
         context: errorReport.context,
         attempts: 0,
-        maxAttempts: 5,
-        nextRetry: Date.now() + this.RETRY_DELAYS[0]
+        maxAttempts: this.resilience.getPolicy(policy).retries,
+        nextRetry: Date.now() + this.resilience.getRetryDelay(policy, 0)
       });
     }
 
@@ -143,11 +237,16 @@ class EnhancedErrorHandling {
     this.showUserNotification(errorReport);
   }
 
-  // Circuit breaker pattern for failing operations
-  createCircuitBreaker(name: string, config: CircuitBreakerConfig): CircuitBreaker {
-    const breaker = new CircuitBreaker(config);
-    this.circuitBreakers.set(name, breaker);
-    return breaker;
+  // Circuit breaker pattern for failing operations; a breaker-only policy in the ResilienceRegistry
+  createCircuitBreaker(name: string, config: CircuitBreakerConfig): void {
+    this.resilience.definePolicy(name, {
+      retries: 0,
+      breaker: {
+        failureThreshold: config.failureThreshold,
+        monitoringPeriod: config.monitoringPeriod,
+        resetTimeout: config.timeout
+      }
+    });
   }
 
   async executeWithCircuitBreaker<T>(
@@ -155,19 +254,7 @@ class EnhancedErrorHandling {
     operation: () => Promise<T>,
     fallback?: () => Promise<T>
   ): Promise<T> {
-    const breaker = this.circuitBreakers.get(name);
-    if (!breaker) {
-      throw new Error(`Circuit breaker ${name} not found`);
-    }
-
-    try {
-      return await breaker.execute(operation);
-    } catch (error) {
-      if (fallback) {
-        return await fallback();
-      }
-      throw error;
-    }
+    return this.resilience.execute(name, () => operation(), fallback && (() => fallback()));
   }
 
   // Retry mechanism with exponential backoff
@@ -187,7 +274,8 @@ class EnhancedErrorHandling {
 
     for (const operation of readyOperations) {
       try {
-        await this.executeRetryableOperation(operation);
+        // Through the breaker, so queued retries stop hammering a dependency that is already down
+        await this.resilience.attempt(RETRY_POLICIES[operation.operation], () => this.executeRetryableOperation(operation));
         this.removeFromRetryQueue(operation.id);
       } catch (error) {
         operation.attempts++;
@@ -200,8 +288,7 @@ class EnhancedErrorHandling {
             operation: operation.operation
           });
         } else {
-          const delay = this.RETRY_DELAYS[Math.min(operation.attempts, this.RETRY_DELAYS.length - 1)];
-          operation.nextRetry = now + delay;
+          operation.nextRetry = now + this.resilience.getRetryDelay(RETRY_POLICIES[operation.operation], operation.attempts);
         }
       }
     }
@@ -368,10 +455,20 @@ class EnhancedErrorHandling {
     console.log('Retrying AI processing:', context);
   }
 
-  private setupGlobalHandlers(): void {
+  // Safe to call more than once; handlers are only installed the first time
+  setupGlobalHandlers(): void {
+    if (this.globalHandlersInstalled) return;
+    this.globalHandlersInstalled = true;
+
     // Enhanced global error handlers
     window.addEventListener('error', (event) => {
-      this.logError(new Error(event.message), {
+      const error = event.error instanceof Error ? event.error : new Error(event.message);
+      if (!(event.error instanceof Error)) {
+        // No thrown object to take a stack from, so the reported location stands in for one
+        error.stack = `${error.message}\n    at ${event.filename}:${event.lineno}:${event.colno}`;
+      }
+
+      this.logError(error, {
         component: 'Global',
         action: 'Runtime Error',
         filename: event.filename,
@@ -382,7 +479,7 @@ class EnhancedErrorHandling {
     });
 
     window.addEventListener('unhandledrejection', (event) => {
-      this.logError(new Error(event.reason), {
+      this.logError(event.reason instanceof Error ? event.reason : new Error(String(event.reason)), {
         component: 'Global',
         action: 'Unhandled Promise Rejection',
         operation: 'promise'
@@ -401,30 +498,81 @@ class EnhancedErrorHandling {
         });
       }
     }, true);
+
+    // User actions, for the breadcrumb trail
+    document.addEventListener('click', (event) => {
+      const target = (event.target as Element | null)?.closest?.('button, a, [role="button"], select, input');
+      if (target) {
+        this.addBreadcrumb('user', `Clicked ${describeElement(target)}`);
+      }
+    }, true);
   }
 
+  // Newest first; a repeated report moves back to the front
   private addToQueue(errorReport: ErrorReport): void {
-    this.errorQueue.unshift(errorReport);
+    this.errorQueue = [errorReport, ...this.errorQueue.filter(report => report !== errorReport)];
     
     if (this.errorQueue.length > this.MAX_QUEUE_SIZE) {
       this.errorQueue = this.errorQueue.slice(0, this.MAX_QUEUE_SIZE);
     }
   }
 
-  private async sendToMonitoring(errorReport: ErrorReport): Promise<void> {
+  private startUploadProcessor(): void {
+    setInterval(() => {
+      this.flush();
+    }, this.UPLOAD_INTERVAL);
+
+    // The interval won't run again once the page is going away
+    window.addEventListener('pagehide', () => {
+      const batch = this.takeUploadBatch();
+      if (batch.length > 0) {
+        navigator.sendBeacon?.('/api/errors', JSON.stringify({ reports: batch }));
+      }
+    });
+  }
+
+  /**
+   * Uploads pending reports to the monitoring service in one request.
+   * Resolves false when rate-limited or when the upload failed, in which
+   * case the reports stay pending for the next attempt.
+   */
+  async flush(): Promise<boolean> {
+    if (this.pendingUploads.size === 0) return true;
+
+    const now = Date.now();
+    this.uploadTimes = this.uploadTimes.filter(time => now - time < 60000);
+    if (this.uploadTimes.length >= this.MAX_UPLOADS_PER_MINUTE) return false;
+    this.uploadTimes.push(now);
+
+    const batch = this.takeUploadBatch();
     try {
-      // Send to error monitoring service (e.g., Sentry, LogRocket)
-      await fetch('/api/errors', {
+      const response = await fetch('/api/errors', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(errorReport)
+        body: JSON.stringify({ reports: batch })
       });
+      if (!response.ok) {
+        throw new Error(`Error upload failed with status ${response.status}`);
+      }
+      return true;
     } catch (error) {
+      batch.forEach(report => this.pendingUploads.add(report.fingerprint));
       // Silently fail to avoid infinite error loops
-      console.warn('Failed to send error report to monitoring service');
+      console.warn('Failed to send error reports to monitoring service');
+      return false;
     }
   }
 
+  private takeUploadBatch(): ErrorReport[] {
+    const fingerprints = [...this.pendingUploads].slice(0, this.MAX_BATCH_SIZE);
+    fingerprints.forEach(fingerprint => this.pendingUploads.delete(fingerprint));
+
+    // Reports pushed out of the queue since they were logged are dropped
+    return fingerprints
+      .map(fingerprint => this.errorQueue.find(report => report.fingerprint === fingerprint))
+      .filter((report): report is ErrorReport => Boolean(report));
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
   }
@@ -434,6 +582,17 @@ class EnhancedErrorHandling {
     return [...this.errorQueue];
   }
 
+  // JSON for offline triage with scripts/symbolicate.ts
+  exportReports(): string {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), reports: this.errorQueue }, null, 2);
+  }
+
+  clearErrors(): void {
+    this.errorQueue = [];
+    this.pendingUploads.clear();
+    this.recoveryTimes.clear();
+  }
+
   getErrorStats(): ErrorStats {
     const now = Date.now();
     const last24h = this.errorQueue.filter(e => now - e.timestamp.getTime() < 24 * 60 * 60 * 1000);
@@ -462,66 +621,40 @@ class EnhancedErrorHandling {
   }
 }
 
-// Circuit Breaker implementation
-class CircuitBreaker {
-  private state: 'closed' | 'open' | 'half-open' = 'closed';
-  private failureCount = 0;
-  private lastFailureTime = 0;
-  private config: CircuitBreakerConfig;
-
-  constructor(config: CircuitBreakerConfig) {
-    this.config = {
-      failureThreshold: 5,
-      timeout: 60000,
-      monitoringPeriod: 10000,
-      ...config
-    };
-  }
-
-  async execute<T>(operation: () => Promise<T>): Promise<T> {
-    if (this.state === 'open') {
-      if (Date.now() - this.lastFailureTime > this.config.timeout) {
-        this.state = 'half-open';
-      } else {
-        throw new Error('Circuit breaker is open');
-      }
-    }
-
-    try {
-      const result = await operation();
-      this.onSuccess();
-      return result;
-    } catch (error) {
-      this.onFailure();
-      throw error;
-    }
-  }
-
-  private onSuccess(): void {
-    this.failureCount = 0;
-    this.state = 'closed';
-  }
+// Same crash, same fingerprint: error type, message with volatile numbers masked, and the innermost frames without positions
+function fingerprintError(error: Error, context?: ErrorContext): string {
+  const frames = parseStack(error.stack)
+    .slice(0, FINGERPRINT_FRAMES)
+    .map(frame => `${frame.functionName || '?'}@${frame.file.replace(/^[a-z-]+:\/\/[^/]+/i, '').replace(/[?#].*$/, '')}`);
+  const origin = frames.length > 0 ? frames : [context?.component || '', context?.action || ''];
+  const message = error.message.replace(/\b[0-9a-f]{8,}\b/gi, '<id>').replace(/\d+/g, '<n>');
 
-  private onFailure(): void {
-    this.failureCount++;
-    this.lastFailureTime = Date.now();
-
-    if (this.failureCount >= this.config.failureThreshold) {
-      this.state = 'open';
-    }
+  let hash = 0;
+  const key = [error.name, message, ...origin].join('|');
+  for (let i = 0; i < key.length; i++) {
+    hash = ((hash << 5) - hash + key.charCodeAt(i)) | 0;
   }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
 
-  getState(): string {
-    return this.state;
-  }
+// Short label for a clicked element; input values are never included
+function describeElement(element: Element): string {
+  const label = element.getAttribute('aria-label') || element.getAttribute('title') || element.textContent?.trim() || '';
+  const tag = element.tagName.toLowerCase();
+  return label ? `${tag} "${label.slice(0, 40)}"` : tag;
 }
 
 // Interfaces
-interface ErrorReport {
+export interface ErrorReport {
   id: string;
+  fingerprint: string;
+  level: 'error' | 'warning';
   message: string;
   stack?: string;
+  // First occurrence
   timestamp: Date;
+  lastSeen: Date;
+  occurrences: number;
   context?: ErrorContext;
   userAgent: string;
   url: string;
@@ -529,9 +662,11 @@ interface ErrorReport {
   category: string;
   recoveryActions: string[];
   userImpact: 'low' | 'medium' | 'high';
+  // Trail leading up to the latest occurrence
+  breadcrumbs: Breadcrumb[];
 }
 
-interface ErrorContext {
+export interface ErrorContext {
   component: string;
   action: string;
   userId?: string;
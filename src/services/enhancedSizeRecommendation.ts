@@ -1,8 +1,32 @@
+import {
+  DEFAULT_SIZE_CHARTS,
+  STANDARD_SIZE_CHART,
+  SizeChartDefinition,
+  SizeChartMeasurements,
+  SizeGender,
+  SizeRegion,
+  getPrimaryChartMeasurement,
+  validateSizeChart
+} from './sizeCharts';
+import SizeRegressionModel, { SizeModelMetadata, SizeModelTrainingResult } from './sizeRegressionModel';
+import SizeHistoryStore, { SizeFeedbackEntry, SizeHistoryExport } from './sizeHistoryStore';
+import { Centimeters } from '../types/enhanced';
+
+const FIT_FEEDBACK_OFFSETS: Record<string, number> = {
+  'too-small': 2,
+  'small': 1,
+  'perfect': 0,
+  'large': -1,
+  'too-large': -2
+};
+
 class EnhancedSizeRecommendationService {
   private static instance: EnhancedSizeRecommendationService;
   private sizeDatabase: SizeDatabase;
-  private mlModel: any = null;
+  private sizeModel: SizeRegressionModel;
+  private historyStore: SizeHistoryStore;
   private userSizeHistory: Map<string, SizeHistory> = new Map();
+  private recommendationContexts: Map<string, RecommendationContext> = new Map();
 
   static getInstance(): EnhancedSizeRecommendationService {
     if (!EnhancedSizeRecommendationService.instance) {
@@ -13,34 +37,20 @@ class EnhancedSizeRecommendationService {
 
   constructor() {
     this.sizeDatabase = new SizeDatabase();
+    this.sizeModel = new SizeRegressionModel();
+    this.historyStore = SizeHistoryStore.getInstance();
     this.initializeMLModel();
   }
 
   private async initializeMLModel(): Promise<void> {
     try {
-      // Load size recommendation ML model
-      this.mlModel = await this.loadSizeModel();
+      // Load the locally trained size model, if one has been promoted
+      await this.sizeModel.initialize();
     } catch (error) {
       console.warn('ML model not available, using rule-based approach');
     }
   }
 
-  private async loadSizeModel(): Promise<any> {
-    // Mock ML model for size recommendation
-    return {
-      predict: (features: number[]) => {
-        // Simulate ML prediction
-        const sizeIndex = Math.floor(Math.random() * 6);
-        const sizes = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
-        return {
-          size: sizes[sizeIndex],
-          confidence: 0.7 + Math.random() * 0.3,
-          fitType: 'regular'
-        };
-      }
-    };
-  }
-
   async recommendSize(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
@@ -49,15 +59,34 @@ class EnhancedSizeRecommendationService {
   ): Promise<SizeRecommendation> {
     try {
       // Get user's size history if available
-      const sizeHistory = userId ? this.userSizeHistory.get(userId) : null;
+      const sizeHistory = userId ? await this.getSizeHistory(userId) : null;
+
+      // Resolve the size chart for this brand/category, falling back to category and standard charts
+      const sizeChart = this.sizeDatabase.resolveChart({
+        brand: clothingItem.brand,
+        category: clothingItem.category,
+        gender: clothingItem.gender,
+        region: userPreferences.region
+      });
       
-      // Use ML model if available
-      if (this.mlModel) {
-        return await this.mlSizeRecommendation(bodyMeasurements, clothingItem, userPreferences, sizeHistory);
+      const ruleBased = await this.ruleBasedSizeRecommendation(bodyMeasurements, clothingItem, userPreferences, sizeChart, sizeHistory);
+
+      // Remember what we recommended so later feedback can become a training sample
+      if (userId) {
+        this.recommendationContexts.set(this.getContextKey(userId, clothingItem.id), {
+          bodyMeasurements,
+          userPreferences,
+          sizeChart,
+          recommendedSize: ruleBased.recommendedSize.size
+        });
       }
       
-      // Fallback to enhanced rule-based approach
-      return this.ruleBasedSizeRecommendation(bodyMeasurements, clothingItem, userPreferences, sizeHistory);
+      // Use ML model once it has beaten the rule-based path on held-out feedback
+      if (this.sizeModel.isReady()) {
+        return await this.mlSizeRecommendation(bodyMeasurements, clothingItem, userPreferences, sizeChart, sizeHistory);
+      }
+      
+      return ruleBased;
     } catch (error) {
       console.error('Size recommendation failed:', error);
       return this.fallbackSizeRecommendation(clothingItem);
@@ -68,19 +97,21 @@ class EnhancedSizeRecommendationService {
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
     userPreferences: SizePreferences,
+    sizeChart: ResolvedSizeChart,
     sizeHistory?: SizeHistory
   ): Promise<SizeRecommendation> {
     // Prepare features for ML model
     const features = this.prepareFeaturesForML(bodyMeasurements, clothingItem, userPreferences, sizeHistory);
     
-    // Get prediction from ML model
-    const prediction = this.mlModel.predict(features);
+    // Get prediction from ML model and snap it to the nearest size in the chart
+    const modelPrediction = this.sizeModel.predict(features);
+    const prediction = this.mapPredictionToSize(modelPrediction.targetMeasurement, modelPrediction.validationError, bodyMeasurements, clothingItem, sizeChart.chart);
     
     // Generate all size options with confidence scores
-    const allSizes = this.generateAllSizeOptions(bodyMeasurements, clothingItem, prediction);
+    const allSizes = this.generateAllSizeOptions(bodyMeasurements, clothingItem, sizeChart.chart, prediction);
     
     // Calculate fit analysis
-    const fitAnalysis = this.analyzeFit(bodyMeasurements, clothingItem, prediction.size);
+    const fitAnalysis = this.analyzeFit(bodyMeasurements, clothingItem, sizeChart.chart, prediction.size);
     
     // Generate adjustment suggestions
     const adjustmentSuggestions = this.generateAdjustmentSuggestions(bodyMeasurements, clothingItem, prediction);
@@ -94,7 +125,52 @@ class EnhancedSizeRecommendationService {
       allSizes,
       fitAnalysis,
       adjustmentSuggestions,
-      reasoning: this.generateReasoning(bodyMeasurements, clothingItem, prediction)
+      reasoning: [
+        ...this.generateReasoning(bodyMeasurements, clothingItem, sizeChart, prediction),
+        `Personalized by size model v${modelPrediction.version}, trained on customer fit feedback`
+      ],
+      sizeChart
+    };
+  }
+
+  private mapPredictionToSize(
+    targetMeasurement: number,
+    validationError: number,
+    bodyMeasurements: BodyMeasurements,
+    clothingItem: ClothingItem,
+    chart: SizeChartDefinition
+  ): SizeOption {
+    const primaryKey = getPrimaryChartMeasurement(chart);
+    const entries = chart.sizes.filter(entry => entry.measurements[primaryKey] !== undefined);
+
+    // Snap only to sizes the item is sold in, when the chart covers them
+    const offered = entries.filter(entry => (clothingItem.sizes || []).includes(entry.label));
+    const candidates = offered.length > 0 ? offered : entries;
+
+    // Nothing to snap to without the primary measurement, so size from the body directly
+    if (candidates.length === 0) {
+      return this.calculateSizeFromMeasurements(bodyMeasurements, clothingItem, chart);
+    }
+
+    let best = candidates[0];
+    let bestDistance = Infinity;
+    candidates.forEach(entry => {
+      const distance = Math.abs(entry.measurements[primaryKey]! - targetMeasurement);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = entry;
+      }
+    });
+
+    // Confidence falls off with the model's validation error and how far the prediction sits from a real size
+    const values = entries.map(entry => entry.measurements[primaryKey]!);
+    const step = values.length > 1 ? (values[values.length - 1] - values[0]) / (values.length - 1) : 5;
+    const confidence = Math.min(0.95, Math.max(0.4, 1 - (validationError + bestDistance) / (2 * Math.max(step, 1))));
+
+    return {
+      size: best.label,
+      confidence,
+      fitType: this.calculateFitType(bodyMeasurements, clothingItem, chart, best.label)
     };
   }
 
@@ -102,33 +178,29 @@ class EnhancedSizeRecommendationService {
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
     userPreferences: SizePreferences,
+    sizeChart: ResolvedSizeChart,
     sizeHistory?: SizeHistory
   ): Promise<SizeRecommendation> {
-    // Enhanced rule-based size recommendation
-    const brandSizing = this.sizeDatabase.getBrandSizing(clothingItem.brand);
-    const categorySizing = this.sizeDatabase.getCategorySizing(clothingItem.category);
-    
     // Calculate size based on body measurements
     let recommendedSize = this.calculateSizeFromMeasurements(
       bodyMeasurements, 
       clothingItem, 
-      brandSizing, 
-      categorySizing
+      sizeChart.chart
     );
     
     // Adjust based on user preferences
-    recommendedSize = this.adjustForUserPreferences(recommendedSize, userPreferences);
+    recommendedSize = this.adjustForUserPreferences(recommendedSize, userPreferences, sizeChart.chart);
     
     // Adjust based on size history
     if (sizeHistory) {
-      recommendedSize = this.adjustForSizeHistory(recommendedSize, sizeHistory, clothingItem);
+      recommendedSize = this.adjustForSizeHistory(recommendedSize, sizeHistory, clothingItem, sizeChart.chart);
     }
     
     // Generate all size options
-    const allSizes = this.generateAllSizeOptionsRuleBased(bodyMeasurements, clothingItem);
+    const allSizes = this.generateAllSizeOptionsRuleBased(bodyMeasurements, clothingItem, sizeChart.chart);
     
     // Calculate fit analysis
-    const fitAnalysis = this.analyzeFit(bodyMeasurements, clothingItem, recommendedSize.size);
+    const fitAnalysis = this.analyzeFit(bodyMeasurements, clothingItem, sizeChart.chart, recommendedSize.size);
     
     // Generate suggestions
     const adjustmentSuggestions = this.generateAdjustmentSuggestions(bodyMeasurements, clothingItem, recommendedSize);
@@ -138,7 +210,8 @@ class EnhancedSizeRecommendationService {
       allSizes,
       fitAnalysis,
       adjustmentSuggestions,
-      reasoning: this.generateReasoning(bodyMeasurements, clothingItem, recommendedSize)
+      reasoning: this.generateReasoning(bodyMeasurements, clothingItem, sizeChart, recommendedSize),
+      sizeChart
     });
   }
 
@@ -160,10 +233,8 @@ class EnhancedSizeRecommendationService {
       this.encodeCategory(clothingItem.category)
     ];
     
-    // Add size history features if available
-    if (sizeHistory) {
-      features.push(...this.encodeSizeHistory(sizeHistory, clothingItem));
-    }
+    // Size history features are always present so the model sees a fixed-length input
+    features.push(...this.encodeSizeHistory(sizeHistory, clothingItem));
     
     return features;
   }
@@ -171,48 +242,28 @@ class EnhancedSizeRecommendationService {
   private calculateSizeFromMeasurements(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
-    brandSizing: BrandSizing,
-    categorySizing: CategorySizing
+    chart: SizeChartDefinition
   ): SizeOption {
-    const { category } = clothingItem;
-    
-    let primaryMeasurement: number;
-    let sizingChart: any;
-    
-    // Determine primary measurement based on category
-    switch (category) {
-      case 'tops':
-      case 'dresses':
-        primaryMeasurement = bodyMeasurements.chest;
-        sizingChart = brandSizing.tops || categorySizing.tops;
-        break;
-      case 'bottoms':
-        primaryMeasurement = bodyMeasurements.waist;
-        sizingChart = brandSizing.bottoms || categorySizing.bottoms;
-        break;
-      case 'outerwear':
-        primaryMeasurement = Math.max(bodyMeasurements.chest, bodyMeasurements.shoulderWidth * 2);
-        sizingChart = brandSizing.outerwear || categorySizing.outerwear;
-        break;
-      default:
-        primaryMeasurement = bodyMeasurements.chest;
-        sizingChart = this.getDefaultSizingChart();
-    }
-    
-    // Find best fitting size
-    const sizes = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
-    let bestSize = 'M';
+    const weights = this.getMeasurementWeights(clothingItem.category, chart);
+    const primaryKey = getPrimaryChartMeasurement(chart);
+    const primaryMeasurement = clothingItem.category === 'outerwear'
+      ? Math.max(bodyMeasurements.chest, bodyMeasurements.shoulderWidth * 2)
+      : this.getBodyMeasurement(bodyMeasurements, primaryKey) || bodyMeasurements.chest;
+    
+    // Only consider sizes the item is actually sold in, when the chart covers them
+    const availableSizes = chart.sizes.filter(entry => (clothingItem.sizes || []).includes(entry.label));
+    const candidates = availableSizes.length > 0 ? availableSizes : chart.sizes;
+    
+    // Find best fitting size by weighted distance across the chart's measurements
+    let bestSize = candidates[Math.floor(candidates.length / 2)].label;
     let bestFit = Infinity;
     
-    for (const size of sizes) {
-      if (sizingChart[size]) {
-        const sizeMeasurement = sizingChart[size].chest || sizingChart[size].waist || sizingChart[size].measurement;
-        const difference = Math.abs(primaryMeasurement - sizeMeasurement);
-        
-        if (difference < bestFit) {
-          bestFit = difference;
-          bestSize = size;
-        }
+    for (const entry of candidates) {
+      const difference = this.calculateChartDistance(bodyMeasurements, entry.measurements, weights, primaryKey, primaryMeasurement);
+      
+      if (difference < bestFit) {
+        bestFit = difference;
+        bestSize = entry.label;
       }
     }
     
@@ -229,11 +280,60 @@ class EnhancedSizeRecommendationService {
     };
   }
 
-  private adjustForUserPreferences(sizeOption: SizeOption, preferences: SizePreferences): SizeOption {
+  private getMeasurementWeights(category: string, chart: SizeChartDefinition): Partial<Record<keyof SizeChartMeasurements, number>> {
+    if (chart.sizeSystem === 'waist-inseam') {
+      return { waist: 1, inseam: 0.6, hips: 0.3 };
+    }
+
+    switch (category) {
+      case 'bottoms':
+        return { waist: 1, hips: 0.6, inseam: 0.4 };
+      case 'dresses':
+        return { chest: 1, waist: 0.7, hips: 0.7 };
+      case 'outerwear':
+        return { chest: 1, shoulderWidth: 0.8 };
+      case 'tops':
+      default:
+        return { chest: 1, shoulderWidth: 0.5, waist: 0.3 };
+    }
+  }
+
+  private calculateChartDistance(
+    bodyMeasurements: BodyMeasurements,
+    chartMeasurements: SizeChartMeasurements,
+    weights: Partial<Record<keyof SizeChartMeasurements, number>>,
+    primaryKey: keyof SizeChartMeasurements,
+    primaryMeasurement: number
+  ): number {
+    let weightedDifference = 0;
+    let totalWeight = 0;
+
+    (Object.keys(weights) as (keyof SizeChartMeasurements)[]).forEach(key => {
+      const chartValue = chartMeasurements[key];
+      const bodyValue = key === primaryKey ? primaryMeasurement : this.getBodyMeasurement(bodyMeasurements, key);
+      if (chartValue === undefined || bodyValue === undefined) return;
+
+      const weight = weights[key]!;
+      weightedDifference += Math.abs(bodyValue - chartValue) * weight;
+      totalWeight += weight;
+    });
+
+    return totalWeight > 0 ? weightedDifference / totalWeight : Infinity;
+  }
+
+  private getBodyMeasurement(bodyMeasurements: BodyMeasurements, key: keyof SizeChartMeasurements): number | undefined {
+    return bodyMeasurements[key];
+  }
+
+  private adjustForUserPreferences(sizeOption: SizeOption, preferences: SizePreferences, chart: SizeChartDefinition): SizeOption {
     const { preferredFit } = preferences;
-    const sizes = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+    const sizes = chart.sizes.map(entry => entry.label);
     const currentIndex = sizes.indexOf(sizeOption.size);
     
+    if (currentIndex === -1) {
+      return sizeOption;
+    }
+    
     let adjustedIndex = currentIndex;
     
     switch (preferredFit) {
@@ -259,21 +359,22 @@ class EnhancedSizeRecommendationService {
   private adjustForSizeHistory(
     sizeOption: SizeOption,
     sizeHistory: SizeHistory,
-    clothingItem: ClothingItem
+    clothingItem: ClothingItem,
+    chart: SizeChartDefinition
   ): SizeOption {
     const brandHistory = sizeHistory.brands[clothingItem.brand];
     const categoryHistory = sizeHistory.categories[clothingItem.category];
     
-    if (brandHistory && brandHistory.length > 0) {
-      // Use brand-specific history
-      const avgSize = this.calculateAverageSize(brandHistory);
-      return this.blendSizeRecommendations(sizeOption, { size: avgSize, confidence: 0.8, fitType: 'regular' });
+    // Use brand-specific history
+    const brandSize = brandHistory ? this.calculateAverageSize(brandHistory, clothingItem, chart) : null;
+    if (brandSize) {
+      return this.blendSizeRecommendations(sizeOption, { size: brandSize, confidence: 0.8, fitType: 'regular' });
     }
     
-    if (categoryHistory && categoryHistory.length > 0) {
-      // Use category-specific history
-      const avgSize = this.calculateAverageSize(categoryHistory);
-      return this.blendSizeRecommendations(sizeOption, { size: avgSize, confidence: 0.6, fitType: 'regular' });
+    // Use category-specific history
+    const categorySize = categoryHistory ? this.calculateAverageSize(categoryHistory, clothingItem, chart) : null;
+    if (categorySize) {
+      return this.blendSizeRecommendations(sizeOption, { size: categorySize, confidence: 0.6, fitType: 'regular' });
     }
     
     return sizeOption;
@@ -282,13 +383,14 @@ class EnhancedSizeRecommendationService {
   private generateAllSizeOptions(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
+    chart: SizeChartDefinition,
     prediction: any
   ): SizeOption[] {
-    const sizes = clothingItem.sizes || ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+    const sizes = clothingItem.sizes || chart.sizes.map(entry => entry.label);
     
     return sizes.map(size => {
-      const confidence = this.calculateSizeConfidence(bodyMeasurements, clothingItem, size);
-      const fitType = this.calculateFitType(bodyMeasurements, clothingItem, size);
+      const confidence = this.calculateSizeConfidence(bodyMeasurements, clothingItem, chart, size);
+      const fitType = this.calculateFitType(bodyMeasurements, clothingItem, chart, size);
       
       return {
         size,
@@ -300,13 +402,14 @@ class EnhancedSizeRecommendationService {
 
   private generateAllSizeOptionsRuleBased(
     bodyMeasurements: BodyMeasurements,
-    clothingItem: ClothingItem
+    clothingItem: ClothingItem,
+    chart: SizeChartDefinition
   ): SizeOption[] {
-    const sizes = clothingItem.sizes || ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+    const sizes = clothingItem.sizes || chart.sizes.map(entry => entry.label);
     
     return sizes.map(size => {
-      const confidence = this.calculateSizeConfidence(bodyMeasurements, clothingItem, size);
-      const fitType = this.calculateFitType(bodyMeasurements, clothingItem, size);
+      const confidence = this.calculateSizeConfidence(bodyMeasurements, clothingItem, chart, size);
+      const fitType = this.calculateFitType(bodyMeasurements, clothingItem, chart, size);
       
       return {
         size,
@@ -319,14 +422,15 @@ class EnhancedSizeRecommendationService {
   private analyzeFit(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
+    chart: SizeChartDefinition,
     size: string
   ): FitAnalysis {
     return {
-      chest: this.analyzeMeasurementFit(bodyMeasurements.chest, this.getExpectedMeasurement(clothingItem, size, 'chest')),
-      waist: this.analyzeMeasurementFit(bodyMeasurements.waist, this.getExpectedMeasurement(clothingItem, size, 'waist')),
-      hips: this.analyzeMeasurementFit(bodyMeasurements.hips, this.getExpectedMeasurement(clothingItem, size, 'hips')),
-      shoulders: this.analyzeMeasurementFit(bodyMeasurements.shoulderWidth, this.getExpectedMeasurement(clothingItem, size, 'shoulders')),
-      length: this.analyzeLengthFit(bodyMeasurements, clothingItem, size),
+      chest: this.analyzeMeasurementFit(bodyMeasurements.chest, this.getExpectedMeasurement(chart, size, 'chest')),
+      waist: this.analyzeMeasurementFit(bodyMeasurements.waist, this.getExpectedMeasurement(chart, size, 'waist')),
+      hips: this.analyzeMeasurementFit(bodyMeasurements.hips, this.getExpectedMeasurement(chart, size, 'hips')),
+      shoulders: this.analyzeMeasurementFit(bodyMeasurements.shoulderWidth, this.getExpectedMeasurement(chart, size, 'shoulderWidth')),
+      length: this.analyzeLengthFit(bodyMeasurements, chart, size),
       overall: 'good'
     };
   }
@@ -366,12 +470,18 @@ class EnhancedSizeRecommendationService {
   private generateReasoning(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
+    sizeChart: ResolvedSizeChart,
     sizeOption: SizeOption
   ): string[] {
     const reasoning: string[] = [];
     
     reasoning.push(`Based on your ${clothingItem.category} measurements`);
-    reasoning.push(`${clothingItem.brand} sizing tends to run ${this.getBrandSizingTendency(clothingItem.brand)}`);
+    if (sizeChart.source === 'brand') {
+      reasoning.push(`Matched against the ${clothingItem.brand} ${sizeChart.chart.region} size chart`);
+    } else {
+      reasoning.push(`No ${clothingItem.brand} chart available - using the ${sizeChart.source} size chart`);
+      reasoning.push(`${clothingItem.brand} sizing tends to run ${this.getBrandSizingTendency(clothingItem.brand)}`);
+    }
     reasoning.push(`This ${sizeOption.fitType} fit aligns with the item's design`);
     
     if (sizeOption.confidence > 0.8) {
@@ -397,9 +507,27 @@ class EnhancedSizeRecommendationService {
     return mapping[category as keyof typeof mapping] || 0.5;
   }
 
-  private encodeSizeHistory(sizeHistory: SizeHistory, clothingItem: ClothingItem): number[] {
-    // Encode size history features
-    return [0.5, 0.5, 0.5]; // Placeholder
+  private encodeSizeHistory(sizeHistory: SizeHistory | undefined, clothingItem: ClothingItem): number[] {
+    if (!sizeHistory) {
+      return [0, 0.5, 0.5];
+    }
+
+    // Share of past purchases in this brand/category, and how they tended to fit (0 = too small, 1 = too large)
+    const encodeFit = (entries: any[] = []) => {
+      if (entries.length === 0) return 0.5;
+      const total = entries.reduce((sum, entry) => sum - (FIT_FEEDBACK_OFFSETS[entry.fit] ?? 0), 0);
+      return Math.min(1, Math.max(0, 0.5 + total / (entries.length * 4)));
+    };
+
+    const brandEntries = sizeHistory.brands[clothingItem.brand] || [];
+    const categoryEntries = sizeHistory.categories[clothingItem.category] || [];
+    const overall = Math.max(1, sizeHistory.overall.length, brandEntries.length, categoryEntries.length);
+
+    return [
+      Math.min(1, brandEntries.length / overall),
+      encodeFit(brandEntries),
+      encodeFit(categoryEntries)
+    ];
   }
 
   private determineFitType(difference: number, measurement: number): string {
@@ -413,42 +541,53 @@ class EnhancedSizeRecommendationService {
   private calculateSizeConfidence(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
+    chart: SizeChartDefinition,
     size: string
   ): number {
     // Calculate confidence for specific size
-    const expectedMeasurement = this.getExpectedMeasurement(clothingItem, size, 'chest');
-    const difference = Math.abs(bodyMeasurements.chest - expectedMeasurement);
-    return Math.max(0.3, 1 - (difference / bodyMeasurements.chest));
+    const entry = chart.sizes.find(candidate => candidate.label === size);
+    if (!entry) return 0.3;
+
+    const primaryKey = getPrimaryChartMeasurement(chart);
+    const primaryMeasurement = this.getBodyMeasurement(bodyMeasurements, primaryKey) || bodyMeasurements.chest;
+    const difference = this.calculateChartDistance(
+      bodyMeasurements,
+      entry.measurements,
+      this.getMeasurementWeights(clothingItem.category, chart),
+      primaryKey,
+      primaryMeasurement
+    );
+    // Less certain body measurements (e.g. single-photo estimates) lower every size's confidence
+    return Math.max(0.3, (1 - (difference / primaryMeasurement)) * (bodyMeasurements.confidence ?? 1));
   }
 
   private calculateFitType(
     bodyMeasurements: BodyMeasurements,
     clothingItem: ClothingItem,
+    chart: SizeChartDefinition,
     size: string
   ): string {
-    const expectedMeasurement = this.getExpectedMeasurement(clothingItem, size, 'chest');
-    const difference = bodyMeasurements.chest - expectedMeasurement;
+    const primaryKey = getPrimaryChartMeasurement(chart);
+    const expectedMeasurement = this.getExpectedMeasurement(chart, size, primaryKey);
+    const bodyMeasurement = this.getBodyMeasurement(bodyMeasurements, primaryKey);
+    if (expectedMeasurement === null || bodyMeasurement === undefined) return 'regular';
+
+    const difference = bodyMeasurement - expectedMeasurement;
     
     if (difference > 5) return 'tight';
     if (difference < -5) return 'loose';
     return 'regular';
   }
 
-  private getExpectedMeasurement(clothingItem: ClothingItem, size: string, type: string): number {
-    // Get expected measurement for size
-    const baseMeasurements = {
-      'XS': { chest: 80, waist: 65, hips: 85 },
-      'S': { chest: 85, waist: 70, hips: 90 },
-      'M': { chest: 90, waist: 75, hips: 95 },
-      'L': { chest: 95, waist: 80, hips: 100 },
-      'XL': { chest: 100, waist: 85, hips: 105 },
-      'XXL': { chest: 105, waist: 90, hips: 110 }
-    };
-    
-    return baseMeasurements[size as keyof typeof baseMeasurements]?.[type as keyof typeof baseMeasurements.M] || 90;
+  private getExpectedMeasurement(chart: SizeChartDefinition, size: string, type: keyof SizeChartMeasurements): number | null {
+    const entry = chart.sizes.find(candidate => candidate.label === size);
+    return entry?.measurements[type] ?? null;
   }
 
-  private analyzeMeasurementFit(bodyMeasurement: number, expectedMeasurement: number): string {
+  private analyzeMeasurementFit(bodyMeasurement: number | undefined, expectedMeasurement: number | null): string {
+    // The chart doesn't specify this measurement, so there's nothing to compare against
+    if (expectedMeasurement === null || bodyMeasurement === undefined) return 'not-measured';
+
     const difference = Math.abs(bodyMeasurement - expectedMeasurement);
     const ratio = difference / bodyMeasurement;
     
@@ -458,25 +597,39 @@ class EnhancedSizeRecommendationService {
     return 'poor';
   }
 
-  private analyzeLengthFit(bodyMeasurements: BodyMeasurements, clothingItem: ClothingItem, size: string): string {
+  private analyzeLengthFit(bodyMeasurements: BodyMeasurements, chart: SizeChartDefinition, size: string): string {
+    // Waist-inseam and other charts with inseam can be checked directly
+    const expectedInseam = this.getExpectedMeasurement(chart, size, 'inseam');
+    if (expectedInseam !== null && bodyMeasurements.inseam !== undefined) {
+      return this.analyzeMeasurementFit(bodyMeasurements.inseam, expectedInseam);
+    }
+
     // Analyze length fit based on body proportions
     return 'good';
   }
 
-  private getDefaultSizingChart(): any {
-    return {
-      'XS': { chest: 80, waist: 65, hips: 85 },
-      'S': { chest: 85, waist: 70, hips: 90 },
-      'M': { chest: 90, waist: 75, hips: 95 },
-      'L': { chest: 95, waist: 80, hips: 100 },
-      'XL': { chest: 100, waist: 85, hips: 105 },
-      'XXL': { chest: 105, waist: 90, hips: 110 }
-    };
-  }
+  // Average of the sizes the user should have bought: each past size shifted by how it fit, on this item's chart.
+  // Null when no past size appears in the chart, so history from other size systems is ignored
+  private calculateAverageSize(sizeEntries: any[], clothingItem: ClothingItem, chart: SizeChartDefinition): string | null {
+    const labels = chart.sizes.map(entry => entry.label);
+    const targets = sizeEntries
+      .filter(entry => labels.includes(entry.size))
+      .map(entry => labels.indexOf(entry.size) + (FIT_FEEDBACK_OFFSETS[entry.fit] ?? 0));
+
+    if (targets.length === 0) return null;
+
+    const average = targets.reduce((sum, index) => sum + index, 0) / targets.length;
+    const target = Math.min(labels.length - 1, Math.max(0, Math.round(average)));
 
-  private calculateAverageSize(sizeEntries: any[]): string {
-    // Calculate average size from history
-    return 'M'; // Simplified
+    // Nearest size the item is actually sold in
+    const offered = labels
+      .map((label, index) => ({ label, index }))
+      .filter(({ label }) => (clothingItem.sizes || []).includes(label));
+    if (offered.length === 0) return labels[target];
+
+    return offered.reduce((best, candidate) =>
+      Math.abs(candidate.index - target) < Math.abs(best.index - target) ? candidate : best
+    ).label;
   }
 
   private blendSizeRecommendations(option1: SizeOption, option2: SizeOption): SizeOption {
@@ -530,98 +683,254 @@ class EnhancedSizeRecommendationService {
     actualFit: string,
     feedback: string
   ): Promise<void> {
-    const userHistory = this.userSizeHistory.get(userId) || {
+    // Make sure earlier sessions' history is loaded before appending to it
+    const userHistory = (await this.getSizeHistory(userId)) || this.createEmptyHistory();
+
+    const entry = await this.historyStore.addEntry({
+      userId,
+      itemId: clothingItem.id,
+      brand: clothingItem.brand,
+      category: clothingItem.category,
+      size: selectedSize,
+      fit: actualFit,
+      feedback,
+      timestamp: new Date()
+    });
+
+    this.appendToHistory(userHistory, entry);
+    this.userSizeHistory.set(userId, userHistory);
+
+    await this.addTrainingSample(userId, clothingItem, selectedSize, actualFit, userHistory);
+  }
+
+  private createEmptyHistory(): SizeHistory {
+    return {
       brands: {},
       categories: {},
       overall: []
     };
-    
+  }
+
+  private appendToHistory(history: SizeHistory, entry: SizeFeedbackEntry): void {
+    const record = {
+      size: entry.size,
+      fit: entry.fit,
+      feedback: entry.feedback,
+      timestamp: new Date(entry.timestamp)
+    };
+
     // Update brand history
-    if (!userHistory.brands[clothingItem.brand]) {
-      userHistory.brands[clothingItem.brand] = [];
+    if (!history.brands[entry.brand]) {
+      history.brands[entry.brand] = [];
     }
-    userHistory.brands[clothingItem.brand].push({
-      size: selectedSize,
-      fit: actualFit,
-      feedback,
-      timestamp: new Date()
-    });
-    
+    history.brands[entry.brand].push(record);
+
     // Update category history
-    if (!userHistory.categories[clothingItem.category]) {
-      userHistory.categories[clothingItem.category] = [];
+    if (!history.categories[entry.category]) {
+      history.categories[entry.category] = [];
+    }
+    history.categories[entry.category].push(record);
+
+    history.overall.push({ ...record, brand: entry.brand, category: entry.category });
+  }
+
+  private async addTrainingSample(
+    userId: string,
+    clothingItem: ClothingItem,
+    selectedSize: string,
+    actualFit: string,
+    sizeHistory: SizeHistory
+  ): Promise<void> {
+    const context = this.recommendationContexts.get(this.getContextKey(userId, clothingItem.id));
+    if (!context || !(actualFit in FIT_FEEDBACK_OFFSETS)) return;
+
+    const { chart } = context.sizeChart;
+    const primaryKey = getPrimaryChartMeasurement(chart);
+    const selectedIndex = chart.sizes.findIndex(entry => entry.label === selectedSize);
+    if (selectedIndex === -1) return;
+
+    // A "too small" in the selected size means the right size was further up the chart
+    const targetIndex = Math.min(chart.sizes.length - 1, Math.max(0, selectedIndex + FIT_FEEDBACK_OFFSETS[actualFit]));
+    const targetMeasurement = chart.sizes[targetIndex].measurements[primaryKey];
+    const baselineMeasurement = this.getExpectedMeasurement(chart, context.recommendedSize, primaryKey);
+    if (targetMeasurement === undefined || baselineMeasurement === null) return;
+
+    try {
+      await this.sizeModel.addSample({
+        userId,
+        features: this.prepareFeaturesForML(context.bodyMeasurements, clothingItem, context.userPreferences, sizeHistory),
+        targetMeasurement,
+        baselineMeasurement
+      });
+    } catch (error) {
+      console.warn('Failed to store size training sample:', error);
+    }
+  }
+
+  private getContextKey(userId: string, itemId: string): string {
+    return `${userId}:${itemId}`;
+  }
+
+  async getSizeHistory(userId: string): Promise<SizeHistory | null> {
+    const cached = this.userSizeHistory.get(userId);
+    if (cached) return cached;
+
+    try {
+      const entries = await this.historyStore.getEntries(userId);
+      if (entries.length === 0) return null;
+
+      const history = this.createEmptyHistory();
+      entries.forEach(entry => this.appendToHistory(history, entry));
+      this.userSizeHistory.set(userId, history);
+      return history;
+    } catch (error) {
+      console.warn('Failed to load size history:', error);
+      return null;
     }
-    userHistory.categories[clothingItem.category].push({
-      size: selectedSize,
-      fit: actualFit,
-      feedback,
-      timestamp: new Date()
-    });
-    
-    this.userSizeHistory.set(userId, userHistory);
   }
 
-  getSizeHistory(userId: string): SizeHistory | null {
-    return this.userSizeHistory.get(userId) || null;
+  async exportSizeHistory(userId: string): Promise<SizeHistoryExport> {
+    return this.historyStore.exportUser(userId);
+  }
+
+  async deleteSizeHistory(userId: string): Promise<void> {
+    await this.historyStore.deleteUser(userId);
+    await this.sizeModel.deleteSamplesForUser(userId);
+
+    this.userSizeHistory.delete(userId);
+    Array.from(this.recommendationContexts.keys())
+      .filter(key => key.startsWith(`${userId}:`))
+      .forEach(key => this.recommendationContexts.delete(key));
+  }
+
+  loadSizeCharts(charts: unknown[]): SizeChartLoadResult {
+    return this.sizeDatabase.loadCharts(charts);
+  }
+
+  async loadSizeChartsFromUrl(url: string): Promise<SizeChartLoadResult> {
+    return this.sizeDatabase.loadChartsFromUrl(url);
+  }
+
+  getSizeChart(query: SizeChartQuery): ResolvedSizeChart {
+    return this.sizeDatabase.resolveChart(query);
+  }
+
+  async trainSizeModel(): Promise<SizeModelTrainingResult> {
+    return this.sizeModel.train();
+  }
+
+  getSizeModelInfo(): SizeModelMetadata | null {
+    return this.sizeModel.getMetadata();
   }
 }
 
 // Supporting classes
 class SizeDatabase {
-  private brandSizing: Map<string, BrandSizing> = new Map();
-  private categorySizing: Map<string, CategorySizing> = new Map();
+  private charts: Map<string, SizeChartDefinition> = new Map();
 
   constructor() {
     this.initializeDatabase();
   }
 
   private initializeDatabase(): void {
-    // Initialize with known brand sizing data
-    this.brandSizing.set('StyleCo', {
-      tops: this.getStandardSizing(),
-      bottoms: this.getStandardSizing(),
-      outerwear: this.getStandardSizing()
-    });
-    
-    // Initialize category sizing
-    this.categorySizing.set('tops', {
-      tops: this.getStandardSizing()
+    const result = this.loadCharts(DEFAULT_SIZE_CHARTS);
+    if (result.rejected.length > 0) {
+      console.warn('Some built-in size charts failed validation:', result.rejected);
+    }
+  }
+
+  loadCharts(charts: unknown[]): SizeChartLoadResult {
+    const result: SizeChartLoadResult = { loaded: [], rejected: [] };
+
+    charts.forEach((chart: any, index) => {
+      const errors = validateSizeChart(chart);
+      if (errors.length > 0) {
+        result.rejected.push({ id: chart?.id || `chart-${index}`, errors });
+        return;
+      }
+
+      // Later charts with the same id replace earlier ones, so remote data can override built-ins
+      this.charts.set(chart.id, chart as SizeChartDefinition);
+      result.loaded.push(chart.id);
     });
+
+    return result;
   }
 
-  private getStandardSizing(): any {
-    return {
-      'XS': { chest: 80, waist: 65, hips: 85 },
-      'S': { chest: 85, waist: 70, hips: 90 },
-      'M': { chest: 90, waist: 75, hips: 95 },
-      'L': { chest: 95, waist: 80, hips: 100 },
-      'XL': { chest: 100, waist: 85, hips: 105 },
-      'XXL': { chest: 105, waist: 90, hips: 110 }
-    };
+  async loadChartsFromUrl(url: string): Promise<SizeChartLoadResult> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load size charts: HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const charts = Array.isArray(data) ? data : data?.charts;
+    if (!Array.isArray(charts)) {
+      throw new Error('Size chart data must be an array or { charts: [] }');
+    }
+
+    const result = this.loadCharts(charts);
+    if (result.rejected.length > 0) {
+      console.warn(`Rejected ${result.rejected.length} size chart(s) from ${url}:`, result.rejected);
+    }
+    return result;
   }
 
-  getBrandSizing(brand: string): BrandSizing {
-    return this.brandSizing.get(brand) || {
-      tops: this.getStandardSizing(),
-      bottoms: this.getStandardSizing(),
-      outerwear: this.getStandardSizing()
-    };
+  resolveChart(query: SizeChartQuery): ResolvedSizeChart {
+    const charts = Array.from(this.charts.values());
+    const category = query.category?.toLowerCase();
+    const brand = query.brand?.toLowerCase();
+
+    const levels: { source: SizeChartSource; matches: (chart: SizeChartDefinition) => boolean }[] = [
+      {
+        source: 'brand',
+        matches: chart => !!brand && chart.brand?.toLowerCase() === brand &&
+          (!chart.category || chart.category.toLowerCase() === category)
+      },
+      {
+        source: 'category',
+        matches: chart => !chart.brand && !!category && chart.category?.toLowerCase() === category
+      },
+      {
+        source: 'standard',
+        matches: chart => !chart.brand && !chart.category
+      }
+    ];
+
+    for (const level of levels) {
+      const candidates = charts
+        .filter(level.matches)
+        .filter(chart => !query.gender || chart.gender === query.gender || chart.gender === 'unisex' || query.gender === 'unisex');
+
+      if (candidates.length > 0) {
+        const best = candidates.reduce((current, candidate) =>
+          this.scoreChart(candidate, query) > this.scoreChart(current, query) ? candidate : current
+        );
+        return { chart: best, source: level.source };
+      }
+    }
+
+    return { chart: this.charts.get('standard') || STANDARD_SIZE_CHART, source: 'standard' };
   }
 
-  getCategorySizing(category: string): CategorySizing {
-    return this.categorySizing.get(category) || {
-      [category]: this.getStandardSizing()
-    };
+  private scoreChart(chart: SizeChartDefinition, query: SizeChartQuery): number {
+    let score = 0;
+    if (query.region && chart.region === query.region) score += 4;
+    if (query.gender && chart.gender === query.gender) score += 2;
+    if (chart.category && chart.category.toLowerCase() === query.category?.toLowerCase()) score += 1;
+    return score;
   }
 }
 
 // Interfaces
 interface BodyMeasurements {
-  height: number;
-  chest: number;
-  waist: number;
-  hips: number;
-  shoulderWidth: number;
+  height: Centimeters;
+  chest: Centimeters;
+  waist: Centimeters;
+  hips: Centimeters;
+  shoulderWidth: Centimeters;
+  inseam?: Centimeters;
+  confidence?: number;
 }
 
 interface ClothingItem {
@@ -632,11 +941,13 @@ interface ClothingItem {
   sizes: string[];
   tags: string[];
   price: number;
+  gender?: SizeGender;
 }
 
 interface SizePreferences {
   preferredFit: 'tight' | 'regular' | 'loose';
   priorityAreas: string[];
+  region?: SizeRegion;
 }
 
 interface SizeOption {
@@ -651,6 +962,7 @@ interface SizeRecommendation {
   fitAnalysis: FitAnalysis;
   adjustmentSuggestions: string[];
   reasoning: string[];
+  sizeChart?: ResolvedSizeChart;
 }
 
 interface FitAnalysis {
@@ -668,14 +980,30 @@ interface SizeHistory {
   overall: any[];
 }
 
-interface BrandSizing {
-  tops: any;
-  bottoms: any;
-  outerwear: any;
+interface RecommendationContext {
+  bodyMeasurements: BodyMeasurements;
+  userPreferences: SizePreferences;
+  sizeChart: ResolvedSizeChart;
+  recommendedSize: string;
+}
+
+type SizeChartSource = 'brand' | 'category' | 'standard';
+
+export interface SizeChartQuery {
+  brand?: string;
+  category?: string;
+  gender?: SizeGender;
+  region?: SizeRegion;
+}
+
+export interface ResolvedSizeChart {
+  chart: SizeChartDefinition;
+  source: SizeChartSource;
 }
 
-interface CategorySizing {
-  [key: string]: any;
+export interface SizeChartLoadResult {
+  loaded: string[];
+  rejected: { id: string; errors: string[] }[];
 }
 
 export default EnhancedSizeRecommendationService;
\ No newline at end of file
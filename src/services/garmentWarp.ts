@@ -0,0 +1,491 @@
+import { FitPoint } from './realAIService';
+
+// Mesh resolution: segments per side of the garment grid
+const GRID_SEGMENTS = 24;
+// Thin-plate-spline smoothing; absorbs landmark jitter instead of pinching the mesh
+const TPS_REGULARIZATION = 0.001;
+// Triangles are drawn slightly oversized in the Canvas2D path so seams don't show
+const SEAM_OVERLAP = 0.75;
+
+// Where each landmark sits on a front-facing garment image (u, v in 0-1).
+// The wearer's left is on the image's right.
+const GARMENT_ANCHORS: Record<string, GarmentAnchor[]> = {
+  tops: [
+    { landmark: 'rightShoulder', u: 0.24, v: 0.08 },
+    { landmark: 'leftShoulder', u: 0.76, v: 0.08 },
+    // Short sleeves end around mid upper-arm
+    { landmark: 'rightElbow', u: 0.04, v: 0.32, from: 'rightShoulder', t: 0.5 },
+    { landmark: 'leftElbow', u: 0.96, v: 0.32, from: 'leftShoulder', t: 0.5 },
+    { landmark: 'rightHip', u: 0.3, v: 0.96 },
+    { landmark: 'leftHip', u: 0.7, v: 0.96 }
+  ],
+  outerwear: [
+    { landmark: 'rightShoulder', u: 0.26, v: 0.08 },
+    { landmark: 'leftShoulder', u: 0.74, v: 0.08 },
+    { landmark: 'rightElbow', u: 0.1, v: 0.5 },
+    { landmark: 'leftElbow', u: 0.9, v: 0.5 },
+    { landmark: 'rightWrist', u: 0.04, v: 0.92 },
+    { landmark: 'leftWrist', u: 0.96, v: 0.92 },
+    { landmark: 'rightHip', u: 0.3, v: 0.96 },
+    { landmark: 'leftHip', u: 0.7, v: 0.96 }
+  ],
+  dresses: [
+    { landmark: 'rightShoulder', u: 0.27, v: 0.04 },
+    { landmark: 'leftShoulder', u: 0.73, v: 0.04 },
+    { landmark: 'rightHip', u: 0.32, v: 0.45 },
+    { landmark: 'leftHip', u: 0.68, v: 0.45 },
+    { landmark: 'rightKnee', u: 0.3, v: 0.96 },
+    { landmark: 'leftKnee', u: 0.7, v: 0.96 }
+  ],
+  bottoms: [
+    { landmark: 'rightHip', u: 0.27, v: 0.04 },
+    { landmark: 'leftHip', u: 0.73, v: 0.04 },
+    { landmark: 'rightKnee', u: 0.27, v: 0.5 },
+    { landmark: 'leftKnee', u: 0.73, v: 0.5 },
+    { landmark: 'rightAnkle', u: 0.27, v: 0.97 },
+    { landmark: 'leftAnkle', u: 0.73, v: 0.97 }
+  ]
+};
+
+const VERTEX_SHADER = `
+  attribute vec2 a_position;
+  attribute vec2 a_texCoord;
+  uniform vec2 u_resolution;
+  varying vec2 v_texCoord;
+
+  void main() {
+    vec2 clip = (a_position / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clip * vec2(1.0, -1.0), 0.0, 1.0);
+    v_texCoord = a_texCoord;
+  }
+`;
+
+const FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform sampler2D u_texture;
+  varying vec2 v_texCoord;
+
+  void main() {
+    gl_FragColor = texture2D(u_texture, v_texCoord);
+  }
+`;
+
+/**
+ * Warps garment images onto the body with a thin-plate spline through the
+ * pose fit points, rendered as a textured triangle mesh. Uses WebGL when
+ * available and falls back to per-triangle Canvas2D drawing.
+ */
+class GarmentWarpRenderer {
+  private glCanvas: HTMLCanvasElement | null = null;
+  private gl: WebGLRenderingContext | null = null;
+  private program: WebGLProgram | null = null;
+  private buffers: { position: WebGLBuffer; texCoord: WebGLBuffer; index: WebGLBuffer } | null = null;
+  private texture: WebGLTexture | null = null;
+  private webglFailed = false;
+
+  getBackend(): WarpBackend {
+    return this.ensureWebGL() ? 'webgl' : 'canvas2d';
+  }
+
+  /**
+   * Returns a transparent canvas of `output` size with the garment warped into
+   * place, or null when there aren't enough fit points to place it.
+   */
+  render(garment: GarmentSource, fitPoints: FitPoint[], category: string, output: WarpOutputSize): HTMLCanvasElement | null {
+    const garmentSize = this.getSourceSize(garment);
+    if (!garmentSize.width || !garmentSize.height) return null;
+
+    const mesh = this.buildMesh(garmentSize, fitPoints, category, output);
+    if (!mesh) return null;
+
+    const result = document.createElement('canvas');
+    result.width = output.width;
+    result.height = output.height;
+
+    if (this.ensureWebGL()) {
+      try {
+        this.drawWithWebGL(garment, mesh, output);
+        result.getContext('2d')!.drawImage(this.glCanvas!, 0, 0);
+        return result;
+      } catch (error) {
+        // Typically a cross-origin texture or a lost context
+        console.warn('WebGL garment warp failed, using Canvas2D:', error);
+        this.webglFailed = true;
+      }
+    }
+
+    this.drawWithCanvas2D(result.getContext('2d')!, garment, mesh);
+    return result;
+  }
+
+  dispose(): void {
+    if (this.gl) {
+      if (this.texture) this.gl.deleteTexture(this.texture);
+      if (this.buffers) {
+        this.gl.deleteBuffer(this.buffers.position);
+        this.gl.deleteBuffer(this.buffers.texCoord);
+        this.gl.deleteBuffer(this.buffers.index);
+      }
+      if (this.program) this.gl.deleteProgram(this.program);
+      this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+
+    this.gl = null;
+    this.glCanvas = null;
+    this.program = null;
+    this.buffers = null;
+    this.texture = null;
+  }
+
+  // Mesh construction
+  private buildMesh(garmentSize: WarpOutputSize, fitPoints: FitPoint[], category: string, output: WarpOutputSize): WarpMesh | null {
+    const anchors = GARMENT_ANCHORS[category];
+    if (!anchors) return null;
+
+    const byName = new Map(fitPoints.map(point => [point.name, point.position]));
+    // Spline space keeps the garment's aspect ratio so the radial basis stays isotropic
+    const longestSide = Math.max(garmentSize.width, garmentSize.height);
+    const toSource = (u: number, v: number): Point => ({
+      x: (u * garmentSize.width) / longestSide,
+      y: (v * garmentSize.height) / longestSide
+    });
+
+    const source: Point[] = [];
+    const target: Point[] = [];
+    anchors.forEach(anchor => {
+      const end = byName.get(anchor.landmark);
+      if (!end) return;
+
+      let position: Point = end;
+      if (anchor.from) {
+        const start = byName.get(anchor.from);
+        if (!start) return;
+        const t = anchor.t ?? 1;
+        position = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+      }
+
+      source.push(toSource(anchor.u, anchor.v));
+      target.push({ x: position.x * output.width, y: position.y * output.height });
+    });
+
+    const transform = this.createTransform(source, target);
+    if (!transform) return null;
+
+    const columns = GRID_SEGMENTS + 1;
+    const positions = new Float32Array(columns * columns * 2);
+    const texCoords = new Float32Array(columns * columns * 2);
+
+    for (let row = 0; row < columns; row++) {
+      for (let col = 0; col < columns; col++) {
+        const u = col / GRID_SEGMENTS;
+        const v = row / GRID_SEGMENTS;
+        const warped = transform(toSource(u, v));
+        const offset = (row * columns + col) * 2;
+
+        positions[offset] = warped.x;
+        positions[offset + 1] = warped.y;
+        texCoords[offset] = u;
+        texCoords[offset + 1] = v;
+      }
+    }
+
+    const indices = new Uint16Array(GRID_SEGMENTS * GRID_SEGMENTS * 6);
+    let cursor = 0;
+    for (let row = 0; row < GRID_SEGMENTS; row++) {
+      for (let col = 0; col < GRID_SEGMENTS; col++) {
+        const topLeft = row * columns + col;
+        const bottomLeft = topLeft + columns;
+        indices.set([topLeft, bottomLeft, topLeft + 1, topLeft + 1, bottomLeft, bottomLeft + 1], cursor);
+        cursor += 6;
+      }
+    }
+
+    return { positions, texCoords, indices };
+  }
+
+  // Thin-plate spline through 3+ anchors; a similarity transform when only two are visible
+  private createTransform(source: Point[], target: Point[]): ((point: Point) => Point) | null {
+    if (source.length === 2) {
+      return this.createSimilarityTransform(source, target);
+    }
+    if (source.length < 3) return null;
+
+    const n = source.length;
+    const radial = (a: Point, b: Point) => {
+      const r2 = (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+      return r2 === 0 ? 0 : r2 * Math.log(r2);
+    };
+
+    // [K + λI  P; Pᵀ  0] · [w; a] = [target; 0]
+    const size = n + 3;
+    const matrix: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        matrix[i][j] = i === j ? TPS_REGULARIZATION : radial(source[i], source[j]);
+      }
+      const affine = [1, source[i].x, source[i].y];
+      affine.forEach((value, k) => {
+        matrix[i][n + k] = value;
+        matrix[n + k][i] = value;
+      });
+    }
+
+    const padding = [0, 0, 0];
+    const weightsX = solveLinearSystem(matrix, [...target.map(point => point.x), ...padding]);
+    const weightsY = solveLinearSystem(matrix, [...target.map(point => point.y), ...padding]);
+    if (!weightsX || !weightsY) {
+      // Collinear anchors (e.g. only one side visible): fall back to the outermost pair
+      return this.createSimilarityTransform([source[0], source[n - 1]], [target[0], target[n - 1]]);
+    }
+
+    return (point: Point) => {
+      let x = weightsX[n] + weightsX[n + 1] * point.x + weightsX[n + 2] * point.y;
+      let y = weightsY[n] + weightsY[n + 1] * point.x + weightsY[n + 2] * point.y;
+      for (let i = 0; i < n; i++) {
+        const basis = radial(point, source[i]);
+        x += weightsX[i] * basis;
+        y += weightsY[i] * basis;
+      }
+      return { x, y };
+    };
+  }
+
+  private createSimilarityTransform(source: Point[], target: Point[]): ((point: Point) => Point) | null {
+    const sourceDelta = { x: source[1].x - source[0].x, y: source[1].y - source[0].y };
+    const targetDelta = { x: target[1].x - target[0].x, y: target[1].y - target[0].y };
+    const sourceLength = Math.hypot(sourceDelta.x, sourceDelta.y);
+    if (sourceLength === 0) return null;
+
+    const scale = Math.hypot(targetDelta.x, targetDelta.y) / sourceLength;
+    const angle = Math.atan2(targetDelta.y, targetDelta.x) - Math.atan2(sourceDelta.y, sourceDelta.x);
+    const cos = Math.cos(angle) * scale;
+    const sin = Math.sin(angle) * scale;
+
+    return (point: Point) => {
+      const dx = point.x - source[0].x;
+      const dy = point.y - source[0].y;
+      return {
+        x: target[0].x + dx * cos - dy * sin,
+        y: target[0].y + dx * sin + dy * cos
+      };
+    };
+  }
+
+  // WebGL rendering
+  private ensureWebGL(): boolean {
+    if (this.webglFailed) return false;
+    if (this.gl && !this.gl.isContextLost()) return true;
+
+    try {
+      const canvas = document.createElement('canvas');
+      const gl = canvas.getContext('webgl', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+      if (!gl) {
+        this.webglFailed = true;
+        return false;
+      }
+
+      const program = gl.createProgram()!;
+      gl.attachShader(program, this.compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+      gl.attachShader(program, this.compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+      gl.linkProgram(program);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(gl.getProgramInfoLog(program) || 'Failed to link garment warp shader');
+      }
+
+      this.glCanvas = canvas;
+      this.gl = gl;
+      this.program = program;
+      this.buffers = {
+        position: gl.createBuffer()!,
+        texCoord: gl.createBuffer()!,
+        index: gl.createBuffer()!
+      };
+      this.texture = gl.createTexture();
+      return true;
+    } catch (error) {
+      console.warn('WebGL unavailable for garment warping:', error);
+      this.webglFailed = true;
+      return false;
+    }
+  }
+
+  private compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) || 'Failed to compile garment warp shader');
+    }
+    return shader;
+  }
+
+  private drawWithWebGL(garment: GarmentSource, mesh: WarpMesh, output: WarpOutputSize): void {
+    const gl = this.gl!;
+    const program = this.program!;
+    const buffers = this.buffers!;
+
+    this.glCanvas!.width = output.width;
+    this.glCanvas!.height = output.height;
+    gl.viewport(0, 0, output.width, output.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.useProgram(program);
+
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    // Throws a SecurityError for tainted cross-origin images
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, garment);
+    // Garment images are rarely power-of-two sized, so no mipmaps or repeat
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+    const bindAttribute = (buffer: WebGLBuffer, data: Float32Array, name: string) => {
+      const location = gl.getAttribLocation(program, name);
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+    };
+    bindAttribute(buffers.position, mesh.positions, 'a_position');
+    bindAttribute(buffers.texCoord, mesh.texCoords, 'a_texCoord');
+
+    gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), output.width, output.height);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_texture'), 0);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.index);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, mesh.indices, gl.DYNAMIC_DRAW);
+    gl.drawElements(gl.TRIANGLES, mesh.indices.length, gl.UNSIGNED_SHORT, 0);
+
+    if (gl.isContextLost()) {
+      throw new Error('WebGL context lost');
+    }
+  }
+
+  // Canvas2D fallback: each triangle is clipped and drawn with its own affine transform
+  private drawWithCanvas2D(ctx: CanvasRenderingContext2D, garment: GarmentSource, mesh: WarpMesh): void {
+    const size = this.getSourceSize(garment);
+    const { positions, texCoords, indices } = mesh;
+
+    for (let i = 0; i < indices.length; i += 3) {
+      const dst: Point[] = [];
+      const src: Point[] = [];
+      for (let k = 0; k < 3; k++) {
+        const vertex = indices[i + k] * 2;
+        dst.push({ x: positions[vertex], y: positions[vertex + 1] });
+        src.push({ x: texCoords[vertex] * size.width, y: texCoords[vertex + 1] * size.height });
+      }
+
+      const u1 = { x: src[1].x - src[0].x, y: src[1].y - src[0].y };
+      const u2 = { x: src[2].x - src[0].x, y: src[2].y - src[0].y };
+      const v1 = { x: dst[1].x - dst[0].x, y: dst[1].y - dst[0].y };
+      const v2 = { x: dst[2].x - dst[0].x, y: dst[2].y - dst[0].y };
+      const det = u1.x * u2.y - u2.x * u1.y;
+      if (det === 0) continue;
+
+      const a = (v1.x * u2.y - v2.x * u1.y) / det;
+      const b = (v1.y * u2.y - v2.y * u1.y) / det;
+      const c = (v2.x * u1.x - v1.x * u2.x) / det;
+      const d = (v2.y * u1.x - v1.y * u2.x) / det;
+      const e = dst[0].x - a * src[0].x - c * src[0].y;
+      const f = dst[0].y - b * src[0].x - d * src[0].y;
+
+      const centroid = {
+        x: (dst[0].x + dst[1].x + dst[2].x) / 3,
+        y: (dst[0].y + dst[1].y + dst[2].y) / 3
+      };
+
+      ctx.save();
+      ctx.beginPath();
+      dst.forEach((point, index) => {
+        const dx = point.x - centroid.x;
+        const dy = point.y - centroid.y;
+        const length = Math.hypot(dx, dy) || 1;
+        const x = point.x + (dx / length) * SEAM_OVERLAP;
+        const y = point.y + (dy / length) * SEAM_OVERLAP;
+        if (index === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+      ctx.clip();
+      ctx.setTransform(a, b, c, d, e, f);
+      ctx.drawImage(garment, 0, 0);
+      ctx.restore();
+    }
+  }
+
+  private getSourceSize(garment: GarmentSource): WarpOutputSize {
+    if (garment instanceof HTMLImageElement) {
+      return { width: garment.naturalWidth || garment.width, height: garment.naturalHeight || garment.height };
+    }
+    return { width: garment.width, height: garment.height };
+  }
+}
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+// Interfaces
+export type WarpBackend = 'webgl' | 'canvas2d';
+
+export type GarmentSource = HTMLImageElement | HTMLCanvasElement;
+
+export interface WarpOutputSize {
+  width: number;
+  height: number;
+}
+
+export interface GarmentAnchor {
+  landmark: string;
+  u: number;
+  v: number;
+  // Anchor lies part-way from this landmark to `landmark`
+  from?: string;
+  t?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface WarpMesh {
+  positions: Float32Array;
+  texCoords: Float32Array;
+  indices: Uint16Array;
+}
+
+export default GarmentWarpRenderer;
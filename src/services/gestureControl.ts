@@ -0,0 +1,184 @@
+import { HandDetection, HandGesture } from './advancedAIService';
+
+// How long a pose has to be held before it fires; longer for commands that are costly to trigger by accident
+const HOLD_DURATIONS: Record<HoldGesture, number> = {
+  pinch: 300,
+  'thumbs-up': 600,
+  'open-palm': 900
+};
+
+const GESTURE_COMMANDS: Record<GestureName, GestureCommand> = {
+  'swipe-left': 'previous-garment',
+  'swipe-right': 'next-garment',
+  pinch: 'capture',
+  'thumbs-up': 'favorite',
+  'open-palm': 'toggle-pause'
+};
+
+// Hands below this handedness score are too uncertain to act on
+const MIN_HAND_CONFIDENCE = 0.8;
+// A swipe is a palm traveling this share of the frame width within the window, mostly sideways
+const SWIPE_DISTANCE = 0.25;
+const SWIPE_WINDOW_MS = 600;
+const SWIPE_MAX_SLOPE = 0.5;
+// A held pose only counts while the palm stays within this distance of where the hold started
+const HOLD_TOLERANCE = 0.06;
+// Quiet period after any command so one motion can't fire twice
+const COOLDOWN_MS = 1000;
+// Frames without a usable hand before an in-progress hold or swipe is dropped
+const MAX_MISSED_FRAMES = 3;
+
+/**
+ * Turns a stream of hand detections into debounced commands for hands-free
+ * kiosk and mirror use. Static poses (pinch, thumbs-up, open palm) fire once
+ * after being held still, and the same pose must be released before it can
+ * fire again; swipes fire on fast horizontal palm travel. Every command is
+ * followed by a cooldown.
+ */
+class GestureController {
+  private trail: PalmSample[] = [];
+  private hold: { gesture: HoldGesture; since: number; x: number; y: number } | null = null;
+  private latched: HoldGesture | null = null;
+  private cooldownUntil = 0;
+  private missedFrames = 0;
+  private mirrored: boolean;
+
+  // Mirrored when the camera preview is flipped, so swipes match what the user sees
+  constructor(mirrored = false) {
+    this.mirrored = mirrored;
+  }
+
+  setMirrored(mirrored: boolean): void {
+    this.mirrored = mirrored;
+    this.trail = [];
+  }
+
+  update(hands: HandDetection[], timestamp: number): GestureEvent | null {
+    const hand = hands
+      .filter(candidate => candidate.confidence >= MIN_HAND_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)[0];
+
+    if (!hand) {
+      if (++this.missedFrames > MAX_MISSED_FRAMES) {
+        this.trail = [];
+        this.hold = null;
+        this.latched = null;
+      }
+      return null;
+    }
+    this.missedFrames = 0;
+
+    const palm = palmCenter(hand);
+    this.trail = [...this.trail, { ...palm, timestamp }].filter(sample => timestamp - sample.timestamp <= SWIPE_WINDOW_MS);
+
+    const gesture = hand.gestureType;
+    if (this.latched && gesture !== this.latched) this.latched = null;
+    if (timestamp < this.cooldownUntil) return null;
+
+    const swipe = this.detectSwipe();
+    if (swipe) return this.fire(swipe, hand.confidence, timestamp);
+
+    if (!isHoldGesture(gesture) || gesture === this.latched) {
+      this.hold = null;
+      return null;
+    }
+
+    const moved = this.hold && Math.hypot(palm.x - this.hold.x, palm.y - this.hold.y) > HOLD_TOLERANCE;
+    if (!this.hold || this.hold.gesture !== gesture || moved) {
+      this.hold = { gesture, since: timestamp, ...palm };
+      return null;
+    }
+
+    if (timestamp - this.hold.since < HOLD_DURATIONS[gesture]) return null;
+
+    this.latched = gesture;
+    return this.fire(gesture, hand.confidence, timestamp);
+  }
+
+  // Pose being held and how far along it is, for on-screen feedback
+  getProgress(timestamp: number): GestureProgress | null {
+    if (!this.hold || timestamp < this.cooldownUntil) return null;
+    const { gesture, since } = this.hold;
+
+    return {
+      gesture,
+      command: GESTURE_COMMANDS[gesture],
+      progress: Math.min((timestamp - since) / HOLD_DURATIONS[gesture], 1)
+    };
+  }
+
+  reset(): void {
+    this.trail = [];
+    this.hold = null;
+    this.latched = null;
+    this.cooldownUntil = 0;
+    this.missedFrames = 0;
+  }
+
+  private detectSwipe(): SwipeGesture | null {
+    if (this.trail.length < 2) return null;
+
+    const first = this.trail[0];
+    const last = this.trail[this.trail.length - 1];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+    if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dy) > Math.abs(dx) * SWIPE_MAX_SLOPE) return null;
+
+    // Detections are in camera coordinates; a mirrored preview shows movement the other way round
+    const rightward = this.mirrored ? dx < 0 : dx > 0;
+    return rightward ? 'swipe-right' : 'swipe-left';
+  }
+
+  private fire(gesture: GestureName, confidence: number, timestamp: number): GestureEvent {
+    this.cooldownUntil = timestamp + COOLDOWN_MS;
+    this.trail = [];
+    this.hold = null;
+    return { gesture, command: GESTURE_COMMANDS[gesture], confidence, timestamp };
+  }
+}
+
+function isHoldGesture(gesture: HandGesture): gesture is HoldGesture {
+  return gesture in HOLD_DURATIONS;
+}
+
+// Wrist and the index and pinky knuckles are the steadiest points while fingers move
+function palmCenter(hand: HandDetection): { x: number; y: number } {
+  const points = hand.landmarks.filter(landmark => ['wrist', 'indexMCP', 'pinkyMCP'].includes(landmark.name));
+  if (points.length === 0) {
+    const { x, y, width, height } = hand.boundingBox;
+    return { x: x + width / 2, y: y + height / 2 };
+  }
+
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+  };
+}
+
+// Interfaces
+export type HoldGesture = 'pinch' | 'thumbs-up' | 'open-palm';
+export type SwipeGesture = 'swipe-left' | 'swipe-right';
+export type GestureName = HoldGesture | SwipeGesture;
+export type GestureCommand = 'next-garment' | 'previous-garment' | 'capture' | 'favorite' | 'toggle-pause';
+
+export interface GestureEvent {
+  gesture: GestureName;
+  command: GestureCommand;
+  confidence: number;
+  timestamp: number;
+}
+
+export interface GestureProgress {
+  gesture: HoldGesture;
+  command: GestureCommand;
+  // 0-1 share of the hold time completed
+  progress: number;
+}
+
+interface PalmSample {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export default GestureController;
@@ -0,0 +1,314 @@
+// Standing, front-facing person in MediaPipe landmark order, normalized to the frame.
+// "left" is the subject's left, which is on the image's right.
+const POSE_TEMPLATE: Array<[string, number, number]> = [
+  ['nose', 0.5, 0.15],
+  ['leftEyeInner', 0.51, 0.135], ['leftEye', 0.52, 0.135], ['leftEyeOuter', 0.53, 0.135],
+  ['rightEyeInner', 0.49, 0.135], ['rightEye', 0.48, 0.135], ['rightEyeOuter', 0.47, 0.135],
+  ['leftEar', 0.545, 0.145], ['rightEar', 0.455, 0.145],
+  ['mouthLeft', 0.515, 0.175], ['mouthRight', 0.485, 0.175],
+  ['leftShoulder', 0.6, 0.26], ['rightShoulder', 0.4, 0.26],
+  ['leftElbow', 0.63, 0.4], ['rightElbow', 0.37, 0.4],
+  ['leftWrist', 0.64, 0.52], ['rightWrist', 0.36, 0.52],
+  ['leftPinky', 0.645, 0.55], ['rightPinky', 0.355, 0.55],
+  ['leftIndex', 0.64, 0.555], ['rightIndex', 0.36, 0.555],
+  ['leftThumb', 0.63, 0.545], ['rightThumb', 0.37, 0.545],
+  ['leftHip', 0.56, 0.55], ['rightHip', 0.44, 0.55],
+  ['leftKnee', 0.565, 0.72], ['rightKnee', 0.435, 0.72],
+  ['leftAnkle', 0.565, 0.89], ['rightAnkle', 0.435, 0.89],
+  ['leftHeel', 0.56, 0.91], ['rightHeel', 0.44, 0.91],
+  ['leftFootIndex', 0.58, 0.93], ['rightFootIndex', 0.42, 0.93]
+];
+
+// Limbs drawn as capsules for the mock silhouette, with widths as a share of the frame height
+const SILHOUETTE_LIMBS: Array<[string, string, number]> = [
+  ['leftShoulder', 'leftElbow', 0.05], ['leftElbow', 'leftWrist', 0.04],
+  ['rightShoulder', 'rightElbow', 0.05], ['rightElbow', 'rightWrist', 0.04],
+  ['leftHip', 'leftKnee', 0.07], ['leftKnee', 'leftAnkle', 0.055],
+  ['rightHip', 'rightKnee', 0.07], ['rightKnee', 'rightAnkle', 0.055]
+];
+
+const FIXTURE_VERSION = 1;
+
+/**
+ * Deterministic stand-in for the pose and segmentation models. Each frame is
+ * the template pose shifted, scaled and jittered by a PRNG seeded from the
+ * seed and the frame number, so a run with the same seed and call order
+ * always produces the same poses and masks.
+ */
+export class SeededMockBackend implements InferenceBackend {
+  readonly kind = 'mock' as const;
+  private seed: number;
+  private frame = 0;
+
+  constructor(seed = 1) {
+    this.seed = seed;
+  }
+
+  async detectPose(_image: InferenceImage): Promise<PoseEstimate> {
+    const pose = this.poseForFrame(this.frame);
+    this.frame++;
+    return pose;
+  }
+
+  // Silhouette of the pose the next detectPose call returns, so masks and poses agree
+  async segmentPerson(image: InferenceImage): Promise<ImageData> {
+    const { width, height } = imageSizeOf(image);
+    const keypoints = new Map(this.poseForFrame(this.frame).keypoints.map(keypoint => [keypoint.name, keypoint]));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = ctx.strokeStyle = '#ffffff';
+    ctx.lineCap = 'round';
+
+    const at = (name: string) => ({ x: keypoints.get(name)!.x * width, y: keypoints.get(name)!.y * height });
+    const nose = at('nose');
+    ctx.beginPath();
+    ctx.ellipse(nose.x, nose.y - height * 0.01, height * 0.05, height * 0.065, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    const torso = ['leftShoulder', 'rightShoulder', 'rightHip', 'leftHip'].map(at);
+    ctx.beginPath();
+    torso.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.closePath();
+    ctx.fill();
+    // Neck
+    ctx.lineWidth = height * 0.04;
+    ctx.beginPath();
+    ctx.moveTo(nose.x, nose.y);
+    ctx.lineTo((torso[0].x + torso[1].x) / 2, (torso[0].y + torso[1].y) / 2);
+    ctx.stroke();
+
+    SILHOUETTE_LIMBS.forEach(([from, to, thickness]) => {
+      const start = at(from);
+      const end = at(to);
+      ctx.lineWidth = height * thickness;
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    });
+
+    return ctx.getImageData(0, 0, width, height);
+  }
+
+  rewind(): void {
+    this.frame = 0;
+  }
+
+  private poseForFrame(frame: number): PoseEstimate {
+    const random = mulberry32(this.seed ^ Math.imul(frame + 1, 0x9e3779b1));
+    const spread = (range: number) => (random() * 2 - 1) * range;
+    const offsetX = spread(0.03);
+    const offsetY = spread(0.02);
+    const scale = 1 + spread(0.05);
+
+    return {
+      keypoints: POSE_TEMPLATE.map(([name, x, y]) => ({
+        name,
+        x: 0.5 + (x - 0.5) * scale + offsetX + spread(0.004),
+        y: 0.5 + (y - 0.5) * scale + offsetY + spread(0.004),
+        z: spread(0.05),
+        confidence: 0.8 + random() * 0.18
+      }))
+    };
+  }
+}
+
+/**
+ * Plays back poses and masks recorded with FixtureRecorder, in the order
+ * they were recorded, looping at the end. A recorded failure (null) is
+ * replayed as a failed detection.
+ */
+export class FixtureReplayBackend implements InferenceBackend {
+  readonly kind = 'replay' as const;
+  private fixture: InferenceFixture;
+  private poseCursor = 0;
+  private maskCursor = 0;
+
+  constructor(fixture: InferenceFixture) {
+    if (fixture.version !== FIXTURE_VERSION) {
+      throw new Error(`Unsupported inference fixture version: ${fixture.version}`);
+    }
+    if (fixture.poses.length === 0 && fixture.masks.length === 0) {
+      throw new Error('Inference fixture has no recorded frames');
+    }
+    this.fixture = fixture;
+  }
+
+  static async fromUrl(url: string): Promise<FixtureReplayBackend> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load inference fixture ${url}: ${response.status}`);
+    }
+    return new FixtureReplayBackend(await response.json());
+  }
+
+  async detectPose(_image: InferenceImage): Promise<PoseEstimate> {
+    const { poses } = this.fixture;
+    if (poses.length === 0) throw new Error('Inference fixture has no recorded poses');
+
+    const pose = poses[this.poseCursor % poses.length];
+    this.poseCursor++;
+    if (!pose) throw new Error('No pose detected');
+    return pose;
+  }
+
+  async segmentPerson(image: InferenceImage): Promise<ImageData> {
+    const { masks } = this.fixture;
+    if (masks.length === 0) throw new Error('Inference fixture has no recorded masks');
+
+    const mask = masks[this.maskCursor % masks.length];
+    this.maskCursor++;
+    if (!mask) throw new Error('No person segmented');
+
+    const { width, height } = imageSizeOf(image);
+    return decodeMask(mask, width, height);
+  }
+
+  rewind(): void {
+    this.poseCursor = 0;
+    this.maskCursor = 0;
+  }
+}
+
+// Collects model outputs from a live session into a fixture for FixtureReplayBackend
+export class FixtureRecorder {
+  private poses: Array<PoseEstimate | null> = [];
+  private masks: Array<EncodedMask | null> = [];
+
+  recordPose(pose: PoseEstimate | null): void {
+    this.poses.push(pose && {
+      keypoints: pose.keypoints.map(({ name, x, y, z, confidence }) => ({ name, x, y, z, confidence })),
+      pose3D: pose.pose3D
+    });
+  }
+
+  recordMask(mask: ImageData | null): void {
+    this.masks.push(mask && encodeMask(mask));
+  }
+
+  toFixture(): InferenceFixture {
+    return { version: FIXTURE_VERSION, poses: [...this.poses], masks: [...this.masks] };
+  }
+}
+
+/**
+ * Backend chosen by build configuration: VITE_INFERENCE_BACKEND of 'mock'
+ * (seeded by VITE_INFERENCE_SEED) or 'replay' (fixture JSON at
+ * VITE_INFERENCE_FIXTURE). Anything else, or no setting, means real models.
+ */
+export async function createConfiguredBackend(): Promise<InferenceBackend | null> {
+  const kind = import.meta.env.VITE_INFERENCE_BACKEND as InferenceBackendKind | undefined;
+
+  if (kind === 'mock') {
+    return new SeededMockBackend(Number(import.meta.env.VITE_INFERENCE_SEED) || 1);
+  }
+  if (kind === 'replay') {
+    const url = import.meta.env.VITE_INFERENCE_FIXTURE;
+    if (!url) throw new Error('VITE_INFERENCE_FIXTURE must point at a fixture for replay mode');
+    return FixtureReplayBackend.fromUrl(url);
+  }
+  return null;
+}
+
+// Person pixels (alpha >= 128) as alternating run lengths, background first, row-major
+function encodeMask(mask: ImageData): EncodedMask {
+  const runs: number[] = [];
+  let inside = false;
+  let length = 0;
+
+  for (let i = 3; i < mask.data.length; i += 4) {
+    const person = mask.data[i] >= 128;
+    if (person !== inside) {
+      runs.push(length);
+      inside = person;
+      length = 0;
+    }
+    length++;
+  }
+  runs.push(length);
+
+  return { width: mask.width, height: mask.height, runs };
+}
+
+// Nearest-neighbor resize, so a fixture recorded at one size replays on images of any size
+function decodeMask(mask: EncodedMask, width: number, height: number): ImageData {
+  const source = new Uint8Array(mask.width * mask.height);
+  let index = 0;
+  mask.runs.forEach((length, run) => {
+    if (run % 2 === 1) source.fill(1, index, index + length);
+    index += length;
+  });
+
+  const result = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(mask.height - 1, Math.floor((y * mask.height) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(mask.width - 1, Math.floor((x * mask.width) / width));
+      if (source[sy * mask.width + sx]) {
+        result.data.fill(255, (y * width + x) * 4, (y * width + x) * 4 + 4);
+      }
+    }
+  }
+  return result;
+}
+
+function imageSizeOf(image: InferenceImage): { width: number; height: number } {
+  const natural = image instanceof HTMLImageElement ? image : null;
+  return {
+    width: natural?.naturalWidth || image.width || 1,
+    height: natural?.naturalHeight || image.height || 1
+  };
+}
+
+// Small, fast seeded PRNG returning values in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Interfaces
+export type InferenceBackendKind = 'real' | 'mock' | 'replay';
+
+export type InferenceImage = HTMLImageElement | HTMLCanvasElement;
+
+// Model outputs the AI services build their results from; real models are used when no backend is set
+export interface InferenceBackend {
+  readonly kind: Exclude<InferenceBackendKind, 'real'>;
+  detectPose(image: InferenceImage): Promise<PoseEstimate>;
+  // Person mask at the image's size with confidence in the alpha channel
+  segmentPerson(image: InferenceImage): Promise<ImageData>;
+  // Back to the first frame, so a test can run the same sequence again
+  rewind(): void;
+}
+
+export interface PoseEstimate {
+  keypoints: Array<{
+    name: string;
+    x: number;
+    y: number;
+    z: number;
+    confidence: number;
+  }>;
+  pose3D?: any[];
+}
+
+export interface EncodedMask {
+  width: number;
+  height: number;
+  runs: number[];
+}
+
+export interface InferenceFixture {
+  version: number;
+  poses: Array<PoseEstimate | null>;
+  masks: Array<EncodedMask | null>;
+}
@@ -0,0 +1,736 @@
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { API_ROUTES, ClothingFilters, ClothingItem, RouteDefinition } from './apiContract';
+import MockDatastore, { DailyMetrics, defaultPreferences, garmentImage, StoredSession, StoredUser } from './mockDatastore';
+import { formatIssues } from './schema';
+
+const DAY = 24 * 60 * 60 * 1000;
+const SUPPORTED_PLATFORMS = ['shopify', 'woocommerce', 'magento', 'bigcommerce'];
+const METRIC_FIELDS: Record<string, keyof Omit<DailyMetrics, 'date'>> = {
+  try_ons: 'tryOns',
+  sessions: 'sessions',
+  active_users: 'sessions',
+  conversion: 'conversions',
+  conversions: 'conversions',
+  revenue: 'revenue',
+  engagement: 'averageSessionTime'
+};
+const SEASON_TAGS: Record<string, string[]> = {
+  spring: ['cotton', 'layering', 'versatile'],
+  summer: ['linen', 'summer', 'cotton'],
+  fall: ['wool', 'layering', 'versatile'],
+  winter: ['wool', 'winter', 'layering']
+};
+
+/**
+ * In-process API server for development and tests, in the style of MSW:
+ * requests are intercepted at the axios adapter, so interceptors, resilience
+ * policies and contract validation all run exactly as they do against the
+ * real API. Handlers are keyed by API contract route and read and write a
+ * seeded MockDatastore; JSON bodies are checked against the contract and
+ * rejected with a 400 when they don't match.
+ */
+class MockBackend {
+  private static instance: MockBackend;
+  readonly store: MockDatastore;
+  private handlers: MockHandler[];
+  private overrides: MockHandler[] = [];
+  private latency: number;
+
+  constructor(options: MockBackendOptions = {}) {
+    this.store = options.store ?? new MockDatastore({ seed: options.seed });
+    this.latency = options.latency ?? 0;
+    this.handlers = createDefaultHandlers();
+  }
+
+  // Shared by both API services, so writes through one are visible to the other
+  static getInstance(): MockBackend {
+    if (!MockBackend.instance) {
+      MockBackend.instance = new MockBackend({
+        seed: Number(import.meta.env.VITE_API_MOCK_SEED) || 1,
+        latency: Number(import.meta.env.VITE_API_MOCK_LATENCY ?? 120)
+      });
+    }
+    return MockBackend.instance;
+  }
+
+  // Routes every request made through the instance to this backend
+  install(instance: AxiosInstance): void {
+    instance.defaults.adapter = config => this.dispatch(config);
+  }
+
+  // Handlers that take precedence over the defaults until resetHandlers, e.g. to simulate an outage
+  use(...handlers: MockHandler[]): void {
+    this.overrides = [...handlers, ...this.overrides];
+  }
+
+  resetHandlers(): void {
+    this.overrides = [];
+  }
+
+  // Back to a freshly seeded store with the default handlers
+  reset(): void {
+    this.resetHandlers();
+    this.store.reset();
+  }
+
+  async handle(request: Omit<MockRequest, 'params' | 'store'>): Promise<MockResponse> {
+    for (const handler of [...this.overrides, ...this.handlers]) {
+      const params = matchPath(handler.path, request.path);
+      if (handler.method !== request.method || !params) continue;
+
+      const route = `${handler.method} ${handler.path}`;
+      const definition: RouteDefinition | undefined = (API_ROUTES as Record<string, RouteDefinition>)[route];
+      if (definition?.body && !(request.rawBody instanceof FormData)) {
+        const result = definition.body.validate(request.body);
+        if (!result.success) {
+          return mockResponse(
+            { message: `Request body does not match ${route}: ${formatIssues(result.issues)}`, issues: result.issues },
+            { status: 400 }
+          );
+        }
+      }
+
+      try {
+        return await handler.resolver({ ...request, params, store: this.store });
+      } catch (error) {
+        return mockResponse({ message: (error as Error).message }, { status: 500 });
+      }
+    }
+
+    console.warn(`[mock backend] No handler for ${request.method} ${request.path}`);
+    return mockResponse({ message: `No mock handler for ${request.method} ${request.path}` }, { status: 404 });
+  }
+
+  private async dispatch(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const url = new URL(config.url || '/', 'http://mock.local');
+    const query: Record<string, unknown> = Object.fromEntries(url.searchParams);
+    Object.assign(query, config.params);
+
+    if (this.latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latency));
+    }
+    if (config.signal?.aborted) {
+      throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+    }
+
+    const response = await this.handle({
+      method: (config.method || 'get').toUpperCase() as MockMethod,
+      path: url.pathname.replace(/\/+$/, '') || '/',
+      query,
+      body: parseBody(config.data),
+      rawBody: config.data,
+      headers: { ...config.headers }
+    });
+
+    // Serialized like a real response, so callers never hold references into the store
+    const axiosResponse: AxiosResponse = {
+      data: response.body === undefined ? '' : JSON.stringify(response.body),
+      status: response.status,
+      statusText: response.status < 400 ? 'OK' : 'Error',
+      headers: { 'content-type': 'application/json', ...response.headers },
+      config,
+      request: { mock: true }
+    };
+
+    if (!config.validateStatus || config.validateStatus(response.status)) {
+      return axiosResponse;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      axiosResponse.request,
+      axiosResponse
+    );
+  }
+}
+
+// Route builders, e.g. http.get('/clothing/{id}', ({ params, store }) => ...)
+export const http = {
+  get: (path: string, resolver: MockResolver): MockHandler => ({ method: 'GET', path, resolver }),
+  post: (path: string, resolver: MockResolver): MockHandler => ({ method: 'POST', path, resolver }),
+  put: (path: string, resolver: MockResolver): MockHandler => ({ method: 'PUT', path, resolver }),
+  patch: (path: string, resolver: MockResolver): MockHandler => ({ method: 'PATCH', path, resolver }),
+  delete: (path: string, resolver: MockResolver): MockHandler => ({ method: 'DELETE', path, resolver })
+};
+
+export function mockResponse(body?: unknown, init: { status?: number; headers?: Record<string, string> } = {}): MockResponse {
+  return { body, status: init.status ?? 200, headers: init.headers };
+}
+
+/**
+ * VITE_API_MOCK=true routes both API services to the mock backend and
+ * =false never does. Unset, it's used in development when no
+ * VITE_API_BASE_URL is configured, and never in production builds.
+ */
+export function isMockBackendEnabled(): boolean {
+  const setting = import.meta.env.VITE_API_MOCK;
+  if (setting === 'true') return true;
+  if (setting === 'false') return false;
+  return Boolean(import.meta.env.DEV) && !import.meta.env.VITE_API_BASE_URL;
+}
+
+function createDefaultHandlers(): MockHandler[] {
+  return [
+    // Catalog
+    http.get('/clothing', ({ query, store }) =>
+      mockResponse(store.listClothing().filter(item => matchesFilters(item, query as ClothingFilters)))
+    ),
+
+    http.get('/clothing/search', ({ query, store }) =>
+      mockResponse(searchClothing(store.listClothing(), String(query.q || '')).map(({ item }) => item))
+    ),
+
+    http.post('/clothing/search/advanced', ({ body, store }) => {
+      const { query, filters = {}, sort = 'relevance', page = 1, limit = 20, facets = ['category', 'style', 'brand', 'colors'] } = body;
+      const matches = searchClothing(store.listClothing().filter(item => matchesFilters(item, filters)), query);
+      const ranked = sortMatches(matches, sort).map(({ item }) => item);
+
+      return mockResponse({
+        items: ranked.slice((page - 1) * limit, page * limit),
+        total: ranked.length,
+        facets: Object.fromEntries(facets.map((facet: string) => [facet, countFacet(ranked, facet)])),
+        suggestions: ranked.length > 0 ? [] : suggestTerms(store.listClothing(), query)
+      });
+    }),
+
+    http.get('/clothing/{id}', ({ params, store }) => {
+      const item = store.getClothing(params.id);
+      return item ? mockResponse(item) : notFound(`Clothing item ${params.id}`);
+    }),
+
+    http.post('/recommendations', ({ body, store }) => {
+      const user = store.getUser(body.userId) ?? store.getCurrentUser();
+      if (!user) return notFound(`User ${body.userId}`);
+      return mockResponse(recommend(store.listClothing(), user, body.context.season));
+    }),
+
+    // Users
+    http.get('/user/profile', ({ store }) => {
+      const user = store.getCurrentUser();
+      return user ? mockResponse(user) : notFound('Current user');
+    }),
+
+    http.put('/user/profile', ({ body, store }) => {
+      const user = store.getCurrentUser();
+      return user ? mockResponse(store.updateProfile(user.id, body)) : notFound('Current user');
+    }),
+
+    http.post('/users', ({ body, store }) => {
+      if (!body.name.trim() || !/^[^@\s]+@[^@\s]+$/.test(body.email)) {
+        return mockResponse({ message: 'A name and a valid email are required' }, { status: 400 });
+      }
+      if (store.findUserByEmail(body.email)) {
+        return mockResponse({ message: `A user with email ${body.email} already exists` }, { status: 409 });
+      }
+      return mockResponse(store.createUser(body.name.trim(), body.email, body.preferences), { status: 201 });
+    }),
+
+    http.put('/users/{userId}/profile', ({ params, body, store }) => {
+      const user = store.updateProfile(params.userId, body);
+      return user ? mockResponse(user) : notFound(`User ${params.userId}`);
+    }),
+
+    http.get('/users/{userId}/preferences', ({ params, store }) => {
+      const user = store.getUser(params.userId);
+      return user ? mockResponse({ ...defaultPreferences(), ...user.preferences }) : notFound(`User ${params.userId}`);
+    }),
+
+    // Try-on
+    http.post('/tryon/process', request => processTryOn(request)),
+
+    http.post('/tryon/process/advanced', request => processTryOn(request)),
+
+    http.post('/tryon/sessions', ({ body, store }) => {
+      const session: StoredSession = {
+        ...body,
+        id: body.id || store.createId('session'),
+        userId: body.userId || store.getCurrentUser()?.id || 'anonymous',
+        timestamp: body.timestamp || new Date().toISOString()
+      };
+      store.saveSession(session);
+      return mockResponse({ sessionId: session.id }, { status: 201 });
+    }),
+
+    http.get('/tryon/sessions/{userId}', ({ params, query, store }) =>
+      mockResponse(store.listSessions(params.userId, Number(query.limit) || 20))
+    ),
+
+    // Analytics
+    http.post('/analytics/events', ({ body, store }) => {
+      store.recordEvent({ ...body, id: body.id || store.createId('event'), timestamp: body.timestamp || new Date().toISOString() });
+      return mockResponse(undefined, { status: 204 });
+    }),
+
+    http.get('/analytics', ({ query, store }) => {
+      const days = { '24h': 1, '7d': 7, '30d': 30, '90d': 90 }[String(query.timeRange)] || 30;
+      const metrics = store.getDailyMetrics(Date.now() - days * DAY, Date.now());
+      const overview = summarize(metrics);
+      const topCategories = ['tops', 'bottoms', 'dresses', 'outerwear', 'accessories']
+        .sort((a, b) => store.noise(`category:${b}`) - store.noise(`category:${a}`))
+        .slice(0, 3);
+      return mockResponse({ ...overview, topCategories });
+    }),
+
+    http.get('/analytics/advanced', ({ query, store }) => {
+      const end = Date.parse(String(query.endDate)) || Date.now();
+      const start = Date.parse(String(query.startDate)) || end - 30 * DAY;
+      const metrics = store.getDailyMetrics(start, end);
+      const requested = toList(query.metrics);
+
+      return mockResponse({
+        overview: summarize(metrics),
+        trends: requested.flatMap(metric => {
+          const field = METRIC_FIELDS[metric];
+          return field ? metrics.map(day => ({ date: day.date, value: day[field], metric })) : [];
+        }),
+        segments: buildSegments(metrics, store),
+        funnelAnalysis: buildFunnel(metrics),
+        cohortAnalysis: buildCohorts(metrics, store)
+      });
+    }),
+
+    http.post('/analytics/reports', ({ body, store }) => {
+      if (body.format === 'pdf') {
+        return mockResponse({ message: 'The mock backend only generates csv and json reports' }, { status: 422 });
+      }
+      const metrics = store.getDailyMetrics(Date.parse(body.startDate) || 0, Date.parse(body.endDate) || Date.now());
+      const content = body.format === 'csv'
+        ? ['date,tryOns,sessions,conversions,revenue', ...metrics.map(day => `${day.date},${day.tryOns},${day.sessions},${day.conversions},${day.revenue}`)].join('\n')
+        : JSON.stringify(metrics);
+      const report = {
+        id: store.createId('report'),
+        format: body.format,
+        url: `data:${body.format === 'csv' ? 'text/csv' : 'application/json'},${encodeURIComponent(content)}`,
+        generatedAt: new Date().toISOString()
+      };
+      store.addReport(report);
+      return mockResponse(report, { status: 201 });
+    }),
+
+    // Images
+    http.post('/images/upload', async ({ body, store }) => {
+      // Recorded try-on clips go through the same endpoint as photos
+      const file = body.image;
+      if (!(file instanceof Blob) || !/^(image|video)\//.test(file.type)) {
+        return mockResponse({ message: 'An image or video file is required' }, { status: 400 });
+      }
+
+      const url = URL.createObjectURL(file);
+      const { width, height } = file.type.startsWith('image/') ? await measureImage(file) : { width: 0, height: 0 };
+      const format = file.type.split(';')[0].split('/')[1];
+      const result = { url, thumbnailUrl: url, metadata: { width, height, size: file.size, format } };
+      store.addImage(result);
+      return mockResponse(result, { status: 201 });
+    }),
+
+    http.post('/images/optimize', ({ body }) => {
+      // Local images can't be transformed server-side, so they come back unchanged
+      if (!/^https?:/.test(body.imageUrl)) return mockResponse({ optimizedUrl: body.imageUrl });
+
+      const url = new URL(body.imageUrl);
+      const { width, height, quality, format } = body.options;
+      if (width) url.searchParams.set('w', String(width));
+      if (height) url.searchParams.set('h', String(height));
+      if (quality) url.searchParams.set('q', String(quality));
+      if (format) url.searchParams.set('fm', format);
+      return mockResponse({ optimizedUrl: url.toString() });
+    }),
+
+    // Inventory
+    http.post('/inventory/status', ({ body, store }) =>
+      mockResponse(body.itemIds.map((itemId: string) => {
+        const item = store.getClothing(itemId);
+        return {
+          itemId,
+          inStock: item?.inStock ?? false,
+          quantity: item?.inventory ?? 0,
+          lastUpdated: store.getInventoryUpdatedAt(itemId) ?? new Date().toISOString()
+        };
+      }))
+    ),
+
+    http.post('/inventory/update', ({ body, store }) => {
+      // All or nothing, so a typo in one id doesn't leave a half-applied batch
+      const unknown = body.updates.filter((update: { itemId: string }) => !store.getClothing(update.itemId));
+      if (unknown.length > 0) {
+        return notFound(`Clothing items ${unknown.map((update: { itemId: string }) => update.itemId).join(', ')}`);
+      }
+      body.updates.forEach((update: any) => store.applyInventoryUpdate(update));
+      return mockResponse(undefined, { status: 204 });
+    }),
+
+    // Integrations
+    http.post('/integrations/sync', ({ body, store }) => {
+      const platform = String(body.platform).toLowerCase();
+      if (!SUPPORTED_PLATFORMS.includes(platform)) {
+        return mockResponse({ message: `Unsupported platform ${body.platform}` }, { status: 400 });
+      }
+      // 422 rather than 401, which the API clients treat as the user's session expiring
+      if (!body.credentials || Object.keys(body.credentials).length === 0) {
+        return mockResponse({ message: `Credentials for ${platform} were rejected` }, { status: 422 });
+      }
+
+      const imported = importPlatformItems(platform, store.seed);
+      imported.forEach(item => store.upsertClothing(item));
+      const result = { success: true, itemsSynced: imported.length, errors: [], lastSyncTime: new Date().toISOString() };
+      store.recordSync(platform, result);
+      return mockResponse(result);
+    }),
+
+    http.post('/webhooks/handle', ({ body, store }) => {
+      store.recordWebhook(body);
+      if (body.event === 'inventory.updated' && typeof body.data?.itemId === 'string' && typeof body.data?.quantity === 'number') {
+        if (!store.applyInventoryUpdate({ itemId: body.data.itemId, quantity: body.data.quantity, operation: 'set' })) {
+          return notFound(`Clothing item ${body.data.itemId}`);
+        }
+      }
+      return mockResponse(undefined, { status: 204 });
+    })
+  ];
+}
+
+function processTryOn({ body, store }: MockRequest): MockResponse {
+  const ids: string[] = Array.isArray(body.clothingItems) ? body.clothingItems : [];
+  const items = ids.map(id => store.getClothing(id)).filter((item): item is ClothingItem => Boolean(item));
+  if (items.length === 0) {
+    return mockResponse({ message: 'None of the requested clothing items exist' }, { status: 400 });
+  }
+
+  const photo = body.userPhoto;
+  const processedImage = typeof photo === 'string' ? photo : photo instanceof Blob ? URL.createObjectURL(photo) : items[0].overlayImage;
+  const key = ids.join(',');
+  const aiSettings = body.aiSettings || {};
+  const steps = [
+    ['pose_detection', aiSettings.poseDetection],
+    ['segmentation', aiSettings.bodySegmentation],
+    ['fitting', aiSettings.clothingFit],
+    ['lighting', aiSettings.lightingAnalysis]
+  ].filter(([, enabled]) => enabled !== false).map(([step]) => step as string);
+
+  // Other items in the same categories and styles, as a real stylist model would suggest
+  const selected = new Set(ids);
+  const recommendations = store.listClothing()
+    .filter(item => !selected.has(item.id) && item.inStock && items.some(chosen => chosen.style === item.style && chosen.category !== item.category))
+    .slice(0, 3)
+    .map(item => item.id);
+
+  store.recordEvent({
+    id: store.createId('event'),
+    type: 'tryon',
+    category: 'tryon',
+    action: 'process',
+    customDimensions: { items: ids },
+    timestamp: new Date().toISOString()
+  });
+
+  return mockResponse({
+    processedImage,
+    confidence: Math.round((0.8 + store.noise(`confidence:${key}`) * 0.15) * 100) / 100,
+    processingTime: Math.round((1.5 + store.noise(`time:${key}`) * 2) * 10) / 10,
+    recommendations,
+    metadata: { aiVersion: 'mock-1', processingSteps: steps }
+  });
+}
+
+function matchesFilters(item: ClothingItem, filters: ClothingFilters | Record<string, unknown>): boolean {
+  const { category, style, priceMin, priceMax, colors, brands, sizes, inStock, rating, tags } = filters as Record<string, unknown>;
+  const overlaps = (wanted: unknown, values: string[]) => {
+    const list = toList(wanted);
+    return list.length === 0 || list.some(value => values.includes(value));
+  };
+
+  return (!category || category === 'all' || item.category === category)
+    && (!style || style === 'all' || item.style === style)
+    && (priceMin === undefined || item.price >= Number(priceMin))
+    && (priceMax === undefined || item.price <= Number(priceMax))
+    && (rating === undefined || item.rating >= Number(rating))
+    && (inStock === undefined || item.inStock === (inStock === true || inStock === 'true'))
+    && overlaps(colors, item.colors)
+    && overlaps(brands, [item.brand])
+    && overlaps(sizes, item.sizes)
+    && overlaps(tags, item.tags);
+}
+
+// Every term has to match somewhere; names weigh most, then tags, then the other fields
+function searchClothing(items: ClothingItem[], query: string): ScoredItem[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return items.map(item => ({ item, score: 0 }));
+
+  return items.flatMap(item => {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = (item.name.toLowerCase().includes(term) ? 3 : 0)
+        + (item.tags.some(tag => tag.includes(term)) ? 2 : 0)
+        + ([item.brand, item.category, item.style, ...item.colors].some(value => value.toLowerCase().includes(term)) ? 1 : 0);
+      if (termScore === 0) return [];
+      score += termScore;
+    }
+    return [{ item, score }];
+  });
+}
+
+function sortMatches(matches: ScoredItem[], sort: string): ScoredItem[] {
+  const sorted = [...matches];
+  switch (sort) {
+    case 'price':
+      return sorted.sort((a, b) => a.item.price - b.item.price);
+    case 'rating':
+      return sorted.sort((a, b) => b.item.rating - a.item.rating);
+    case 'newest':
+      return sorted.sort((a, b) => b.item.id.localeCompare(a.item.id));
+    default:
+      return sorted.sort((a, b) => b.score - a.score);
+  }
+}
+
+function countFacet(items: ClothingItem[], facet: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  items.forEach(item => {
+    const value = (item as Record<string, unknown>)[facet];
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach(entry => {
+      counts[String(entry)] = (counts[String(entry)] || 0) + 1;
+    });
+  });
+  return counts;
+}
+
+// Names and tags sharing the start of the first term, for "did you mean"
+function suggestTerms(items: ClothingItem[], query: string): string[] {
+  const prefix = query.toLowerCase().trim().slice(0, 3);
+  if (!prefix) return [];
+
+  const candidates = new Set<string>();
+  items.forEach(item => {
+    [item.name, ...item.tags].forEach(value => {
+      if (value.toLowerCase().split(/\s+/).some(word => word.startsWith(prefix))) candidates.add(value);
+    });
+  });
+  return [...candidates].slice(0, 5);
+}
+
+function recommend(items: ClothingItem[], user: StoredUser, season: string) {
+  const { styles, colors, brands, priceRange } = user.preferences;
+  const seasonTags = SEASON_TAGS[season] || [];
+
+  return items
+    .filter(item => item.inStock)
+    .map(item => {
+      const reasons: string[] = [];
+      let score = (item.rating / 5) * 0.1;
+      if (styles.includes(item.style)) {
+        score += 0.3;
+        reasons.push(`Matches your ${item.style} style`);
+      }
+      if (item.colors.some(color => colors.includes(color))) {
+        score += 0.25;
+        reasons.push('In colors you like');
+      }
+      if (brands.includes(item.brand)) {
+        score += 0.15;
+        reasons.push(`From ${item.brand}, a brand you follow`);
+      }
+      if (item.price >= priceRange[0] && item.price <= priceRange[1]) {
+        score += 0.2;
+        reasons.push('Within your budget');
+      }
+      if (item.tags.some(tag => seasonTags.includes(tag))) {
+        score += 0.1;
+        reasons.push(`Suits ${season}`);
+      }
+      return { item, score: Math.round(score * 100) / 100, reasons };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 8);
+}
+
+function summarize(metrics: DailyMetrics[]) {
+  const total = (field: keyof Omit<DailyMetrics, 'date'>) => metrics.reduce((sum, day) => sum + day[field], 0);
+  const sessions = total('sessions');
+  const timedDays = metrics.filter(day => day.averageSessionTime > 0);
+
+  return {
+    totalTryOns: total('tryOns'),
+    conversionRate: sessions > 0 ? Math.round((total('conversions') / sessions) * 1000) / 10 : 0,
+    averageSessionTime: timedDays.length > 0
+      ? Math.round((timedDays.reduce((sum, day) => sum + day.averageSessionTime, 0) / timedDays.length) * 10) / 10
+      : 0,
+    revenueImpact: total('revenue')
+  };
+}
+
+function buildSegments(metrics: DailyMetrics[], store: MockDatastore) {
+  const sessions = metrics.reduce((sum, day) => sum + day.sessions, 0);
+  const { conversionRate } = summarize(metrics);
+
+  return [['New visitors', 0.45], ['Returning', 0.55], ['Mobile', 0.62], ['Desktop', 0.38]].map(([name, share]) => ({
+    name: name as string,
+    size: Math.round(sessions * (share as number)),
+    conversionRate: Math.round(conversionRate * (0.8 + store.noise(`segment:${name}`) * 0.4) * 10) / 10,
+    averageOrderValue: Math.round(60 + store.noise(`aov:${name}`) * 50)
+  }));
+}
+
+function buildFunnel(metrics: DailyMetrics[]) {
+  const total = (field: 'tryOns' | 'sessions' | 'conversions') => metrics.reduce((sum, day) => sum + day[field], 0);
+  const visited = Math.round(total('sessions') * 1.6);
+  const counts: Array<[string, number]> = [
+    ['Visited', visited],
+    ['Uploaded photo', total('sessions')],
+    ['Tried on', Math.min(total('sessions'), total('tryOns'))],
+    ['Added to cart', Math.round((total('sessions') + total('conversions')) / 2.5)],
+    ['Purchased', total('conversions')]
+  ];
+
+  return {
+    steps: counts.map(([name, users]) => ({
+      name,
+      users,
+      conversionRate: visited > 0 ? Math.round((users / visited) * 1000) / 10 : 0
+    }))
+  };
+}
+
+// Weekly cohorts from the range, each retaining a decaying share in later weeks
+function buildCohorts(metrics: DailyMetrics[], store: MockDatastore) {
+  const weeks: DailyMetrics[][] = [];
+  for (let index = 0; index < metrics.length; index += 7) {
+    weeks.push(metrics.slice(index, index + 7));
+  }
+
+  return {
+    cohorts: weeks.slice(-6).map((week, index, recent) => ({
+      period: week[0].date,
+      size: week.reduce((sum, day) => sum + day.sessions, 0),
+      retention: Array.from({ length: recent.length - index }, (_, offset) =>
+        offset === 0 ? 100 : Math.round(100 * Math.pow(0.55 + store.noise(`cohort:${week[0].date}`) * 0.15, offset))
+      )
+    }))
+  };
+}
+
+function importPlatformItems(platform: string, seed: number): ClothingItem[] {
+  return ['Everyday Tee', 'Straight Jeans', 'Linen Shirt'].map((name, index) => ({
+    id: `${platform}_${String(index + 1).padStart(3, '0')}`,
+    name: `${name} (${platform})`,
+    category: index === 1 ? 'bottoms' : 'tops',
+    style: 'casual',
+    colors: [index === 1 ? 'navy' : 'white'],
+    brand: platform,
+    price: 25 + ((seed + index * 17) % 60),
+    image: garmentImage(index === 1 ? 'bottoms' : 'tops', index === 1 ? 'navy' : 'white', 500),
+    overlayImage: garmentImage(index === 1 ? 'bottoms' : 'tops', index === 1 ? 'navy' : 'white', 300),
+    tags: ['imported', 'cotton'],
+    rating: 4,
+    sizes: ['S', 'M', 'L'],
+    inStock: true,
+    inventory: 50
+  }));
+}
+
+async function measureImage(file: Blob): Promise<{ width: number; height: number }> {
+  if (typeof createImageBitmap !== 'function') return { width: 0, height: 0 };
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch (error) {
+    return { width: 0, height: 0 };
+  }
+}
+
+function notFound(what: string): MockResponse {
+  return mockResponse({ message: `${what} not found` }, { status: 404 });
+}
+
+// "/users/{userId}/profile" against "/users/user_001/profile" gives { userId: 'user_001' }
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const name = /^\{(\w+)\}$/.exec(patternParts[i])?.[1];
+    if (name) {
+      params[name] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// Request data after axios's transforms: a JSON string, FormData, or nothing
+function parseBody(data: unknown): any {
+  if (data instanceof FormData) {
+    const fields: Record<string, unknown> = {};
+    data.forEach((value, key) => {
+      // Structured fields are appended as JSON strings
+      fields[key] = typeof value === 'string' ? parseJson(value) : value;
+    });
+    return fields;
+  }
+  return typeof data === 'string' ? parseJson(data) : data ?? {};
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value) return value.split(',');
+  return [];
+}
+
+// Interfaces
+export type MockMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MockRequest {
+  method: MockMethod;
+  path: string;
+  // Path parameters named in the handler's route, e.g. {id}
+  params: Record<string, string>;
+  query: Record<string, any>;
+  // Parsed JSON, or FormData fields with JSON values parsed
+  body: any;
+  rawBody: unknown;
+  headers: Record<string, unknown>;
+  store: MockDatastore;
+}
+
+export interface MockResponse {
+  status: number;
+  // Omitted for empty responses such as 204
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockResolver = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockHandler {
+  method: MockMethod;
+  // Contract-style path, e.g. "/clothing/{id}"
+  path: string;
+  resolver: MockResolver;
+}
+
+export interface MockBackendOptions {
+  seed?: number;
+  store?: MockDatastore;
+  // Added to every response, in ms
+  latency?: number;
+}
+
+interface ScoredItem {
+  item: ClothingItem;
+  score: number;
+}
+
+export default MockBackend;
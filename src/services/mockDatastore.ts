@@ -0,0 +1,422 @@
+import {
+  AdvancedAnalyticsEvent,
+  AnalyticsReport,
+  ClothingItem,
+  EnhancedTryOnSession,
+  ImageUploadResult,
+  InventoryUpdate,
+  SyncResult,
+  User,
+  UserPreferences,
+  UserProfile,
+  WebhookData
+} from './apiContract';
+
+const DAY = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 90;
+
+const CATEGORIES: Record<string, string[]> = {
+  tops: ['Button Shirt', 'Crew Tee', 'Silk Blouse', 'Knit Sweater', 'Polo'],
+  bottoms: ['Chinos', 'Slim Jeans', 'Pleated Trousers', 'Midi Skirt', 'Cargo Pants'],
+  dresses: ['Wrap Dress', 'Slip Dress', 'Shirt Dress', 'Maxi Dress'],
+  outerwear: ['Trench Coat', 'Denim Jacket', 'Wool Blazer', 'Puffer Jacket'],
+  accessories: ['Leather Belt', 'Silk Scarf', 'Canvas Tote', 'Knit Beanie']
+};
+const STYLES = ['casual', 'formal', 'business', 'trendy', 'classic', 'bohemian', 'minimalist'];
+const ADJECTIVES = ['Classic', 'Relaxed', 'Tailored', 'Vintage', 'Essential', 'Modern', 'Oversized', 'Cropped'];
+const BRANDS = ['StyleCo', 'Northline', 'Atelier Nine', 'Common Thread', 'Verde', 'Kin & Co'];
+const TAGS = ['cotton', 'linen', 'wool', 'organic', 'stretch', 'versatile', 'layering', 'professional', 'weekend', 'summer', 'winter'];
+const SIZES = ['XS', 'S', 'M', 'L', 'XL'];
+const PALETTE: Record<string, string> = {
+  white: '#f5f5f4',
+  black: '#1c1917',
+  navy: '#1e3a5f',
+  beige: '#d6c7a1',
+  olive: '#6b7041',
+  burgundy: '#7f1d1d',
+  'light-blue': '#93c5fd',
+  blush: '#f4c2c2',
+  gray: '#9ca3af',
+  camel: '#c19a6b'
+};
+const FIRST_NAMES = ['Alex', 'Sam', 'Jordan', 'Taylor', 'Morgan', 'Riley', 'Casey', 'Avery'];
+const LAST_NAMES = ['Rivera', 'Chen', 'Okafor', 'Novak', 'Haddad', 'Silva', 'Kim', 'Moreau'];
+
+/**
+ * In-memory data behind the mock backend. Everything is generated from the
+ * seed, so the same seed always gives the same catalog, users and analytics
+ * history; writes through the mock API change it until reset(). `now` fixes
+ * the end of the analytics history for reproducible dates.
+ */
+class MockDatastore {
+  readonly seed: number;
+  private now: number;
+  private nextId = 1;
+  private clothing: ClothingItem[] = [];
+  private inventoryUpdatedAt = new Map<string, string>();
+  private users = new Map<string, StoredUser>();
+  private currentUserId = '';
+  private sessions: StoredSession[] = [];
+  private events: StoredEvent[] = [];
+  private reports: AnalyticsReport[] = [];
+  private images: ImageUploadResult[] = [];
+  private webhooks: StoredWebhook[] = [];
+  private syncs = new Map<string, SyncResult>();
+  private dailyMetrics: DailyMetrics[] = [];
+
+  constructor(options: MockDatastoreOptions = {}) {
+    this.seed = options.seed ?? 1;
+    this.now = options.now ?? Date.now();
+    this.reset();
+  }
+
+  // Drops every write and regenerates the seeded data
+  reset(): void {
+    const random = mulberry32(this.seed);
+    this.nextId = 1;
+    this.clothing = generateClothing(random);
+    this.inventoryUpdatedAt = new Map(this.clothing.map(item => [item.id, new Date(this.now).toISOString()]));
+    this.users = new Map(generateUsers(random, this.now).map(user => [user.id, user]));
+    this.currentUserId = this.users.keys().next().value ?? '';
+    this.sessions = [];
+    this.events = [];
+    this.reports = [];
+    this.images = [];
+    this.webhooks = [];
+    this.syncs = new Map();
+    this.dailyMetrics = generateDailyMetrics(random, this.now);
+  }
+
+  createId(prefix: string): string {
+    return `${prefix}_${String(this.nextId++).padStart(4, '0')}`;
+  }
+
+  // Clothing and inventory
+  listClothing(): ClothingItem[] {
+    return this.clothing;
+  }
+
+  getClothing(id: string): ClothingItem | undefined {
+    return this.clothing.find(item => item.id === id);
+  }
+
+  getInventoryUpdatedAt(id: string): string | undefined {
+    return this.inventoryUpdatedAt.get(id);
+  }
+
+  // Returns false for unknown items; stock never goes below zero
+  applyInventoryUpdate({ itemId, quantity, operation }: InventoryUpdate): boolean {
+    const item = this.getClothing(itemId);
+    if (!item) return false;
+
+    const next = operation === 'set' ? quantity : operation === 'add' ? item.inventory + quantity : item.inventory - quantity;
+    item.inventory = Math.max(0, Math.round(next));
+    item.inStock = item.inventory > 0;
+    this.inventoryUpdatedAt.set(itemId, new Date().toISOString());
+    return true;
+  }
+
+  // Synced platforms add their items to the catalog, replacing earlier copies
+  upsertClothing(item: ClothingItem): void {
+    const index = this.clothing.findIndex(existing => existing.id === item.id);
+    if (index === -1) {
+      this.clothing.push(item);
+    } else {
+      this.clothing[index] = item;
+    }
+    this.inventoryUpdatedAt.set(item.id, new Date().toISOString());
+  }
+
+  // Users
+  getCurrentUser(): StoredUser | undefined {
+    return this.users.get(this.currentUserId);
+  }
+
+  getUser(id: string): StoredUser | undefined {
+    return this.users.get(id);
+  }
+
+  findUserByEmail(email: string): StoredUser | undefined {
+    return [...this.users.values()].find(user => user.email.toLowerCase() === email.toLowerCase());
+  }
+
+  createUser(name: string, email: string, preferences?: Partial<UserPreferences>): User {
+    const user: StoredUser = {
+      id: this.createId('user'),
+      name,
+      email,
+      createdAt: new Date().toISOString(),
+      preferences: { ...defaultPreferences(), ...preferences }
+    };
+    this.users.set(user.id, user);
+    return { id: user.id, name: user.name, email: user.email, createdAt: user.createdAt };
+  }
+
+  updateProfile(id: string, updates: Partial<UserProfile>): StoredUser | undefined {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    // The id and creation date belong to the server
+    const { id: _id, createdAt: _createdAt, preferences, ...fields } = updates;
+    Object.assign(user, fields);
+    if (preferences && typeof preferences === 'object') {
+      user.preferences = { ...user.preferences, ...preferences };
+    }
+    return user;
+  }
+
+  // Try-on sessions, newest first
+  saveSession(session: StoredSession): void {
+    this.sessions = [session, ...this.sessions.filter(existing => existing.id !== session.id)];
+  }
+
+  listSessions(userId: string, limit: number): StoredSession[] {
+    return this.sessions.filter(session => session.userId === userId).slice(0, limit);
+  }
+
+  // Analytics
+  recordEvent(event: StoredEvent): void {
+    this.events.push(event);
+  }
+
+  listEvents(): StoredEvent[] {
+    return this.events;
+  }
+
+  // Seeded history plus a day for today that counts live events
+  getDailyMetrics(start: number, end: number): DailyMetrics[] {
+    const today = startOfDay(Date.now());
+    const live = this.events.filter(event => Date.parse(event.timestamp) >= today);
+    const todayMetrics: DailyMetrics = {
+      date: new Date(today).toISOString().slice(0, 10),
+      tryOns: live.filter(event => event.type === 'tryon').length,
+      sessions: new Set(live.map(event => event.sessionId)).size,
+      conversions: live.filter(event => event.type === 'conversion').length,
+      revenue: live.filter(event => event.type === 'conversion').reduce((total, event) => total + (event.value || 0), 0),
+      averageSessionTime: 0
+    };
+
+    const history = this.dailyMetrics.filter(day => Date.parse(day.date) < today);
+    return [...history, todayMetrics].filter(day => {
+      const time = Date.parse(day.date);
+      return time >= startOfDay(start) && time <= end;
+    });
+  }
+
+  addReport(report: AnalyticsReport): void {
+    this.reports.push(report);
+  }
+
+  listReports(): AnalyticsReport[] {
+    return this.reports;
+  }
+
+  // Images, webhooks and integrations
+  addImage(image: ImageUploadResult): void {
+    this.images.push(image);
+  }
+
+  listImages(): ImageUploadResult[] {
+    return this.images;
+  }
+
+  recordWebhook(webhook: WebhookData): void {
+    this.webhooks.push({ ...webhook, receivedAt: new Date().toISOString() });
+  }
+
+  listWebhooks(): StoredWebhook[] {
+    return this.webhooks;
+  }
+
+  recordSync(platform: string, result: SyncResult): void {
+    this.syncs.set(platform, result);
+  }
+
+  getSync(platform: string): SyncResult | undefined {
+    return this.syncs.get(platform);
+  }
+
+  // Deterministic 0-1 value for a key, for per-request numbers that must not shift other seeded data
+  noise(key: string): number {
+    let hash = this.seed;
+    for (let i = 0; i < key.length; i++) {
+      hash = Math.imul(hash ^ key.charCodeAt(i), 0x5bd1e995);
+    }
+    return mulberry32(hash)();
+  }
+}
+
+export function defaultPreferences(): UserPreferences {
+  return {
+    styles: [],
+    colors: [],
+    brands: [],
+    priceRange: [0, 500],
+    notifications: {
+      email: true,
+      push: false,
+      sms: false
+    }
+  };
+}
+
+// Flat-color garment silhouette, so the catalog renders without network access
+export function garmentImage(category: string, color: string, width = 300): string {
+  const fill = PALETTE[color] || '#9ca3af';
+  const shapes: Record<string, string> = {
+    tops: 'M30 20 L45 10 L55 10 L70 20 L85 35 L75 45 L68 38 L68 90 L32 90 L32 38 L25 45 L15 35 Z',
+    bottoms: 'M30 10 L70 10 L75 90 L57 90 L50 35 L43 90 L25 90 Z',
+    dresses: 'M40 8 L60 8 L62 30 L80 90 L20 90 L38 30 Z',
+    outerwear: 'M28 15 L45 8 L55 8 L72 15 L88 40 L78 48 L72 40 L72 92 L28 92 L28 40 L22 48 L12 40 Z',
+    accessories: 'M25 40 L75 40 L80 85 L20 85 Z M38 40 Q38 20 50 20 Q62 20 62 40'
+  };
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${width}" viewBox="0 0 100 100">`
+    + `<rect width="100" height="100" fill="#fafaf9"/>`
+    + `<path d="${shapes[category] || shapes.tops}" fill="${fill}" stroke="#44403c" stroke-width="1.5"/></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+function generateClothing(random: () => number): ClothingItem[] {
+  const items: ClothingItem[] = [];
+  const colors = Object.keys(PALETTE);
+
+  Object.entries(CATEGORIES).forEach(([category, garments]) => {
+    garments.forEach(garment => {
+      // Two variants per garment so filters and facets have something to narrow
+      for (let variant = 0; variant < 2; variant++) {
+        const itemColors = pickSome(random, colors, 1 + Math.floor(random() * 3));
+        const inventory = random() < 0.1 ? 0 : Math.floor(random() * 200);
+        items.push({
+          id: `item_${String(items.length + 1).padStart(3, '0')}`,
+          name: `${pick(random, ADJECTIVES)} ${garment}`,
+          category,
+          style: pick(random, STYLES),
+          colors: itemColors,
+          brand: pick(random, BRANDS),
+          price: Math.round((category === 'accessories' ? 15 : 30) + random() * (category === 'outerwear' ? 270 : 170)),
+          image: garmentImage(category, itemColors[0], 500),
+          overlayImage: garmentImage(category, itemColors[0], 300),
+          tags: pickSome(random, TAGS, 2 + Math.floor(random() * 2)),
+          rating: Math.round((3.2 + random() * 1.8) * 10) / 10,
+          sizes: category === 'accessories' ? ['One Size'] : SIZES.filter(() => random() > 0.15),
+          inStock: inventory > 0,
+          inventory
+        });
+      }
+    });
+  });
+
+  return items;
+}
+
+function generateUsers(random: () => number, now: number): StoredUser[] {
+  return FIRST_NAMES.map((first, index) => {
+    const last = LAST_NAMES[index];
+    const low = Math.round(random() * 50);
+    return {
+      id: `user_${String(index + 1).padStart(3, '0')}`,
+      name: `${first} ${last}`,
+      email: `${first}.${last}@example.com`.toLowerCase(),
+      createdAt: new Date(now - Math.floor(random() * 365) * DAY).toISOString(),
+      preferences: {
+        styles: pickSome(random, STYLES, 2),
+        colors: pickSome(random, Object.keys(PALETTE), 3),
+        brands: pickSome(random, BRANDS, 2),
+        priceRange: [low, low + 100 + Math.round(random() * 200)],
+        notifications: { email: random() > 0.3, push: random() > 0.5, sms: random() > 0.8 }
+      }
+    };
+  });
+}
+
+function generateDailyMetrics(random: () => number, now: number): DailyMetrics[] {
+  const today = startOfDay(now);
+  const days: DailyMetrics[] = [];
+
+  for (let offset = HISTORY_DAYS; offset >= 1; offset--) {
+    const date = today - offset * DAY;
+    // Slow growth with a weekend bump, so trend charts have a visible shape
+    const weekday = new Date(date).getUTCDay();
+    const base = 120 + (HISTORY_DAYS - offset) * 1.5 + (weekday === 0 || weekday === 6 ? 40 : 0);
+    const tryOns = Math.round(base * (0.8 + random() * 0.4));
+    const sessions = Math.round(tryOns * (0.55 + random() * 0.15));
+    const conversions = Math.round(sessions * (0.18 + random() * 0.08));
+    days.push({
+      date: new Date(date).toISOString().slice(0, 10),
+      tryOns,
+      sessions,
+      conversions,
+      revenue: Math.round(conversions * (60 + random() * 40)),
+      averageSessionTime: Math.round((4 + random() * 3) * 10) / 10
+    });
+  }
+
+  return days;
+}
+
+function startOfDay(time: number): number {
+  return Math.floor(time / DAY) * DAY;
+}
+
+function pick<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function pickSome<T>(random: () => number, values: T[], count: number): T[] {
+  const pool = [...values];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// Small, fast seeded PRNG returning values in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Interfaces
+export interface MockDatastoreOptions {
+  seed?: number;
+  // End of the generated analytics history, in ms since the epoch
+  now?: number;
+}
+
+export interface StoredUser extends UserProfile {
+  preferences: UserPreferences;
+}
+
+export type StoredSession = Omit<EnhancedTryOnSession, 'metadata'> & Partial<Pick<EnhancedTryOnSession, 'metadata'>> & {
+  id: string;
+  userId: string;
+};
+
+export interface StoredEvent extends AdvancedAnalyticsEvent {
+  id: string;
+  timestamp: string;
+  sessionId?: string;
+}
+
+export interface StoredWebhook extends WebhookData {
+  receivedAt: string;
+}
+
+export interface DailyMetrics {
+  // YYYY-MM-DD, UTC
+  date: string;
+  tryOns: number;
+  sessions: number;
+  conversions: number;
+  revenue: number;
+  averageSessionTime: number;
+}
+
+export default MockDatastore;
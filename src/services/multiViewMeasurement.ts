@@ -0,0 +1,304 @@
+import BodyCalibrationService, { ImageScale, ImageSize, MeasurementErrors } from './bodyCalibration';
+import { Centimeters } from '../types/enhanced';
+
+const MIN_VISIBILITY = 0.5;
+// Bodies aren't true ellipses; spread of ellipse vs tape-measure circumference
+const ELLIPSE_MODEL_ERROR = 0.03;
+
+// Torso bands (0 = shoulder line, 1 = hip joints) searched in the front silhouette
+const TORSO_BANDS: Record<CircumferenceKey, { from: number; to: number; pick: 'max' | 'min' }> = {
+  chest: { from: 0.15, to: 0.4, pick: 'max' },
+  waist: { from: 0.5, to: 0.85, pick: 'min' },
+  hips: { from: 0.95, to: 1.25, pick: 'max' }
+};
+
+// Used when no segmentation mask is available: breadth from landmarks, depth as a share of breadth
+const LANDMARK_FALLBACK: Record<CircumferenceKey, { breadth: 'shoulders' | 'hips'; widthRatio: number; depthRatio: number; modelError: number }> = {
+  chest: { breadth: 'shoulders', widthRatio: 0.9, depthRatio: 0.75, modelError: 0.1 },
+  waist: { breadth: 'hips', widthRatio: 1.4, depthRatio: 0.72, modelError: 0.12 },
+  hips: { breadth: 'hips', widthRatio: 1.6, depthRatio: 0.78, modelError: 0.1 }
+};
+
+class MultiViewMeasurementFusion {
+  private calibration = BodyCalibrationService.getInstance();
+
+  validateView(view: CaptureView, keypoints: PoseKeypoint[]): ViewValidation {
+    const issues: string[] = [];
+    const get = (name: string) => keypoints.find(point => point.name === name);
+    const required = ['nose', 'leftShoulder', 'rightShoulder', 'leftHip', 'rightHip', 'leftAnkle', 'rightAnkle'];
+
+    const missing = required.filter(name => {
+      const point = get(name);
+      return !point || point.y < 0 || point.y > 1 || (view !== 'side' && name !== 'nose' && point.confidence < MIN_VISIBILITY);
+    });
+    if (missing.length > 0) {
+      issues.push('Step back so your whole body, head to feet, is in frame');
+    }
+
+    const leftShoulder = get('leftShoulder');
+    const rightShoulder = get('rightShoulder');
+    const leftHip = get('leftHip');
+    const rightHip = get('rightHip');
+    const nose = get('nose');
+
+    if (leftShoulder && rightShoulder && leftHip && rightHip) {
+      const torsoLength = Math.abs((leftHip.y + rightHip.y) / 2 - (leftShoulder.y + rightShoulder.y) / 2);
+      const shoulderSpan = Math.abs(leftShoulder.x - rightShoulder.x) / Math.max(torsoLength, 0.01);
+
+      if (view === 'side' && shoulderSpan > 0.3) {
+        issues.push('Turn 90° so your side faces the camera');
+      }
+
+      if (view !== 'side') {
+        if (shoulderSpan < 0.5 || Math.abs(leftShoulder.z - rightShoulder.z) > 0.2) {
+          issues.push(view === 'front' ? 'Face the camera squarely' : 'Turn your back squarely to the camera');
+        }
+
+        const leftWrist = get('leftWrist');
+        const rightWrist = get('rightWrist');
+        const hipSpan = Math.abs(leftHip.x - rightHip.x);
+        const armsAway = leftWrist && rightWrist &&
+          Math.abs(leftWrist.x - rightWrist.x) > hipSpan * 2.2;
+        if (!armsAway) {
+          issues.push('Hold your arms slightly away from your body');
+        }
+      }
+    }
+
+    if (view === 'front' && nose && nose.confidence < MIN_VISIBILITY) {
+      issues.push('Face the camera so your face is visible');
+    }
+
+    if (view === 'back' && nose && nose.confidence > 0.7) {
+      issues.push('Turn around so your back faces the camera');
+    }
+
+    // In a side view the far limbs are occluded, so score each left/right pair by its better side
+    const pairs = [['leftShoulder', 'rightShoulder'], ['leftHip', 'rightHip'], ['leftAnkle', 'rightAnkle']];
+    const scores = pairs.map(([left, right]) => {
+      const leftScore = get(left)?.confidence ?? 0;
+      const rightScore = get(right)?.confidence ?? 0;
+      return view === 'side' ? Math.max(leftScore, rightScore) : (leftScore + rightScore) / 2;
+    });
+
+    return {
+      view,
+      valid: issues.length === 0,
+      issues,
+      confidence: scores.reduce((sum, score) => sum + score, 0) / scores.length
+    };
+  }
+
+  fuse(captures: ViewCapture[]): MultiViewFusionResult {
+    const front = captures.find(capture => capture.view === 'front');
+    const side = captures.find(capture => capture.view === 'side');
+    const back = captures.find(capture => capture.view === 'back');
+
+    if (!front || !side) {
+      throw new Error('Front and side photos are required');
+    }
+
+    const invalid = [front, side, back].filter(capture => capture && !capture.validation.valid);
+    if (invalid.length > 0) {
+      throw new Error(`Retake the ${invalid.map(capture => capture!.view).join(' and ')} photo`);
+    }
+
+    const frontScale = this.getScale(front);
+    const sideScale = this.getScale(side);
+    const backScale = back ? this.getScale(back) : null;
+
+    const circumferences = {} as Record<CircumferenceKey, Centimeters>;
+    const errors = {} as Pick<MeasurementErrors, CircumferenceKey>;
+    let usedSilhouette = true;
+
+    (Object.keys(TORSO_BANDS) as CircumferenceKey[]).forEach(key => {
+      const width = this.measureWidth(front, frontScale, key);
+      const depth = this.measureDepth(side, sideScale, width.level);
+      usedSilhouette = usedSilhouette && width.fromSilhouette && depth.fromSilhouette;
+
+      // A back photo gives a second, independent width reading
+      let frontWidth = width.value;
+      let widthError = width.error;
+      if (back && backScale) {
+        const backWidth = this.measureWidth(back, backScale, key);
+        frontWidth = (width.value + backWidth.value) / 2;
+        widthError = Math.sqrt(Math.pow(width.error, 2) + Math.pow(backWidth.error, 2)) / 2;
+      }
+
+      const fallbackDepth = depth.fromSilhouette ? null : frontWidth * LANDMARK_FALLBACK[key].depthRatio;
+      const depthValue = fallbackDepth ?? depth.value;
+      const depthError = fallbackDepth !== null ? fallbackDepth * LANDMARK_FALLBACK[key].modelError : depth.error;
+
+      const circumference = this.ellipseCircumference(frontWidth / 2, depthValue / 2);
+      circumferences[key] = circumference;
+      errors[key] = Math.sqrt(
+        Math.pow(Math.PI * Math.sqrt(Math.pow(widthError / 2, 2) + Math.pow(depthError / 2, 2)), 2) +
+        Math.pow(circumference * ELLIPSE_MODEL_ERROR, 2)
+      );
+    });
+
+    const viewConfidence = [front, side, back]
+      .filter((capture): capture is ViewCapture => Boolean(capture))
+      .reduce((product, capture) => product * capture.validation.confidence, 1);
+    const relativeError = (Object.keys(circumferences) as CircumferenceKey[])
+      .reduce((sum, key) => sum + errors[key] / circumferences[key], 0) / 3;
+
+    return {
+      circumferences,
+      errors,
+      confidence: Math.max(0, Math.min(1, viewConfidence * (1 - relativeError))),
+      usedSilhouette
+    };
+  }
+
+  // Private helper methods
+  private getScale(capture: ViewCapture): ImageScale {
+    const scale = this.calibration.getScale(capture.keypoints, capture.imageSize);
+    if (!scale) {
+      throw new Error(`Could not determine scale from the ${capture.view} photo`);
+    }
+    return scale;
+  }
+
+  private getTorso(capture: ViewCapture): { shoulderY: number; hipY: number; centerX: number } {
+    const get = (name: string) => capture.keypoints.find(point => point.name === name)!;
+    const shoulderY = (get('leftShoulder').y + get('rightShoulder').y) / 2;
+    const hipY = (get('leftHip').y + get('rightHip').y) / 2;
+    const centerX = (get('leftShoulder').x + get('rightShoulder').x + get('leftHip').x + get('rightHip').x) / 4;
+    return { shoulderY, hipY, centerX };
+  }
+
+  private measureWidth(capture: ViewCapture, scale: ImageScale, key: CircumferenceKey): SilhouetteReading {
+    const band = TORSO_BANDS[key];
+    const torso = this.getTorso(capture);
+
+    if (capture.mask) {
+      let best: { level: number; pixels: number } | null = null;
+      const steps = 12;
+
+      for (let i = 0; i <= steps; i++) {
+        const level = band.from + (band.to - band.from) * (i / steps);
+        const y = torso.shoulderY + (torso.hipY - torso.shoulderY) * level;
+        const pixels = this.scanRow(capture.mask, y, torso.centerX);
+        if (pixels <= 0) continue;
+
+        if (!best || (band.pick === 'max' ? pixels > best.pixels : pixels < best.pixels)) {
+          best = { level, pixels };
+        }
+      }
+
+      if (best) {
+        return this.toReading(best.pixels, best.level, scale, true);
+      }
+    }
+
+    const fallback = LANDMARK_FALLBACK[key];
+    const names = fallback.breadth === 'shoulders' ? ['leftShoulder', 'rightShoulder'] : ['leftHip', 'rightHip'];
+    const [a, b] = names.map(name => capture.keypoints.find(point => point.name === name)!);
+    const pixels = Math.hypot((a.x - b.x) * capture.imageSize.width, (a.y - b.y) * capture.imageSize.height) * fallback.widthRatio;
+    const reading = this.toReading(pixels, (band.from + band.to) / 2, scale, false);
+
+    return { ...reading, error: Math.sqrt(Math.pow(reading.error, 2) + Math.pow(reading.value * fallback.modelError, 2)) };
+  }
+
+  private measureDepth(capture: ViewCapture, scale: ImageScale, level: number): SilhouetteReading {
+    if (!capture.mask) {
+      return { value: 0, error: 0, level, fromSilhouette: false };
+    }
+
+    const torso = this.getTorso(capture);
+    const y = torso.shoulderY + (torso.hipY - torso.shoulderY) * level;
+    const pixels = this.scanRow(capture.mask, y, torso.centerX);
+
+    return pixels > 0
+      ? this.toReading(pixels, level, scale, true)
+      : { value: 0, error: 0, level, fromSilhouette: false };
+  }
+
+  private toReading(pixels: number, level: number, scale: ImageScale, fromSilhouette: boolean): SilhouetteReading {
+    const value = pixels * scale.cmPerPixel;
+    const error = value * Math.sqrt(
+      Math.pow(scale.relativeError, 2) + Math.pow(scale.noisePixels * Math.SQRT2 / pixels, 2)
+    );
+    return { value, error, level, fromSilhouette };
+  }
+
+  // Width in pixels of the silhouette run that contains the body's center line
+  private scanRow(mask: ImageData, normalizedY: number, normalizedX: number): number {
+    const y = Math.round(normalizedY * (mask.height - 1));
+    const x = Math.round(normalizedX * (mask.width - 1));
+    if (y < 0 || y >= mask.height || x < 0 || x >= mask.width) return 0;
+
+    const usesAlpha = this.maskUsesAlpha(mask);
+    const isBody = (px: number) => {
+      const index = (y * mask.width + px) * 4;
+      return (usesAlpha ? mask.data[index + 3] : mask.data[index]) > 127;
+    };
+
+    if (!isBody(x)) return 0;
+
+    let left = x;
+    let right = x;
+    while (left > 0 && isBody(left - 1)) left--;
+    while (right < mask.width - 1 && isBody(right + 1)) right++;
+
+    return right - left + 1;
+  }
+
+  // MediaPipe masks encode confidence either in alpha or in the red channel depending on how they were drawn
+  private maskUsesAlpha(mask: ImageData): boolean {
+    const step = Math.max(4, Math.floor(mask.data.length / 4 / 500) * 4);
+    for (let i = 3; i < mask.data.length; i += step) {
+      if (mask.data[i] < 255) return true;
+    }
+    return false;
+  }
+
+  // Ramanujan's approximation
+  private ellipseCircumference(a: number, b: number): number {
+    return Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b)));
+  }
+}
+
+// Interfaces
+export type CaptureView = 'front' | 'side' | 'back';
+type CircumferenceKey = 'chest' | 'waist' | 'hips';
+
+export interface PoseKeypoint {
+  x: number;
+  y: number;
+  z: number;
+  confidence: number;
+  name: string;
+}
+
+export interface ViewValidation {
+  view: CaptureView;
+  valid: boolean;
+  issues: string[];
+  confidence: number;
+}
+
+export interface ViewCapture {
+  view: CaptureView;
+  keypoints: PoseKeypoint[];
+  imageSize: ImageSize;
+  mask?: ImageData;
+  validation: ViewValidation;
+}
+
+export interface MultiViewFusionResult {
+  circumferences: Record<CircumferenceKey, Centimeters>;
+  errors: Pick<MeasurementErrors, CircumferenceKey>;
+  confidence: number;
+  usedSilhouette: boolean;
+}
+
+interface SilhouetteReading {
+  value: Centimeters;
+  error: Centimeters;
+  level: number;
+  fromSilhouette: boolean;
+}
+
+export default MultiViewMeasurementFusion;
@@ -1,9 +1,33 @@
+// Legacy localStorage queue, migrated into IndexedDB on load
+const QUEUE_STORAGE_KEY = 'virtualfit-offline-queue';
+const DEAD_LETTER_STORAGE_KEY = 'virtualfit-offline-dead-letter';
+const COMPLETED_KEYS_STORAGE_KEY = 'virtualfit-offline-completed';
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Completed idempotency keys remembered so a replay after a crash doesn't resend
+const MAX_COMPLETED_KEYS = 500;
+// Shared with public/sw.js, which drains the same store during background sync
+const OFFLINE_DB_NAME = 'VirtualFitOffline';
+const OFFLINE_DB_VERSION = 2;
+const OPERATIONS_STORE = 'operations';
+const SYNC_TAG = 'virtualfit-offline-queue';
+// Kiosks rarely reload, so check for a new worker periodically
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
 class OfflineSupport {
   private static instance: OfflineSupport;
   private isOnline = navigator.onLine;
   private offlineQueue: OfflineOperation[] = [];
+  private deadLetters: OfflineOperation[] = [];
+  private completedKeys: string[] = [];
+  private conflictListeners = new Set<(conflict: SyncConflict) => void>();
+  private retryTimer: number | null = null;
   private syncInProgress = false;
-  private serviceWorker: ServiceWorker | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private queueLoaded: Promise<void> | null = null;
+  private registration: ServiceWorkerRegistration | null = null;
+  private updateRequested = false;
 
   static getInstance(): OfflineSupport {
     if (!OfflineSupport.instance) {
@@ -19,22 +43,11 @@ class OfflineSupport {
   }
 
   async initialize(): Promise<void> {
-    // Register service worker for offline caching
-    if ('serviceWorker' in navigator) {
-      try {
-        const registration = await navigator.serviceWorker.register('/sw.js');
-        this.serviceWorker = registration.active;
-        console.log('Service Worker registered successfully');
-      } catch (error) {
-        console.warn('Service Worker registration failed:', error);
-      }
-    }
-
     // Setup offline data storage
     await this.setupOfflineStorage();
     
     // Load offline queue from storage
-    await this.loadOfflineQueue();
+    await this.ensureQueueLoaded();
   }
 
   private setupNetworkListeners(): void {
@@ -112,20 +125,81 @@ class OfflineSupport {
 
   // Queue operations for offline sync
   queueOperation(operation: OfflineOperation): void {
-    operation.id = this.generateId();
+    operation.id = operation.id || this.generateId();
     operation.timestamp = Date.now();
     operation.status = 'pending';
-    
-    this.offlineQueue.push(operation);
-    this.saveOfflineQueue();
-    
-    // Try to execute immediately if online
-    if (this.isOnline) {
-      this.executeOperation(operation);
+    // One key per write, so retries of it are deduplicated but a later identical write still goes through
+    operation.idempotencyKey = operation.idempotencyKey || `${operation.type}:${operation.id}`;
+
+    // Duplicate checks need the persisted queue and completed keys
+    this.ensureQueueLoaded().then(() => {
+      if (!this.mergeIntoQueue(operation)) {
+        return;
+      }
+      this.saveOfflineQueue();
+
+      // Try to execute immediately if online
+      if (this.isOnline) {
+        this.executeOperation(operation);
+      } else {
+        this.requestBackgroundSync();
+      }
+    }).catch(error => console.warn('Failed to queue offline operation:', error));
+  }
+
+  // Per-type merge strategies applied when an operation is queued
+  private mergeIntoQueue(operation: OfflineOperation): boolean {
+    const key = operation.idempotencyKey!;
+
+    // Already applied on the server, or already waiting in the queue
+    if (this.completedKeys.includes(key) || this.offlineQueue.some(op => op.idempotencyKey === key)) {
+      return false;
+    }
+
+    const isReplaceable = (op: OfflineOperation) => op.status === 'pending' || op.status === 'failed';
+
+    // The same payload still waiting to be sent is a double submit; once sent, repeating it is a new write
+    const payloadHash = hashPayload(operation);
+    if (this.offlineQueue.some(op => op.type === operation.type && isReplaceable(op) && hashPayload(op) === payloadHash)) {
+      return false;
+    }
+
+    switch (operation.type) {
+      case 'sync-preferences':
+        // Last writer wins: only the newest preferences snapshot needs to reach the server
+        this.offlineQueue = this.offlineQueue.filter(op =>
+          !(op.type === 'sync-preferences' && isReplaceable(op) && op.data?.userId === operation.data?.userId)
+        );
+        break;
+      case 'save-session':
+        // Dedupe: a later save of the same session supersedes the earlier one
+        if (operation.data?.id) {
+          this.offlineQueue = this.offlineQueue.filter(op =>
+            !(op.type === 'save-session' && isReplaceable(op) && op.data?.id === operation.data.id)
+          );
+        }
+        break;
+      case 'sync-size-feedback':
+        // A history delete makes any unsent appends for that user moot
+        if (operation.data?.action === 'delete') {
+          this.offlineQueue = this.offlineQueue.filter(op =>
+            !(op.type === 'sync-size-feedback' && isReplaceable(op) && op.data?.userId === operation.data.userId)
+          );
+        }
+        break;
+      case 'track-analytics':
+      case 'upload-image':
+        // Append: every event/upload is kept, the idempotency key lets the server drop repeats
+        break;
     }
+
+    this.offlineQueue.push(operation);
+    return true;
   }
 
   private async executeOperation(operation: OfflineOperation): Promise<void> {
+    if (operation.status === 'executing') return;
+
     try {
       operation.status = 'executing';
       
@@ -142,35 +216,164 @@ class OfflineSupport {
         case 'sync-preferences':
           await this.executeSyncPreferences(operation);
           break;
+        case 'sync-size-feedback':
+          await this.executeSyncSizeFeedback(operation);
+          break;
         default:
           throw new Error(`Unknown operation type: ${operation.type}`);
       }
       
       operation.status = 'completed';
+      this.markCompleted(operation);
       this.removeFromQueue(operation.id);
       
     } catch (error) {
-      operation.status = 'failed';
       operation.error = error instanceof Error ? error.message : 'Unknown error';
       operation.retryCount = (operation.retryCount || 0) + 1;
-      
-      if (operation.retryCount >= 3) {
-        operation.status = 'failed-permanent';
+
+      const status = (error as SyncHttpError).status;
+      // Client errors other than timeouts/rate limits won't succeed on retry
+      const retryable = !status || status >= 500 || status === 408 || status === 429;
+
+      if (!retryable || operation.retryCount >= MAX_RETRIES) {
+        this.moveToDeadLetter(operation);
+      } else {
+        operation.status = 'failed';
+        operation.nextAttemptAt = Date.now() + this.getRetryDelay(operation.retryCount);
+        this.scheduleRetry();
+        if (!status) {
+          // Network failure: let the service worker finish the job if the page is closed
+          this.requestBackgroundSync();
+        }
       }
     }
     
     this.saveOfflineQueue();
   }
 
+  // Exponential backoff with jitter so many clients coming online don't retry in lockstep
+  private getRetryDelay(retryCount: number): number {
+    const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, retryCount - 1), MAX_RETRY_DELAY);
+    return delay / 2 + Math.random() * delay / 2;
+  }
+
+  private scheduleRetry(): void {
+    const nextAttempts = this.offlineQueue
+      .filter(op => op.status === 'failed' && op.nextAttemptAt)
+      .map(op => op.nextAttemptAt!);
+    if (nextAttempts.length === 0) return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+
+    const delay = Math.max(0, Math.min(...nextAttempts) - Date.now());
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.syncOfflineOperations();
+    }, delay);
+  }
+
+  private isReadyToRun(operation: OfflineOperation): boolean {
+    if (operation.status === 'pending') return true;
+    return operation.status === 'failed' && (operation.nextAttemptAt || 0) <= Date.now();
+  }
+
+  private moveToDeadLetter(operation: OfflineOperation): void {
+    operation.status = 'failed-permanent';
+    this.offlineQueue = this.offlineQueue.filter(op => op.id !== operation.id);
+    this.deadLetters.push(operation);
+    this.saveDeadLetters();
+
+    document.dispatchEvent(new CustomEvent('offline:dead-letter', {
+      detail: { operation }
+    }));
+  }
+
+  private markCompleted(operation: OfflineOperation): void {
+    if (!operation.idempotencyKey) return;
+
+    this.completedKeys = [...this.completedKeys, operation.idempotencyKey].slice(-MAX_COMPLETED_KEYS);
+    try {
+      localStorage.setItem(COMPLETED_KEYS_STORAGE_KEY, JSON.stringify(this.completedKeys));
+    } catch (error) {
+      console.warn('Failed to save completed operations:', error);
+    }
+  }
+
+  // Sends the request for an operation; conflicts (409/412) are reconciled per operation type
+  private async sendOperation(operation: OfflineOperation, url: string, init: RequestInit): Promise<void> {
+    const headers = new Headers(init.headers);
+    headers.set('Idempotency-Key', operation.idempotencyKey || operation.id);
+    headers.set('X-Client-Timestamp', new Date(operation.timestamp).toISOString());
+    if (operation.overwrite) {
+      headers.set('X-Overwrite', 'true');
+    }
+
+    const response = await fetch(url, { ...init, headers });
+
+    if (response.status === 409 || response.status === 412) {
+      await this.resolveConflict(operation, response, url, init);
+      return;
+    }
+
+    if (!response.ok) {
+      const error = new Error(`HTTP ${response.status}: ${response.statusText}`) as SyncHttpError;
+      error.status = response.status;
+      throw error;
+    }
+  }
+
+  private async resolveConflict(operation: OfflineOperation, response: Response, url: string, init: RequestInit): Promise<void> {
+    let serverState: any = null;
+    try {
+      serverState = await response.json();
+    } catch (error) {
+      // Conflict without a body
+    }
+
+    switch (operation.type) {
+      case 'sync-preferences': {
+        const serverUpdatedAt = serverState?.updatedAt ? new Date(serverState.updatedAt).getTime() : 0;
+
+        if (serverUpdatedAt > operation.timestamp || operation.overwrite) {
+          this.notifyConflict({ operation, serverState, resolution: 'server-wins' });
+          return;
+        }
+
+        this.notifyConflict({ operation, serverState, resolution: 'local-wins' });
+        operation.overwrite = true;
+        await this.sendOperation(operation, url, init);
+        return;
+      }
+      case 'save-session':
+        this.notifyConflict({ operation, serverState, resolution: 'duplicate' });
+        return;
+      default:
+        // Append-only types: the server already recorded this idempotency key
+        return;
+    }
+  }
+
+  private notifyConflict(conflict: SyncConflict): void {
+    this.conflictListeners.forEach(listener => {
+      try {
+        listener(conflict);
+      } catch (error) {
+        console.warn('Conflict listener failed:', error);
+      }
+    });
+
+    document.dispatchEvent(new CustomEvent('offline:conflict', { detail: conflict }));
+  }
+
   private async syncOfflineOperations(): Promise<void> {
     if (this.syncInProgress || !this.isOnline) return;
     
     this.syncInProgress = true;
     
     try {
-      const pendingOperations = this.offlineQueue.filter(op => 
-        op.status === 'pending' || (op.status === 'failed' && (op.retryCount || 0) < 3)
-      );
+      const pendingOperations = this.offlineQueue.filter(op => this.isReadyToRun(op));
       
       for (const operation of pendingOperations) {
         await this.executeOperation(operation);
@@ -188,14 +391,24 @@ class OfflineSupport {
       console.error('Sync failed:', error);
     } finally {
       this.syncInProgress = false;
+      this.scheduleRetry();
     }
   }
 
   // Offline storage management
   private async setupOfflineStorage(): Promise<void> {
     try {
+      const db = await this.openOfflineDb();
+      db.close();
+    } catch (error) {
+      console.warn('Failed to setup offline storage:', error);
+    }
+  }
+
+  private openOfflineDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
       // Setup IndexedDB for offline data
-      const request = indexedDB.open('VirtualFitOffline', 1);
+      const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
       
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
@@ -215,31 +428,29 @@ class OfflineSupport {
         if (!db.objectStoreNames.contains('analytics')) {
           db.createObjectStore('analytics', { keyPath: 'id' });
         }
+
+        if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+          db.createObjectStore(OPERATIONS_STORE, { keyPath: 'id' });
+        }
       };
-      
-    } catch (error) {
-      console.warn('Failed to setup offline storage:', error);
-    }
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   async saveOfflineSession(sessionData: any): Promise<string> {
     const sessionId = this.generateId();
     
     try {
-      const request = indexedDB.open('VirtualFitOffline', 1);
-      
-      request.onsuccess = () => {
-        const db = request.result;
-        const transaction = db.transaction(['sessions'], 'readwrite');
-        const store = transaction.objectStore('sessions');
-        
-        store.put({
-          id: sessionId,
-          data: sessionData,
-          timestamp: Date.now(),
-          synced: false
-        });
-      };
+      const db = await this.openOfflineDb();
+      const transaction = db.transaction(['sessions'], 'readwrite');
+      transaction.objectStore('sessions').put({
+        id: sessionId,
+        data: sessionData,
+        timestamp: Date.now(),
+        synced: false
+      });
       
       // Queue for sync when online
       this.queueOperation({
@@ -259,26 +470,17 @@ class OfflineSupport {
 
   async getOfflineSessions(): Promise<any[]> {
     try {
-      const request = indexedDB.open('VirtualFitOffline', 1);
+      const db = await this.openOfflineDb();
       
-      return new Promise((resolve, reject) => {
-        request.onsuccess = () => {
-          const db = request.result;
-          const transaction = db.transaction(['sessions'], 'readonly');
-          const store = transaction.objectStore('sessions');
-          const getAllRequest = store.getAll();
-          
-          getAllRequest.onsuccess = () => {
-            resolve(getAllRequest.result.map(item => item.data));
-          };
-          
-          getAllRequest.onerror = () => {
-            reject(getAllRequest.error);
-          };
+      return await new Promise((resolve, reject) => {
+        const getAllRequest = db.transaction(['sessions'], 'readonly').objectStore('sessions').getAll();
+        
+        getAllRequest.onsuccess = () => {
+          resolve(getAllRequest.result.map(item => item.data));
         };
         
-        request.onerror = () => {
-          reject(request.error);
+        getAllRequest.onerror = () => {
+          reject(getAllRequest.error);
         };
       });
     } catch (error) {
@@ -293,6 +495,12 @@ class OfflineSupport {
     
     try {
       const registration = await navigator.serviceWorker.register('/sw.js');
+      this.registration = registration;
+
+      // An update installed during a previous visit is still waiting
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        this.showUpdateAvailableNotification();
+      }
       
       registration.addEventListener('updatefound', () => {
         const newWorker = registration.installing;
@@ -305,6 +513,22 @@ class OfflineSupport {
           });
         }
       });
+
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (this.updateRequested) {
+          window.location.reload();
+        }
+      });
+
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        this.handleServiceWorkerMessage(event.data);
+      });
+
+      setInterval(() => {
+        if (this.isOnline) {
+          registration.update().catch(() => undefined);
+        }
+      }, UPDATE_CHECK_INTERVAL);
       
     } catch (error) {
       console.warn('Service Worker initialization failed:', error);
@@ -315,6 +539,27 @@ class OfflineSupport {
     document.dispatchEvent(new CustomEvent('app:update-available'));
   }
 
+  private handleServiceWorkerMessage(message: ServiceWorkerMessage | undefined): void {
+    if (message?.type !== 'OFFLINE_QUEUE_SYNCED') return;
+
+    // The worker drained these during background sync
+    const syncedIds = new Set(message.completed.map(op => op.id));
+    this.offlineQueue
+      .filter(op => syncedIds.has(op.id))
+      .forEach(op => this.markCompleted(op));
+    this.offlineQueue = this.offlineQueue.filter(op => !syncedIds.has(op.id));
+    this.saveOfflineQueue();
+  }
+
+  private requestBackgroundSync(): void {
+    const sync = (this.registration as SyncCapableRegistration | null)?.sync;
+    if (!sync) return;
+
+    sync.register(SYNC_TAG).catch(error => {
+      console.warn('Background sync registration failed:', error);
+    });
+  }
+
   // Periodic background sync
   private setupPeriodicSync(): void {
     // Sync every 5 minutes when online
@@ -327,15 +572,11 @@ class OfflineSupport {
 
   // Operation executors
   private async executeSaveSession(operation: OfflineOperation): Promise<void> {
-    const response = await fetch('/api/sessions', {
+    await this.sendOperation(operation, '/api/sessions', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(operation.data)
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
   }
 
   private async executeUploadImage(operation: OfflineOperation): Promise<void> {
@@ -343,58 +584,111 @@ class OfflineSupport {
     formData.append('image', operation.data.file);
     formData.append('metadata', JSON.stringify(operation.data.metadata));
     
-    const response = await fetch('/api/images/upload', {
+    await this.sendOperation(operation, '/api/images/upload', {
       method: 'POST',
       body: formData
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
   }
 
   private async executeTrackAnalytics(operation: OfflineOperation): Promise<void> {
-    const response = await fetch('/api/analytics/events', {
+    await this.sendOperation(operation, '/api/analytics/events', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(operation.data)
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
   }
 
   private async executeSyncPreferences(operation: OfflineOperation): Promise<void> {
-    const response = await fetch('/api/users/preferences', {
+    await this.sendOperation(operation, '/api/users/preferences', {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(operation.data)
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+  }
+
+  private async executeSyncSizeFeedback(operation: OfflineOperation): Promise<void> {
+    const { action, userId, entry } = operation.data;
+    const url = `/api/users/${encodeURIComponent(userId)}/size-feedback`;
+
+    await this.sendOperation(operation, url, action === 'delete'
+      ? { method: 'DELETE' }
+      : {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(entry)
+        });
   }
 
   // Queue management
+  private ensureQueueLoaded(): Promise<void> {
+    if (!this.queueLoaded) {
+      this.queueLoaded = this.loadOfflineQueue();
+    }
+    return this.queueLoaded;
+  }
+
   private async loadOfflineQueue(): Promise<void> {
     try {
-      const stored = localStorage.getItem('virtualfit-offline-queue');
-      if (stored) {
-        this.offlineQueue = JSON.parse(stored);
+      const db = await this.openOfflineDb();
+      let stored = await new Promise<OfflineOperation[]>((resolve, reject) => {
+        const getAllRequest = db.transaction([OPERATIONS_STORE], 'readonly').objectStore(OPERATIONS_STORE).getAll();
+        getAllRequest.onsuccess = () => resolve(getAllRequest.result);
+        getAllRequest.onerror = () => reject(getAllRequest.error);
+      });
+      db.close();
+
+      const legacy = localStorage.getItem(QUEUE_STORAGE_KEY);
+      if (legacy) {
+        stored = [...stored, ...JSON.parse(legacy)];
+        localStorage.removeItem(QUEUE_STORAGE_KEY);
+      }
+
+      // Operations interrupted mid-flight are replayed; their idempotency key prevents duplicates.
+      // Anything changed in memory while loading is kept alongside what was stored
+      const restored = stored.map(op => (op.status === 'executing' ? { ...op, status: 'pending' as const } : op));
+      this.offlineQueue = [
+        ...restored.filter(op => !this.offlineQueue.some(current => current.id === op.id)),
+        ...this.offlineQueue
+      ].sort((a, b) => a.timestamp - b.timestamp);
+      if (legacy) {
+        this.saveOfflineQueue();
       }
+
+      this.deadLetters = JSON.parse(localStorage.getItem(DEAD_LETTER_STORAGE_KEY) || '[]');
+      this.completedKeys = JSON.parse(localStorage.getItem(COMPLETED_KEYS_STORAGE_KEY) || '[]');
     } catch (error) {
       console.warn('Failed to load offline queue:', error);
-      this.offlineQueue = [];
     }
   }
 
+  // Writes are chained so an older snapshot never lands after a newer one, and wait for the
+  // initial load so clearing the store can't drop operations that haven't been read yet
   private saveOfflineQueue(): void {
+    this.persistQueue = this.persistQueue
+      .then(() => this.ensureQueueLoaded())
+      .then(async () => {
+        const snapshot = this.offlineQueue.map(op => ({ ...op }));
+        const db = await this.openOfflineDb();
+        await new Promise<void>((resolve, reject) => {
+          const transaction = db.transaction([OPERATIONS_STORE], 'readwrite');
+          const store = transaction.objectStore(OPERATIONS_STORE);
+          store.clear();
+          snapshot.forEach(op => store.put(op));
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+        db.close();
+      })
+      .catch(error => {
+        console.warn('Failed to save offline queue:', error);
+      });
+  }
+
+  private saveDeadLetters(): void {
     try {
-      localStorage.setItem('virtualfit-offline-queue', JSON.stringify(this.offlineQueue));
+      localStorage.setItem(DEAD_LETTER_STORAGE_KEY, JSON.stringify(this.deadLetters));
     } catch (error) {
-      console.warn('Failed to save offline queue:', error);
+      console.warn('Failed to save dead-letter operations:', error);
     }
   }
 
@@ -418,6 +712,7 @@ class OfflineSupport {
       pending: this.offlineQueue.filter(op => op.status === 'pending').length,
       failed: this.offlineQueue.filter(op => op.status === 'failed').length,
       completed: this.offlineQueue.filter(op => op.status === 'completed').length,
+      deadLetter: this.deadLetters.length,
       syncing: this.syncInProgress
     };
   }
@@ -427,6 +722,53 @@ class OfflineSupport {
     this.saveOfflineQueue();
   }
 
+  onConflict(listener: (conflict: SyncConflict) => void): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  getDeadLetters(): OfflineOperation[] {
+    return [...this.deadLetters];
+  }
+
+  // Moves a dead-lettered operation back into the queue with a fresh retry budget
+  retryDeadLetter(id: string): void {
+    const operation = this.deadLetters.find(op => op.id === id);
+    if (!operation) return;
+
+    this.deadLetters = this.deadLetters.filter(op => op.id !== id);
+    this.saveDeadLetters();
+
+    this.offlineQueue.push({
+      ...operation,
+      status: 'pending',
+      retryCount: 0,
+      nextAttemptAt: undefined,
+      error: undefined
+    });
+    this.saveOfflineQueue();
+
+    if (this.isOnline) {
+      this.syncOfflineOperations();
+    }
+  }
+
+  discardDeadLetter(id: string): void {
+    this.deadLetters = this.deadLetters.filter(op => op.id !== id);
+    this.saveDeadLetters();
+  }
+
+  // Activates a waiting service worker; the page reloads once it takes control
+  applyUpdate(): void {
+    const waiting = this.registration?.waiting;
+    if (!waiting) return;
+
+    this.updateRequested = true;
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }
+
   // Force sync
   async forcSync(): Promise<void> {
     if (this.isOnline) {
@@ -437,15 +779,55 @@ class OfflineSupport {
   }
 }
 
+// Key order is normalized so equal payloads built in a different order hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  // Files don't serialize, so they're identified by what's observable without reading them
+  if (value instanceof Blob) {
+    const name = value instanceof File ? `${value.name}:${value.lastModified}:` : '';
+    return `"blob:${name}${value.type}:${value.size}"`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function hashPayload(operation: OfflineOperation): string {
+  return hashString(stableStringify(operation.data));
+}
+
+function hashString(value: string): string {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) - hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
 // Interfaces
-interface OfflineOperation {
+export interface OfflineOperation {
   id: string;
-  type: 'save-session' | 'upload-image' | 'track-analytics' | 'sync-preferences';
+  type: 'save-session' | 'upload-image' | 'track-analytics' | 'sync-preferences' | 'sync-size-feedback';
   data: any;
   timestamp: number;
   status: 'pending' | 'executing' | 'completed' | 'failed' | 'failed-permanent';
+  // Stable across retries; sent as the Idempotency-Key header so the server can drop replays
+  idempotencyKey?: string;
   error?: string;
   retryCount?: number;
+  nextAttemptAt?: number;
+  overwrite?: boolean;
+}
+
+export interface SyncConflict {
+  operation: OfflineOperation;
+  serverState: any;
+  resolution: 'local-wins' | 'server-wins' | 'duplicate';
 }
 
 interface QueueStatus {
@@ -453,7 +835,23 @@ interface QueueStatus {
   pending: number;
   failed: number;
   completed: number;
+  deadLetter: number;
   syncing: boolean;
 }
 
+interface SyncHttpError extends Error {
+  status?: number;
+}
+
+// Messages posted by public/sw.js
+type ServiceWorkerMessage = {
+  type: 'OFFLINE_QUEUE_SYNCED';
+  completed: Array<{ id: string; idempotencyKey?: string }>;
+};
+
+// Background Sync isn't in the DOM lib typings yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
 export default OfflineSupport;
\ No newline at end of file
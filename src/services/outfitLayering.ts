@@ -0,0 +1,220 @@
+// Draw order per category, bottom layer first
+const LAYER_ORDER: Record<string, number> = {
+  underwear: 0,
+  tops: 1,
+  bottoms: 2,
+  // A dress takes the place of both a top and a bottom
+  dresses: 2,
+  outerwear: 3,
+  accessories: 4
+};
+const DEFAULT_LAYER = LAYER_ORDER.tops;
+
+// Categories whose sleeves cover the forearms, so skin never occludes them
+const LONG_SLEEVE_CATEGORIES = ['outerwear'];
+// Categories that can be tucked into a bottom
+const TUCKABLE_CATEGORIES = ['tops', 'underwear'];
+// One item per slot in an outfit; accessories stack
+const STACKABLE_CATEGORIES = ['accessories'];
+
+// Forearm/hand thickness as a share of shoulder width
+const LIMB_RADIUS_RATIO = 0.14;
+// Waistband sits this share of the torso above the hip joints
+const WAISTBAND_OFFSET = 0.12;
+const MIN_CONFIDENCE = 0.3;
+
+/**
+ * Orders outfit items into layers and builds the occlusion masks that hide
+ * the parts of a garment covered by the body or by the layer above it.
+ * Masks are ImageData where alpha 255 marks pixels to hide.
+ */
+class OutfitLayeringEngine {
+  getLayer(item: LayerableItem, tuck: TuckStyle = 'tucked'): number {
+    const layer = LAYER_ORDER[item.category] ?? DEFAULT_LAYER;
+    // Untucked tops hang over the waistband, so they sit just above bottoms
+    if (tuck === 'untucked' && TUCKABLE_CATEGORIES.includes(item.category)) {
+      return LAYER_ORDER.bottoms + 0.5;
+    }
+    return layer;
+  }
+
+  isTuckable(item: LayerableItem): boolean {
+    return TUCKABLE_CATEGORIES.includes(item.category);
+  }
+
+  // Stable: items sharing a layer keep their selection order
+  orderItems<T extends LayerableItem>(items: T[], options: LayeringOptions = {}): LayeredItem<T>[] {
+    const hasBottoms = items.some(item => item.category === 'bottoms');
+
+    return items
+      .map((item, index) => {
+        const tuck: TuckStyle = options.tuck?.[item.id] || 'tucked';
+        return {
+          item,
+          index,
+          layer: this.getLayer(item, tuck),
+          tuck: this.isTuckable(item) ? tuck : undefined,
+          tucked: hasBottoms && this.isTuckable(item) && tuck === 'tucked'
+        };
+      })
+      .sort((a, b) => a.layer - b.layer || a.index - b.index)
+      .map(({ index, ...layered }) => layered);
+  }
+
+  /**
+   * Replaces the item occupying the same slot, so picking a second top swaps
+   * tops instead of dropping an unrelated piece of the outfit.
+   */
+  addToOutfit<T extends LayerableItem>(items: T[], item: T, maxItems: number): T[] {
+    const stacks = STACKABLE_CATEGORIES.includes(item.category);
+    const conflicts = (existing: T) =>
+      (!stacks && existing.category === item.category) ||
+      // A dress and separates don't combine
+      (item.category === 'dresses' && ['tops', 'bottoms'].includes(existing.category)) ||
+      (existing.category === 'dresses' && ['tops', 'bottoms'].includes(item.category));
+
+    return [...items.filter(existing => !conflicts(existing)), item].slice(-maxItems);
+  }
+
+  /**
+   * Body occlusion for a garment: forearms and hands in front of the torso,
+   * limited to the person silhouette so the limb shape follows the mask.
+   */
+  buildOcclusionMask(keypoints: LayeringKeypoint[], segmentationMask: ImageData | null | undefined, category: string): ImageData | null {
+    if (LONG_SLEEVE_CATEGORIES.includes(category) || category === 'accessories') return null;
+    if (!segmentationMask) return null;
+
+    const { width, height } = segmentationMask;
+    const get = (name: string) => {
+      const point = keypoints.find(k => k.name === name);
+      return point && point.confidence >= MIN_CONFIDENCE ? { x: point.x * width, y: point.y * height } : null;
+    };
+
+    const leftShoulder = get('leftShoulder');
+    const rightShoulder = get('rightShoulder');
+    if (!leftShoulder || !rightShoulder) return null;
+
+    const radius = Math.hypot(leftShoulder.x - rightShoulder.x, leftShoulder.y - rightShoulder.y) * LIMB_RADIUS_RATIO;
+    const segments: Array<[Point, Point]> = [];
+    (['left', 'right'] as const).forEach(side => {
+      const elbow = get(`${side}Elbow`);
+      const wrist = get(`${side}Wrist`);
+      const index = get(`${side}Index`);
+      if (elbow && wrist) segments.push([elbow, wrist]);
+      if (wrist && index) segments.push([wrist, index]);
+    });
+    if (segments.length === 0) return null;
+
+    const mask = new ImageData(width, height);
+    segments.forEach(([start, end]) => {
+      const minX = Math.max(0, Math.floor(Math.min(start.x, end.x) - radius));
+      const maxX = Math.min(width - 1, Math.ceil(Math.max(start.x, end.x) + radius));
+      const minY = Math.max(0, Math.floor(Math.min(start.y, end.y) - radius));
+      const maxY = Math.min(height - 1, Math.ceil(Math.max(start.y, end.y) + radius));
+
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          const offset = (y * width + x) * 4;
+          if (segmentationMask.data[offset + 3] < 128) continue;
+          if (distanceToSegment({ x, y }, start, end) <= radius) {
+            mask.data[offset + 3] = 255;
+          }
+        }
+      }
+    });
+
+    return mask;
+  }
+
+  // Hides a tucked top below the waistband of the bottom drawn over it
+  buildTuckMask(keypoints: LayeringKeypoint[], size: MaskSize): ImageData | null {
+    const find = (name: string) => keypoints.find(k => k.name === name && k.confidence >= MIN_CONFIDENCE);
+    const hips = [find('leftHip'), find('rightHip')].filter(Boolean) as LayeringKeypoint[];
+    const shoulders = [find('leftShoulder'), find('rightShoulder')].filter(Boolean) as LayeringKeypoint[];
+    if (hips.length === 0 || shoulders.length === 0) return null;
+
+    const hipY = hips.reduce((sum, point) => sum + point.y, 0) / hips.length;
+    const shoulderY = shoulders.reduce((sum, point) => sum + point.y, 0) / shoulders.length;
+    const waistY = Math.round((hipY - (hipY - shoulderY) * WAISTBAND_OFFSET) * size.height);
+
+    const mask = new ImageData(size.width, size.height);
+    for (let y = Math.max(0, waistY); y < size.height; y++) {
+      for (let x = 0; x < size.width; x++) {
+        mask.data[(y * size.width + x) * 4 + 3] = 255;
+      }
+    }
+    return mask;
+  }
+
+  // Erases masked pixels from a rendered garment layer; masks are scaled to the canvas
+  applyMasks(garment: HTMLCanvasElement, masks: Array<ImageData | null | undefined>): HTMLCanvasElement {
+    const ctx = garment.getContext('2d');
+    if (!ctx) return garment;
+
+    masks.forEach(mask => {
+      if (!mask || !mask.width || !mask.height) return;
+
+      const maskCanvas = document.createElement('canvas');
+      maskCanvas.width = mask.width;
+      maskCanvas.height = mask.height;
+      maskCanvas.getContext('2d')!.putImageData(mask, 0, 0);
+
+      ctx.save();
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.drawImage(maskCanvas, 0, 0, garment.width, garment.height);
+      ctx.restore();
+    });
+
+    return garment;
+  }
+}
+
+function distanceToSegment(point: Point, start: Point, end: Point): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+// Interfaces
+export type TuckStyle = 'tucked' | 'untucked';
+
+export interface LayerableItem {
+  id: string;
+  category: string;
+}
+
+export interface LayeringOptions {
+  // Per item id; tops default to tucked
+  tuck?: Record<string, TuckStyle>;
+}
+
+export interface LayeredItem<T extends LayerableItem> {
+  item: T;
+  layer: number;
+  tuck?: TuckStyle;
+  // Tucked and there is a bottom in the outfit to tuck into
+  tucked: boolean;
+}
+
+export interface LayeringKeypoint {
+  x: number;
+  y: number;
+  confidence: number;
+  name: string;
+}
+
+export interface MaskSize {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export default OutfitLayeringEngine;
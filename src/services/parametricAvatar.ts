@@ -0,0 +1,375 @@
+import * as THREE from 'three';
+import { AdvancedBodyMeasurements, BodyType, Centimeters } from '../types/enhanced';
+
+// Used for anything the measurement pipeline didn't provide
+const DEFAULT_MEASUREMENTS: AvatarMeasurements = {
+  height: 170,
+  chest: 94,
+  waist: 80,
+  hips: 98,
+  shoulderWidth: 42,
+  armLength: 60,
+  neckCircumference: 37,
+  bicepCircumference: 30,
+  forearmCircumference: 26,
+  thighCircumference: 56,
+  calfCircumference: 37,
+  bodyType: 'rectangle'
+};
+
+// Cross-section depth as a share of width (front-to-back vs side-to-side)
+const BODY_TYPE_PROFILES: Record<BodyType, BodyProfile> = {
+  ectomorph: { chestDepth: 0.66, waistDepth: 0.68, hipDepth: 0.7 },
+  mesomorph: { chestDepth: 0.72, waistDepth: 0.7, hipDepth: 0.72 },
+  endomorph: { chestDepth: 0.78, waistDepth: 0.86, hipDepth: 0.78 },
+  pear: { chestDepth: 0.7, waistDepth: 0.72, hipDepth: 0.7 },
+  apple: { chestDepth: 0.78, waistDepth: 0.9, hipDepth: 0.76 },
+  hourglass: { chestDepth: 0.74, waistDepth: 0.68, hipDepth: 0.74 },
+  rectangle: { chestDepth: 0.72, waistDepth: 0.74, hipDepth: 0.72 },
+  'inverted-triangle': { chestDepth: 0.7, waistDepth: 0.7, hipDepth: 0.72 },
+  athletic: { chestDepth: 0.72, waistDepth: 0.68, hipDepth: 0.72 },
+  petite: { chestDepth: 0.72, waistDepth: 0.72, hipDepth: 0.72 },
+  tall: { chestDepth: 0.7, waistDepth: 0.7, hipDepth: 0.72 },
+  'plus-size': { chestDepth: 0.8, waistDepth: 0.88, hipDepth: 0.8 }
+};
+
+// Landmark heights as a share of stature (standard anthropometric proportions)
+const LEVELS = {
+  ankle: 0.04,
+  knee: 0.285,
+  crotch: 0.47,
+  hips: 0.5,
+  waist: 0.61,
+  chest: 0.72,
+  shoulders: 0.815,
+  neck: 0.85,
+  chin: 0.87
+};
+
+// Radial ease per garment category in cm; outerwear sits over other layers
+const GARMENT_EASE: Record<string, Centimeters> = {
+  underwear: 0.2,
+  tops: 1.2,
+  bottoms: 1,
+  dresses: 1.5,
+  outerwear: 3,
+  accessories: 0.5
+};
+
+const RING_SEGMENTS = 32;
+// Arms hang slightly away from the body so garments don't intersect the torso
+const ARM_ANGLE = THREE.MathUtils.degToRad(12);
+
+/**
+ * Builds a simplified parametric human body and matching garment shells from
+ * measurements. Cross-sections are ellipses sized from the tape-measure
+ * circumferences; all scene units are meters.
+ */
+class ParametricAvatarBuilder {
+  resolveMeasurements(measurements?: Partial<AdvancedBodyMeasurements> | null): AvatarMeasurements {
+    const resolved = { ...DEFAULT_MEASUREMENTS };
+    if (!measurements) return resolved;
+
+    (Object.keys(DEFAULT_MEASUREMENTS) as Array<keyof AvatarMeasurements>).forEach(key => {
+      const value = measurements[key];
+      if (key === 'bodyType') {
+        if (value && BODY_TYPE_PROFILES[value as BodyType]) resolved.bodyType = value as BodyType;
+      } else if (typeof value === 'number' && value > 0) {
+        resolved[key] = value;
+      }
+    });
+
+    // Derived girths scale with height when only the basics were measured
+    const heightScale = resolved.height / DEFAULT_MEASUREMENTS.height;
+    (['neckCircumference', 'bicepCircumference', 'forearmCircumference', 'calfCircumference'] as const).forEach(key => {
+      if (typeof measurements[key] !== 'number') {
+        resolved[key] = DEFAULT_MEASUREMENTS[key] * heightScale;
+      }
+    });
+    if (typeof measurements.thighCircumference !== 'number') {
+      resolved.thighCircumference = resolved.hips * 0.57;
+    }
+
+    return resolved;
+  }
+
+  buildBody(measurements: AvatarMeasurements, material: THREE.Material): THREE.Group {
+    const body = new THREE.Group();
+    body.name = 'avatar-body';
+
+    body.add(this.buildTube(this.torsoRings(measurements, 0), material, 'torso'));
+    (['left', 'right'] as const).forEach(side => {
+      body.add(this.buildLeg(measurements, side, 0, LEVELS.ankle, material));
+      body.add(this.buildArm(measurements, side, 0, 1, material));
+      body.add(this.buildFoot(measurements, side, material));
+    });
+    body.add(this.buildHead(measurements, material));
+
+    return body;
+  }
+
+  /**
+   * A garment shell: the body surface offset by the category's ease over the
+   * region the garment covers. Dresses flare from the hips instead of
+   * splitting into legs.
+   */
+  buildGarment(item: AvatarGarment, measurements: AvatarMeasurements, material: THREE.Material): THREE.Group | null {
+    const ease = GARMENT_EASE[item.category] ?? GARMENT_EASE.tops;
+    const garment = new THREE.Group();
+    garment.name = `garment-${item.id}`;
+
+    switch (item.category) {
+      case 'tops':
+      case 'underwear':
+        garment.add(this.buildTube(this.torsoRings(measurements, ease, LEVELS.hips - 0.03, LEVELS.neck - 0.01), material));
+        (['left', 'right'] as const).forEach(side => garment.add(this.buildArm(measurements, side, ease, 0.35, material)));
+        break;
+      case 'outerwear':
+        garment.add(this.buildTube(this.torsoRings(measurements, ease, LEVELS.crotch - 0.04, LEVELS.neck), material));
+        (['left', 'right'] as const).forEach(side => garment.add(this.buildArm(measurements, side, ease, 0.95, material)));
+        break;
+      case 'bottoms':
+        garment.add(this.buildTube(this.torsoRings(measurements, ease, LEVELS.crotch, LEVELS.waist - 0.02), material));
+        (['left', 'right'] as const).forEach(side =>
+          garment.add(this.buildLeg(measurements, side, ease, LEVELS.ankle + 0.02, material))
+        );
+        break;
+      case 'dresses':
+        garment.add(this.buildTube(this.dressRings(measurements, ease), material));
+        (['left', 'right'] as const).forEach(side => garment.add(this.buildArm(measurements, side, ease, 0.15, material)));
+        break;
+      default:
+        return null;
+    }
+
+    return garment;
+  }
+
+  // Cross-sections
+  private torsoRings(m: AvatarMeasurements, ease: Centimeters, from = LEVELS.crotch, to = LEVELS.neck): Ring[] {
+    const profile = BODY_TYPE_PROFILES[m.bodyType];
+    const shoulderHalfWidth = m.shoulderWidth / 2;
+    const rings: Ring[] = [
+      { level: LEVELS.crotch, ...this.ellipseFromCircumference(m.thighCircumference * 1.7, profile.hipDepth) },
+      { level: LEVELS.hips, ...this.ellipseFromCircumference(m.hips, profile.hipDepth) },
+      { level: LEVELS.waist, ...this.ellipseFromCircumference(m.waist, profile.waistDepth) },
+      { level: LEVELS.chest, ...this.ellipseFromCircumference(m.chest, profile.chestDepth) },
+      // Shoulder line is as wide as the shoulders but much shallower than the chest
+      { level: LEVELS.shoulders, halfWidth: shoulderHalfWidth * 0.92, halfDepth: this.ellipseFromCircumference(m.chest, profile.chestDepth).halfDepth * 0.75 },
+      { level: LEVELS.neck, ...this.ellipseFromCircumference(m.neckCircumference, 0.9) }
+    ];
+
+    return this.sliceRings(rings, from, to).map(ring => this.inflate(ring, ease, m.height));
+  }
+
+  private dressRings(m: AvatarMeasurements, ease: Centimeters): Ring[] {
+    const torso = this.torsoRings(m, ease, LEVELS.hips, LEVELS.shoulders);
+    const hips = torso[0];
+    // A-line skirt: widens 25% from hips to just below the knee (ring levels are in cm by now)
+    const hem = (LEVELS.knee - 0.04) * m.height;
+    const skirt: Ring[] = [0.25, 0.5, 0.75, 1].map(t => ({
+      level: hips.level - (hips.level - hem) * t,
+      halfWidth: hips.halfWidth * (1 + 0.25 * t),
+      halfDepth: hips.halfDepth * (1 + 0.3 * t)
+    }));
+
+    return [...skirt.reverse(), ...torso];
+  }
+
+  private sliceRings(rings: Ring[], from: number, to: number): Ring[] {
+    const interpolate = (level: number): Ring => {
+      const upper = rings.findIndex(ring => ring.level >= level);
+      if (upper === -1) return { ...rings[rings.length - 1], level };
+      if (upper === 0) return { ...rings[0], level };
+      const a = rings[upper - 1];
+      const b = rings[upper];
+      const t = (level - a.level) / (b.level - a.level);
+      return {
+        level,
+        halfWidth: a.halfWidth + (b.halfWidth - a.halfWidth) * t,
+        halfDepth: a.halfDepth + (b.halfDepth - a.halfDepth) * t
+      };
+    };
+
+    return [
+      interpolate(from),
+      ...rings.filter(ring => ring.level > from && ring.level < to),
+      interpolate(to)
+    ];
+  }
+
+  private inflate(ring: Ring, ease: Centimeters, height: Centimeters): Ring {
+    return {
+      level: ring.level * height,
+      halfWidth: ring.halfWidth + ease,
+      halfDepth: ring.halfDepth + ease
+    };
+  }
+
+  // Inverse of Ramanujan's ellipse perimeter for a given depth/width ratio
+  private ellipseFromCircumference(circumference: Centimeters, depthRatio: number): Omit<Ring, 'level'> {
+    const k = depthRatio;
+    const halfWidth = circumference / (Math.PI * (3 * (1 + k) - Math.sqrt((3 + k) * (1 + 3 * k))));
+    return { halfWidth, halfDepth: halfWidth * k };
+  }
+
+  // Limbs
+  private buildLeg(m: AvatarMeasurements, side: Side, ease: Centimeters, bottom: number, material: THREE.Material): THREE.Mesh {
+    const sign = side === 'left' ? 1 : -1;
+    const hipHalfWidth = this.ellipseFromCircumference(m.hips, BODY_TYPE_PROFILES[m.bodyType].hipDepth).halfWidth;
+    const thigh = m.thighCircumference / (2 * Math.PI);
+    const calf = m.calfCircumference / (2 * Math.PI);
+
+    const rings: Ring[] = [
+      { level: LEVELS.crotch + 0.01, halfWidth: thigh, halfDepth: thigh },
+      { level: LEVELS.knee + 0.02, halfWidth: calf * 1.05, halfDepth: calf * 1.05 },
+      { level: LEVELS.knee - 0.08, halfWidth: calf, halfDepth: calf },
+      { level: LEVELS.ankle, halfWidth: calf * 0.6, halfDepth: calf * 0.6 }
+    ].filter(ring => ring.level >= bottom);
+    if (rings[rings.length - 1].level > bottom) {
+      rings.push({ ...rings[rings.length - 1], level: bottom });
+    }
+
+    const mesh = this.buildTube(rings.reverse().map(ring => this.inflate(ring, ease, m.height)), material, `${side}-leg`);
+    // Legs sit under the hip joints, roughly half the hip half-width out
+    mesh.position.x = toMeters(sign * hipHalfWidth * 0.5);
+    return mesh;
+  }
+
+  /**
+   * Arm tube hanging from the shoulder; `coverage` is the share of the arm
+   * (shoulder to wrist) it spans, so sleeves can stop short.
+   */
+  private buildArm(m: AvatarMeasurements, side: Side, ease: Centimeters, coverage: number, material: THREE.Material): THREE.Object3D {
+    const sign = side === 'left' ? 1 : -1;
+    const upperArm = m.bicepCircumference / (2 * Math.PI);
+    const forearm = m.forearmCircumference / (2 * Math.PI);
+    const length = m.armLength;
+
+    // Levels are distances down the arm in cm, measured from the shoulder joint
+    const profile = [
+      { at: 0, radius: upperArm * 1.1 },
+      { at: 0.45, radius: upperArm * 0.85 },
+      { at: 0.55, radius: forearm },
+      { at: 1, radius: forearm * 0.65 }
+    ];
+    const end = coverage * length;
+    const rings: Ring[] = profile
+      .filter(point => point.at * length <= end)
+      .map(point => ({ level: -point.at * length, halfWidth: point.radius + ease, halfDepth: point.radius + ease }));
+    if (-rings[rings.length - 1].level < end) {
+      const last = profile.find(point => point.at * length > end)!;
+      rings.push({ level: -end, halfWidth: last.radius + ease, halfDepth: last.radius + ease });
+    }
+
+    const tube = this.buildTube(rings.reverse(), material, `${side}-arm`);
+    const pivot = new THREE.Group();
+    pivot.add(tube);
+    pivot.position.set(
+      toMeters(sign * (m.shoulderWidth / 2 - upperArm * 0.6)),
+      toMeters(LEVELS.shoulders * m.height - upperArm * 0.8),
+      0
+    );
+    pivot.rotation.z = sign * ARM_ANGLE;
+    return pivot;
+  }
+
+  private buildFoot(m: AvatarMeasurements, side: Side, material: THREE.Material): THREE.Mesh {
+    const sign = side === 'left' ? 1 : -1;
+    const hipHalfWidth = this.ellipseFromCircumference(m.hips, BODY_TYPE_PROFILES[m.bodyType].hipDepth).halfWidth;
+    const footLength = m.height * 0.15;
+    const foot = new THREE.Mesh(
+      new THREE.BoxGeometry(toMeters(footLength * 0.38), toMeters(m.height * LEVELS.ankle), toMeters(footLength)),
+      material
+    );
+    foot.position.set(toMeters(sign * hipHalfWidth * 0.5), toMeters((m.height * LEVELS.ankle) / 2), toMeters(footLength * 0.3));
+    return foot;
+  }
+
+  private buildHead(m: AvatarMeasurements, material: THREE.Material): THREE.Mesh {
+    const headHeight = m.height * (1 - LEVELS.chin);
+    const head = new THREE.Mesh(new THREE.SphereGeometry(0.5, 24, 16), material);
+    head.scale.set(toMeters(headHeight * 0.68), toMeters(headHeight), toMeters(headHeight * 0.82));
+    head.position.y = toMeters(m.height - headHeight / 2);
+    head.name = 'head';
+    return head;
+  }
+
+  // Lofts elliptical rings (ordered bottom to top, levels in cm) into an open-ended tube
+  private buildTube(rings: Ring[], material: THREE.Material, name?: string): THREE.Mesh {
+    const positions: number[] = [];
+    const indices: number[] = [];
+
+    rings.forEach(ring => {
+      for (let i = 0; i < RING_SEGMENTS; i++) {
+        const angle = (i / RING_SEGMENTS) * Math.PI * 2;
+        positions.push(
+          toMeters(Math.cos(angle) * ring.halfWidth),
+          toMeters(ring.level),
+          toMeters(Math.sin(angle) * ring.halfDepth)
+        );
+      }
+    });
+
+    for (let r = 0; r < rings.length - 1; r++) {
+      for (let i = 0; i < RING_SEGMENTS; i++) {
+        const a = r * RING_SEGMENTS + i;
+        const b = r * RING_SEGMENTS + ((i + 1) % RING_SEGMENTS);
+        const c = a + RING_SEGMENTS;
+        const d = b + RING_SEGMENTS;
+        indices.push(a, c, b, b, c, d);
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+
+    const mesh = new THREE.Mesh(geometry, material);
+    if (name) mesh.name = name;
+    return mesh;
+  }
+}
+
+function toMeters(value: Centimeters): number {
+  return value / 100;
+}
+
+// Interfaces
+export type AvatarMeasurements = Pick<
+  AdvancedBodyMeasurements,
+  | 'height'
+  | 'chest'
+  | 'waist'
+  | 'hips'
+  | 'shoulderWidth'
+  | 'armLength'
+  | 'neckCircumference'
+  | 'bicepCircumference'
+  | 'forearmCircumference'
+  | 'thighCircumference'
+  | 'calfCircumference'
+  | 'bodyType'
+>;
+
+export interface AvatarGarment {
+  id: string;
+  category: string;
+}
+
+interface BodyProfile {
+  chestDepth: number;
+  waistDepth: number;
+  hipDepth: number;
+}
+
+interface Ring {
+  level: number;
+  halfWidth: Centimeters;
+  halfDepth: Centimeters;
+}
+
+type Side = 'left' | 'right';
+
+export default ParametricAvatarBuilder;
@@ -197,7 +197,8 @@ class PerformanceOptimizer {
 
   private async setupServiceWorkerCache(): Promise<Cache> {
     if ('serviceWorker' in navigator) {
-      return caches.open('virtualfit-v1');
+      // Runtime image cache shared with public/sw.js; other virtualfit-* caches are pruned on update
+      return caches.open('virtualfit-images');
     }
     throw new Error('Service Worker not supported');
   }
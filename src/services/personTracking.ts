@@ -0,0 +1,332 @@
+// Person masks are scanned on a coarse grid; people are tens of cells across at this size
+const REGION_GRID_WIDTH = 96;
+// Blobs smaller than this share of the frame are hands, reflections or mask noise
+const MIN_PERSON_AREA = 0.015;
+export const MAX_PEOPLE = 4;
+// Crops get some margin so limbs at the edge of the silhouette stay in view
+const CROP_PADDING = 0.15;
+// Splitting a blob: keypoints this confident place the person, whose body is at least this wide for
+// their height and extends this share past the keypoints; a leftover narrower than MIN_SPLIT_WIDTH
+// of that person is an arm or a bag rather than someone else
+const SPLIT_MIN_CONFIDENCE = 0.5;
+const MIN_BODY_ASPECT = 0.35;
+const BODY_MARGIN = 0.25;
+const MIN_SPLIT_WIDTH = 0.5;
+
+// Boxes overlapping at least this much between updates are the same person
+const MIN_MATCH_IOU = 0.2;
+// Updates a person may go unmatched (occluded, walked out) before their ID is retired
+const MAX_MISSED_UPDATES = 15;
+
+/**
+ * Splits a frame into people and keeps a stable ID for each across updates.
+ * Regions come from the connected blobs of a person segmentation mask; the
+ * pose detector is then run per region, and a blob wider than the person
+ * found in it is split so people who touch are still detected separately. One person is the subject that
+ * try-on and measurements follow: picked automatically (largest or most
+ * central) unless the user selected someone, and kept while they stay in view.
+ */
+class PersonTracker {
+  private tracks: PersonTrack[] = [];
+  private people: TrackedPerson<any>[] = [];
+  private nextId = 1;
+  private selectedId: number | null = null;
+  private autoSubjectId: number | null = null;
+  private strategy: SubjectStrategy;
+
+  constructor(strategy: SubjectStrategy = 'largest') {
+    this.strategy = strategy;
+  }
+
+  setSubjectStrategy(strategy: SubjectStrategy): void {
+    this.strategy = strategy;
+    this.autoSubjectId = null;
+  }
+
+  // Person regions in normalized coordinates, largest first
+  findRegions(mask: ImageData): PersonRegion[] {
+    const step = Math.max(1, Math.ceil(mask.width / REGION_GRID_WIDTH));
+    const columns = Math.ceil(mask.width / step);
+    const rows = Math.ceil(mask.height / step);
+    const occupied = new Uint8Array(columns * rows);
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const x = Math.min(mask.width - 1, column * step + (step >> 1));
+        const y = Math.min(mask.height - 1, row * step + (step >> 1));
+        occupied[row * columns + column] = mask.data[(y * mask.width + x) * 4 + 3] >= 128 ? 1 : 0;
+      }
+    }
+
+    const labels = new Int32Array(columns * rows);
+    const regions: PersonRegion[] = [];
+    const minCells = columns * rows * MIN_PERSON_AREA;
+    let label = 0;
+
+    for (let start = 0; start < occupied.length; start++) {
+      if (!occupied[start] || labels[start]) continue;
+
+      label++;
+      labels[start] = label;
+      const stack = [start];
+      let cells = 0;
+      let minX = columns, minY = rows, maxX = 0, maxY = 0;
+
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const column = index % columns;
+        const row = (index - column) / columns;
+        cells++;
+        minX = Math.min(minX, column);
+        maxX = Math.max(maxX, column);
+        minY = Math.min(minY, row);
+        maxY = Math.max(maxY, row);
+
+        const neighbors = [
+          column > 0 ? index - 1 : -1,
+          column < columns - 1 ? index + 1 : -1,
+          row > 0 ? index - columns : -1,
+          row < rows - 1 ? index + columns : -1
+        ];
+        neighbors.forEach(neighbor => {
+          if (neighbor >= 0 && occupied[neighbor] && !labels[neighbor]) {
+            labels[neighbor] = label;
+            stack.push(neighbor);
+          }
+        });
+      }
+
+      if (cells >= minCells) {
+        regions.push({
+          x: minX / columns,
+          y: minY / rows,
+          width: (maxX - minX + 1) / columns,
+          height: (maxY - minY + 1) / rows,
+          area: cells / (columns * rows)
+        });
+      }
+    }
+
+    return regions.sort((a, b) => b.area - a.area).slice(0, MAX_PEOPLE);
+  }
+
+  /**
+   * People standing close together or overlapping form one connected blob.
+   * Given the pose found in a region, returns the part of it that person
+   * occupies and the leftover strips on either side wide enough to be
+   * someone else, to run the detector on in turn.
+   */
+  splitRegion(region: PersonRegion, keypoints: Array<{ x: number; y: number; confidence: number }>): { person: PersonRegion; rest: PersonRegion[] } {
+    const visible = keypoints.filter(k => k.confidence >= SPLIT_MIN_CONFIDENCE);
+    if (visible.length === 0) return { person: region, rest: [] };
+
+    const xs = visible.map(k => k.x);
+    const ys = visible.map(k => k.y);
+    const center = (Math.min(...xs) + Math.max(...xs)) / 2;
+    // Shoulder keypoints of someone standing side-on are nearly level, so the width has a floor
+    const bodyWidth = Math.max(Math.max(...xs) - Math.min(...xs), (Math.max(...ys) - Math.min(...ys)) * MIN_BODY_ASPECT);
+    const halfWidth = bodyWidth * (0.5 + BODY_MARGIN);
+    const left = Math.max(region.x, center - halfWidth);
+    const right = Math.min(region.x + region.width, center + halfWidth);
+    if (right <= left) return { person: region, rest: [] };
+
+    const strip = (x: number, width: number): PersonRegion => ({
+      x,
+      y: region.y,
+      width,
+      height: region.height,
+      area: region.area * width / region.width
+    });
+
+    const rest = [strip(region.x, left - region.x), strip(right, region.x + region.width - right)]
+      .filter(part => part.width >= bodyWidth * MIN_SPLIT_WIDTH && part.area >= MIN_PERSON_AREA);
+
+    return { person: rest.length > 0 ? strip(left, right - left) : region, rest };
+  }
+
+  // Padded crop of one region, plus the box it actually covers for mapping results back
+  cropRegion(image: CanvasImageSource, imageSize: RegionImageSize, region: PersonRegion): { canvas: HTMLCanvasElement; box: PersonRegion } {
+    const padX = region.width * CROP_PADDING;
+    const padY = region.height * CROP_PADDING;
+    const x = Math.max(0, region.x - padX);
+    const y = Math.max(0, region.y - padY);
+    const box: PersonRegion = {
+      x,
+      y,
+      width: Math.min(1, region.x + region.width + padX) - x,
+      height: Math.min(1, region.y + region.height + padY) - y,
+      area: region.area
+    };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(box.width * imageSize.width));
+    canvas.height = Math.max(1, Math.round(box.height * imageSize.height));
+    canvas.getContext('2d')!.drawImage(
+      image,
+      box.x * imageSize.width,
+      box.y * imageSize.height,
+      canvas.width,
+      canvas.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+
+    return { canvas, box };
+  }
+
+  // Maps normalized landmarks from a crop back onto the full frame
+  toFrameCoordinates<T extends { x: number; y: number }>(landmarks: T[], box: PersonRegion): T[] {
+    return landmarks.map(landmark => ({
+      ...landmark,
+      x: box.x + landmark.x * box.width,
+      y: box.y + landmark.y * box.height
+    }));
+  }
+
+  /**
+   * Matches this update's detections to known people by box overlap and
+   * returns them with their IDs. Unmatched detections become new people.
+   */
+  update<T>(detections: PersonDetection<T>[]): TrackedPerson<T>[] {
+    const pairs: Array<{ track: PersonTrack; detection: number; iou: number }> = [];
+    this.tracks.forEach(track => {
+      detections.forEach((detection, index) => {
+        const iou = intersectionOverUnion(track.box, detection.box);
+        if (iou >= MIN_MATCH_IOU) pairs.push({ track, detection: index, iou });
+      });
+    });
+
+    // Greedy assignment, best overlap first
+    const assigned = new Map<number, PersonTrack>();
+    const matchedTracks = new Set<PersonTrack>();
+    pairs
+      .sort((a, b) => b.iou - a.iou)
+      .forEach(({ track, detection }) => {
+        if (assigned.has(detection) || matchedTracks.has(track)) return;
+        assigned.set(detection, track);
+        matchedTracks.add(track);
+      });
+
+    const people = detections.map((detection, index) => {
+      let track = assigned.get(index);
+      if (!track) {
+        track = { id: this.nextId++, box: detection.box, missed: 0 };
+        this.tracks.push(track);
+      }
+      track.box = detection.box;
+      track.missed = 0;
+      return { id: track.id, box: detection.box, pose: detection.pose };
+    });
+
+    const seen = new Set(people.map(person => person.id));
+    this.tracks = this.tracks.filter(track => seen.has(track.id) || ++track.missed <= MAX_MISSED_UPDATES);
+    this.people = people;
+    return people;
+  }
+
+  getPeople(): TrackedPerson<any>[] {
+    return this.people;
+  }
+
+  /**
+   * The person try-on follows: the user's pick while they are in view,
+   * otherwise the previous automatic pick, otherwise the best candidate.
+   */
+  getSubject<T>(people: TrackedPerson<T>[]): TrackedPerson<T> | null {
+    if (people.length === 0) return null;
+
+    const selected = people.find(person => person.id === this.selectedId);
+    if (selected) return selected;
+
+    const previous = people.find(person => person.id === this.autoSubjectId);
+    if (previous) return previous;
+
+    const best = [...people].sort((a, b) => this.scoreSubject(b) - this.scoreSubject(a))[0];
+    this.autoSubjectId = best.id;
+    return best;
+  }
+
+  getSubjectId(): number | null {
+    return this.getSubject(this.people)?.id ?? null;
+  }
+
+  selectPerson(id: number | null): void {
+    this.selectedId = id;
+  }
+
+  // Tap-to-select in normalized frame coordinates; the smallest box under the tap wins
+  selectPersonAt(x: number, y: number): number | null {
+    const hit = this.people
+      .filter(({ box }) => x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height)
+      .sort((a, b) => a.box.width * a.box.height - b.box.width * b.box.height)[0];
+
+    if (hit) this.selectedId = hit.id;
+    return hit ? hit.id : null;
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.people = [];
+    this.selectedId = null;
+    this.autoSubjectId = null;
+  }
+
+  private scoreSubject(person: TrackedPerson<unknown>): number {
+    const { box } = person;
+    const area = box.width * box.height;
+    if (this.strategy === 'largest') return area;
+
+    // Central: distance of the box center from the frame center, area only breaks ties
+    const dx = box.x + box.width / 2 - 0.5;
+    const dy = box.y + box.height / 2 - 0.5;
+    return -Math.hypot(dx, dy) + area * 0.01;
+  }
+}
+
+function intersectionOverUnion(a: PersonRegion, b: PersonRegion): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+// Interfaces
+export type SubjectStrategy = 'largest' | 'central';
+
+export interface PersonRegion {
+  // Normalized box
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Share of the frame covered by the person's mask
+  area: number;
+}
+
+export interface RegionImageSize {
+  width: number;
+  height: number;
+}
+
+export interface PersonDetection<T> {
+  box: PersonRegion;
+  pose: T;
+}
+
+export interface TrackedPerson<T> {
+  id: number;
+  box: PersonRegion;
+  pose: T;
+}
+
+interface PersonTrack {
+  id: number;
+  box: PersonRegion;
+  missed: number;
+}
+
+export default PersonTracker;
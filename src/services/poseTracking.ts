@@ -0,0 +1,200 @@
+// One-Euro parameters per level, tuned for normalized (0-1) image coordinates.
+// Lower minCutoff removes more jitter at rest; higher beta lets fast moves through with less lag.
+const SMOOTHING_PRESETS: Record<Exclude<SmoothingLevel, 'off'>, OneEuroParameters> = {
+  low: { minCutoff: 2.5, beta: 4, derivativeCutoff: 1 },
+  medium: { minCutoff: 1.2, beta: 2.5, derivativeCutoff: 1 },
+  high: { minCutoff: 0.5, beta: 1.5, derivativeCutoff: 1 }
+};
+
+// Below this a measurement is treated as unreliable and the track holds its last estimate
+const HOLD_CONFIDENCE = 0.5;
+// How long a keypoint is held or extrapolated before it is dropped from the track
+const MAX_HOLD_MS = 400;
+// Extrapolated velocity fades out over the hold so a lost limb doesn't fly off screen
+const VELOCITY_DECAY = 0.85;
+
+/**
+ * Smooths a live pose stream. Each keypoint is tracked with a One-Euro filter;
+ * low-confidence measurements are replaced by the held estimate, and frames
+ * without a detection are extrapolated from the filtered velocity for a short
+ * while. Confidence of held and predicted keypoints fades with their age.
+ */
+class PoseTracker {
+  private tracks = new Map<string, KeypointTrack>();
+  private lastPose: TrackablePose | null = null;
+  private lastTimestamp = 0;
+  private level: SmoothingLevel;
+
+  constructor(level: SmoothingLevel = 'medium') {
+    this.level = level;
+  }
+
+  getSmoothingLevel(): SmoothingLevel {
+    return this.level;
+  }
+
+  setSmoothingLevel(level: SmoothingLevel): void {
+    if (level === this.level) return;
+    this.level = level;
+    // Filter state from one cutoff is a poor start for another
+    this.reset();
+  }
+
+  /**
+   * Feeds the detection for a frame (null when detection failed or was
+   * dropped) and returns the tracked pose, or null once every keypoint has
+   * been lost for longer than the hold time.
+   */
+  update<T extends TrackablePose>(pose: T | null, timestamp: number): TrackedPose<T> | null {
+    if (this.level === 'off') {
+      return pose ? { ...pose, tracking: { predicted: false, heldKeypoints: 0 } } : null;
+    }
+
+    const dt = this.lastTimestamp ? Math.max(timestamp - this.lastTimestamp, 1) / 1000 : 1 / 30;
+    this.lastTimestamp = timestamp;
+
+    if (pose) {
+      this.lastPose = pose;
+      pose.keypoints.forEach(keypoint => this.observe(keypoint, timestamp, dt));
+    }
+
+    // Tracks that got no usable measurement this frame coast on their velocity
+    let heldKeypoints = 0;
+    this.tracks.forEach((track, name) => {
+      if (track.lastSeen === timestamp) return;
+      if (timestamp - track.lastSeen > MAX_HOLD_MS) {
+        this.tracks.delete(name);
+        return;
+      }
+      this.coast(track, dt);
+      heldKeypoints++;
+    });
+
+    const template = pose || this.lastPose;
+    if (!template || this.tracks.size === 0) return null;
+
+    const keypoints = template.keypoints
+      .map(keypoint => {
+        const track = this.tracks.get(keypoint.name);
+        if (!track) return keypoint;
+
+        const age = timestamp - track.lastSeen;
+        return {
+          ...keypoint,
+          x: track.x.value,
+          y: track.y.value,
+          confidence: track.confidence * (1 - age / MAX_HOLD_MS)
+        };
+      })
+      .filter(keypoint => pose || this.tracks.has(keypoint.name));
+
+    return {
+      ...(template as T),
+      keypoints,
+      tracking: { predicted: !pose, heldKeypoints }
+    };
+  }
+
+  reset(): void {
+    this.tracks.clear();
+    this.lastPose = null;
+    this.lastTimestamp = 0;
+  }
+
+  private observe(keypoint: TrackableKeypoint, timestamp: number, dt: number): void {
+    // Confidence-gated hold: a shaky detection neither starts nor moves a track
+    if (keypoint.confidence < HOLD_CONFIDENCE) return;
+
+    const track = this.tracks.get(keypoint.name);
+    if (!track) {
+      const parameters = SMOOTHING_PRESETS[this.level as Exclude<SmoothingLevel, 'off'>];
+      this.tracks.set(keypoint.name, {
+        x: new OneEuroFilter(parameters, keypoint.x),
+        y: new OneEuroFilter(parameters, keypoint.y),
+        confidence: keypoint.confidence,
+        lastSeen: timestamp
+      });
+      return;
+    }
+
+    track.x.filter(keypoint.x, dt);
+    track.y.filter(keypoint.y, dt);
+    track.confidence = keypoint.confidence;
+    track.lastSeen = timestamp;
+  }
+
+  private coast(track: KeypointTrack, dt: number): void {
+    track.x.predict(dt, VELOCITY_DECAY);
+    track.y.predict(dt, VELOCITY_DECAY);
+  }
+}
+
+// Casiez et al., "1€ Filter: A Simple Speed-based Low-pass Filter for Noisy Input in Interactive Systems" (CHI 2012)
+class OneEuroFilter {
+  value: number;
+  private derivative = 0;
+  private parameters: OneEuroParameters;
+
+  constructor(parameters: OneEuroParameters, initial: number) {
+    this.parameters = parameters;
+    this.value = initial;
+  }
+
+  filter(measurement: number, dt: number): number {
+    const rawDerivative = (measurement - this.value) / dt;
+    this.derivative += smoothingFactor(this.parameters.derivativeCutoff, dt) * (rawDerivative - this.derivative);
+
+    const cutoff = this.parameters.minCutoff + this.parameters.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (measurement - this.value);
+    return this.value;
+  }
+
+  predict(dt: number, decay: number): number {
+    this.derivative *= decay;
+    this.value += this.derivative * dt;
+    return this.value;
+  }
+}
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+// Interfaces
+export type SmoothingLevel = 'off' | 'low' | 'medium' | 'high';
+
+export interface TrackableKeypoint {
+  x: number;
+  y: number;
+  confidence: number;
+  name: string;
+}
+
+export interface TrackablePose {
+  keypoints: TrackableKeypoint[];
+}
+
+export type TrackedPose<T extends TrackablePose = TrackablePose> = T & {
+  tracking: {
+    // No detection this frame; every keypoint is extrapolated
+    predicted: boolean;
+    // Keypoints held or extrapolated instead of measured
+    heldKeypoints: number;
+  };
+};
+
+interface OneEuroParameters {
+  minCutoff: number;
+  beta: number;
+  derivativeCutoff: number;
+}
+
+interface KeypointTrack {
+  x: OneEuroFilter;
+  y: OneEuroFilter;
+  confidence: number;
+  lastSeen: number;
+}
+
+export default PoseTracker;
@@ -1,5 +1,16 @@
 import * as tf from '@tensorflow/tfjs';
 import '@tensorflow/tfjs-backend-webgl';
+import { Centimeters } from '../types/enhanced';
+import BodyCalibrationService, { CalibrationMethod, ImageSize, MeasurementErrors } from './bodyCalibration';
+import { createConfiguredBackend, FixtureRecorder, InferenceBackend, InferenceBackendKind, InferenceFixture, PoseEstimate, SeededMockBackend } from './inferenceBackend';
+import OutfitLayeringEngine from './outfitLayering';
+import PersonTracker, { MAX_PEOPLE, PersonDetection, SubjectStrategy, TrackedPerson } from './personTracking';
+import ResilienceRegistry from './resiliencePolicies';
+
+const FIT_POINT_MIN_CONFIDENCE = 0.3;
+// Mask alpha outside this band counts as a confident person/background call
+const DECISIVE_MASK_LOW = 25;
+const DECISIVE_MASK_HIGH = 230;
 
 export class RealAIService {
   private static instance: RealAIService;
@@ -10,6 +21,13 @@ export class RealAIService {
   private modelCache = new Map<string, tf.LayersModel>();
   private processingQueue: ProcessingTask[] = [];
   private isProcessing = false;
+  private layeringEngine = new OutfitLayeringEngine();
+  private personTracker = new PersonTracker();
+  // undefined until the build configuration has been read; null means real models
+  private backend: InferenceBackend | null | undefined = undefined;
+  // Stands in for models that fail to load, so fallback output is repeatable too
+  private mockBackend = new SeededMockBackend();
+  private recorder: FixtureRecorder | null = null;
 
   static getInstance(): RealAIService {
     if (!RealAIService.instance) {
@@ -21,6 +39,23 @@ export class RealAIService {
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
+    if (this.backend === undefined) {
+      try {
+        this.backend = await createConfiguredBackend();
+      } catch (error) {
+        console.error('Failed to load configured inference backend, using real models:', error);
+        this.backend = null;
+      }
+    }
+
+    if (this.backend) {
+      this.poseDetector = this.createBackendPoseDetector(this.backend);
+      this.segmentationModel = this.createBackendSegmentationModel(this.backend);
+      this.initialized = true;
+      console.log(`Real AI Service initialized with ${this.backend.kind} inference backend`);
+      return;
+    }
+
     try {
       // Initialize TensorFlow.js with optimizations
       await tf.ready();
@@ -86,10 +121,10 @@ export class RealAIService {
   private async initializeTensorFlowPose(): Promise<void> {
     try {
       // Load a lightweight pose detection model
-      this.poseDetector = await tf.loadLayersModel('/models/posenet-mobilenet.json');
+      this.poseDetector = await ResilienceRegistry.getInstance().execute('ai:model-load', () => tf.loadLayersModel('/models/posenet-mobilenet.json'));
     } catch (error) {
       console.warn('TensorFlow pose model failed to load, using mock detection');
-      this.poseDetector = this.createMockPoseDetector();
+      this.poseDetector = this.createBackendPoseDetector(this.mockBackend);
     }
   }
 
@@ -115,10 +150,10 @@ export class RealAIService {
 
   private async initializeTensorFlowSegmentation(): Promise<void> {
     try {
-      this.segmentationModel = await tf.loadLayersModel('/models/bodypix-mobilenet.json');
+      this.segmentationModel = await ResilienceRegistry.getInstance().execute('ai:model-load', () => tf.loadLayersModel('/models/bodypix-mobilenet.json'));
     } catch (error) {
       console.warn('TensorFlow segmentation model failed to load, using mock segmentation');
-      this.segmentationModel = this.createMockSegmentationModel();
+      this.segmentationModel = this.createBackendSegmentationModel(this.mockBackend);
     }
   }
 
@@ -131,7 +166,7 @@ export class RealAIService {
 
     for (const { name, url } of modelUrls) {
       try {
-        const model = await tf.loadLayersModel(url);
+        const model = await ResilienceRegistry.getInstance().execute('ai:model-load', () => tf.loadLayersModel(url));
         this.modelCache.set(name, model);
         console.log(`Loaded ${name} model successfully`);
       } catch (error) {
@@ -142,96 +177,199 @@ export class RealAIService {
 
   private async initializeFallbackMethods(): Promise<void> {
     // Create mock implementations for when real AI models fail
-    this.poseDetector = this.createMockPoseDetector();
-    this.segmentationModel = this.createMockSegmentationModel();
+    this.poseDetector = this.createBackendPoseDetector(this.mockBackend);
+    this.segmentationModel = this.createBackendSegmentationModel(this.mockBackend);
     console.log('Initialized with fallback methods');
   }
 
-  private createMockPoseDetector(): any {
+  private createBackendPoseDetector(backend: InferenceBackend): any {
     return {
-      detect: async (imageElement: HTMLImageElement): Promise<EnhancedBodyPose> => {
-        // Generate realistic mock pose data
-        const mockKeypoints = this.generateMockKeypoints(imageElement);
-        return {
-          keypoints: mockKeypoints,
-          boundingBox: this.calculateBoundingBox(mockKeypoints),
-          confidence: 0.75 + Math.random() * 0.2,
-          bodyMeasurements: this.estimateBodyMeasurements(mockKeypoints),
-          pose3D: []
-        };
-      }
+      detect: async (imageElement: PoseImage): Promise<EnhancedBodyPose> =>
+        this.toEnhancedPose(await backend.detectPose(imageElement), imageElement)
     };
   }
 
-  private createMockSegmentationModel(): any {
+  private createBackendSegmentationModel(backend: InferenceBackend): any {
     return {
-      segment: async (imageElement: HTMLImageElement): Promise<EnhancedBodySegmentation> => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = imageElement.width;
-        canvas.height = imageElement.height;
-        
-        // Create a mock segmentation mask
-        const imageData = ctx.createImageData(canvas.width, canvas.height);
-        this.generateMockSegmentationMask(imageData);
-
-        return {
-          mask: imageData,
-          bodyParts: ['torso', 'leftArm', 'rightArm', 'leftLeg', 'rightLeg', 'head'],
-          confidence: 0.8 + Math.random() * 0.15,
-          boundingBox: { x: 0.2, y: 0.1, width: 0.6, height: 0.8 },
-          pixelAccuracy: 0.85 + Math.random() * 0.1
-        };
-      }
+      segment: async (imageElement: HTMLImageElement): Promise<EnhancedBodySegmentation> =>
+        this.toSegmentation(await backend.segmentPerson(imageElement))
     };
   }
 
-  async detectBodyPose(imageElement: HTMLImageElement): Promise<EnhancedBodyPose> {
+  /**
+   * Swaps the models behind pose detection and segmentation: a seeded mock or
+   * fixture replay for deterministic runs, or null for the real models.
+   * Tracked people are dropped since IDs from the old source don't carry over.
+   */
+  setInferenceBackend(backend: InferenceBackend | null): void {
+    this.backend = backend;
+    backend?.rewind();
+    this.mockBackend.rewind();
+    this.personTracker.reset();
+    this.initialized = false;
+  }
+
+  getInferenceBackendKind(): InferenceBackendKind {
+    return this.backend?.kind ?? 'real';
+  }
+
+  // Records every pose and mask produced from here on, including crops and failed frames
+  startFixtureRecording(): void {
+    this.recorder = new FixtureRecorder();
+  }
+
+  // Fixture for FixtureReplayBackend; replaying needs the same sequence of detectPeople/segmentBody calls
+  stopFixtureRecording(): InferenceFixture | null {
+    const fixture = this.recorder?.toFixture() ?? null;
+    this.recorder = null;
+    return fixture;
+  }
+
+  /**
+   * Pose of the subject: the person picked with selectPerson/selectPersonAt,
+   * or the largest person in frame. Everyone detected is in getDetectedPeople.
+   * Pass the frame's segmentation if the caller has one, so it isn't run twice.
+   */
+  async detectBodyPose(imageElement: HTMLImageElement, segmentation?: EnhancedBodySegmentation): Promise<EnhancedBodyPose> {
+    const people = await this.detectPeople(imageElement, segmentation);
+    const subject = this.personTracker.getSubject(people);
+    if (!subject) {
+      throw new Error('No pose detected');
+    }
+    return subject.pose;
+  }
+
+  // Runs the single-person detector once per person blob in the segmentation mask
+  async detectPeople(imageElement: HTMLImageElement, segmentation?: EnhancedBodySegmentation): Promise<TrackedPerson<EnhancedBodyPose>[]> {
     if (!this.initialized) await this.initialize();
 
-    try {
-      if (this.poseDetector.detect) {
-        // Use mock detector
-        return await this.poseDetector.detect(imageElement);
-      } else if (this.poseDetector.send) {
-        // Use MediaPipe detector
-        return new Promise((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error('Pose detection timeout'));
-          }, 10000);
-
-          this.poseDetector.onResults((results: any) => {
-            clearTimeout(timeout);
-            if (results.poseLandmarks) {
-              const enhancedPose: EnhancedBodyPose = {
-                keypoints: results.poseLandmarks.map((landmark: any, index: number) => ({
-                  x: landmark.x,
-                  y: landmark.y,
-                  z: landmark.z || 0,
-                  confidence: landmark.visibility || 0,
-                  name: this.getLandmarkName(index)
-                })),
-                boundingBox: this.calculateBoundingBox(results.poseLandmarks),
-                confidence: this.calculateOverallConfidence(results.poseLandmarks),
-                bodyMeasurements: this.estimateBodyMeasurements(results.poseLandmarks),
-                pose3D: results.poseWorldLandmarks || []
-              };
-              resolve(enhancedPose);
-            } else {
-              reject(new Error('No pose detected'));
-            }
-          });
+    const imageSize = this.getImageSize(imageElement);
+    const mask = segmentation?.mask ?? (await this.segmentBody(imageElement).catch(() => null))?.mask;
+    const regions = mask ? this.personTracker.findRegions(mask) : [];
+    const detections: PersonDetection<EnhancedBodyPose>[] = [];
+    let pending = regions;
+
+    if (regions.length <= 1) {
+      const pose = await this.detectSinglePose(imageElement);
+      if (regions[0]) {
+        const { person, rest } = this.personTracker.splitRegion(regions[0], pose.keypoints);
+        detections.push({ box: person, pose });
+        pending = rest;
+      } else {
+        detections.push({ box: { ...pose.boundingBox, area: pose.boundingBox.width * pose.boundingBox.height }, pose });
+        pending = [];
+      }
+    }
 
-          this.poseDetector.send({ image: imageElement });
+    // The detector handles one image at a time, so crops run in sequence; split-off strips join the queue
+    while (pending.length > 0 && detections.length < MAX_PEOPLE) {
+      const [region, ...remaining] = pending;
+      pending = remaining;
+      const { canvas, box } = this.personTracker.cropRegion(imageElement, imageSize, region);
+      try {
+        // Landmark smoothing from the previous crop belongs to a different person
+        this.poseDetector.reset?.();
+        const cropPose = await this.detectSinglePose(canvas);
+        const keypoints = this.personTracker.toFrameCoordinates(cropPose.keypoints, box);
+        const { person, rest } = this.personTracker.splitRegion(region, keypoints);
+        detections.push({
+          box: person,
+          pose: {
+            ...cropPose,
+            keypoints,
+            boundingBox: this.calculateBoundingBox(keypoints),
+            bodyMeasurements: this.estimateBodyMeasurements(keypoints, imageSize)
+          }
         });
-      } else {
-        // Use TensorFlow model
-        return await this.detectPoseWithTensorFlow(imageElement);
+        pending = [...pending, ...rest];
+      } catch (error) {
+        console.warn('Pose detection failed for a person region:', error);
       }
+    }
+
+    const people = this.personTracker.update(detections);
+    people.forEach(person => {
+      person.pose.personId = person.id;
+    });
+    return people;
+  }
+
+  getDetectedPeople(): TrackedPerson<EnhancedBodyPose>[] {
+    return this.personTracker.getPeople();
+  }
+
+  getSubjectId(): number | null {
+    return this.personTracker.getSubjectId();
+  }
+
+  // null returns subject choice to automatic selection
+  selectPerson(personId: number | null): void {
+    this.personTracker.selectPerson(personId);
+  }
+
+  // Tap-to-select with normalized frame coordinates; returns the picked person's ID
+  selectPersonAt(x: number, y: number): number | null {
+    return this.personTracker.selectPersonAt(x, y);
+  }
+
+  setSubjectStrategy(strategy: SubjectStrategy): void {
+    this.personTracker.setSubjectStrategy(strategy);
+  }
+
+  private async detectSinglePose(imageElement: PoseImage): Promise<EnhancedBodyPose> {
+    try {
+      const pose = await ResilienceRegistry.getInstance().execute('ai:pose', () => this.runPoseDetector(imageElement));
+      this.recorder?.recordPose(pose);
+      return pose;
     } catch (error) {
+      this.recorder?.recordPose(null);
+      // A configured backend's failures are part of the run being reproduced
+      if (this.backend) throw error;
+
       console.error('Pose detection failed:', error);
       // Return mock data as fallback
+      return this.toEnhancedPose(await this.mockBackend.detectPose(imageElement), imageElement);
+    }
+  }
+
+  private async runPoseDetector(imageElement: PoseImage): Promise<EnhancedBodyPose> {
+    if (this.poseDetector.detect) {
+      // Use inference backend or mock detector
       return await this.poseDetector.detect(imageElement);
+    } else if (this.poseDetector.send) {
+      // Use MediaPipe detector
+      return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          reject(new Error('Pose detection timeout'));
+        }, 10000);
+
+        this.poseDetector.onResults((results: any) => {
+          clearTimeout(timeout);
+          if (results.poseLandmarks) {
+            const enhancedPose: EnhancedBodyPose = {
+              keypoints: results.poseLandmarks.map((landmark: any, index: number) => ({
+                x: landmark.x,
+                y: landmark.y,
+                z: landmark.z || 0,
+                confidence: landmark.visibility || 0,
+                name: this.getLandmarkName(index)
+              })),
+              boundingBox: this.calculateBoundingBox(results.poseLandmarks),
+              confidence: this.calculateOverallConfidence(results.poseLandmarks),
+              bodyMeasurements: this.estimateBodyMeasurements(results.poseLandmarks, this.getImageSize(imageElement)),
+              pose3D: results.poseWorldLandmarks || []
+            };
+            resolve(enhancedPose);
+          } else {
+            reject(new Error('No pose detected'));
+          }
+        });
+
+        this.poseDetector.send({ image: imageElement });
+      });
+    } else {
+      // Use TensorFlow model
+      return await this.detectPoseWithTensorFlow(imageElement);
     }
   }
 
@@ -239,50 +377,69 @@ export class RealAIService {
     if (!this.initialized) await this.initialize();
 
     try {
-      if (this.segmentationModel.segment) {
-        // Use mock segmentation
-        return await this.segmentationModel.segment(imageElement);
-      } else if (this.segmentationModel.send) {
-        // Use MediaPipe segmentation
-        return new Promise((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error('Segmentation timeout'));
-          }, 10000);
-
-          this.segmentationModel.onResults((results: any) => {
-            clearTimeout(timeout);
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d')!;
-            canvas.width = imageElement.width;
-            canvas.height = imageElement.height;
-
-            ctx.drawImage(results.segmentationMask, 0, 0);
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-            const segmentation: EnhancedBodySegmentation = {
-              mask: imageData,
-              bodyParts: this.identifyBodyParts(imageData),
-              confidence: 0.85,
-              boundingBox: this.calculateSegmentationBounds(imageData),
-              pixelAccuracy: this.calculatePixelAccuracy(imageData)
-            };
-
-            resolve(segmentation);
-          });
-
-          this.segmentationModel.send({ image: imageElement });
-        });
-      } else {
-        // Use TensorFlow model
-        return await this.segmentBodyWithTensorFlow(imageElement);
-      }
+      const segmentation = await ResilienceRegistry.getInstance().execute('ai:segmentation', () => this.runSegmentation(imageElement));
+      this.recorder?.recordMask(segmentation.mask);
+      return segmentation;
     } catch (error) {
+      this.recorder?.recordMask(null);
+      if (this.backend) throw error;
+
       console.error('Body segmentation failed:', error);
       // Return mock data as fallback
+      return this.toSegmentation(await this.mockBackend.segmentPerson(imageElement));
+    }
+  }
+
+  private async runSegmentation(imageElement: HTMLImageElement): Promise<EnhancedBodySegmentation> {
+    if (this.segmentationModel.segment) {
+      // Use inference backend or mock segmentation
       return await this.segmentationModel.segment(imageElement);
+    } else if (this.segmentationModel.send) {
+      // Use MediaPipe segmentation
+      return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          reject(new Error('Segmentation timeout'));
+        }, 10000);
+
+        this.segmentationModel.onResults((results: any) => {
+          clearTimeout(timeout);
+          const canvas = document.createElement('canvas');
+          const ctx = canvas.getContext('2d')!;
+          canvas.width = imageElement.width;
+          canvas.height = imageElement.height;
+
+          ctx.drawImage(results.segmentationMask, 0, 0);
+          resolve(this.toSegmentation(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+        });
+
+        this.segmentationModel.send({ image: imageElement });
+      });
+    } else {
+      // Use TensorFlow model
+      return await this.segmentBodyWithTensorFlow(imageElement);
     }
   }
 
+  private toEnhancedPose(estimate: PoseEstimate, imageElement: PoseImage): EnhancedBodyPose {
+    return {
+      keypoints: estimate.keypoints,
+      boundingBox: this.calculateBoundingBox(estimate.keypoints),
+      confidence: this.calculateOverallConfidence(estimate.keypoints),
+      bodyMeasurements: this.estimateBodyMeasurements(estimate.keypoints, this.getImageSize(imageElement)),
+      pose3D: estimate.pose3D || []
+    };
+  }
+
+  private toSegmentation(mask: ImageData): EnhancedBodySegmentation {
+    return {
+      mask,
+      bodyParts: this.identifyBodyParts(mask),
+      confidence: 0.85,
+      boundingBox: this.calculateSegmentationBounds(mask),
+      pixelAccuracy: this.calculatePixelAccuracy(mask)
+    };
+  }
+
   async fitClothingToBody(
     bodyPose: EnhancedBodyPose,
     clothingItem: ClothingItem,
@@ -338,7 +495,7 @@ export class RealAIService {
     // Advanced clothing fitting algorithm with fallbacks
     const fitPoints = this.calculateFitPoints(bodyPose, clothingItem.category);
     const deformation = this.calculateClothingDeformation(bodyPose, clothingItem);
-    const occlusion = this.calculateOcclusion(bodySegmentation, clothingItem);
+    const occlusion = this.calculateOcclusion(bodySegmentation, clothingItem, bodyPose);
 
     // Use ML model if available, otherwise use rule-based approach
     let fitScore = 0.5;
@@ -356,6 +513,7 @@ export class RealAIService {
     }
 
     return {
+      fitPoints,
       transformMatrix: this.generateTransformMatrix(fitPoints),
       deformationMap: deformation,
       occlusionMask: occlusion,
@@ -365,7 +523,7 @@ export class RealAIService {
     };
   }
 
-  private async detectPoseWithTensorFlow(imageElement: HTMLImageElement): Promise<EnhancedBodyPose> {
+  private async detectPoseWithTensorFlow(imageElement: PoseImage): Promise<EnhancedBodyPose> {
     // Implement TensorFlow.js pose detection
     const tensor = tf.browser.fromPixels(imageElement);
     const resized = tf.image.resizeBilinear(tensor, [257, 257]);
@@ -384,7 +542,7 @@ export class RealAIService {
         keypoints,
         boundingBox: this.calculateBoundingBox(keypoints),
         confidence: this.calculateOverallConfidence(keypoints),
-        bodyMeasurements: this.estimateBodyMeasurements(keypoints),
+        bodyMeasurements: this.estimateBodyMeasurements(keypoints, this.getImageSize(imageElement)),
         pose3D: []
       };
     } catch (error) {
@@ -514,59 +672,6 @@ export class RealAIService {
     return bestFit;
   }
 
-  private generateMockKeypoints(imageElement: HTMLImageElement): any[] {
-    const keypoints = [];
-    const keypointNames = [
-      'nose', 'leftEye', 'rightEye', 'leftEar', 'rightEar',
-      'leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow',
-      'leftWrist', 'rightWrist', 'leftHip', 'rightHip',
-      'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle'
-    ];
-    
-    keypointNames.forEach((name, index) => {
-      keypoints.push({
-        x: 0.3 + Math.random() * 0.4,
-        y: 0.1 + (index / keypointNames.length) * 0.8,
-        z: 0,
-        confidence: 0.7 + Math.random() * 0.3,
-        name
-      });
-    });
-    
-    return keypoints;
-  }
-
-  private generateMockSegmentationMask(imageData: ImageData): void {
-    const { data, width, height } = imageData;
-    
-    // Create a simple person-shaped mask
-    const centerX = width / 2;
-    const centerY = height / 2;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        
-        // Simple elliptical person shape
-        const dx = (x - centerX) / (width * 0.3);
-        const dy = (y - centerY) / (height * 0.4);
-        const distance = dx * dx + dy * dy;
-        
-        if (distance <= 1) {
-          data[index] = 255;     // R
-          data[index + 1] = 255; // G
-          data[index + 2] = 255; // B
-          data[index + 3] = 255; // A
-        } else {
-          data[index] = 0;
-          data[index + 1] = 0;
-          data[index + 2] = 0;
-          data[index + 3] = 0;
-        }
-      }
-    }
-  }
-
   // Helper methods with improved error handling
   private getLandmarkName(index: number): string {
     const landmarkNames = [
@@ -608,101 +713,52 @@ export class RealAIService {
     return confidences.reduce((sum, conf) => sum + conf, 0) / confidences.length;
   }
 
-  private estimateBodyMeasurements(landmarks: any[]): BodyMeasurements {
+  private estimateBodyMeasurements(landmarks: any[], imageSize: ImageSize): BodyMeasurements {
+    const defaults: BodyMeasurements = {
+      height: 170,
+      shoulderWidth: 40,
+      chest: 90,
+      waist: 75,
+      hips: 95,
+      armLength: 60,
+      legLength: 100
+    };
+
     if (!landmarks || landmarks.length === 0) {
-      return {
-        height: 170,
-        shoulderWidth: 40,
-        chest: 90,
-        waist: 75,
-        hips: 95,
-        armLength: 60,
-        legLength: 100
-      };
+      return defaults;
     }
 
     try {
-      const shoulderWidth = this.calculateDistance(
-        landmarks.find(l => l.name === 'leftShoulder'),
-        landmarks.find(l => l.name === 'rightShoulder')
-      );
-      
+      // Scale comes from the user's calibration (height or reference object); without one the
+      // measurements assume an average stature and the error estimates say so
+      const calibrated = BodyCalibrationService.getInstance().measure(landmarks, imageSize);
+      if (!calibrated) return defaults;
+
+      const { measurements, errors, method } = calibrated;
       return {
-        height: this.estimateHeight(landmarks),
-        shoulderWidth: shoulderWidth * 100,
-        chest: shoulderWidth * 2.2 * 100,
-        waist: shoulderWidth * 1.8 * 100,
-        hips: shoulderWidth * 2.0 * 100,
-        armLength: this.calculateArmLength(landmarks),
-        legLength: this.calculateLegLength(landmarks)
+        height: measurements.height,
+        shoulderWidth: measurements.shoulderWidth || defaults.shoulderWidth,
+        chest: measurements.chest || defaults.chest,
+        waist: measurements.waist || defaults.waist,
+        hips: measurements.hips || defaults.hips,
+        armLength: measurements.armLength || defaults.armLength,
+        legLength: measurements.legLength || defaults.legLength,
+        inseam: measurements.inseam || undefined,
+        errors,
+        calibration: method
       };
     } catch (error) {
       console.warn('Error estimating body measurements:', error);
-      return {
-        height: 170,
-        shoulderWidth: 40,
-        chest: 90,
-        waist: 75,
-        hips: 95,
-        armLength: 60,
-        legLength: 100
-      };
-    }
-  }
-
-  private calculateDistance(point1: any, point2: any): number {
-    if (!point1 || !point2) return 0.4; // Default distance
-    
-    return Math.sqrt(
-      Math.pow(point1.x - point2.x, 2) + 
-      Math.pow(point1.y - point2.y, 2)
-    );
-  }
-
-  private estimateHeight(landmarks: any[]): number {
-    try {
-      const head = landmarks.find(l => l.name === 'nose');
-      const leftFoot = landmarks.find(l => l.name === 'leftAnkle');
-      const rightFoot = landmarks.find(l => l.name === 'rightAnkle');
-      
-      if (!head || !leftFoot || !rightFoot) return 170;
-      
-      const avgFoot = {
-        x: (leftFoot.x + rightFoot.x) / 2,
-        y: (leftFoot.y + rightFoot.y) / 2
-      };
-      
-      const bodyHeight = this.calculateDistance(head, avgFoot);
-      return Math.max(150, Math.min(200, bodyHeight * 170));
-    } catch (error) {
-      return 170;
+      return defaults;
     }
   }
 
-  private calculateArmLength(landmarks: any[]): number {
-    try {
-      const shoulder = landmarks.find(l => l.name === 'leftShoulder');
-      const wrist = landmarks.find(l => l.name === 'leftWrist');
-      
-      if (!shoulder || !wrist) return 60;
-      
-      return this.calculateDistance(shoulder, wrist) * 100;
-    } catch (error) {
-      return 60;
-    }
-  }
-
-  private calculateLegLength(landmarks: any[]): number {
-    try {
-      const hip = landmarks.find(l => l.name === 'leftHip');
-      const ankle = landmarks.find(l => l.name === 'leftAnkle');
-      
-      if (!hip || !ankle) return 100;
-      
-      return this.calculateDistance(hip, ankle) * 100;
-    } catch (error) {
-      return 100;
-    }
+  private getImageSize(imageElement: PoseImage): ImageSize {
+    const natural = imageElement instanceof HTMLImageElement ? imageElement : null;
+    return {
+      width: natural?.naturalWidth || imageElement.width || 1,
+      height: natural?.naturalHeight || imageElement.height || 1
+    };
   }
 
   private identifyBodyParts(imageData: ImageData): string[] {
@@ -739,40 +795,37 @@ export class RealAIService {
     };
   }
 
+  // Share of the mask the model was sure about either way
   private calculatePixelAccuracy(imageData: ImageData): number {
-    return 0.85 + Math.random() * 0.1;
+    const { data } = imageData;
+    let decisive = 0;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < DECISIVE_MASK_LOW || data[i] > DECISIVE_MASK_HIGH) decisive++;
+    }
+    return data.length > 0 ? decisive / (data.length / 4) : 0;
   }
 
-  private calculateFitPoints(pose: EnhancedBodyPose, category: string): FitPoint[] {
-    const keypoints = pose.keypoints;
+  // Body landmarks each garment category is pinned to; GarmentWarpRenderer maps its anchors onto these
+  calculateFitPoints(pose: Pick<EnhancedBodyPose, 'keypoints'>, category: string): FitPoint[] {
+    const landmarksByCategory: Record<string, string[]> = {
+      tops: ['leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftHip', 'rightHip'],
+      outerwear: ['leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist', 'leftHip', 'rightHip'],
+      dresses: ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip', 'leftKnee', 'rightKnee'],
+      bottoms: ['leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle']
+    };
     const fitPoints: FitPoint[] = [];
 
     try {
-      switch (category) {
-        case 'tops':
-          const leftShoulder = keypoints.find(k => k.name === 'leftShoulder');
-          const rightShoulder = keypoints.find(k => k.name === 'rightShoulder');
-          const leftHip = keypoints.find(k => k.name === 'leftHip');
-          const rightHip = keypoints.find(k => k.name === 'rightHip');
-          
-          if (leftShoulder) fitPoints.push({ name: 'leftShoulder', position: leftShoulder });
-          if (rightShoulder) fitPoints.push({ name: 'rightShoulder', position: rightShoulder });
-          if (leftHip) fitPoints.push({ name: 'leftHip', position: leftHip });
-          if (rightHip) fitPoints.push({ name: 'rightHip', position: rightHip });
-          break;
-          
-        case 'bottoms':
-          const leftHipBottom = keypoints.find(k => k.name === 'leftHip');
-          const rightHipBottom = keypoints.find(k => k.name === 'rightHip');
-          const leftKnee = keypoints.find(k => k.name === 'leftKnee');
-          const rightKnee = keypoints.find(k => k.name === 'rightKnee');
-          
-          if (leftHipBottom) fitPoints.push({ name: 'leftHip', position: leftHipBottom });
-          if (rightHipBottom) fitPoints.push({ name: 'rightHip', position: rightHipBottom });
-          if (leftKnee) fitPoints.push({ name: 'leftKnee', position: leftKnee });
-          if (rightKnee) fitPoints.push({ name: 'rightKnee', position: rightKnee });
-          break;
-      }
+      (landmarksByCategory[category] || []).forEach(name => {
+        const keypoint = pose.keypoints.find(k => k.name === name);
+        // Occluded landmarks would drag the mesh to a guessed position
+        if (keypoint && keypoint.confidence >= FIT_POINT_MIN_CONFIDENCE) {
+          fitPoints.push({
+            name,
+            position: { x: keypoint.x, y: keypoint.y, confidence: keypoint.confidence }
+          });
+        }
+      });
     } catch (error) {
       console.warn('Error calculating fit points:', error);
     }
@@ -788,8 +841,9 @@ export class RealAIService {
     };
   }
 
-  private calculateOcclusion(segmentation: EnhancedBodySegmentation, item: ClothingItem): ImageData {
-    return segmentation.mask;
+  // Body parts in front of the garment (forearms, hands); null when nothing covers it
+  calculateOcclusion(segmentation: EnhancedBodySegmentation | null, item: ClothingItem, pose: Pick<EnhancedBodyPose, 'keypoints'>): ImageData | null {
+    return this.layeringEngine.buildOcclusionMask(pose.keypoints, segmentation?.mask, item.category);
   }
 
   private generateTransformMatrix(fitPoints: FitPoint[]): number[] {
@@ -846,6 +900,7 @@ export class RealAIService {
     this.modelCache.forEach(model => model.dispose());
     this.modelCache.clear();
     this.processingQueue = [];
+    this.personTracker.reset();
     this.initialized = false;
   }
 }
@@ -863,6 +918,8 @@ export interface EnhancedBodyPose {
   confidence: number;
   bodyMeasurements: BodyMeasurements;
   pose3D: any[];
+  // Stable across detections while the person stays in frame
+  personId?: number;
 }
 
 export interface EnhancedBodySegmentation {
@@ -881,19 +938,23 @@ export interface BoundingBox {
 }
 
 export interface BodyMeasurements {
-  height: number;
-  shoulderWidth: number;
-  chest: number;
-  waist: number;
-  hips: number;
-  armLength: number;
-  legLength: number;
+  height: Centimeters;
+  shoulderWidth: Centimeters;
+  chest: Centimeters;
+  waist: Centimeters;
+  hips: Centimeters;
+  armLength: Centimeters;
+  legLength: Centimeters;
+  inseam?: Centimeters;
+  errors?: MeasurementErrors;
+  calibration?: CalibrationMethod;
 }
 
 export interface ClothingFitResult {
+  fitPoints: FitPoint[];
   transformMatrix: number[];
   deformationMap: DeformationMap;
-  occlusionMask: ImageData;
+  occlusionMask: ImageData | null;
   fitScore: number;
   adjustedVertices: number[];
   lightingAdjustments: LightingAdjustment[];
@@ -914,7 +975,8 @@ export interface LightingAdjustment {
 
 export interface FitPoint {
   name: string;
-  position: any;
+  // Normalized image coordinates (0-1)
+  position: { x: number; y: number; confidence?: number };
 }
 
 export interface ClothingItem {
@@ -932,6 +994,9 @@ export interface ClothingItem {
   sizes: string[];
 }
 
+// Whole photos, or crops of one person cut from them
+type PoseImage = HTMLImageElement | HTMLCanvasElement;
+
 interface ProcessingTask {
   id: string;
   type: string;
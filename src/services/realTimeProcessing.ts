@@ -1,3 +1,6 @@
+import BodyCalibrationService, { CalibratedMeasurements } from './bodyCalibration';
+import PoseTracker, { SmoothingLevel, TrackedPose } from './poseTracking';
+
 class RealTimeProcessingService {
   private static instance: RealTimeProcessingService;
   private workers: Worker[] = [];
@@ -5,6 +8,8 @@ class RealTimeProcessingService {
   private isProcessing = false;
   private frameRate = 30;
   private lastFrameTime = 0;
+  private lastPose: { keypoints: PoseKeypoint[]; timestamp: number } | null = null;
+  private poseTracker = new PoseTracker();
 
   static getInstance(): RealTimeProcessingService {
     if (!RealTimeProcessingService.instance) {
@@ -101,7 +106,8 @@ class RealTimeProcessingService {
     const promises = [];
     
     if (options.enablePoseDetection) {
-      promises.push(this.processPoseDetection(imageData));
+      // A dropped detection is bridged by the tracker's prediction instead of failing the frame
+      promises.push(this.processPoseDetection(imageData).catch(() => null));
     }
     
     if (options.enableBodySegmentation) {
@@ -113,9 +119,17 @@ class RealTimeProcessingService {
     }
 
     const results = await Promise.all(promises);
+    if (options.smoothing) {
+      this.poseTracker.setSmoothingLevel(options.smoothing);
+    }
+    const pose = options.enablePoseDetection ? this.poseTracker.update(results[0] || null, task.timestamp) : null;
     
     return {
-      pose: results[0] || null,
+      pose,
+      poseDelta: this.calculatePoseDelta(pose, task.timestamp),
+      measurements: pose
+        ? BodyCalibrationService.getInstance().measure(pose.keypoints, { width: imageData.width, height: imageData.height })
+        : null,
       segmentation: results[1] || null,
       clothingFit: results[2] || null,
       processingTime: Date.now() - task.timestamp,
@@ -123,6 +137,25 @@ class RealTimeProcessingService {
     };
   }
 
+  // Frame-to-frame keypoint movement, used to drive motion such as cloth simulation
+  private calculatePoseDelta(pose: { keypoints?: PoseKeypoint[] } | null, timestamp: number): PoseDelta | null {
+    if (!pose?.keypoints) return null;
+
+    const previous = this.lastPose;
+    this.lastPose = { keypoints: pose.keypoints, timestamp };
+    if (!previous) return null;
+
+    const keypoints: PoseDelta['keypoints'] = {};
+    pose.keypoints.forEach(keypoint => {
+      const before = previous.keypoints.find(k => k.name === keypoint.name);
+      if (before) {
+        keypoints[keypoint.name] = { dx: keypoint.x - before.x, dy: keypoint.y - before.y };
+      }
+    });
+
+    return { dt: (timestamp - previous.timestamp) / 1000, keypoints };
+  }
+
   private async processPoseDetection(imageData: ImageData): Promise<any> {
     const worker = this.getAvailableWorker();
     
@@ -233,6 +266,14 @@ class RealTimeProcessingService {
     document.dispatchEvent(new CustomEvent('realtime:processing-error', { detail: error }));
   }
 
+  setSmoothingLevel(level: SmoothingLevel): void {
+    this.poseTracker.setSmoothingLevel(level);
+  }
+
+  getSmoothingLevel(): SmoothingLevel {
+    return this.poseTracker.getSmoothingLevel();
+  }
+
   // Performance optimization methods
   setFrameRate(fps: number): void {
     this.frameRate = Math.max(1, Math.min(60, fps));
@@ -318,6 +359,8 @@ class RealTimeProcessingService {
     this.workers.forEach(worker => worker.terminate());
     this.workers = [];
     this.processingQueue = [];
+    this.lastPose = null;
+    this.poseTracker.reset();
   }
 
   private processingPipeline: any;
@@ -340,14 +383,34 @@ interface RealTimeOptions {
   enableClothingFit: boolean;
   clothingItems?: any[];
   quality: 'low' | 'medium' | 'high';
+  // Temporal pose smoothing; keeps the current level when omitted
+  smoothing?: SmoothingLevel;
 }
 
 interface RealTimeResult {
-  pose: any;
+  // Smoothed and tracked; keypoints may be held or predicted when detection drops out
+  pose: TrackedPose<any> | null;
+  poseDelta: PoseDelta | null;
+  // From the smoothed pose, so they don't flicker with detection noise
+  measurements: CalibratedMeasurements | null;
   segmentation: any;
   clothingFit: any;
   processingTime: number;
   frameRate: number;
 }
 
+interface PoseKeypoint {
+  x: number;
+  y: number;
+  confidence: number;
+  name: string;
+}
+
+export interface PoseDelta {
+  // Seconds since the previous pose
+  dt: number;
+  // Normalized movement per keypoint name
+  keypoints: Record<string, { dx: number; dy: number }>;
+}
+
 export default RealTimeProcessingService;
\ No newline at end of file
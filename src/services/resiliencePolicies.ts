@@ -0,0 +1,406 @@
+const DEFAULT_POLICY: ResiliencePolicy = {
+  retries: 2,
+  baseDelay: 1000,
+  maxDelay: 16000,
+  jitter: 0.5,
+  timeout: 30000,
+  maxConcurrent: 6,
+  maxQueued: 50,
+  abortable: true,
+  breaker: { failureThreshold: 5, monitoringPeriod: 10000, resetTimeout: 60000 }
+};
+
+/**
+ * Built-in policies. Names are "<group>" or "<group>:<detail>"; a name with
+ * no policy of its own uses its group's, then the default. Model loading is
+ * kept to two at a time and trips quickly, so a missing model directory
+ * fails fast instead of queuing dozens of doomed downloads. Downloads and
+ * inference ignore the abort signal, so their timeouts aren't retried.
+ */
+const BUILT_IN_POLICIES: Record<string, Partial<ResiliencePolicy>> = {
+  api: {
+    retries: 3,
+    maxDelay: 8000,
+    maxQueued: 100,
+    breaker: { failureThreshold: 5, monitoringPeriod: 30000, resetTimeout: 30000 }
+  },
+  'api:tryon': { retries: 1, timeout: 60000, maxConcurrent: 2, maxQueued: 10 },
+  'api:images': { timeout: 60000, maxConcurrent: 3 },
+  'api:analytics': {
+    retries: 1,
+    maxConcurrent: 2,
+    breaker: { failureThreshold: 3, monitoringPeriod: 30000, resetTimeout: 120000 }
+  },
+  'ai:model-load': {
+    retries: 1,
+    baseDelay: 2000,
+    timeout: 20000,
+    maxConcurrent: 2,
+    maxQueued: 20,
+    abortable: false,
+    breaker: { failureThreshold: 3, monitoringPeriod: 60000, resetTimeout: 30000 }
+  },
+  'ai:processing': { retries: 2, timeout: 15000, maxConcurrent: 1, maxQueued: 5 },
+  // One frame at a time per model; a failed frame is dropped rather than retried, the next one replaces it
+  'ai:pose': { retries: 0, timeout: 10000, maxConcurrent: 1, maxQueued: 10, abortable: false },
+  'ai:segmentation': { retries: 0, timeout: 10000, maxConcurrent: 1, maxQueued: 10, abortable: false }
+};
+
+/**
+ * Named retry, timeout, bulkhead and circuit-breaker policies. Each name
+ * used gets its own breaker and concurrency limit, so "api:tryon" tripping
+ * doesn't stop catalog requests. Breaker transitions are dispatched as
+ * 'resilience:state-change' events on document.
+ */
+class ResilienceRegistry {
+  private static instance: ResilienceRegistry;
+  private policies = new Map<string, Partial<ResiliencePolicy>>(Object.entries(BUILT_IN_POLICIES));
+  private breakers = new Map<string, CircuitBreaker>();
+  private bulkheads = new Map<string, Bulkhead>();
+
+  static getInstance(): ResilienceRegistry {
+    if (!ResilienceRegistry.instance) {
+      ResilienceRegistry.instance = new ResilienceRegistry();
+    }
+    return ResilienceRegistry.instance;
+  }
+
+  // Overrides only the given fields; breakers already created pick up new thresholds on their next call
+  definePolicy(name: string, policy: Partial<ResiliencePolicy>): void {
+    this.policies.set(name, { ...this.policies.get(name), ...policy });
+  }
+
+  getPolicy(name: string): ResiliencePolicy {
+    const group = name.split(':')[0];
+    const groupPolicy = group !== name ? this.policies.get(group) : undefined;
+    const ownPolicy = this.policies.get(name);
+
+    return {
+      ...DEFAULT_POLICY,
+      ...groupPolicy,
+      ...ownPolicy,
+      breaker: { ...DEFAULT_POLICY.breaker, ...groupPolicy?.breaker, ...ownPolicy?.breaker }
+    };
+  }
+
+  /**
+   * Runs the operation under the named policy: waits for a bulkhead slot,
+   * fails fast while the breaker is open, and retries failures with jittered
+   * exponential backoff. Each attempt gets an AbortSignal that fires on the
+   * policy timeout.
+   */
+  async execute<T>(
+    name: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    fallback?: (error: Error) => Promise<T>
+  ): Promise<T> {
+    const policy = this.getPolicy(name);
+    let lastError: Error = new Error(`No attempts made for ${name}`);
+
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+      if (attempt > 0) {
+        await delay(this.getRetryDelay(name, attempt - 1));
+      }
+
+      try {
+        return await this.attempt(name, operation);
+      } catch (error) {
+        lastError = error as Error;
+        // Retrying can't help while the breaker is open or the bulkhead is full
+        if (lastError.name === 'CircuitOpenError' || lastError.name === 'BulkheadFullError') break;
+        // The timed-out attempt is still running, so a retry would duplicate it
+        if (lastError.name === 'TimeoutError' && !policy.abortable) break;
+      }
+    }
+
+    if (fallback) return fallback(lastError);
+    throw lastError;
+  }
+
+  // One attempt with breaker, bulkhead and timeout but no retries, for callers that schedule their own
+  async attempt<T>(name: string, operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const lease = await this.enter(name);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let running: Promise<T> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        if (lease.timeout <= 0) return;
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(namedError('TimeoutError', `${name} timed out after ${lease.timeout}ms`));
+        }, lease.timeout);
+      });
+
+      running = operation(controller.signal);
+      const result = await Promise.race([running, timeout]);
+      lease.succeed();
+      return result;
+    } catch (error) {
+      // An operation that ignores the abort keeps its bulkhead slot until it actually stops
+      lease.fail((error as Error).name === 'TimeoutError' ? running : undefined);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Passes the breaker and takes a bulkhead slot for one call that the
+   * caller runs itself, as the API client's interceptors do. The lease must
+   * be settled once with succeed or fail; later calls are ignored. Passing
+   * fail the still-running call keeps the slot until that call settles.
+   */
+  async enter(name: string): Promise<ResilienceLease> {
+    const policy = this.getPolicy(name);
+    const breaker = this.getBreaker(name);
+    breaker.beforeCall(policy.breaker);
+
+    const bulkhead = this.getBulkhead(name);
+    try {
+      await bulkhead.acquire(policy.maxConcurrent, policy.maxQueued);
+    } catch (error) {
+      breaker.release();
+      throw error;
+    }
+
+    let settled = false;
+    const settle = (succeeded: boolean, running?: Promise<unknown>) => {
+      if (settled) return;
+      settled = true;
+      if (succeeded) {
+        breaker.onSuccess();
+      } else {
+        breaker.onFailure(policy.breaker);
+      }
+
+      if (running) {
+        running.then(() => bulkhead.release(), () => bulkhead.release());
+      } else {
+        bulkhead.release();
+      }
+    };
+
+    return {
+      timeout: policy.timeout,
+      succeed: () => settle(true),
+      fail: (running?: Promise<unknown>) => settle(false, running)
+    };
+  }
+
+  // Delay before retry number attempt + 1 (attempt is 0 for the first retry)
+  getRetryDelay(name: string, attempt: number): number {
+    const { baseDelay, maxDelay, jitter } = this.getPolicy(name);
+    const backoff = Math.min(maxDelay, baseDelay * 2 ** attempt);
+    // Spreads retries from many clients so they don't arrive in lockstep
+    return backoff * (1 - jitter + Math.random() * jitter);
+  }
+
+  getSnapshots(): ResilienceSnapshot[] {
+    return [...this.breakers.entries()].map(([name, breaker]) => ({
+      name,
+      ...breaker.getStatus(),
+      inFlight: this.bulkheads.get(name)?.active ?? 0,
+      queued: this.bulkheads.get(name)?.waiting ?? 0,
+      maxConcurrent: this.getPolicy(name).maxConcurrent
+    }));
+  }
+
+  // Closes the breaker by hand, e.g. after fixing a deployment
+  resetBreaker(name: string): void {
+    this.breakers.get(name)?.reset();
+  }
+
+  private getBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  private getBulkhead(name: string): Bulkhead {
+    let bulkhead = this.bulkheads.get(name);
+    if (!bulkhead) {
+      bulkhead = new Bulkhead(name);
+      this.bulkheads.set(name, bulkhead);
+    }
+    return bulkhead;
+  }
+}
+
+/**
+ * Closed: calls go through and failures inside the monitoring period are
+ * counted. Open: calls fail immediately until resetTimeout has passed.
+ * Half-open: a single trial call decides between closed and open.
+ */
+class CircuitBreaker {
+  private name: string;
+  private state: BreakerState = 'closed';
+  private failures: number[] = [];
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastChange = Date.now();
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  beforeCall(thresholds: BreakerThresholds): void {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < thresholds.resetTimeout) {
+        throw namedError('CircuitOpenError', `Circuit breaker ${this.name} is open`);
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw namedError('CircuitOpenError', `Circuit breaker ${this.name} is testing recovery`);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  // The call never ran, so it doesn't count as a trial
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  onSuccess(): void {
+    this.trialInFlight = false;
+    this.failures = [];
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  onFailure(thresholds: BreakerThresholds): void {
+    const now = Date.now();
+    this.trialInFlight = false;
+    this.failures = [...this.failures.filter(time => now - time < thresholds.monitoringPeriod), now];
+
+    if (this.state === 'half-open' || this.failures.length >= thresholds.failureThreshold) {
+      this.openedAt = now;
+      if (this.state !== 'open') this.transition('open');
+    }
+  }
+
+  reset(): void {
+    this.failures = [];
+    this.trialInFlight = false;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  getStatus(): { state: BreakerState; recentFailures: number; lastChange: number } {
+    return { state: this.state, recentFailures: this.failures.length, lastChange: this.lastChange };
+  }
+
+  private transition(to: BreakerState): void {
+    const from = this.state;
+    this.state = to;
+    this.lastChange = Date.now();
+
+    const detail: BreakerStateChange = { name: this.name, from, to, recentFailures: this.failures.length };
+    document.dispatchEvent(new CustomEvent('resilience:state-change', { detail }));
+  }
+}
+
+// Caps concurrent calls; callers beyond the cap wait in FIFO order, and beyond the queue limit are rejected
+class Bulkhead {
+  private name: string;
+  private waiters: Array<() => void> = [];
+  active = 0;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  acquire(maxConcurrent: number, maxQueued: number): Promise<void> {
+    if (this.active < maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    if (this.waiters.length >= maxQueued) {
+      return Promise.reject(namedError('BulkheadFullError', `Too many pending ${this.name} calls`));
+    }
+    // The slot is handed over by release, so active stays the same
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function namedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Interfaces
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerThresholds {
+  // Failures within monitoringPeriod (ms) that open the breaker
+  failureThreshold: number;
+  monitoringPeriod: number;
+  // How long the breaker stays open before letting a trial call through
+  resetTimeout: number;
+}
+
+export interface ResiliencePolicy {
+  // Attempts after the first
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+  // Share of each backoff delay that is randomized, 0-1
+  jitter: number;
+  // Per attempt, in ms; 0 for none
+  timeout: number;
+  maxConcurrent: number;
+  maxQueued: number;
+  // False when operations ignore their AbortSignal; their timeouts aren't retried
+  abortable: boolean;
+  breaker: BreakerThresholds;
+}
+
+export interface ResilienceLease {
+  // Per-attempt timeout from the policy, for the caller to apply
+  timeout: number;
+  succeed(): void;
+  fail(running?: Promise<unknown>): void;
+}
+
+export interface BreakerStateChange {
+  name: string;
+  from: BreakerState;
+  to: BreakerState;
+  recentFailures: number;
+}
+
+export interface ResilienceSnapshot {
+  name: string;
+  state: BreakerState;
+  recentFailures: number;
+  lastChange: number;
+  inFlight: number;
+  queued: number;
+  maxConcurrent: number;
+}
+
+export default ResilienceRegistry;
@@ -0,0 +1,297 @@
+/**
+ * Minimal runtime schemas that double as TypeScript types. A schema checks
+ * parsed JSON, collecting every mismatch with its path instead of stopping
+ * at the first, and describes itself as JSON Schema so the same definitions
+ * can be published as an OpenAPI document.
+ */
+export abstract class Schema<T> {
+  // Phantom field that carries T for Infer; never set at runtime
+  readonly _type!: T;
+
+  abstract check(value: unknown, path: string, issues: SchemaIssue[]): void;
+
+  abstract toJSONSchema(): JsonSchema;
+
+  validate(value: unknown): SchemaResult<T> {
+    const issues: SchemaIssue[] = [];
+    this.check(value, '$', issues);
+    return issues.length === 0 ? { success: true, data: value as T } : { success: false, issues };
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  nullable(): Schema<T | null> {
+    return new NullableSchema(this);
+  }
+}
+
+class PrimitiveSchema<T> extends Schema<T> {
+  private type: 'string' | 'number' | 'boolean';
+
+  constructor(type: 'string' | 'number' | 'boolean') {
+    super();
+    this.type = type;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    // NaN and Infinity can't come from JSON, but can from a mock that computed them
+    if (typeof value !== this.type || (this.type === 'number' && !Number.isFinite(value))) {
+      issues.push(issue(path, this.type, value));
+    }
+  }
+
+  toJSONSchema(): JsonSchema {
+    return { type: this.type };
+  }
+}
+
+class LiteralSchema<T extends string | number | boolean> extends Schema<T> {
+  private values: readonly T[];
+
+  constructor(values: readonly T[]) {
+    super();
+    this.values = values;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!this.values.includes(value as T)) {
+      issues.push(issue(path, this.values.map(option => JSON.stringify(option)).join(' | '), value));
+    }
+  }
+
+  toJSONSchema(): JsonSchema {
+    return { enum: [...this.values] };
+  }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  private item: Schema<T>;
+
+  constructor(item: Schema<T>) {
+    super();
+    this.item = item;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!Array.isArray(value)) {
+      issues.push(issue(path, 'array', value));
+      return;
+    }
+    value.forEach((entry, index) => this.item.check(entry, `${path}[${index}]`, issues));
+  }
+
+  toJSONSchema(): JsonSchema {
+    return { type: 'array', items: this.item.toJSONSchema() };
+  }
+}
+
+class TupleSchema<T extends unknown[]> extends Schema<T> {
+  private items: Schema<unknown>[];
+
+  constructor(items: Schema<unknown>[]) {
+    super();
+    this.items = items;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!Array.isArray(value) || value.length !== this.items.length) {
+      issues.push(issue(path, `array of ${this.items.length}`, value));
+      return;
+    }
+    this.items.forEach((item, index) => item.check(value[index], `${path}[${index}]`, issues));
+  }
+
+  toJSONSchema(): JsonSchema {
+    return {
+      type: 'array',
+      prefixItems: this.items.map(item => item.toJSONSchema()),
+      minItems: this.items.length,
+      maxItems: this.items.length
+    };
+  }
+}
+
+// Unknown keys are allowed, so the server can add fields without breaking older clients
+class ObjectSchema<S extends SchemaShape> extends Schema<InferShape<S>> {
+  readonly shape: S;
+
+  constructor(shape: S) {
+    super();
+    this.shape = shape;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!isPlainObject(value)) {
+      issues.push(issue(path, 'object', value));
+      return;
+    }
+    Object.entries(this.shape).forEach(([key, schema]) => schema.check(value[key], `${path}.${key}`, issues));
+  }
+
+  toJSONSchema(): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    Object.entries(this.shape).forEach(([key, schema]) => {
+      properties[key] = schema.toJSONSchema();
+      if (!(schema instanceof OptionalSchema)) required.push(key);
+    });
+    return { type: 'object', properties, required };
+  }
+
+  extend<E extends SchemaShape>(shape: E): ObjectSchema<Omit<S, keyof E> & E> {
+    return new ObjectSchema({ ...this.shape, ...shape } as Omit<S, keyof E> & E);
+  }
+
+  // Every field optional, for PATCH-style bodies such as Partial<UserProfile>
+  partial(): ObjectSchema<{ [K in keyof S]: OptionalSchema<Infer<S[K]>> }> {
+    const shape: SchemaShape = {};
+    Object.entries(this.shape).forEach(([key, schema]) => {
+      shape[key] = schema instanceof OptionalSchema ? schema : schema.optional();
+    });
+    return new ObjectSchema(shape as { [K in keyof S]: OptionalSchema<Infer<S[K]>> });
+  }
+}
+
+class RecordSchema<T> extends Schema<Record<string, T>> {
+  private value: Schema<T>;
+
+  constructor(value: Schema<T>) {
+    super();
+    this.value = value;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!isPlainObject(value)) {
+      issues.push(issue(path, 'object', value));
+      return;
+    }
+    Object.entries(value).forEach(([key, entry]) => this.value.check(entry, `${path}.${key}`, issues));
+  }
+
+  toJSONSchema(): JsonSchema {
+    return { type: 'object', additionalProperties: this.value.toJSONSchema() };
+  }
+}
+
+class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly inner: Schema<T>;
+
+  constructor(inner: Schema<T>) {
+    super();
+    this.inner = inner;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (value !== undefined) this.inner.check(value, path, issues);
+  }
+
+  toJSONSchema(): JsonSchema {
+    return this.inner.toJSONSchema();
+  }
+}
+
+class NullableSchema<T> extends Schema<T | null> {
+  private inner: Schema<T>;
+
+  constructor(inner: Schema<T>) {
+    super();
+    this.inner = inner;
+  }
+
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (value !== null) this.inner.check(value, path, issues);
+  }
+
+  toJSONSchema(): JsonSchema {
+    return { anyOf: [this.inner.toJSONSchema(), { type: 'null' }] };
+  }
+}
+
+class UnknownSchema<T> extends Schema<T> {
+  check(): void {}
+
+  toJSONSchema(): JsonSchema {
+    return {};
+  }
+}
+
+// Dates travel as ISO strings; typed as either so callers can pass a Date in request bodies
+class DateSchema extends Schema<Date | string> {
+  check(value: unknown, path: string, issues: SchemaIssue[]): void {
+    const valid = value instanceof Date
+      ? !isNaN(value.getTime())
+      : typeof value === 'string' && !isNaN(Date.parse(value));
+    if (!valid) issues.push(issue(path, 'date-time string', value));
+  }
+
+  toJSONSchema(): JsonSchema {
+    return { type: 'string', format: 'date-time' };
+  }
+}
+
+export const s = {
+  string: (): Schema<string> => new PrimitiveSchema<string>('string'),
+  number: (): Schema<number> => new PrimitiveSchema<number>('number'),
+  boolean: (): Schema<boolean> => new PrimitiveSchema<boolean>('boolean'),
+  date: (): Schema<Date | string> => new DateSchema(),
+  literal: <T extends string | number | boolean>(...values: T[]): Schema<T> => new LiteralSchema(values),
+  array: <T>(item: Schema<T>): Schema<T[]> => new ArraySchema(item),
+  tuple: <T extends Schema<unknown>[]>(...items: T): Schema<{ [K in keyof T]: Infer<T[K]> }> =>
+    new TupleSchema<{ [K in keyof T]: Infer<T[K]> }>(items),
+  object: <S extends SchemaShape>(shape: S): ObjectSchema<S> => new ObjectSchema(shape),
+  record: <T>(value: Schema<T>): Schema<Record<string, T>> => new RecordSchema(value),
+  // Fields the contract leaves open, such as free-form settings blobs
+  unknown: <T = any>(): Schema<T> => new UnknownSchema<T>()
+};
+
+export function formatIssues(issues: SchemaIssue[], limit = 5): string {
+  const shown = issues.slice(0, limit).map(({ path, expected, received }) => `${path}: expected ${expected}, got ${received}`);
+  if (issues.length > limit) shown.push(`…and ${issues.length - limit} more`);
+  return shown.join('; ');
+}
+
+function issue(path: string, expected: string, value: unknown): SchemaIssue {
+  return { path, expected, received: describeValue(value) };
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return value.length > 20 ? 'string' : JSON.stringify(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Interfaces
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type SchemaShape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends SchemaShape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S];
+
+export type InferShape<S extends SchemaShape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+export type { ObjectSchema, OptionalSchema };
+
+export interface SchemaIssue {
+  // JSONPath-style location, e.g. "$.items[3].price"
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+export type JsonSchema = Record<string, any>;
@@ -0,0 +1,323 @@
+import AdvancedImageProcessingService, { RGB } from './advancedImageProcessing';
+import { ColorAnalysis, SeasonalColors } from '../types/enhanced';
+
+type Season = ColorAnalysis['season'];
+
+// Where each season sits on the three axes the classifier measures: +1 warm / deep / clear, -1 cool / light / muted
+const SEASON_SIGNATURES: Record<Season, SeasonDimensions> = {
+  spring: { warmth: 1, depth: -1, clarity: 1 },
+  summer: { warmth: -1, depth: -1, clarity: -1 },
+  autumn: { warmth: 1, depth: 1, clarity: -1 },
+  winter: { warmth: -1, depth: 1, clarity: 1 }
+};
+
+// Twelve-season subtypes, named after the axis that dominates within the season
+const SEASON_SUBTYPES: Record<Season, Record<keyof SeasonDimensions, string>> = {
+  spring: { warmth: 'Warm Spring', depth: 'Light Spring', clarity: 'Clear Spring' },
+  summer: { warmth: 'Cool Summer', depth: 'Light Summer', clarity: 'Soft Summer' },
+  autumn: { warmth: 'Warm Autumn', depth: 'Deep Autumn', clarity: 'Soft Autumn' },
+  winter: { warmth: 'Cool Winter', depth: 'Deep Winter', clarity: 'Clear Winter' }
+};
+
+const SEASON_PALETTES: Record<Season, Omit<ColorAnalysis, 'season' | 'subtype'>> = {
+  spring: {
+    bestColors: ['#FF7F50', '#FFDAB9', '#40E0D0', '#FFD700', '#9ACD32', '#FF6F61', '#7FFFD4'],
+    worstColors: ['#000000', '#800020', '#4B0082', '#708090'],
+    neutrals: ['#C19A6B', '#FFFFF0', '#F5DEB3', '#4682B4'],
+    metals: 'gold'
+  },
+  summer: {
+    bestColors: ['#B0E0E6', '#E6E6FA', '#E8ADAA', '#5F9EA0', '#D8BFD8', '#CCCCFF', '#C71585'],
+    worstColors: ['#FFA500', '#E1AD01', '#000000', '#CC5500'],
+    neutrals: ['#F5F5F5', '#708090', '#6699CC', '#A9A9A9'],
+    metals: 'silver'
+  },
+  autumn: {
+    bestColors: ['#B7410E', '#808000', '#E1AD01', '#E2725B', '#228B22', '#008080', '#CC5500'],
+    worstColors: ['#E0FFFF', '#FF00FF', '#000000', '#FFFFFF'],
+    neutrals: ['#7B3F00', '#C19A6B', '#C3B091', '#FFFDD0'],
+    metals: 'gold'
+  },
+  winter: {
+    bestColors: ['#FFFFFF', '#000000', '#4169E1', '#50C878', '#DC143C', '#FF00FF', '#E0FFFF'],
+    worstColors: ['#FFA500', '#C19A6B', '#E1AD01', '#FFDAB9'],
+    neutrals: ['#36454F', '#000080', '#FFFFFF', '#000000'],
+    metals: 'silver'
+  }
+};
+
+// Sclera gains are clamped so a tinted or badly lit eye can't swing the whole face
+const MIN_WHITE_BALANCE_GAIN = 0.7;
+const MAX_WHITE_BALANCE_GAIN = 1.4;
+// Sclera darker than this is in shadow and says little about the light's color
+const MIN_SCLERA_LUMINANCE = 90;
+// CIE76 distance at which a garment color no longer counts as close to a palette color
+const MAX_PALETTE_DISTANCE = 50;
+const GARMENT_PALETTE_SIZE = 5;
+
+/**
+ * Seasonal color analysis. Face samples are white-balanced against the
+ * sclera, measured in CIELAB and placed on warmth, depth and clarity axes;
+ * the nearest season and its dominant axis give the twelve-season subtype.
+ * Garments are then scored by how close their dominant colors sit to the
+ * season's best colors and neutrals, and how far from its worst.
+ */
+class SeasonalColorAnalyzer {
+  private garmentPalettes = new Map<string, RGB[]>();
+
+  // Per-channel gains that make the brightest sclera pixels neutral, keeping their luminance
+  estimateWhiteBalance(sclera: RGB[]): RGB | null {
+    const brightest = [...sclera]
+      .sort((a, b) => luminance(b) - luminance(a))
+      .slice(0, Math.max(1, Math.ceil(sclera.length * 0.3)));
+    if (brightest.length < 3) return null;
+
+    const reference = averageColor(brightest);
+    const target = luminance(reference);
+    if (target < MIN_SCLERA_LUMINANCE) return null;
+
+    return reference.map(channel =>
+      clamp(target / Math.max(channel, 1), MIN_WHITE_BALANCE_GAIN, MAX_WHITE_BALANCE_GAIN)
+    ) as RGB;
+  }
+
+  applyWhiteBalance(color: RGB, gains: RGB | null): RGB {
+    if (!gains) return color;
+    return color.map((channel, index) => clamp(channel * gains[index], 0, 255)) as RGB;
+  }
+
+  classifySkinTone(skin: RGB): { tone: 'light' | 'medium' | 'dark'; undertone: 'warm' | 'cool' | 'neutral' } {
+    const { lightness, hue } = toLch(skin);
+    return {
+      tone: lightness > 65 ? 'light' : lightness < 45 ? 'dark' : 'medium',
+      // Skin hue angles run from pinkish (cool) around 50° to golden (warm) past 70°
+      undertone: hue >= 68 ? 'warm' : hue <= 56 ? 'cool' : 'neutral'
+    };
+  }
+
+  classifyEyeColor(iris: RGB): string {
+    const { lightness, chroma, hue } = toLch(iris);
+    if (chroma < 8) return lightness > 45 ? 'gray' : 'dark-brown';
+    if (hue >= 180 && hue <= 290) return 'blue';
+    if (hue >= 100 && hue < 180) return 'green';
+    if (hue >= 65 && lightness > 40) return 'hazel';
+    return lightness < 30 ? 'dark-brown' : 'brown';
+  }
+
+  classifyHairColor(hair: RGB): string {
+    const { lightness, chroma, hue } = toLch(hair);
+    if (lightness < 20) return 'black';
+    if (chroma < 10 && lightness > 55) return 'gray';
+    if (hue < 55 && chroma > 25) return 'red';
+    if (lightness > 60) return 'blonde';
+    if (lightness > 45) return 'light-brown';
+    return lightness > 30 ? 'brown' : 'dark-brown';
+  }
+
+  classify(sample: FaceColorSample): SeasonalColorAnalysis {
+    const skin = toLch(sample.skin);
+    const hair = sample.hair ? toLch(sample.hair) : null;
+    const eyes = sample.eyes ? toLch(sample.eyes) : null;
+
+    // Hair carries warmth as chroma: golden and copper shades are saturated, ash shades are not
+    const skinWarmth = clamp((skin.hue - 62) / 10, -1, 1);
+    const hairWarmth = hair ? clamp((hair.chroma - 14) / 12, -1, 1) : skinWarmth;
+    const overallLightness = hair ? skin.lightness * 0.4 + hair.lightness * 0.6 : skin.lightness;
+    const contrast = hair ? Math.abs(skin.lightness - hair.lightness) : 30;
+    const contrastClarity = clamp((contrast - 35) / 20, -1, 1);
+
+    const dimensions: SeasonDimensions = {
+      warmth: skinWarmth * 0.7 + hairWarmth * 0.3,
+      depth: clamp((55 - overallLightness) / 25, -1, 1),
+      clarity: eyes ? clamp((eyes.chroma - 18) / 15, -1, 1) * 0.5 + contrastClarity * 0.5 : contrastClarity
+    };
+
+    const ranked = (Object.keys(SEASON_SIGNATURES) as Season[])
+      .map(season => ({ season, score: alignment(SEASON_SIGNATURES[season], dimensions) }))
+      .sort((a, b) => b.score - a.score);
+    const { season } = ranked[0];
+
+    const dominant = (Object.keys(dimensions) as Array<keyof SeasonDimensions>)
+      .sort((a, b) => Math.abs(dimensions[b]) - Math.abs(dimensions[a]))[0];
+
+    return {
+      season,
+      subtype: SEASON_SUBTYPES[season][dominant],
+      ...SEASON_PALETTES[season],
+      dimensions,
+      // Margin over the runner-up, discounted when the light couldn't be corrected
+      confidence: clamp((ranked[0].score - ranked[1].score) / 2, 0, 1) * (sample.whiteBalanced ? 1 : 0.7),
+      whiteBalanced: sample.whiteBalanced
+    };
+  }
+
+  // Best colors for every season, in the shape style profiles store them
+  getSeasonalPalettes(): SeasonalColors {
+    return {
+      spring: SEASON_PALETTES.spring.bestColors,
+      summer: SEASON_PALETTES.summer.bestColors,
+      fall: SEASON_PALETTES.autumn.bestColors,
+      winter: SEASON_PALETTES.winter.bestColors
+    };
+  }
+
+  // 0-1 harmony of a garment's colors, dominant color first, with the user's palette
+  scoreColors(colors: RGB[], analysis: ColorAnalysis): number {
+    if (colors.length === 0) return 0.5;
+
+    const good = [...analysis.bestColors, ...analysis.neutrals].map(hexToRgb);
+    const bad = analysis.worstColors.map(hexToRgb);
+    let total = 0;
+    let weights = 0;
+
+    colors.forEach((color, index) => {
+      const weight = 1 / (index + 1);
+      const score = proximity(color, good) - proximity(color, bad) * 0.5;
+      total += score * weight;
+      weights += weight;
+    });
+
+    // Scores run from -0.5 (on a worst color) to 1 (on a best color)
+    return clamp((total / weights + 0.5) / 1.5, 0, 1);
+  }
+
+  /**
+   * Catalog items ordered by color harmony with the user, best first.
+   * Colors are extracted from the garment cut-out where there is one, so the
+   * product photo background doesn't count; items whose image can't be read
+   * fall back to their listed color names.
+   */
+  async rankItems<T extends ColorRankableItem>(items: T[], analysis: ColorAnalysis): Promise<ColorRankedItem<T>[]> {
+    const scored = await Promise.all(items.map(async (item, index) => ({
+      item,
+      index,
+      harmony: this.scoreColors(await this.getGarmentColors(item), analysis)
+    })));
+
+    return scored
+      .sort((a, b) => b.harmony - a.harmony || a.index - b.index)
+      .map(({ item, harmony }) => ({ item, harmony }));
+  }
+
+  private async getGarmentColors(item: ColorRankableItem): Promise<RGB[]> {
+    const url = item.overlayImage || item.image;
+    const cached = url ? this.garmentPalettes.get(url) : undefined;
+    if (cached) return cached;
+
+    let colors: RGB[] = [];
+    if (url) {
+      try {
+        const palette = await AdvancedImageProcessingService.getInstance().extractColors(url, GARMENT_PALETTE_SIZE);
+        colors = palette.palette;
+        this.garmentPalettes.set(url, colors);
+      } catch (error) {
+        console.warn(`Failed to extract colors for ${item.id}:`, error);
+      }
+    }
+
+    if (colors.length === 0 && item.colors) {
+      colors = item.colors.map(cssColorToRgb).filter((color): color is RGB => color !== null);
+    }
+    return colors;
+  }
+}
+
+function alignment(signature: SeasonDimensions, dimensions: SeasonDimensions): number {
+  return signature.warmth * dimensions.warmth + signature.depth * dimensions.depth + signature.clarity * dimensions.clarity;
+}
+
+// 1 on a palette color, falling to 0 at MAX_PALETTE_DISTANCE
+function proximity(color: RGB, palette: RGB[]): number {
+  const lab = toLab(color);
+  const nearest = Math.min(...palette.map(candidate => {
+    const other = toLab(candidate);
+    return Math.hypot(lab[0] - other[0], lab[1] - other[1], lab[2] - other[2]);
+  }));
+  return 1 - Math.min(nearest / MAX_PALETTE_DISTANCE, 1);
+}
+
+function toLab([r, g, b]: RGB): [number, number, number] {
+  const linear = [r, g, b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  // sRGB to XYZ, normalized to the D65 white point
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+function toLch(color: RGB): { lightness: number; chroma: number; hue: number } {
+  const [lightness, a, b] = toLab(color);
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return { lightness, chroma: Math.hypot(a, b), hue: hue < 0 ? hue + 360 : hue };
+}
+
+function luminance([r, g, b]: RGB): number {
+  return r * 0.299 + g * 0.587 + b * 0.114;
+}
+
+function averageColor(colors: RGB[]): RGB {
+  const sum = colors.reduce((acc, color) => [acc[0] + color[0], acc[1] + color[1], acc[2] + color[2]], [0, 0, 0]);
+  return sum.map(channel => channel / colors.length) as RGB;
+}
+
+function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Catalog color names like 'light-blue' resolved through the browser's CSS color parser
+function cssColorToRgb(name: string): RGB | null {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = '#010203';
+  ctx.fillStyle = name.replace(/[\s-]/g, '').toLowerCase();
+  const parsed = ctx.fillStyle;
+  return parsed === '#010203' || !parsed.startsWith('#') ? null : hexToRgb(parsed);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Interfaces
+export interface SeasonDimensions {
+  warmth: number;
+  depth: number;
+  clarity: number;
+}
+
+export interface FaceColorSample {
+  // White-balanced median colors; eyes and hair are null when their region couldn't be sampled
+  skin: RGB;
+  eyes: RGB | null;
+  hair: RGB | null;
+  whiteBalanced: boolean;
+}
+
+export interface SeasonalColorAnalysis extends ColorAnalysis {
+  // Each axis in -1..1
+  dimensions: SeasonDimensions;
+  confidence: number;
+  whiteBalanced: boolean;
+}
+
+export interface ColorRankableItem {
+  id: string;
+  image?: string;
+  overlayImage?: string;
+  colors?: string[];
+}
+
+export interface ColorRankedItem<T> {
+  item: T;
+  // 0-1
+  harmony: number;
+}
+
+export default SeasonalColorAnalyzer;
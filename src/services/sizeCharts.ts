@@ -0,0 +1,299 @@
+// Size chart definitions used by SizeDatabase. All body measurements are in centimeters
+// and sizes are listed from smallest to largest.
+
+const SIZE_SYSTEMS: SizeSystem[] = ['letter', 'eu', 'us', 'uk', 'waist-inseam'];
+const GENDERS: SizeGender[] = ['men', 'women', 'unisex'];
+const REGIONS: SizeRegion[] = ['INT', 'EU', 'US', 'UK'];
+// Countries whose shops size in EU numbering
+const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CH', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IS', 'IT', 'LI', 'LT', 'LU', 'LV', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK'
+];
+const MEASUREMENT_KEYS: (keyof SizeChartMeasurements)[] = ['chest', 'waist', 'hips', 'inseam', 'shoulderWidth'];
+
+export const STANDARD_SIZE_CHART: SizeChartDefinition = {
+  id: 'standard',
+  gender: 'unisex',
+  region: 'INT',
+  sizeSystem: 'letter',
+  sizes: [
+    { label: 'XS', measurements: { chest: 80, waist: 65, hips: 85 } },
+    { label: 'S', measurements: { chest: 85, waist: 70, hips: 90 } },
+    { label: 'M', measurements: { chest: 90, waist: 75, hips: 95 } },
+    { label: 'L', measurements: { chest: 95, waist: 80, hips: 100 } },
+    { label: 'XL', measurements: { chest: 100, waist: 85, hips: 105 } },
+    { label: 'XXL', measurements: { chest: 105, waist: 90, hips: 110 } }
+  ]
+};
+
+export const DEFAULT_SIZE_CHARTS: SizeChartDefinition[] = [
+  STANDARD_SIZE_CHART,
+
+  // Category charts
+  {
+    id: 'tops-women-int',
+    category: 'tops',
+    gender: 'women',
+    region: 'INT',
+    sizeSystem: 'letter',
+    sizes: [
+      { label: 'XS', measurements: { chest: 82, waist: 64, hips: 90 } },
+      { label: 'S', measurements: { chest: 86, waist: 68, hips: 94 } },
+      { label: 'M', measurements: { chest: 90, waist: 72, hips: 98 } },
+      { label: 'L', measurements: { chest: 96, waist: 78, hips: 104 } },
+      { label: 'XL', measurements: { chest: 102, waist: 84, hips: 110 } },
+      { label: 'XXL', measurements: { chest: 108, waist: 90, hips: 116 } }
+    ]
+  },
+  {
+    id: 'tops-men-int',
+    category: 'tops',
+    gender: 'men',
+    region: 'INT',
+    sizeSystem: 'letter',
+    sizes: [
+      { label: 'XS', measurements: { chest: 86, waist: 72, hips: 86, shoulderWidth: 42 } },
+      { label: 'S', measurements: { chest: 92, waist: 78, hips: 92, shoulderWidth: 44 } },
+      { label: 'M', measurements: { chest: 98, waist: 84, hips: 98, shoulderWidth: 46 } },
+      { label: 'L', measurements: { chest: 104, waist: 90, hips: 104, shoulderWidth: 48 } },
+      { label: 'XL', measurements: { chest: 110, waist: 96, hips: 110, shoulderWidth: 50 } },
+      { label: 'XXL', measurements: { chest: 116, waist: 102, hips: 116, shoulderWidth: 52 } }
+    ]
+  },
+  {
+    id: 'bottoms-men-us',
+    category: 'bottoms',
+    gender: 'men',
+    region: 'US',
+    sizeSystem: 'waist-inseam',
+    sizes: [
+      { label: '28x30', measurements: { waist: 71, inseam: 76 } },
+      { label: '30x30', measurements: { waist: 76, inseam: 76 } },
+      { label: '30x32', measurements: { waist: 76, inseam: 81 } },
+      { label: '32x32', measurements: { waist: 81, inseam: 81 } },
+      { label: '32x34', measurements: { waist: 81, inseam: 86 } },
+      { label: '34x32', measurements: { waist: 86, inseam: 81 } },
+      { label: '34x34', measurements: { waist: 86, inseam: 86 } },
+      { label: '36x32', measurements: { waist: 91, inseam: 81 } },
+      { label: '36x34', measurements: { waist: 91, inseam: 86 } },
+      { label: '38x32', measurements: { waist: 97, inseam: 81 } }
+    ]
+  },
+  {
+    id: 'bottoms-women-eu',
+    category: 'bottoms',
+    gender: 'women',
+    region: 'EU',
+    sizeSystem: 'eu',
+    sizes: [
+      { label: '34', measurements: { waist: 64, hips: 90 } },
+      { label: '36', measurements: { waist: 68, hips: 94 } },
+      { label: '38', measurements: { waist: 72, hips: 98 } },
+      { label: '40', measurements: { waist: 76, hips: 102 } },
+      { label: '42', measurements: { waist: 80, hips: 106 } },
+      { label: '44', measurements: { waist: 86, hips: 112 } },
+      { label: '46', measurements: { waist: 92, hips: 118 } }
+    ]
+  },
+  {
+    id: 'dresses-women-us',
+    category: 'dresses',
+    gender: 'women',
+    region: 'US',
+    sizeSystem: 'us',
+    sizes: [
+      { label: '0', measurements: { chest: 80, waist: 61, hips: 87 } },
+      { label: '2', measurements: { chest: 83, waist: 64, hips: 90 } },
+      { label: '4', measurements: { chest: 86, waist: 66, hips: 92 } },
+      { label: '6', measurements: { chest: 88, waist: 69, hips: 95 } },
+      { label: '8', measurements: { chest: 91, waist: 71, hips: 97 } },
+      { label: '10', measurements: { chest: 94, waist: 74, hips: 100 } },
+      { label: '12', measurements: { chest: 98, waist: 78, hips: 104 } },
+      { label: '14', measurements: { chest: 102, waist: 82, hips: 108 } },
+      { label: '16', measurements: { chest: 107, waist: 87, hips: 113 } }
+    ]
+  },
+  {
+    id: 'dresses-women-uk',
+    category: 'dresses',
+    gender: 'women',
+    region: 'UK',
+    sizeSystem: 'uk',
+    sizes: [
+      { label: '6', measurements: { chest: 80, waist: 61, hips: 86 } },
+      { label: '8', measurements: { chest: 84, waist: 65, hips: 90 } },
+      { label: '10', measurements: { chest: 88, waist: 69, hips: 94 } },
+      { label: '12', measurements: { chest: 93, waist: 74, hips: 99 } },
+      { label: '14', measurements: { chest: 98, waist: 79, hips: 104 } },
+      { label: '16', measurements: { chest: 103, waist: 84, hips: 109 } },
+      { label: '18', measurements: { chest: 108, waist: 89, hips: 114 } }
+    ]
+  },
+
+  // Brand charts
+  {
+    id: 'styleco-tops',
+    brand: 'StyleCo',
+    category: 'tops',
+    gender: 'unisex',
+    region: 'INT',
+    sizeSystem: 'letter',
+    sizes: STANDARD_SIZE_CHART.sizes
+  },
+  {
+    id: 'elegance-dresses-eu',
+    brand: 'Elegance',
+    category: 'dresses',
+    gender: 'women',
+    region: 'EU',
+    sizeSystem: 'eu',
+    sizes: [
+      { label: '34', measurements: { chest: 80, waist: 62, hips: 88 } },
+      { label: '36', measurements: { chest: 84, waist: 66, hips: 92 } },
+      { label: '38', measurements: { chest: 88, waist: 70, hips: 96 } },
+      { label: '40', measurements: { chest: 92, waist: 74, hips: 100 } },
+      { label: '42', measurements: { chest: 97, waist: 79, hips: 105 } },
+      { label: '44', measurements: { chest: 102, waist: 84, hips: 110 } }
+    ]
+  },
+  {
+    id: 'denimco-bottoms-us',
+    brand: 'DenimCo',
+    category: 'bottoms',
+    gender: 'unisex',
+    region: 'US',
+    sizeSystem: 'waist-inseam',
+    sizes: [
+      { label: '28x30', measurements: { waist: 74, inseam: 76 } },
+      { label: '30x30', measurements: { waist: 79, inseam: 76 } },
+      { label: '30x32', measurements: { waist: 79, inseam: 81 } },
+      { label: '32x32', measurements: { waist: 84, inseam: 81 } },
+      { label: '32x34', measurements: { waist: 84, inseam: 86 } },
+      { label: '34x32', measurements: { waist: 89, inseam: 81 } },
+      { label: '34x34', measurements: { waist: 89, inseam: 86 } },
+      { label: '36x32', measurements: { waist: 94, inseam: 81 } },
+      { label: '36x34', measurements: { waist: 94, inseam: 86 } }
+    ]
+  }
+];
+
+export function validateSizeChart(chart: any): string[] {
+  const errors: string[] = [];
+
+  if (!chart || typeof chart !== 'object') {
+    return ['Size chart must be an object'];
+  }
+
+  if (typeof chart.id !== 'string' || chart.id.length === 0) {
+    errors.push('Size chart is missing an id');
+  }
+
+  if (!GENDERS.includes(chart.gender)) {
+    errors.push(`Invalid gender: ${chart.gender}`);
+  }
+
+  if (!REGIONS.includes(chart.region)) {
+    errors.push(`Invalid region: ${chart.region}`);
+  }
+
+  if (!SIZE_SYSTEMS.includes(chart.sizeSystem)) {
+    errors.push(`Invalid size system: ${chart.sizeSystem}`);
+  }
+
+  if (!Array.isArray(chart.sizes) || chart.sizes.length === 0) {
+    errors.push('Size chart must contain at least one size');
+    return errors;
+  }
+
+  const labels = new Set<string>();
+
+  chart.sizes.forEach((entry: any, index: number) => {
+    if (!entry || typeof entry.label !== 'string' || entry.label.length === 0) {
+      errors.push(`Size at index ${index} is missing a label`);
+      return;
+    }
+
+    if (labels.has(entry.label)) {
+      errors.push(`Duplicate size label: ${entry.label}`);
+    }
+    labels.add(entry.label);
+
+    if (chart.sizeSystem === 'waist-inseam' && !/^\d+x\d+$/.test(entry.label)) {
+      errors.push(`Waist-inseam size ${entry.label} must look like 32x32`);
+    }
+
+    const measurements = entry.measurements || {};
+    const keys = Object.keys(measurements);
+
+    if (keys.length === 0) {
+      errors.push(`Size ${entry.label} has no measurements`);
+    }
+
+    keys.forEach(key => {
+      const value = measurements[key];
+      if (!MEASUREMENT_KEYS.includes(key as keyof SizeChartMeasurements)) {
+        errors.push(`Size ${entry.label} has unknown measurement: ${key}`);
+      } else if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+        errors.push(`Size ${entry.label} has invalid ${key}: ${value}`);
+      }
+    });
+  });
+
+  // Sizes must grow along the chart's primary measurement
+  const primary = getPrimaryChartMeasurement(chart as SizeChartDefinition);
+  for (let i = 1; i < chart.sizes.length; i++) {
+    const previous = chart.sizes[i - 1]?.measurements?.[primary];
+    const current = chart.sizes[i]?.measurements?.[primary];
+    if (typeof previous === 'number' && typeof current === 'number' && current < previous) {
+      errors.push(`Size ${chart.sizes[i].label} is smaller than ${chart.sizes[i - 1].label} (${primary})`);
+    }
+  }
+
+  return errors;
+}
+
+export function getPrimaryChartMeasurement(chart: SizeChartDefinition): keyof SizeChartMeasurements {
+  if (chart.sizeSystem === 'waist-inseam' || chart.category === 'bottoms') {
+    return 'waist';
+  }
+  return 'chest';
+}
+
+// Chart region for a BCP 47 locale such as "en-GB"; locales without a country use international charts
+export function getSizeRegionForLocale(locale: string): SizeRegion {
+  const country = locale.split(/[-_]/)[1]?.toUpperCase();
+  if (country === 'US') return 'US';
+  if (country === 'GB' || country === 'IE') return 'UK';
+  if (country && EU_COUNTRIES.includes(country)) return 'EU';
+  return 'INT';
+}
+
+// Interfaces
+export type SizeSystem = 'letter' | 'eu' | 'us' | 'uk' | 'waist-inseam';
+
+export type SizeGender = 'men' | 'women' | 'unisex';
+
+export type SizeRegion = 'INT' | 'EU' | 'US' | 'UK';
+
+export interface SizeChartMeasurements {
+  chest?: number;
+  waist?: number;
+  hips?: number;
+  inseam?: number;
+  shoulderWidth?: number;
+}
+
+export interface SizeChartEntry {
+  label: string;
+  measurements: SizeChartMeasurements;
+}
+
+export interface SizeChartDefinition {
+  id: string;
+  brand?: string;
+  category?: string;
+  gender: SizeGender;
+  region: SizeRegion;
+  sizeSystem: SizeSystem;
+  sizes: SizeChartEntry[];
+}
@@ -0,0 +1,120 @@
+import { openDB, IDBPDatabase } from 'idb';
+import OfflineSupport from './offlineSupport';
+
+const DB_NAME = 'VirtualFitSizeHistory';
+
+class SizeHistoryStore {
+  private static instance: SizeHistoryStore;
+  private dbPromise: Promise<IDBPDatabase | null>;
+
+  static getInstance(): SizeHistoryStore {
+    if (!SizeHistoryStore.instance) {
+      SizeHistoryStore.instance = new SizeHistoryStore();
+    }
+    return SizeHistoryStore.instance;
+  }
+
+  constructor() {
+    this.dbPromise = this.openDatabase();
+  }
+
+  private async openDatabase(): Promise<IDBPDatabase | null> {
+    try {
+      return await openDB(DB_NAME, 1, {
+        upgrade(db) {
+          const store = db.createObjectStore('feedback', { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+        },
+      });
+    } catch (error) {
+      console.warn('Failed to open size history storage:', error);
+      return null;
+    }
+  }
+
+  async addEntry(entry: Omit<SizeFeedbackEntry, 'id'>): Promise<SizeFeedbackEntry> {
+    const stored: SizeFeedbackEntry = {
+      ...entry,
+      id: Math.random().toString(36).substr(2, 9) + Date.now().toString(36)
+    };
+
+    const db = await this.dbPromise;
+    if (db) {
+      await db.put('feedback', stored);
+    }
+
+    // Sync to the server through the offline queue so feedback given offline isn't lost
+    OfflineSupport.getInstance().queueOperation({
+      id: stored.id,
+      type: 'sync-size-feedback',
+      data: { action: 'append', userId: stored.userId, entry: stored },
+      idempotencyKey: `size-feedback:${stored.id}`,
+      timestamp: Date.now(),
+      status: 'pending'
+    });
+
+    return stored;
+  }
+
+  async getEntries(userId: string): Promise<SizeFeedbackEntry[]> {
+    const db = await this.dbPromise;
+    if (!db) return [];
+
+    const entries: SizeFeedbackEntry[] = await db.getAllFromIndex('feedback', 'userId', userId);
+    return entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  async exportUser(userId: string): Promise<SizeHistoryExport> {
+    return {
+      userId,
+      exportedAt: new Date().toISOString(),
+      entries: await this.getEntries(userId)
+    };
+  }
+
+  async deleteUser(userId: string): Promise<number> {
+    const db = await this.dbPromise;
+    let deleted = 0;
+
+    if (db) {
+      const tx = db.transaction('feedback', 'readwrite');
+      const keys = await tx.store.index('userId').getAllKeys(userId);
+      await Promise.all(keys.map(key => tx.store.delete(key)));
+      await tx.done;
+      deleted = keys.length;
+    }
+
+    // Each request is its own operation, so a later delete isn't taken for a replay of this one
+    const requestedAt = Date.now();
+    OfflineSupport.getInstance().queueOperation({
+      id: `delete-size-history-${userId}-${requestedAt}`,
+      type: 'sync-size-feedback',
+      data: { action: 'delete', userId, requestedAt },
+      timestamp: requestedAt,
+      status: 'pending'
+    });
+
+    return deleted;
+  }
+}
+
+// Interfaces
+export interface SizeFeedbackEntry {
+  id: string;
+  userId: string;
+  itemId: string;
+  brand: string;
+  category: string;
+  size: string;
+  fit: string;
+  feedback: string;
+  timestamp: Date;
+}
+
+export interface SizeHistoryExport {
+  userId: string;
+  exportedAt: string;
+  entries: SizeFeedbackEntry[];
+}
+
+export default SizeHistoryStore;
@@ -0,0 +1,316 @@
+import * as tf from '@tensorflow/tfjs';
+import { openDB, IDBPDatabase } from 'idb';
+
+// Bump when the feature layout produced by prepareFeaturesForML changes; older models are discarded
+const FEATURE_SCHEMA_VERSION = 1;
+const MODEL_URL = 'indexeddb://virtualfit-size-model';
+const DB_NAME = 'VirtualFitSizeModel';
+const MIN_TRAINING_SAMPLES = 50;
+const RETRAIN_INTERVAL = 20;
+const HOLDOUT_RATIO = 0.2;
+const TARGET_SCALE = 120; // cm, keeps regression targets near 0-1
+
+class SizeRegressionModel {
+  private model: tf.LayersModel | null = null;
+  private metadata: SizeModelMetadata | null = null;
+  private db: IDBPDatabase | null = null;
+  private isTraining = false;
+  // Set when samples are deleted, so an in-flight run doesn't promote a model trained on them
+  private samplesInvalidated = false;
+  private samplesSinceTraining = 0;
+
+  async initialize(): Promise<void> {
+    try {
+      this.db = await openDB(DB_NAME, 1, {
+        upgrade(db) {
+          db.createObjectStore('samples', { keyPath: 'id' });
+          db.createObjectStore('meta', { keyPath: 'key' });
+        },
+      });
+    } catch (error) {
+      console.warn('Failed to open size model storage:', error);
+      return;
+    }
+
+    const metadata = await this.db.get('meta', 'model');
+    if (!metadata || metadata.featureSchemaVersion !== FEATURE_SCHEMA_VERSION) {
+      return;
+    }
+
+    try {
+      this.model = await tf.loadLayersModel(MODEL_URL);
+      this.metadata = metadata;
+    } catch (error) {
+      console.warn('Stored size model could not be loaded:', error);
+    }
+  }
+
+  // Only a model that beat the rule-based baseline on held-out data is ever promoted
+  isReady(): boolean {
+    return this.model !== null && this.metadata !== null;
+  }
+
+  getMetadata(): SizeModelMetadata | null {
+    return this.metadata;
+  }
+
+  predict(features: number[]): SizeModelPrediction {
+    if (!this.model || !this.metadata) {
+      throw new Error('Size model has not been trained');
+    }
+
+    const value = tf.tidy(() => {
+      const input = tf.tensor2d([features], [1, features.length]);
+      const output = this.model!.predict(input) as tf.Tensor;
+      return output.dataSync()[0];
+    });
+
+    return {
+      targetMeasurement: value * TARGET_SCALE,
+      validationError: this.metadata.validationMae,
+      version: this.metadata.version
+    };
+  }
+
+  async addSample(sample: Omit<SizeTrainingSample, 'id' | 'timestamp' | 'featureSchemaVersion'>): Promise<void> {
+    if (!this.db) return;
+
+    await this.db.put('samples', {
+      ...sample,
+      featureSchemaVersion: FEATURE_SCHEMA_VERSION,
+      id: Math.random().toString(36).substr(2, 9) + Date.now().toString(36),
+      timestamp: Date.now()
+    });
+
+    this.samplesSinceTraining++;
+    if (this.samplesSinceTraining >= RETRAIN_INTERVAL) {
+      this.train().catch(error => console.warn('Size model retraining failed:', error));
+    }
+  }
+
+  async train(): Promise<SizeModelTrainingResult> {
+    if (!this.db) {
+      return { promoted: false, reason: 'Storage unavailable' };
+    }
+
+    if (this.isTraining) {
+      return { promoted: false, reason: 'Training already in progress' };
+    }
+
+    // Claimed before the first await so concurrent calls can't both start a run
+    this.isTraining = true;
+    this.samplesInvalidated = false;
+
+    let candidate: tf.LayersModel | null = null;
+    let xs: tf.Tensor2D | null = null;
+    let ys: tf.Tensor2D | null = null;
+
+    try {
+      const samples: SizeTrainingSample[] = (await this.db.getAll('samples'))
+        .filter((sample: SizeTrainingSample) => sample.featureSchemaVersion === FEATURE_SCHEMA_VERSION);
+
+      if (samples.length < MIN_TRAINING_SAMPLES) {
+        return { promoted: false, reason: `Need ${MIN_TRAINING_SAMPLES} samples, have ${samples.length}` };
+      }
+
+      this.samplesSinceTraining = 0;
+
+      const { training, holdout } = this.splitSamples(samples);
+      candidate = this.createModel(training[0].features.length);
+
+      xs = tf.tensor2d(training.map(sample => sample.features));
+      ys = tf.tensor2d(training.map(sample => [sample.targetMeasurement / TARGET_SCALE]));
+
+      await candidate.fit(xs, ys, {
+        epochs: 100,
+        batchSize: 16,
+        shuffle: true,
+        verbose: 0
+      });
+
+      const validationMae = this.evaluate(candidate, holdout);
+      const baselineMae = holdout.reduce(
+        (sum, sample) => sum + Math.abs(sample.baselineMeasurement - sample.targetMeasurement), 0
+      ) / holdout.length;
+
+      if (this.samplesInvalidated) {
+        return { promoted: false, reason: 'Samples were deleted during training', validationMae, baselineMae };
+      }
+
+      if (validationMae >= baselineMae) {
+        return {
+          promoted: false,
+          reason: 'Model did not beat the rule-based baseline',
+          validationMae,
+          baselineMae
+        };
+      }
+
+      const metadata: SizeModelMetadata = {
+        version: (this.metadata?.version || 0) + 1,
+        featureSchemaVersion: FEATURE_SCHEMA_VERSION,
+        trainedAt: new Date().toISOString(),
+        trainingSamples: training.length,
+        holdoutSamples: holdout.length,
+        validationMae,
+        baselineMae
+      };
+
+      await candidate.save(MODEL_URL);
+      await this.db.put('meta', { key: 'model', ...metadata });
+
+      // A deletion may have landed while saving
+      if (this.samplesInvalidated) {
+        await this.discardModel();
+        return { promoted: false, reason: 'Samples were deleted during training', validationMae, baselineMae };
+      }
+
+      this.model?.dispose();
+      this.model = candidate;
+      this.metadata = metadata;
+      candidate = null;
+
+      return { promoted: true, validationMae, baselineMae, version: metadata.version };
+    } finally {
+      xs?.dispose();
+      ys?.dispose();
+      // Still set unless promoted
+      candidate?.dispose();
+      this.isTraining = false;
+    }
+  }
+
+  // The current model learned from these samples, so it goes too; a retrain replaces it from what's left
+  async deleteSamplesForUser(userId: string): Promise<number> {
+    if (!this.db) return 0;
+
+    const samples: SizeTrainingSample[] = await this.db.getAll('samples');
+    const owned = samples.filter(sample => sample.userId === userId);
+    if (owned.length === 0) return 0;
+
+    await Promise.all(owned.map(sample => this.db!.delete('samples', sample.id)));
+    this.samplesInvalidated = true;
+    await this.discardModel();
+
+    try {
+      await this.train();
+    } catch (error) {
+      console.warn('Size model retraining after deletion failed:', error);
+    }
+
+    return owned.length;
+  }
+
+  async clear(): Promise<void> {
+    if (this.db) {
+      await this.db.clear('samples');
+    }
+    this.samplesInvalidated = true;
+    await this.discardModel();
+  }
+
+  // Private helper methods
+  private async discardModel(): Promise<void> {
+    this.model?.dispose();
+    this.model = null;
+    this.metadata = null;
+
+    if (this.db) {
+      await this.db.delete('meta', 'model');
+    }
+
+    try {
+      await tf.io.removeModel(MODEL_URL);
+    } catch (error) {
+      // Nothing stored yet
+    }
+  }
+
+  private createModel(featureCount: number): tf.LayersModel {
+    const model = tf.sequential();
+    model.add(tf.layers.dense({ inputShape: [featureCount], units: 16, activation: 'relu' }));
+    model.add(tf.layers.dense({ units: 8, activation: 'relu' }));
+    model.add(tf.layers.dense({ units: 1 }));
+
+    model.compile({
+      optimizer: tf.train.adam(0.01),
+      loss: 'meanSquaredError'
+    });
+
+    return model;
+  }
+
+  private evaluate(model: tf.LayersModel, holdout: SizeTrainingSample[]): number {
+    const predictions = tf.tidy(() => {
+      const xs = tf.tensor2d(holdout.map(sample => sample.features));
+      return Array.from((model.predict(xs) as tf.Tensor).dataSync());
+    });
+
+    return holdout.reduce(
+      (sum, sample, index) => sum + Math.abs(predictions[index] * TARGET_SCALE - sample.targetMeasurement), 0
+    ) / holdout.length;
+  }
+
+  private splitSamples(samples: SizeTrainingSample[]): { training: SizeTrainingSample[]; holdout: SizeTrainingSample[] } {
+    // Split on a hash of the sample id so a sample stays in the same set across retrains
+    const training: SizeTrainingSample[] = [];
+    const holdout: SizeTrainingSample[] = [];
+
+    samples.forEach(sample => {
+      const bucket = this.hashString(sample.id) % 100;
+      (bucket < HOLDOUT_RATIO * 100 ? holdout : training).push(sample);
+    });
+
+    // Guarantee a usable holdout on small datasets
+    if (holdout.length === 0) {
+      holdout.push(training.pop()!);
+    }
+
+    return { training, holdout };
+  }
+
+  private hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+      hash = ((hash << 5) - hash + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+  }
+}
+
+// Interfaces
+export interface SizeTrainingSample {
+  id: string;
+  userId?: string;
+  features: number[];
+  featureSchemaVersion: number;
+  targetMeasurement: number; // cm, chart measurement of the size that actually fit
+  baselineMeasurement: number; // cm, chart measurement of the rule-based recommendation
+  timestamp: number;
+}
+
+export interface SizeModelMetadata {
+  version: number;
+  featureSchemaVersion: number;
+  trainedAt: string;
+  trainingSamples: number;
+  holdoutSamples: number;
+  validationMae: number;
+  baselineMae: number;
+}
+
+export interface SizeModelPrediction {
+  targetMeasurement: number;
+  validationError: number;
+  version: number;
+}
+
+export interface SizeModelTrainingResult {
+  promoted: boolean;
+  reason?: string;
+  validationMae?: number;
+  baselineMae?: number;
+  version?: number;
+}
+
+export default SizeRegressionModel;
@@ -0,0 +1,39 @@
+// "    at fn (url:line:col)" or "    at url:line:col" (V8), and "fn@url:line:col" (Firefox, Safari)
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+/**
+ * Frames of an Error.stack string, innermost first. Lines that aren't frames
+ * (the message line, "eval" markers, native code) are skipped.
+ */
+export function parseStack(stack?: string): StackFrame[] {
+  if (!stack) return [];
+
+  const frames: StackFrame[] = [];
+  stack.split('\n').forEach(line => {
+    const match = V8_FRAME.exec(line) || GECKO_FRAME.exec(line);
+    if (!match) return;
+
+    frames.push({
+      functionName: match[1] || undefined,
+      file: match[2],
+      line: Number(match[3]),
+      column: Number(match[4])
+    });
+  });
+
+  return frames;
+}
+
+export function formatFrame(frame: StackFrame): string {
+  const location = `${frame.file}:${frame.line}:${frame.column}`;
+  return frame.functionName ? `    at ${frame.functionName} (${location})` : `    at ${location}`;
+}
+
+// Interfaces
+export interface StackFrame {
+  functionName?: string;
+  file: string;
+  line: number;
+  column: number;
+}
@@ -0,0 +1,276 @@
+import { formatFrame, parseStack, StackFrame } from './stackTrace';
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const VLQ_CONTINUATION = 32;
+
+/**
+ * Maps minified stack frames back to original files, lines and function
+ * names using the build's source maps. Has no browser dependencies, so the
+ * same code backs the in-app triage view and scripts/symbolicate.ts; only
+ * the loader that finds a bundle's source map differs.
+ */
+class StackSymbolicator {
+  private loadSourceMap: SourceMapLoader;
+  private contextLines: number;
+  private maps = new Map<string, Promise<ParsedSourceMap | null>>();
+
+  constructor(loadSourceMap: SourceMapLoader, contextLines = 3) {
+    this.loadSourceMap = loadSourceMap;
+    this.contextLines = contextLines;
+  }
+
+  async symbolicateStack(stack: string): Promise<SymbolicatedStack> {
+    const generated = parseStack(stack);
+    // The message, for engines that start the stack with one
+    const stackLines = stack.split('\n');
+    const firstFrame = stackLines.findIndex(line => parseStack(line).length > 0);
+    const header = firstFrame === -1 ? stackLines : stackLines.slice(0, firstFrame);
+
+    const resolved = await Promise.all(generated.map(frame => this.resolve(frame)));
+    const frames: SymbolicatedFrame[] = generated.map((frame, index) => {
+      const position = resolved[index];
+      if (!position) return { generated: frame };
+
+      // A mapping names the identifier at a position, which for the caller's frame is the call to this function
+      const callerName = resolved[index + 1]?.name;
+      return {
+        generated: frame,
+        original: {
+          source: position.source,
+          line: position.line,
+          column: position.column,
+          functionName: callerName || frame.functionName
+        },
+        context: position.context
+      };
+    });
+
+    const frameLines = frames.map(({ generated: frame, original }) =>
+      formatFrame(original ? { functionName: original.functionName, file: original.source, line: original.line, column: original.column } : frame)
+    );
+
+    return { stack: [...header, ...frameLines].join('\n'), frames };
+  }
+
+  // Copy of the report with its stack rewritten; the minified stack is kept for reference
+  async symbolicateReport<T extends { stack?: string }>(report: T): Promise<T & SymbolicatedReportFields> {
+    if (!report.stack) return { ...report };
+
+    const { stack, frames } = await this.symbolicateStack(report.stack);
+    return { ...report, stack, minifiedStack: report.stack, symbolicatedFrames: frames };
+  }
+
+  private async resolve(frame: StackFrame): Promise<ResolvedPosition | null> {
+    if (!this.maps.has(frame.file)) {
+      this.maps.set(frame.file, this.loadSourceMap(frame.file)
+        .then(raw => (raw ? parseSourceMap(raw) : null))
+        .catch(error => {
+          console.warn(`Failed to load source map for ${frame.file}:`, error);
+          return null;
+        }));
+    }
+
+    const map = await this.maps.get(frame.file);
+    // Stack positions are 1-based, source map positions 0-based
+    const segment = map && findSegment(map.lines[frame.line - 1], frame.column - 1);
+    if (!map || !segment || segment.source === undefined) return null;
+
+    const source = map.sources[segment.source];
+    const content = map.sourcesContent[segment.source];
+    const line = segment.sourceLine! + 1;
+
+    return {
+      source,
+      line,
+      column: segment.sourceColumn! + 1,
+      name: segment.name !== undefined ? map.names[segment.name] : undefined,
+      context: content ? extractContext(content, line, this.contextLines) : undefined
+    };
+  }
+}
+
+/**
+ * Loader for the browser: fetches "<bundle>.map" from baseUrl, or from next
+ * to the bundle when no base is given. Builds that keep maps off the public
+ * site (hidden source maps) point baseUrl at wherever they're stored.
+ */
+export function createFetchSourceMapLoader(baseUrl?: string): SourceMapLoader {
+  return async (file: string) => {
+    if (!/^https?:/.test(file)) return null;
+
+    const bundle = new URL(file);
+    const url = baseUrl ? `${baseUrl.replace(/\/$/, '')}${bundle.pathname}.map` : `${bundle.origin}${bundle.pathname}.map`;
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return response.json();
+  };
+}
+
+export function parseSourceMap(raw: RawSourceMap): ParsedSourceMap {
+  if (raw.version !== 3 || typeof raw.mappings !== 'string') {
+    throw new Error('Only version 3 source maps without sections are supported');
+  }
+
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+  return {
+    sources: raw.sources.map(source => root + source),
+    sourcesContent: raw.sourcesContent || [],
+    names: raw.names || [],
+    lines: decodeMappings(raw.mappings)
+  };
+}
+
+// Fields in a segment are deltas from the previous segment; the generated column resets each line
+function decodeMappings(mappings: string): MappingSegment[][] {
+  let source = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let name = 0;
+
+  return mappings.split(';').map(line => {
+    let generatedColumn = 0;
+    const segments: MappingSegment[] = [];
+
+    line.split(',').forEach(encoded => {
+      if (!encoded) return;
+      const values = decodeVlq(encoded);
+
+      generatedColumn += values[0];
+      const segment: MappingSegment = { generatedColumn };
+      if (values.length >= 4) {
+        source += values[1];
+        sourceLine += values[2];
+        sourceColumn += values[3];
+        Object.assign(segment, { source, sourceLine, sourceColumn });
+      }
+      if (values.length >= 5) {
+        name += values[4];
+        segment.name = name;
+      }
+      segments.push(segment);
+    });
+
+    return segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+  });
+}
+
+// Base64 VLQ: 5 value bits per digit, a continuation bit, and the sign in the lowest bit of the result
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid base64 VLQ character: ${char}`);
+
+    value += (digit & (VLQ_CONTINUATION - 1)) << shift;
+    if (digit & VLQ_CONTINUATION) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+// Last segment starting at or before the column
+function findSegment(segments: MappingSegment[] | undefined, column: number): MappingSegment | null {
+  if (!segments || segments.length === 0) return null;
+
+  let low = 0;
+  let high = segments.length - 1;
+  let found: MappingSegment | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle].generatedColumn <= column) {
+      found = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+function extractContext(content: string, line: number, radius: number): ContextLine[] {
+  const lines = content.split('\n');
+  const first = Math.max(1, line - radius);
+  const last = Math.min(lines.length, line + radius);
+
+  const context: ContextLine[] = [];
+  for (let number = first; number <= last; number++) {
+    context.push({ line: number, code: lines[number - 1], isErrorLine: number === line });
+  }
+  return context;
+}
+
+// Interfaces
+export type SourceMapLoader = (file: string) => Promise<RawSourceMap | null>;
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  names?: string[];
+  mappings: string;
+  sourceRoot?: string;
+  sourcesContent?: Array<string | null>;
+  file?: string;
+}
+
+export interface ParsedSourceMap {
+  sources: string[];
+  sourcesContent: Array<string | null>;
+  names: string[];
+  // Segments for each generated line, sorted by column
+  lines: MappingSegment[][];
+}
+
+export interface SymbolicatedFrame {
+  generated: StackFrame;
+  // Missing when no source map covers the frame
+  original?: {
+    source: string;
+    line: number;
+    column: number;
+    functionName?: string;
+  };
+  context?: ContextLine[];
+}
+
+export interface SymbolicatedStack {
+  stack: string;
+  frames: SymbolicatedFrame[];
+}
+
+export interface SymbolicatedReportFields {
+  minifiedStack?: string;
+  symbolicatedFrames?: SymbolicatedFrame[];
+}
+
+export interface ContextLine {
+  line: number;
+  code: string;
+  isErrorLine: boolean;
+}
+
+interface MappingSegment {
+  generatedColumn: number;
+  source?: number;
+  sourceLine?: number;
+  sourceColumn?: number;
+  name?: number;
+}
+
+interface ResolvedPosition {
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+  context?: ContextLine[];
+}
+
+export default StackSymbolicator;
@@ -0,0 +1,331 @@
+import EnhancedApiService, { ImageMetadata, ImageUploadResult } from './enhancedApiService';
+
+class VideoRecordingService {
+  private static instance: VideoRecordingService;
+  private mediaRecorder: MediaRecorder | null = null;
+  private compositeCanvas: HTMLCanvasElement | null = null;
+  private chunks: Blob[] = [];
+  private animationFrameId: number | null = null;
+  private state: RecordingState = 'idle';
+  private options: RecordingOptions = { ...DEFAULT_RECORDING_OPTIONS };
+  private startedAt = 0;
+  private pausedAt = 0;
+  private pausedDuration = 0;
+  private recordedDuration = 0;
+  private stopPromise: Promise<RecordingResult> | null = null;
+  private resolveStop: ((result: RecordingResult) => void) | null = null;
+  private rejectStop: ((error: Error) => void) | null = null;
+  private listeners: Set<(status: RecordingStatus) => void> = new Set();
+
+  static getInstance(): VideoRecordingService {
+    if (!VideoRecordingService.instance) {
+      VideoRecordingService.instance = new VideoRecordingService();
+    }
+    return VideoRecordingService.instance;
+  }
+
+  isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' &&
+      typeof HTMLCanvasElement !== 'undefined' &&
+      'captureStream' in HTMLCanvasElement.prototype;
+  }
+
+  async startRecording(source: RecordingSource, options: Partial<RecordingOptions> = {}): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('Video recording is not supported in this browser');
+    }
+
+    if (this.state !== 'idle') {
+      throw new Error('A recording is already in progress');
+    }
+
+    const { video } = source;
+    if (!video || video.readyState < 2 || !video.videoWidth) {
+      throw new Error('Camera stream is not ready for recording');
+    }
+
+    this.options = { ...DEFAULT_RECORDING_OPTIONS, ...options };
+    this.chunks = [];
+    this.pausedDuration = 0;
+    this.recordedDuration = 0;
+
+    // Composite camera and overlay into a single canvas so the clip matches what the shopper sees
+    this.compositeCanvas = document.createElement('canvas');
+    this.compositeCanvas.width = video.videoWidth;
+    this.compositeCanvas.height = video.videoHeight;
+
+    const stream = this.compositeCanvas.captureStream(this.options.frameRate);
+    const mimeType = this.selectMimeType();
+
+    try {
+      this.mediaRecorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: this.options.videoBitsPerSecond
+      });
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      this.compositeCanvas = null;
+      throw error;
+    }
+
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data && event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+
+    this.mediaRecorder.onstop = () => this.finalizeRecording(mimeType);
+
+    this.mediaRecorder.onerror = (event: Event & { error?: unknown }) => {
+      const error = event.error instanceof Error ? event.error : new Error('Recording failed');
+      this.rejectStop?.(error);
+      this.cleanup();
+    };
+
+    this.stopPromise = new Promise((resolve, reject) => {
+      this.resolveStop = resolve;
+      this.rejectStop = reject;
+    });
+    // Callers observe failures through stopRecording or whenStopped; unobserved ones must not surface as unhandled
+    this.stopPromise.catch(() => {});
+
+    try {
+      this.startCompositing(source);
+      this.mediaRecorder.start(this.options.timeslice);
+    } catch (error) {
+      this.cleanup();
+      throw error;
+    }
+    this.startedAt = performance.now();
+    this.setState('recording');
+  }
+
+  pauseRecording(): void {
+    if (this.state !== 'recording' || !this.mediaRecorder) return;
+
+    this.mediaRecorder.pause();
+    this.pausedAt = performance.now();
+    this.setState('paused');
+  }
+
+  resumeRecording(): void {
+    if (this.state !== 'paused' || !this.mediaRecorder) return;
+
+    this.pausedDuration += performance.now() - this.pausedAt;
+    this.mediaRecorder.resume();
+    this.setState('recording');
+  }
+
+  async stopRecording(): Promise<RecordingResult> {
+    if (!this.mediaRecorder || !this.stopPromise) {
+      throw new Error('No recording in progress');
+    }
+
+    if (this.state !== 'stopping') {
+      this.recordedDuration = this.getElapsedTime();
+      this.setState('stopping');
+      this.mediaRecorder.stop();
+    }
+
+    return this.stopPromise;
+  }
+
+  // Resolves when the recording stops, whether by the user or the max-duration cap
+  whenStopped(): Promise<RecordingResult> {
+    if (!this.stopPromise) {
+      return Promise.reject(new Error('No recording in progress'));
+    }
+    return this.stopPromise;
+  }
+
+  cancelRecording(): void {
+    if (!this.mediaRecorder) return;
+
+    this.mediaRecorder.onstop = null;
+    if (this.mediaRecorder.state !== 'inactive') {
+      this.mediaRecorder.stop();
+    }
+    this.rejectStop?.(new Error('Recording cancelled'));
+    this.cleanup();
+  }
+
+  getElapsedTime(): number {
+    if (this.state === 'idle') return 0;
+    if (this.state === 'stopping') return this.recordedDuration;
+
+    const now = this.state === 'paused' ? this.pausedAt : performance.now();
+    return Math.max(0, now - this.startedAt - this.pausedDuration);
+  }
+
+  getStatus(): RecordingStatus {
+    return {
+      state: this.state,
+      elapsed: this.getElapsedTime(),
+      maxDuration: this.options.maxDuration
+    };
+  }
+
+  onStatusChange(listener: (status: RecordingStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  downloadRecording(recording: RecordingResult, filename?: string): void {
+    const link = document.createElement('a');
+    link.href = recording.url;
+    link.download = filename || `virtualfit-tryon-${Date.now()}.webm`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  }
+
+  async uploadRecording(recording: RecordingResult, metadata?: ImageMetadata): Promise<ImageUploadResult> {
+    const file = new File([recording.blob], `tryon-${Date.now()}.webm`, {
+      type: recording.mimeType
+    });
+
+    return EnhancedApiService.getInstance().uploadImage(file, {
+      category: 'tryon-video',
+      ...metadata,
+      tags: [...(metadata?.tags || []), 'video', 'tryon']
+    });
+  }
+
+  releaseRecording(recording: RecordingResult): void {
+    URL.revokeObjectURL(recording.url);
+  }
+
+  // Private helper methods
+  private startCompositing(source: RecordingSource): void {
+    const ctx = this.compositeCanvas!.getContext('2d')!;
+
+    const drawFrame = () => {
+      if (!this.compositeCanvas) return;
+
+      const { width, height } = this.compositeCanvas;
+
+      if (this.state !== 'paused') {
+        // Only the camera is mirrored, as in the preview; the overlay is drawn the way it's displayed
+        ctx.save();
+        if (this.options.mirrored) {
+          ctx.translate(width, 0);
+          ctx.scale(-1, 1);
+        }
+        ctx.drawImage(source.video, 0, 0, width, height);
+        ctx.restore();
+
+        const overlay = source.getOverlay?.();
+        if (overlay && overlay.width > 0 && overlay.height > 0) {
+          ctx.save();
+          ctx.globalCompositeOperation = this.options.overlayBlendMode;
+          ctx.drawImage(overlay, 0, 0, width, height);
+          ctx.restore();
+        }
+
+        if (this.state === 'recording' && this.getElapsedTime() >= this.options.maxDuration) {
+          this.stopRecording().catch(error => console.warn('Failed to stop recording at max duration:', error));
+        }
+      }
+
+      this.animationFrameId = requestAnimationFrame(drawFrame);
+    };
+
+    this.animationFrameId = requestAnimationFrame(drawFrame);
+  }
+
+  private selectMimeType(): string {
+    const candidates = [
+      'video/webm;codecs=vp9',
+      'video/webm;codecs=vp8',
+      'video/webm'
+    ];
+
+    return candidates.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+  }
+
+  private finalizeRecording(mimeType: string): void {
+    const blob = new Blob(this.chunks, { type: mimeType.split(';')[0] });
+    const result: RecordingResult = {
+      blob,
+      url: URL.createObjectURL(blob),
+      mimeType: blob.type,
+      duration: this.recordedDuration,
+      size: blob.size,
+      width: this.compositeCanvas?.width || 0,
+      height: this.compositeCanvas?.height || 0
+    };
+
+    this.resolveStop?.(result);
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+
+    this.mediaRecorder?.stream.getTracks().forEach(track => track.stop());
+    this.mediaRecorder = null;
+    this.compositeCanvas = null;
+    this.chunks = [];
+    this.stopPromise = null;
+    this.resolveStop = null;
+    this.rejectStop = null;
+    this.setState('idle');
+  }
+
+  private setState(state: RecordingState): void {
+    this.state = state;
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  maxDuration: 30000, // 30 seconds
+  frameRate: 30,
+  videoBitsPerSecond: 2500000,
+  timeslice: 1000,
+  mirrored: false,
+  overlayBlendMode: 'source-over'
+};
+
+// Interfaces
+export type RecordingState = 'idle' | 'recording' | 'paused' | 'stopping';
+
+export interface RecordingSource {
+  video: HTMLVideoElement;
+  getOverlay?: () => HTMLCanvasElement | null;
+}
+
+export interface RecordingOptions {
+  maxDuration: number; // milliseconds
+  frameRate: number;
+  videoBitsPerSecond: number;
+  timeslice: number;
+  // Mirrors the camera layer only, like a selfie preview
+  mirrored: boolean;
+  // Should match the overlay's CSS mix-blend-mode so the clip looks like the preview
+  overlayBlendMode: GlobalCompositeOperation;
+}
+
+export interface RecordingStatus {
+  state: RecordingState;
+  elapsed: number;
+  maxDuration: number;
+}
+
+export interface RecordingResult {
+  blob: Blob;
+  url: string;
+  mimeType: string;
+  duration: number;
+  size: number;
+  width: number;
+  height: number;
+}
+
+export default VideoRecordingService;
@@ -9,22 +9,22 @@ export interface AdvancedUser extends User {
 }
 
 export interface AdvancedBodyMeasurements {
-  height: number;
-  weight?: number;
-  chest: number;
-  waist: number;
-  hips: number;
-  shoulderWidth: number;
-  armLength: number;
-  legLength: number;
-  neckCircumference: number;
-  bicepCircumference: number;
-  forearmCircumference: number;
-  thighCircumference: number;
-  calfCircumference: number;
-  footLength: number;
-  torsoLength: number;
-  inseam: number;
+  height: Centimeters;
+  weight?: Kilograms;
+  chest: Centimeters;
+  waist: Centimeters;
+  hips: Centimeters;
+  shoulderWidth: Centimeters;
+  armLength: Centimeters;
+  legLength: Centimeters;
+  neckCircumference: Centimeters;
+  bicepCircumference: Centimeters;
+  forearmCircumference: Centimeters;
+  thighCircumference: Centimeters;
+  calfCircumference: Centimeters;
+  footLength: Centimeters;
+  torsoLength: Centimeters;
+  inseam: Centimeters;
   bodyFatPercentage?: number;
   muscleMass?: number;
   bodyType: BodyType;
@@ -488,6 +488,23 @@ export interface StabilityMetrics {
   cameraMovement: number; // 0-100%
 }
 
+// Measurement units
+// Services store and compute in canonical units. Centimeters and Kilograms only document that;
+// values crossing a UI boundary are Measurements that carry their unit (see MeasurementInput in utils/measurementUnits)
+export type Centimeters = number;
+export type Kilograms = number;
+export type LengthUnit = 'cm' | 'in';
+export type WeightUnit = 'kg' | 'lb';
+export type MeasurementSystem = 'metric' | 'imperial';
+
+export interface Measurement<U extends string> {
+  value: number;
+  unit: U;
+}
+
+export type LengthMeasurement = Measurement<LengthUnit>;
+export type WeightMeasurement = Measurement<WeightUnit>;
+
 // Extended existing types
 export type BodyType = 'ectomorph' | 'mesomorph' | 'endomorph' | 'pear' | 'apple' | 'hourglass' | 'rectangle' | 'inverted-triangle' | 'athletic' | 'petite' | 'tall' | 'plus-size';
 
@@ -0,0 +1,189 @@
+import {
+  Centimeters,
+  Kilograms,
+  LengthMeasurement,
+  LengthUnit,
+  MeasurementSystem,
+  WeightMeasurement,
+  WeightUnit
+} from '../types/enhanced';
+
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.45359237;
+
+// Regions that size clothing in inches and pounds
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+const LENGTH_FIELDS = [
+  'height', 'chest', 'waist', 'hips', 'shoulderWidth', 'armLength', 'legLength', 'inseam',
+  'neckCircumference', 'bicepCircumference', 'forearmCircumference', 'thighCircumference',
+  'calfCircumference', 'footLength', 'torsoLength'
+] as const;
+
+export function convertLength(measurement: LengthMeasurement, unit: LengthUnit): LengthMeasurement {
+  if (measurement.unit === unit) return measurement;
+
+  const value = unit === 'in'
+    ? measurement.value / CM_PER_INCH
+    : measurement.value * CM_PER_INCH;
+
+  return { value, unit };
+}
+
+export function convertWeight(measurement: WeightMeasurement, unit: WeightUnit): WeightMeasurement {
+  if (measurement.unit === unit) return measurement;
+
+  const value = unit === 'lb'
+    ? measurement.value / KG_PER_POUND
+    : measurement.value * KG_PER_POUND;
+
+  return { value, unit };
+}
+
+export function toCentimeters(measurement: LengthMeasurement): Centimeters {
+  return convertLength(measurement, 'cm').value;
+}
+
+export function toKilograms(measurement: WeightMeasurement): Kilograms {
+  return convertWeight(measurement, 'kg').value;
+}
+
+// Converts measurements that carry their units into the canonical cm/kg numbers the services use
+export function normalizeMeasurements<T>(input: MeasurementInput<T>): T {
+  const result: Record<string, unknown> = {};
+
+  Object.entries(input as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'weight' && isMeasurement(value)) {
+      result[key] = toKilograms(value as WeightMeasurement);
+    } else if (isLengthField(key) && isMeasurement(value)) {
+      result[key] = toCentimeters(value as LengthMeasurement);
+    } else {
+      result[key] = value;
+    }
+  });
+
+  return result as T;
+}
+
+// Attaches units to canonical measurements, in the given system, for display, editing or a unit-aware component
+export function localizeMeasurements<T>(measurements: T, system: MeasurementSystem = 'metric'): MeasurementInput<T> {
+  const units = getUnitsForSystem(system);
+  const result: Record<string, unknown> = {};
+
+  Object.entries(measurements as Record<string, unknown>).forEach(([key, value]) => {
+    if (typeof value !== 'number') {
+      result[key] = value;
+    } else if (key === 'weight') {
+      result[key] = convertWeight({ value, unit: 'kg' }, units.weight);
+    } else if (isLengthField(key)) {
+      result[key] = convertLength({ value, unit: 'cm' }, units.length);
+    } else {
+      result[key] = value;
+    }
+  });
+
+  return result as MeasurementInput<T>;
+}
+
+export function getDefaultLocale(): string {
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US';
+}
+
+export function getMeasurementSystem(locale: string = getDefaultLocale()): MeasurementSystem {
+  const region = locale.split(/[-_]/)[1]?.toUpperCase();
+  return region && IMPERIAL_REGIONS.includes(region) ? 'imperial' : 'metric';
+}
+
+export function getUnitsForSystem(system: MeasurementSystem): { length: LengthUnit; weight: WeightUnit } {
+  return system === 'imperial'
+    ? { length: 'in', weight: 'lb' }
+    : { length: 'cm', weight: 'kg' };
+}
+
+export function formatLength(
+  value: Centimeters,
+  locale: string = getDefaultLocale(),
+  system: MeasurementSystem = getMeasurementSystem(locale)
+): string {
+  const { length } = getUnitsForSystem(system);
+  const converted = convertLength({ value, unit: 'cm' }, length);
+
+  return formatUnit(converted.value, length === 'in' ? 'inch' : 'centimeter', locale, length === 'in' ? 1 : 0);
+}
+
+// Heights read more naturally as feet and inches in imperial locales
+export function formatHeight(
+  value: Centimeters,
+  locale: string = getDefaultLocale(),
+  system: MeasurementSystem = getMeasurementSystem(locale)
+): string {
+  if (system === 'metric') {
+    return formatLength(value, locale, system);
+  }
+
+  const totalInches = Math.round(value / CM_PER_INCH);
+  const feet = Math.floor(totalInches / 12);
+  const inches = totalInches % 12;
+  return `${formatUnit(feet, 'foot', locale, 0)} ${formatUnit(inches, 'inch', locale, 0)}`;
+}
+
+export function formatWeight(
+  value: Kilograms,
+  locale: string = getDefaultLocale(),
+  system: MeasurementSystem = getMeasurementSystem(locale)
+): string {
+  const { weight } = getUnitsForSystem(system);
+  const converted = convertWeight({ value, unit: 'kg' }, weight);
+
+  return formatUnit(converted.value, weight === 'lb' ? 'pound' : 'kilogram', locale, 0);
+}
+
+// Number only, for tables whose header already names the unit
+export function formatLengthValue(
+  value: Centimeters,
+  locale: string = getDefaultLocale(),
+  system: MeasurementSystem = getMeasurementSystem(locale)
+): string {
+  const { length } = getUnitsForSystem(system);
+  const converted = convertLength({ value, unit: 'cm' }, length);
+
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: length === 'in' ? 1 : 0 }).format(converted.value);
+}
+
+export function getLengthUnitLabel(system: MeasurementSystem): string {
+  return getUnitsForSystem(system).length;
+}
+
+function isLengthField(key: string): key is LengthField {
+  return (LENGTH_FIELDS as readonly string[]).includes(key);
+}
+
+function isMeasurement(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && 'value' in value && 'unit' in value;
+}
+
+function formatUnit(value: number, unit: string, locale: string, maximumFractionDigits: number): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'unit',
+      unit,
+      unitDisplay: 'short',
+      maximumFractionDigits
+    }).format(value);
+  } catch (error) {
+    // Older browsers without unit formatting support
+    const abbreviations: Record<string, string> = {
+      centimeter: 'cm', inch: 'in', foot: 'ft', kilogram: 'kg', pound: 'lb'
+    };
+    return `${value.toFixed(maximumFractionDigits)} ${abbreviations[unit] || unit}`;
+  }
+}
+
+// Interfaces
+type LengthField = typeof LENGTH_FIELDS[number];
+
+// Measurements as they cross a UI boundary: every length and the weight carry their unit,
+// so a bare number can't be taken for centimeters; other fields pass through unchanged
+export type MeasurementInput<T> = {
+  [K in keyof T]: K extends LengthField ? LengthMeasurement : K extends 'weight' ? WeightMeasurement : T[K];
+};